@@ -0,0 +1,30 @@
+; Tag query for C (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions; `struct S;` only declares, so types need a body
+
+(function_definition
+  declarator: (function_declarator declarator: (identifier) @name)) @definition.function
+(function_definition
+  declarator: (pointer_declarator
+    declarator: (function_declarator declarator: (identifier) @name))) @definition.function
+(function_definition
+  declarator: (pointer_declarator
+    declarator: (pointer_declarator
+      declarator: (function_declarator declarator: (identifier) @name)))) @definition.function
+(struct_specifier name: (type_identifier) @name body: (_)) @definition.struct
+(union_specifier name: (type_identifier) @name body: (_)) @definition.struct
+(enum_specifier name: (type_identifier) @name body: (_)) @definition.enum
+(type_definition
+  type: [(struct_specifier !name body: (_)) (union_specifier !name body: (_))]
+  declarator: (type_identifier) @name) @definition.struct
+
+; Calls
+
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (field_expression argument: _ @receiver field: (field_identifier) @name)) @reference.call
+
+; Includes
+
+(preproc_include path: (_) @name) @reference.import
@@ -0,0 +1,75 @@
+; Tag query for C++ (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions; `Foo::run` defined outside its class is scoped under Foo
+
+(namespace_definition name: [(namespace_identifier) (nested_namespace_specifier)] @name) @definition.namespace
+
+; Constructors: functions named after their class, in it or out of line
+; (`Foo::Foo`, `ns::Foo::Foo`)
+
+(class_specifier
+  name: (type_identifier) @_class
+  body: (field_declaration_list
+    (function_definition
+      declarator: (function_declarator declarator: (identifier) @name)) @definition.constructor)
+  (#eq? @name @_class))
+(struct_specifier
+  name: (type_identifier) @_class
+  body: (field_declaration_list
+    (function_definition
+      declarator: (function_declarator declarator: (identifier) @name)) @definition.constructor)
+  (#eq? @name @_class))
+(function_definition
+  declarator: (function_declarator
+    declarator: (qualified_identifier
+      scope: (namespace_identifier) @_class
+      name: (identifier) @_constructor) @name)
+  (#eq? @_constructor @_class)) @definition.constructor
+(function_definition
+  declarator: (function_declarator
+    declarator: (qualified_identifier
+      name: (qualified_identifier
+        scope: (namespace_identifier) @_class
+        name: (identifier) @_constructor)) @name)
+  (#eq? @_constructor @_class)) @definition.constructor
+
+; Other functions and types
+
+(function_definition
+  declarator: (function_declarator
+    declarator: [(identifier) (field_identifier) (qualified_identifier) (destructor_name)] @name)) @definition.function
+(function_definition
+  declarator: [
+    (pointer_declarator
+      declarator: (function_declarator declarator: [(identifier) (field_identifier) (qualified_identifier)] @name))
+    (reference_declarator
+      (function_declarator declarator: [(identifier) (field_identifier) (qualified_identifier)] @name))
+  ]) @definition.function
+(class_specifier name: [(type_identifier) (qualified_identifier)] @name body: (_)) @definition.class
+(struct_specifier name: [(type_identifier) (qualified_identifier)] @name body: (_)) @definition.struct
+(union_specifier name: (type_identifier) @name body: (_)) @definition.struct
+(enum_specifier name: (type_identifier) @name body: (_)) @definition.enum
+
+; Lambdas bound to a name
+
+(declaration
+  declarator: (init_declarator declarator: (identifier) @name value: (lambda_expression))) @definition.function
+
+; Calls and `new`
+
+(call_expression function: [(identifier) (qualified_identifier)] @name) @reference.call
+(call_expression function: (field_expression argument: _ @receiver field: (field_identifier) @name)) @reference.call
+(call_expression function: (template_function name: [(identifier) (qualified_identifier)] @name)) @reference.call
+(new_expression type: [(type_identifier) (qualified_identifier)] @name) @reference.class
+(new_expression type: (template_type name: (_) @name)) @reference.class
+
+; Base classes
+
+(base_class_clause [(type_identifier) (qualified_identifier)] @name @reference.extends)
+(base_class_clause (template_type name: (_) @name) @reference.extends)
+
+; Includes
+
+(preproc_include path: (_) @name) @reference.import
@@ -0,0 +1,36 @@
+; Tag query for C# (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+(namespace_declaration name: [(identifier) (qualified_name)] @name) @definition.namespace
+(class_declaration name: (identifier) @name) @definition.class
+(record_declaration name: (identifier) @name) @definition.class
+(interface_declaration name: (identifier) @name) @definition.interface
+(struct_declaration name: (identifier) @name) @definition.struct
+(enum_declaration name: (identifier) @name) @definition.enum
+(method_declaration name: (identifier) @name) @definition.method
+(constructor_declaration name: (identifier) @name) @definition.constructor
+
+; Calls and constructor calls
+
+(invocation_expression function: (identifier) @name) @reference.call
+(invocation_expression function: (generic_name (identifier) @name)) @reference.call
+(invocation_expression
+  function: (member_access_expression expression: _ @receiver name: (identifier) @name)) @reference.call
+(invocation_expression
+  function: (member_access_expression expression: _ @receiver name: (generic_name (identifier) @name))) @reference.call
+(object_creation_expression type: [(identifier) (qualified_name)] @name) @reference.class
+(object_creation_expression type: (generic_name (identifier) @name)) @reference.class
+
+; Base types: `class A : B, IC` does not say which is the base class; the
+; resolver tells implementations apart by the kind of the base
+
+(base_list [(identifier) (qualified_name)] @name @reference.extends)
+(base_list (generic_name (identifier) @name) @reference.extends)
+
+; Imports; an alias (`using A = B.C;`) names the module second
+
+(using_directive (qualified_name) @name) @reference.import
+(using_directive !name (identifier) @name) @reference.import
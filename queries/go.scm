@@ -0,0 +1,37 @@
+; Tag query for Go (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions; methods belong to their receiver type
+
+(function_declaration name: (identifier) @name) @definition.function
+(method_declaration
+  receiver: (parameter_list
+    (parameter_declaration
+      type: [
+        (type_identifier) @owner
+        (pointer_type (type_identifier) @owner)
+        (generic_type type: (type_identifier) @owner)
+        (pointer_type (generic_type type: (type_identifier) @owner))
+      ]))
+  name: (field_identifier) @name) @definition.method
+(type_spec name: (type_identifier) @name type: (struct_type)) @definition.struct
+(type_spec name: (type_identifier) @name type: (interface_type)) @definition.interface
+(type_spec name: (type_identifier) @name) @definition.class
+
+; Function literals bound to a name
+
+(short_var_declaration
+  left: (expression_list . (identifier) @name)
+  right: (expression_list . (func_literal))) @definition.function
+
+; Calls and composite literals
+
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (selector_expression operand: _ @receiver field: (field_identifier) @name)) @reference.call
+(composite_literal type: (type_identifier) @name) @reference.class
+(composite_literal type: (qualified_type package: (package_identifier) @receiver name: (type_identifier) @name)) @reference.class
+
+; Imports
+
+(import_spec path: (_) @name) @reference.import
@@ -0,0 +1,33 @@
+; Tag query for Java (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+(class_declaration name: (identifier) @name) @definition.class
+(record_declaration name: (identifier) @name) @definition.class
+(interface_declaration name: (identifier) @name) @definition.interface
+(annotation_type_declaration name: (identifier) @name) @definition.interface
+(enum_declaration name: (identifier) @name) @definition.enum
+(method_declaration name: (identifier) @name) @definition.method
+(constructor_declaration name: (identifier) @name) @definition.constructor
+
+; Calls, receiver first
+
+(method_invocation object: _ @receiver name: (identifier) @name) @reference.call
+(method_invocation name: (identifier) @name) @reference.call
+(object_creation_expression type: [(type_identifier) (scoped_type_identifier)] @name) @reference.class
+(object_creation_expression type: (generic_type [(type_identifier) (scoped_type_identifier)] @name)) @reference.class
+
+; Base types
+
+(superclass [(type_identifier) (scoped_type_identifier)] @name @reference.extends)
+(superclass (generic_type [(type_identifier) (scoped_type_identifier)] @name) @reference.extends)
+(super_interfaces (type_list [(type_identifier) (scoped_type_identifier)] @name @reference.implementation))
+(super_interfaces (type_list (generic_type [(type_identifier) (scoped_type_identifier)] @name) @reference.implementation))
+(extends_interfaces (type_list [(type_identifier) (scoped_type_identifier)] @name @reference.extends))
+(extends_interfaces (type_list (generic_type [(type_identifier) (scoped_type_identifier)] @name) @reference.extends))
+
+; Imports
+
+(import_declaration [(scoped_identifier) (identifier)] @name) @reference.import
@@ -0,0 +1,40 @@
+; Tag query for JavaScript and JSX (see src/syntactic/LanguageRegistry.ts
+; for the captures). When several patterns capture the same node, the
+; first one in this file wins.
+
+; Definitions
+
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(method_definition name: (property_identifier) @name (#eq? @name "constructor")) @definition.constructor
+(method_definition name: [(property_identifier) (private_property_identifier)] @name) @definition.method
+(class_declaration name: (identifier) @name) @definition.class
+
+; Functions bound to a variable or a class field
+
+(variable_declarator
+  name: (identifier) @name
+  value: [(arrow_function) (function_expression)]) @definition.function
+(field_definition
+  property: [(property_identifier) (private_property_identifier)] @name
+  value: [(arrow_function) (function_expression)]) @definition.method
+
+; Decorators, before the calls they contain
+
+(decorator (identifier) @name) @reference.decorator
+(decorator (member_expression object: _ @receiver property: (_) @name)) @reference.decorator
+(decorator (call_expression function: (identifier) @name)) @reference.decorator
+(decorator
+  (call_expression
+    function: (member_expression object: _ @receiver property: (_) @name))) @reference.decorator
+
+; Calls and constructor calls
+
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (member_expression object: _ @receiver property: (_) @name)) @reference.call
+(new_expression constructor: (identifier) @name) @reference.class
+(new_expression constructor: (member_expression object: _ @receiver property: (_) @name)) @reference.class
+
+; Base types
+
+(class_heritage [(identifier) (member_expression)] @name @reference.extends)
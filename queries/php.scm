@@ -0,0 +1,39 @@
+; Tag query for PHP (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+(function_definition name: (name) @name) @definition.function
+(class_declaration name: (name) @name) @definition.class
+(trait_declaration name: (name) @name) @definition.class
+(interface_declaration name: (name) @name) @definition.interface
+(enum_declaration name: (name) @name) @definition.enum
+(method_declaration name: (name) @name) @definition.method
+
+; Closures bound to a variable
+
+(assignment_expression
+  left: (variable_name (name) @name)
+  right: [(anonymous_function) (arrow_function)]) @definition.function
+
+; Calls and `new`
+
+(function_call_expression function: [(name) (qualified_name)] @name) @reference.call
+(member_call_expression object: _ @receiver name: (name) @name) @reference.call
+(nullsafe_member_call_expression object: _ @receiver name: (name) @name) @reference.call
+(scoped_call_expression scope: _ @receiver name: (name) @name) @reference.call
+(object_creation_expression [(name) (qualified_name)] @name) @reference.class
+
+; Base types
+
+(base_clause [(name) (qualified_name)] @name @reference.extends)
+(class_interface_clause [(name) (qualified_name)] @name @reference.implementation)
+
+; Imports
+
+(namespace_use_clause [(qualified_name) (name)] @name) @reference.import
+(require_expression [(string) (encapsed_string)] @name) @reference.import
+(require_once_expression [(string) (encapsed_string)] @name) @reference.import
+(include_expression [(string) (encapsed_string)] @name) @reference.import
+(include_once_expression [(string) (encapsed_string)] @name) @reference.import
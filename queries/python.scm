@@ -0,0 +1,28 @@
+; Tag query for Python (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+(function_definition name: (identifier) @name) @definition.function
+(class_definition name: (identifier) @name) @definition.class
+
+; Lambdas bound to a name
+
+(assignment left: (identifier) @name right: (lambda)) @definition.function
+
+; Decorators, before the calls they contain
+
+(decorator (identifier) @name) @reference.decorator
+(decorator (attribute object: _ @receiver attribute: (identifier) @name)) @reference.decorator
+(decorator (call function: (identifier) @name)) @reference.decorator
+(decorator (call function: (attribute object: _ @receiver attribute: (identifier) @name))) @reference.decorator
+
+; Calls
+
+(call function: (identifier) @name) @reference.call
+(call function: (attribute object: _ @receiver attribute: (identifier) @name)) @reference.call
+
+; Base classes
+
+(class_definition superclasses: (argument_list [(identifier) (attribute)] @name @reference.extends))
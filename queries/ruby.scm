@@ -0,0 +1,30 @@
+; Tag query for Ruby (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+(module name: [(constant) (scope_resolution)] @name) @definition.module
+(class name: [(constant) (scope_resolution)] @name) @definition.class
+(method name: (_) @name) @definition.method
+(singleton_method name: (_) @name) @definition.method
+
+; Lambdas bound to a name
+
+(assignment left: (identifier) @name right: (lambda)) @definition.function
+
+; Calls, receiver first
+
+(call receiver: _ @receiver method: (identifier) @name) @reference.call
+(call method: (identifier) @name) @reference.call
+
+; Superclasses
+
+(superclass [(constant) (scope_resolution)] @name @reference.extends)
+
+; Requires
+
+((call
+  method: (identifier) @_require
+  arguments: (argument_list . (string (string_content) @name))) @reference.import
+  (#match? @_require "^require(_relative)?$"))
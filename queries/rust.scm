@@ -0,0 +1,51 @@
+; Tag query for Rust (see src/syntactic/LanguageRegistry.ts for the
+; captures). When several patterns capture the same node, the first one in
+; this file wins.
+
+; Definitions
+
+; `new` in an inherent `impl` is the constructor by convention
+(impl_item
+  !trait
+  body: (declaration_list
+    (function_item name: (identifier) @name (#eq? @name "new")) @definition.constructor))
+(function_item name: (identifier) @name) @definition.function
+(function_signature_item name: (identifier) @name) @definition.function
+(struct_item name: (type_identifier) @name) @definition.struct
+(union_item name: (type_identifier) @name) @definition.struct
+(enum_item name: (type_identifier) @name) @definition.enum
+(trait_item name: (type_identifier) @name) @definition.interface
+(mod_item name: (identifier) @name) @definition.module
+
+; `impl` blocks scope their functions under the type
+
+(impl_item type: [(type_identifier) (scoped_type_identifier)] @name) @scope
+(impl_item type: (generic_type type: (_) @name)) @scope
+
+; Closures bound to a name
+
+(let_declaration pattern: (identifier) @name value: (closure_expression)) @definition.function
+
+; Calls and struct expressions
+
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (field_expression value: _ @receiver field: (field_identifier) @name)) @reference.call
+(call_expression function: (scoped_identifier path: _ @receiver name: (identifier) @name)) @reference.call
+(call_expression function: (generic_function function: (identifier) @name)) @reference.call
+(call_expression
+  function: (generic_function
+    function: (field_expression value: _ @receiver field: (field_identifier) @name))) @reference.call
+(call_expression
+  function: (generic_function
+    function: (scoped_identifier path: _ @receiver name: (identifier) @name))) @reference.call
+(struct_expression name: [(type_identifier) (scoped_type_identifier)] @name) @reference.class
+
+; Implemented traits and supertraits
+
+(impl_item trait: [(type_identifier) (scoped_type_identifier)] @name @reference.implementation)
+(impl_item trait: (generic_type type: (_) @name) @reference.implementation)
+(trait_item bounds: (trait_bounds [(type_identifier) (scoped_type_identifier)] @name @reference.extends))
+
+; Imports
+
+(use_declaration argument: (_) @name) @reference.import
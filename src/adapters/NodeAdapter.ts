@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    IWorkspace,
+    ITextDocument,
+    IFileSystem,
+    IProgress,
+    ICancellationToken
+} from '../types';
+import { detectLanguageId } from '../utils/LanguageDetector';
+import { matchesGlob } from '../utils/Glob';
+
+// Adapters implementing the editor abstractions on plain Node.js APIs
+export class NodeWorkspaceAdapter implements IWorkspace {
+    private workspacePath: string;
+    private fileSystem: IFileSystem;
+
+    constructor(workspacePath: string, fileSystem: IFileSystem = new FileSystemAdapter()) {
+        this.workspacePath = path.resolve(workspacePath);
+        this.fileSystem = fileSystem;
+    }
+
+    async findFiles(pattern: string, exclude: string): Promise<string[]> {
+        const files: string[] = [];
+
+        const walk = (dir: string) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(dir, { withFileTypes: true });
+            } catch (error) {
+                return; // Skip inaccessible directories
+            }
+
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                const relativePath = path.relative(this.workspacePath, fullPath).split(path.sep).join('/');
+
+                if (entry.isDirectory()) {
+                    if (!exclude || !matchesGlob(`${relativePath}/`, exclude)) {
+                        walk(fullPath);
+                    }
+                } else if (entry.isFile() &&
+                    matchesGlob(relativePath, pattern) &&
+                    !(exclude && matchesGlob(relativePath, exclude))) {
+                    files.push(fullPath);
+                }
+            }
+        };
+
+        walk(this.workspacePath);
+        return files;
+    }
+
+    async openTextDocument(filePath: string): Promise<ITextDocument> {
+        const content = await this.fileSystem.readFile(filePath);
+        return new NodeTextDocumentAdapter(path.resolve(filePath), content);
+    }
+
+    getWorkspacePath(): string | undefined {
+        return this.workspacePath;
+    }
+}
+
+export class NodeTextDocumentAdapter implements ITextDocument {
+    private content: string;
+    private lineOffsets: number[];
+    readonly uri: { fsPath: string };
+    readonly languageId: string;
+
+    constructor(filePath: string, content: string, languageId?: string) {
+        this.uri = { fsPath: filePath };
+        this.languageId = languageId || detectLanguageId(filePath);
+        this.content = content;
+
+        this.lineOffsets = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                this.lineOffsets.push(i + 1);
+            }
+        }
+    }
+
+    getText(): string {
+        return this.content;
+    }
+
+    lineAt(line: number): { text: string } {
+        if (line < 0 || line >= this.lineOffsets.length) {
+            throw new Error(`Illegal line number: ${line}`);
+        }
+        const start = this.lineOffsets[line];
+        const end = line + 1 < this.lineOffsets.length ? this.lineOffsets[line + 1] - 1 : this.content.length;
+        return { text: this.content.slice(start, end).replace(/\r$/, '') };
+    }
+
+    get lineCount(): number {
+        return this.lineOffsets.length;
+    }
+
+    positionAt(offset: number): { line: number; character: number } {
+        const clamped = Math.max(0, Math.min(offset, this.content.length));
+
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = this.lineOffsets.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineOffsets[mid] <= clamped) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { line: low, character: clamped - this.lineOffsets[low] };
+    }
+}
+
+export class ConsoleProgressAdapter implements IProgress {
+    constructor(private write: (message: string) => void = message => console.error(message)) {}
+
+    report(message: string): void {
+        this.write(message);
+    }
+}
+
+export class NodeCancellationTokenAdapter implements ICancellationToken {
+    private cancelled = false;
+    private listeners: Array<() => void> = [];
+
+    get isCancellationRequested(): boolean {
+        return this.cancelled;
+    }
+
+    onCancellationRequested(listener: () => void): void {
+        this.listeners.push(listener);
+    }
+
+    cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+export class FileSystemAdapter implements IFileSystem {
+    async readFile(path: string): Promise<string> {
+        const fs = await import('fs');
+        return fs.promises.readFile(path, 'utf8');
+    }
+
+    async writeFile(path: string, content: string): Promise<void> {
+        const fs = await import('fs');
+        await fs.promises.writeFile(path, content, 'utf8');
+    }
+
+    exists(path: string): boolean {
+        const fs = require('fs');
+        return fs.existsSync(path);
+    }
+
+    stat(path: string): { size: number } {
+        const fs = require('fs');
+        return fs.statSync(path);
+    }
+
+    createReadStream(path: string): any {
+        const fs = require('fs');
+        return fs.createReadStream(path);
+    }
+}
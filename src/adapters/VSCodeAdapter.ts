@@ -2,7 +2,6 @@ import * as vscode from 'vscode';
 import {
     IWorkspace,
     ITextDocument,
-    IFileSystem,
     IProgress,
     ICancellationToken
 } from '../types';
@@ -72,29 +71,5 @@ export class VSCodeCancellationTokenAdapter implements ICancellationToken {
     }
 }
 
-export class FileSystemAdapter implements IFileSystem {
-    async readFile(path: string): Promise<string> {
-        const fs = await import('fs');
-        return fs.promises.readFile(path, 'utf8');
-    }
-
-    async writeFile(path: string, content: string): Promise<void> {
-        const fs = await import('fs');
-        await fs.promises.writeFile(path, content, 'utf8');
-    }
-
-    exists(path: string): boolean {
-        const fs = require('fs');
-        return fs.existsSync(path);
-    }
-
-    stat(path: string): { size: number } {
-        const fs = require('fs');
-        return fs.statSync(path);
-    }
-
-    createReadStream(path: string): any {
-        const fs = require('fs');
-        return fs.createReadStream(path);
-    }
-}
+// Re-exported for existing imports; the implementation has no VSCode dependency
+export { FileSystemAdapter } from './NodeAdapter';
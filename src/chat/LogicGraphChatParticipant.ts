@@ -0,0 +1,311 @@
+/**
+ * LogicGraphChatParticipant - @logicgraph chat participant
+ *
+ * Grounds chat answers in retrieved code: runs the orchestrator query,
+ * packs the top symbols' source into a token-budgeted context block and
+ * streams the language model's answer with clickable references and
+ * follow-ups.
+ *
+ * Slash commands map to retrieval modes:
+ * - /callers <symbol>  call sites of the symbol and files importing it (no model call)
+ * - /similar <symbol>  embedding neighbours (no model call)
+ * - /explain <query>   retrieval plus call graph context, explained by the model
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    CopilotIntelligenceOrchestrator,
+    EnhancedQueryResult
+} from '../orchestrator/CopilotIntelligenceOrchestrator';
+import { ContextPacker } from '../context/ContextPacker';
+import { formatContextPack } from '../output/ResultFormatter';
+
+export interface ChatParticipantDependencies {
+    /**
+     * Orchestrator with indices loaded, or null if the workspace is not indexed
+     */
+    getOrchestrator: () => Promise<CopilotIntelligenceOrchestrator | null>;
+    outputChannel: vscode.OutputChannel;
+}
+
+interface LogicGraphChatMetadata {
+    command?: string;
+    symbols: string[];
+}
+
+const PARTICIPANT_ID = 'logicgraph.chat';
+const MAX_CONTEXT_SYMBOLS = 8;
+const MAX_CONTEXT_TOKENS = 8000;
+
+export class LogicGraphChatParticipant {
+    private dependencies: ChatParticipantDependencies;
+
+    constructor(dependencies: ChatParticipantDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    public register(): vscode.Disposable {
+        const participant = vscode.chat.createChatParticipant(
+            PARTICIPANT_ID,
+            (request, context, stream, token) => this.handleRequest(request, context, stream, token)
+        );
+        participant.iconPath = new vscode.ThemeIcon('type-hierarchy');
+        participant.followupProvider = {
+            provideFollowups: (result: vscode.ChatResult) => this.provideFollowups(result)
+        };
+        return participant;
+    }
+
+    private async handleRequest(
+        request: vscode.ChatRequest,
+        _context: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const prompt = request.prompt.trim();
+
+        if (!workspaceFolder) {
+            stream.markdown('Open a workspace folder to use LogicGraph.');
+            return { metadata: { command: request.command, symbols: [] } };
+        }
+
+        if (!prompt) {
+            stream.markdown(this.usageFor(request.command));
+            return { metadata: { command: request.command, symbols: [] } };
+        }
+
+        stream.progress('Loading LogicGraph index...');
+        const orchestrator = await this.dependencies.getOrchestrator();
+        if (!orchestrator) {
+            stream.markdown('This workspace has not been indexed yet.\n\n');
+            stream.button({ command: 'logicGraph.generateContextJSON', title: 'Generate Index' });
+            return { metadata: { command: request.command, symbols: [] } };
+        }
+
+        const workspacePath = workspaceFolder.uri.fsPath;
+        try {
+            switch (request.command) {
+                case 'callers':
+                    return this.handleCallers(orchestrator, workspacePath, prompt, stream);
+                case 'similar':
+                    return await this.handleSimilar(orchestrator, workspacePath, prompt, stream);
+                default:
+                    return await this.handleQuery(orchestrator, workspacePath, request, prompt, stream, token);
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            this.dependencies.outputChannel.appendLine(`[Chat] ❌ Request failed: ${errorMsg}`);
+            return {
+                errorDetails: { message: `LogicGraph request failed: ${errorMsg}` },
+                metadata: { command: request.command, symbols: [] }
+            };
+        }
+    }
+
+    private handleCallers(
+        orchestrator: CopilotIntelligenceOrchestrator,
+        workspacePath: string,
+        symbolName: string,
+        stream: vscode.ChatResponseStream
+    ): vscode.ChatResult {
+        const symbol = orchestrator.getSymbol(symbolName);
+        if (!symbol) {
+            stream.markdown(`No symbol named \`${symbolName}\` in the index.`);
+            return { metadata: { command: 'callers', symbols: [] } };
+        }
+
+        const callers = orchestrator.findCallers(symbol.symbol);
+        stream.markdown(`**\`${symbol.symbol}\`** is declared in `);
+        stream.anchor(this.toLocation(workspacePath, symbol.file, symbol.line), this.displayPath(workspacePath, symbol.file));
+        stream.markdown('\n\n');
+
+        if (callers.length === 0) {
+            stream.markdown('No indexed code calls or imports it.');
+        } else {
+            stream.markdown(`Used in ${callers.length} place(s):\n\n`);
+            for (const caller of callers) {
+                stream.markdown('- ');
+                if (caller.kind === 'import') {
+                    stream.anchor(this.toUri(workspacePath, caller.file), this.displayPath(workspacePath, caller.file));
+                    stream.markdown(` (imports \`${caller.symbol}\`)\n`);
+                } else {
+                    stream.markdown(`\`${caller.symbol}\` in `);
+                    stream.anchor(this.toLocation(workspacePath, caller.file, caller.line ?? 0), this.displayPath(workspacePath, caller.file));
+                    stream.markdown(caller.kind && caller.kind !== 'call' ? ` (${caller.kind})\n` : '\n');
+                }
+            }
+        }
+
+        return { metadata: { command: 'callers', symbols: [symbol.symbol] } };
+    }
+
+    private async handleSimilar(
+        orchestrator: CopilotIntelligenceOrchestrator,
+        workspacePath: string,
+        symbolName: string,
+        stream: vscode.ChatResponseStream
+    ): Promise<vscode.ChatResult> {
+        if (!orchestrator.isReady()) {
+            stream.markdown('Similarity search needs the embedding model, which is not loaded. Check the LogicGraph output for details.');
+            return { metadata: { command: 'similar', symbols: [] } };
+        }
+
+        const similar = await orchestrator.findSimilar(symbolName, 10);
+        if (similar.length === 0) {
+            stream.markdown(`No symbols similar to \`${symbolName}\` found.`);
+            return { metadata: { command: 'similar', symbols: [] } };
+        }
+
+        stream.markdown(`Symbols similar to \`${symbolName}\`:\n\n`);
+        for (const result of similar) {
+            if (!result.symbol || !result.file) {
+                continue;
+            }
+            stream.markdown(`- \`${result.symbol}\` (${result.type || 'unknown'}, ${result.score.toFixed(2)}) `);
+            stream.anchor(this.toLocation(workspacePath, result.file, result.line || 0), this.displayPath(workspacePath, result.file));
+            stream.markdown('\n');
+        }
+
+        return {
+            metadata: {
+                command: 'similar',
+                symbols: similar.map(r => r.symbol).filter((s): s is string => !!s).slice(0, 3)
+            }
+        };
+    }
+
+    private async handleQuery(
+        orchestrator: CopilotIntelligenceOrchestrator,
+        workspacePath: string,
+        request: vscode.ChatRequest,
+        prompt: string,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        stream.progress('Searching the codebase...');
+        const contextAssembly = await orchestrator.queryWithFallback(prompt, 20);
+        const topResults = contextAssembly.results.slice(0, MAX_CONTEXT_SYMBOLS);
+        const metadata: LogicGraphChatMetadata = {
+            command: request.command,
+            symbols: topResults.map(r => r.symbol).filter(s => s.length > 0)
+        };
+
+        if (topResults.length === 0) {
+            stream.markdown('No relevant code found. Try different wording or re-index the workspace.');
+            return { metadata };
+        }
+
+        for (const result of topResults) {
+            stream.reference(this.toLocation(workspacePath, result.file, result.line));
+        }
+
+        // Leave room in the model's window for the question and the answer
+        const tokenBudget = Math.min(MAX_CONTEXT_TOKENS, Math.floor(request.model.maxInputTokens * 0.5));
+        const packer = new ContextPacker(workspacePath, orchestrator.getContextGraph());
+        const pack = packer.pack(prompt, topResults, {
+            tokenBudget,
+            includeCallers: true,
+            maxCallersPerSymbol: request.command === 'explain' ? 3 : 1
+        });
+        const contextBlock = formatContextPack(pack);
+        this.dependencies.outputChannel.appendLine(
+            `[Chat] Context pack: ${pack.tokensUsed}/${pack.tokenBudget} tokens, ` +
+            `${pack.snippets.length} snippets, ${pack.truncated.length} truncated, ${pack.dropped.length} dropped`
+        );
+        if (token.isCancellationRequested) {
+            return { metadata };
+        }
+
+        const instructions = request.command === 'explain'
+            ? 'Explain how the code below works and how the pieces relate, following the call relationships listed.'
+            : 'Answer the question using the code below. Refer to symbols by name and say when the code shown is not enough.';
+
+        const messages = [
+            vscode.LanguageModelChatMessage.User(
+                `You are answering questions about a codebase. ${instructions}\n\n${contextBlock}`
+            ),
+            vscode.LanguageModelChatMessage.User(prompt)
+        ];
+
+        try {
+            const response = await request.model.sendRequest(messages, {}, token);
+            for await (const fragment of response.text) {
+                stream.markdown(fragment);
+            }
+        } catch (error) {
+            // No model access (consent, quota, offline): still show what was retrieved
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            this.dependencies.outputChannel.appendLine(`[Chat] ⚠️ Language model request failed: ${errorMsg}`);
+            stream.markdown(`_Language model unavailable (${errorMsg}). Most relevant code:_\n\n`);
+            this.streamResultList(workspacePath, topResults, stream);
+            return { metadata };
+        }
+
+        stream.markdown('\n\n**Sources**\n\n');
+        this.streamResultList(workspacePath, topResults, stream);
+        return { metadata };
+    }
+
+    private streamResultList(
+        workspacePath: string,
+        results: EnhancedQueryResult[],
+        stream: vscode.ChatResponseStream
+    ): void {
+        for (const result of results) {
+            stream.markdown(`- \`${result.symbol}\` (${result.type}) `);
+            stream.anchor(this.toLocation(workspacePath, result.file, result.line), this.displayPath(workspacePath, result.file));
+            stream.markdown('\n');
+        }
+    }
+
+    private provideFollowups(result: vscode.ChatResult): vscode.ChatFollowup[] {
+        const metadata = result.metadata as LogicGraphChatMetadata | undefined;
+        const symbol = metadata?.symbols[0];
+        if (!symbol) {
+            return [];
+        }
+
+        const followups: vscode.ChatFollowup[] = [];
+        if (metadata.command !== 'callers') {
+            followups.push({ prompt: symbol, command: 'callers', label: `Show callers of ${symbol}` });
+        }
+        if (metadata.command !== 'similar') {
+            followups.push({ prompt: symbol, command: 'similar', label: `Find code similar to ${symbol}` });
+        }
+        if (metadata.command !== 'explain') {
+            followups.push({ prompt: symbol, command: 'explain', label: `Explain ${symbol}` });
+        }
+        return followups;
+    }
+
+    private usageFor(command: string | undefined): string {
+        switch (command) {
+            case 'callers':
+                return 'Usage: `/callers <symbol>` — lists the code that calls the symbol and the files that import it.';
+            case 'similar':
+                return 'Usage: `/similar <symbol>` — finds semantically similar code.';
+            case 'explain':
+                return 'Usage: `/explain <question or symbol>` — explains how the relevant code works.';
+            default:
+                return 'Ask a question about this codebase, e.g. "where is authentication handled?"';
+        }
+    }
+
+    private toAbsolute(workspacePath: string, filePath: string): string {
+        return path.isAbsolute(filePath) ? filePath : path.join(workspacePath, filePath);
+    }
+
+    private toUri(workspacePath: string, filePath: string): vscode.Uri {
+        return vscode.Uri.file(this.toAbsolute(workspacePath, filePath));
+    }
+
+    private toLocation(workspacePath: string, filePath: string, line: number): vscode.Location {
+        return new vscode.Location(this.toUri(workspacePath, filePath), new vscode.Position(Math.max(0, line), 0));
+    }
+
+    private displayPath(workspacePath: string, filePath: string): string {
+        return path.relative(workspacePath, this.toAbsolute(workspacePath, filePath)).split(path.sep).join('/');
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * ConsoleRedirect - Keeps stdout reserved for CLI results
+ *
+ * Imported first by the CLI entry point so it takes effect before library
+ * modules load; some dependencies log on require. console.log/info/debug go
+ * to stderr with --verbose and are discarded otherwise.
+ */
+
+const verbose = process.argv.includes('--verbose');
+const toStderr = (...args: any[]) => console.error(...args);
+const discard = () => {};
+
+console.log = verbose ? toStderr : discard;
+console.info = verbose ? toStderr : discard;
+console.debug = verbose ? toStderr : discard;
+if (!verbose) {
+    console.warn = discard;
+}
+
+export {};
@@ -0,0 +1,578 @@
+#!/usr/bin/env node
+/**
+ * LogicGraph CLI - Index and query a codebase outside VS Code
+ *
+ * Reads and writes the same files as the extension (context-graph.json,
+ * search_index.json, .logicgraph/), so an index built in the editor can be
+ * queried or updated from a terminal or CI job and vice versa.
+ */
+
+import './ConsoleRedirect';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GraphConfig, IndexingReport, SymbolLocation } from '../types';
+import { createHeadlessIndexer } from '../indexer/HeadlessGraphBuilder';
+import { FileScanner, FileScannerOptions } from '../indexer/FileScanner';
+import {
+    saveIndicesToDisk,
+    saveFileHashes,
+    loadFileHashes,
+    loadContextGraph,
+    loadSearchIndex,
+    loadIndexingReport
+} from '../indexer/IndexStore';
+import { IncrementalUpdater } from '../incremental/IncrementalUpdater';
+import { SecuritySanitizer } from '../security/SecuritySanitizer';
+import { FuzzySearcher } from '../search/FuzzySearcher';
+import { QueryParser } from '../search/QueryParser';
+import {
+    CopilotIntelligenceOrchestrator,
+    ContextAssembly,
+    EnhancedQueryResult
+} from '../orchestrator/CopilotIntelligenceOrchestrator';
+import { ConsoleProgressAdapter, NodeCancellationTokenAdapter } from '../adapters/NodeAdapter';
+import { formatSearchResults, formatEnhancedSearchResults, formatContextPack } from '../output/ResultFormatter';
+import { ContextPacker } from '../context/ContextPacker';
+import { DEFAULT_SETTINGS, graphConfigFromSettings } from '../config/LogicGraphSettings';
+import { McpServer } from '../mcp/McpServer';
+import { createLogicGraphTools } from '../mcp/LogicGraphTools';
+
+type OutputFormat = 'text' | 'json' | 'markdown';
+
+interface CliOptions {
+    command: string;
+    args: string[];
+    dir: string;
+    format: OutputFormat;
+    top: number;
+    budget: number | null;
+    basic: boolean;
+    verbose: boolean;
+    workers: number;
+    scanner: FileScannerOptions;
+    pythonSourceRoots: string[];
+}
+
+class UsageError extends Error {}
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+
+// Defaults of the extension's logicGraph.indexing.* settings
+const DEFAULT_CONFIG: GraphConfig = graphConfigFromSettings(DEFAULT_SETTINGS);
+
+const USAGE = `Usage: logicgraph <command> [options]
+
+Commands:
+  index                 Build a full index of the directory
+  update                Re-index files changed since the last index
+  query <text>          Search the index
+  report                Show the last indexing report
+  explain <path...>     Tell whether files are indexed, or which rule excludes them
+  mcp                   Serve the index to AI agents over MCP (stdio)
+
+Options:
+  --dir <path>          Workspace directory (default: current directory)
+  --format <format>     Output format: text, json or markdown (default: text)
+  --top <n>             Maximum number of query results (default: 20)
+  --budget <tokens>     Output the results' code as a context pack within this token budget
+  --basic               Use fuzzy search only (skips the embedding model)
+  --workers <n>         Worker threads for hashing and parsing (default: 0, one per CPU core but one)
+  --include <glob>      Index only files matching the glob (repeatable)
+  --exclude <glob>      Skip files matching the glob, on top of the ignore files (repeatable)
+  --max-depth <n>       Folder levels indexed below the workspace (default: all)
+  --symlinks <policy>   Symbolic links: skip, workspace or follow (default: skip)
+  --python-root <dir>   Folder Python absolute imports resolve from, e.g. lib or packages/*/src
+                        (repeatable; default: the directory and src/)
+  --verbose             Print diagnostic logs to stderr
+  -h, --help            Show this help
+`;
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        command: '',
+        args: [],
+        dir: process.cwd(),
+        format: 'text',
+        top: 20,
+        budget: null,
+        basic: false,
+        verbose: false,
+        workers: DEFAULT_SETTINGS.indexing.workers,
+        scanner: {
+            include: [],
+            exclude: [],
+            symlinks: DEFAULT_SETTINGS.indexing.symlinks,
+            maxDepth: DEFAULT_SETTINGS.indexing.maxDepth
+        },
+        pythonSourceRoots: []
+    };
+
+    const takeValue = (flag: string, index: number): string => {
+        const value = argv[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new UsageError(`Missing value for ${flag}`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--dir':
+                options.dir = takeValue(arg, i);
+                i++;
+                break;
+            case '--format': {
+                const format = takeValue(arg, i);
+                if (format !== 'text' && format !== 'json' && format !== 'markdown') {
+                    throw new UsageError(`Unknown format: ${format}`);
+                }
+                options.format = format;
+                i++;
+                break;
+            }
+            case '--top': {
+                const top = parseInt(takeValue(arg, i), 10);
+                if (isNaN(top) || top < 1) {
+                    throw new UsageError('--top must be a positive integer');
+                }
+                options.top = top;
+                i++;
+                break;
+            }
+            case '--budget': {
+                const budget = parseInt(takeValue(arg, i), 10);
+                if (isNaN(budget) || budget < 1) {
+                    throw new UsageError('--budget must be a positive integer');
+                }
+                options.budget = budget;
+                i++;
+                break;
+            }
+            case '--workers': {
+                const workers = parseInt(takeValue(arg, i), 10);
+                if (isNaN(workers) || workers < 0) {
+                    throw new UsageError('--workers must be a non-negative integer');
+                }
+                options.workers = workers;
+                i++;
+                break;
+            }
+            case '--include':
+                options.scanner.include?.push(takeValue(arg, i));
+                i++;
+                break;
+            case '--exclude':
+                options.scanner.exclude?.push(takeValue(arg, i));
+                i++;
+                break;
+            case '--python-root':
+                options.pythonSourceRoots.push(takeValue(arg, i));
+                i++;
+                break;
+            case '--max-depth': {
+                const maxDepth = parseInt(takeValue(arg, i), 10);
+                if (isNaN(maxDepth) || maxDepth < 1) {
+                    throw new UsageError('--max-depth must be a positive integer');
+                }
+                options.scanner.maxDepth = maxDepth;
+                i++;
+                break;
+            }
+            case '--symlinks': {
+                const symlinks = takeValue(arg, i);
+                if (symlinks !== 'skip' && symlinks !== 'workspace' && symlinks !== 'follow') {
+                    throw new UsageError(`Unknown symlink policy: ${symlinks}`);
+                }
+                options.scanner.symlinks = symlinks;
+                i++;
+                break;
+            }
+            case '--basic':
+                options.basic = true;
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                options.command = 'help';
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                if (!options.command) {
+                    options.command = arg;
+                } else {
+                    options.args.push(arg);
+                }
+        }
+    }
+
+    options.dir = path.resolve(options.dir);
+    return options;
+}
+
+function writeOutput(text: string): void {
+    process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+}
+
+async function runIndex(options: CliOptions, cancellationToken: NodeCancellationTokenAdapter): Promise<number> {
+    const workspacePath = options.dir;
+    const { indexer, workerPool } = createHeadlessIndexer(workspacePath, {
+        workers: options.workers,
+        fileTimeoutMs: DEFAULT_SETTINGS.indexing.fileTimeoutMs,
+        fileScanner: new FileScanner(options.scanner),
+        pythonSourceRoots: options.pythonSourceRoots
+    });
+    const progress = new ConsoleProgressAdapter(message => process.stderr.write(`${message}\n`));
+
+    let result;
+    try {
+        result = await indexer.generateIndex(workspacePath, DEFAULT_CONFIG, progress, cancellationToken);
+        result.graph = new SecuritySanitizer().sanitizeContextGraph(result.graph);
+    } finally {
+        await workerPool?.dispose();
+    }
+
+    await saveIndicesToDisk(workspacePath, result.graph, result.report);
+    saveFileHashes(workspacePath, result.fileHashes, result.graph.generated);
+
+    writeOutput(formatReport(result.report, options.format));
+    return EXIT_OK;
+}
+
+async function runUpdate(options: CliOptions, cancellationToken: NodeCancellationTokenAdapter): Promise<number> {
+    const workspacePath = options.dir;
+    const graph = loadContextGraph(workspacePath);
+    const fileHashes = loadFileHashes(workspacePath);
+    if (!graph || !fileHashes) {
+        throw new Error('No index found. Run "logicgraph index" first.');
+    }
+
+    const startTime = Date.now();
+    const { builder } = createHeadlessIndexer(workspacePath, { pythonSourceRoots: options.pythonSourceRoots });
+    const updater = new IncrementalUpdater(
+        fileHashes,
+        (filePath: string, config: GraphConfig) => builder.buildGraphNode(filePath, config),
+        (contextGraph) => builder.buildCompleteCallGraph(contextGraph),
+        (filePath: string) => builder.buildOutlineNode(filePath)
+    );
+
+    const allFiles = await new FileScanner(options.scanner).findCodeFiles(workspacePath);
+    const changedFiles = await updater.detectChangedFiles(allFiles, cancellationToken);
+    const totalChanges = changedFiles.modified.length + changedFiles.deleted.length + changedFiles.added.length;
+
+    if (totalChanges === 0) {
+        writeOutput(options.format === 'json'
+            ? JSON.stringify({ modified: [], deleted: [], added: [], errors: [] }, null, 2)
+            : 'No changes detected');
+        return EXIT_OK;
+    }
+
+    const updateResult = await updater.updateGraph(graph, changedFiles, graph.config || DEFAULT_CONFIG, cancellationToken);
+    const sanitizedGraph = new SecuritySanitizer().sanitizeContextGraph(updateResult.updatedGraph);
+
+    const report: IndexingReport = {
+        totalFiles: sanitizedGraph.nodes.length,
+        successfulFiles: sanitizedGraph.nodes.length - updateResult.errors.length,
+        skippedFiles: 0,
+        partialFiles: sanitizedGraph.nodes.filter(node => node.partial).map(node => node.filePath),
+        errors: updateResult.errors.map(err => ({
+            file: err.file,
+            error: err.error,
+            timestamp: new Date().toISOString(),
+            phase: 'parsing' as const
+        })),
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+    };
+
+    await saveIndicesToDisk(workspacePath, sanitizedGraph, report);
+    saveFileHashes(workspacePath, updater.getFileHashes());
+
+    if (options.format === 'json') {
+        writeOutput(JSON.stringify({ ...changedFiles, errors: updateResult.errors }, null, 2));
+    } else {
+        const relative = (filePath: string) => path.relative(workspacePath, filePath);
+        const lines = [
+            `Updated ${totalChanges} file(s) in ${report.duration}ms`,
+            ...changedFiles.modified.map(f => `  M ${relative(f)}`),
+            ...changedFiles.added.map(f => `  A ${relative(f)}`),
+            ...changedFiles.deleted.map(f => `  D ${relative(f)}`),
+            ...updateResult.errors.map(err => `  ! ${err.file}: ${err.error}`)
+        ];
+        writeOutput(lines.join('\n'));
+    }
+    return EXIT_OK;
+}
+
+async function runQuery(options: CliOptions): Promise<number> {
+    const query = options.args.join(' ').trim();
+    if (!query) {
+        throw new UsageError('query requires search text');
+    }
+    if (query.length > 500) {
+        throw new UsageError('Query too long (max 500 characters)');
+    }
+
+    const workspacePath = options.dir;
+    const searchIndex = loadSearchIndex(workspacePath);
+    if (!searchIndex) {
+        throw new Error('Index not found. Run "logicgraph index" first.');
+    }
+
+    if (!options.basic) {
+        const orchestrator = new CopilotIntelligenceOrchestrator();
+        try {
+            await orchestrator.initialize(workspacePath);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            process.stderr.write(`Copilot initialization failed: ${errorMsg}. Using basic search.\n`);
+        }
+
+        if (orchestrator.isReady()) {
+            const contextAssembly = await orchestrator.queryWithFallback(query, options.top);
+            if (options.budget !== null) {
+                writeOutput(formatPack(workspacePath, query, contextAssembly.results, options));
+            } else {
+                writeOutput(formatContextAssembly(contextAssembly, options.format));
+            }
+            return EXIT_OK;
+        }
+    }
+
+    // The graph is only needed to answer calls: and calledby: filters
+    const { filters } = new QueryParser().parse(query);
+    const callGraph = filters.calls || filters.calledBy ? loadContextGraph(workspacePath)?.callGraph || [] : [];
+    const results = (await new FuzzySearcher().search(query, searchIndex, callGraph)).slice(0, options.top);
+    if (options.budget !== null) {
+        const ranked: EnhancedQueryResult[] = results.map((r, index) => ({
+            symbol: r.symbol,
+            file: r.file,
+            line: r.line,
+            type: r.type,
+            relevanceScore: 1.0 - (index / results.length),
+            explanation: { lexicalScore: 0, semanticScore: 0, graphScore: 0, matchedTerms: [], graphRelationships: [] }
+        }));
+        writeOutput(formatPack(workspacePath, query, ranked, options));
+    } else {
+        writeOutput(formatBasicResults(query, results, options.format));
+    }
+    return EXIT_OK;
+}
+
+function formatPack(workspacePath: string, query: string, results: EnhancedQueryResult[], options: CliOptions): string {
+    const packer = new ContextPacker(workspacePath, loadContextGraph(workspacePath));
+    const pack = packer.pack(query, results, { tokenBudget: options.budget! });
+    return options.format === 'json' ? JSON.stringify(pack, null, 2) : formatContextPack(pack);
+}
+
+async function runReport(options: CliOptions): Promise<number> {
+    const report = loadIndexingReport(options.dir);
+    if (!report) {
+        throw new Error('No indexing report found. Run "logicgraph index" first.');
+    }
+    writeOutput(formatReport(report, options.format));
+    return EXIT_OK;
+}
+
+async function runExplain(options: CliOptions): Promise<number> {
+    if (options.args.length === 0) {
+        throw new UsageError('explain needs at least one path');
+    }
+
+    const reasons = await new FileScanner(options.scanner)
+        .explain(options.dir, options.args.map(filePath => path.resolve(filePath)));
+    const explanations = options.args.map((filePath, index) => ({
+        path: filePath,
+        indexed: reasons[index] === null,
+        reason: reasons[index]
+    }));
+
+    if (options.format === 'json') {
+        writeOutput(JSON.stringify(explanations, null, 2));
+    } else {
+        writeOutput(explanations
+            .map(explanation => `${explanation.path}: ${explanation.indexed ? 'indexed' : `excluded (${explanation.reason})`}`)
+            .join('\n'));
+    }
+    return EXIT_OK;
+}
+
+async function runMcp(options: CliOptions): Promise<number> {
+    const workspacePath = options.dir;
+    if (!fs.existsSync(path.join(workspacePath, 'context-graph.json')) ||
+        !fs.existsSync(path.join(workspacePath, 'search_index.json'))) {
+        throw new Error('No index found. Run "logicgraph index" first.');
+    }
+
+    // Start loading in the background so the handshake is not delayed by the embedding model.
+    // Indices load before the model, so search falls back to fuzzy matching if it fails.
+    const orchestrator = new CopilotIntelligenceOrchestrator();
+    const ready = orchestrator.initialize(workspacePath).catch(error => {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`Copilot initialization failed: ${errorMsg}. Using basic search.\n`);
+    });
+
+    const server = new McpServer({ name: 'logicgraph', version: readPackageVersion() });
+    for (const tool of createLogicGraphTools(orchestrator, workspacePath, ready)) {
+        server.registerTool(tool);
+    }
+
+    process.stderr.write(`LogicGraph MCP server ready (${workspacePath})\n`);
+    await server.listen();
+    return EXIT_OK;
+}
+
+function readPackageVersion(): string {
+    try {
+        const packageJsonPath = path.join(__dirname, '..', '..', 'package.json');
+        return JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).version || '0.0.0';
+    } catch (error) {
+        return '0.0.0';
+    }
+}
+
+function formatContextAssembly(contextAssembly: ContextAssembly, format: OutputFormat): string {
+    if (format === 'json') {
+        const { virtualQueryGraph, ...rest } = contextAssembly;
+        return JSON.stringify(rest, null, 2);
+    }
+    if (format === 'markdown') {
+        return formatEnhancedSearchResults(contextAssembly);
+    }
+
+    const lines = [`${contextAssembly.totalResults} result(s) for "${contextAssembly.query}" (intent: ${contextAssembly.intent})`];
+    for (const expansion of contextAssembly.expansions) {
+        lines.push(`expanded ${expansion.term} -> ${expansion.expansions.join(', ')} (${expansion.source})`);
+    }
+    for (const result of contextAssembly.results) {
+        lines.push(`${result.relevanceScore.toFixed(3)}  ${result.symbol} (${result.type})  ${result.file}:${result.line}`);
+    }
+    return lines.join('\n');
+}
+
+function formatBasicResults(query: string, results: SymbolLocation[], format: OutputFormat): string {
+    if (format === 'json') {
+        return JSON.stringify({ query, results }, null, 2);
+    }
+    if (format === 'markdown') {
+        return formatSearchResults(query, results);
+    }
+
+    const lines = [`${results.length} result(s) for "${query}"`];
+    for (const result of results) {
+        lines.push(`${result.symbol} (${result.type})  ${result.file}:${result.line}`);
+    }
+    return lines.join('\n');
+}
+
+function formatReport(report: IndexingReport, format: OutputFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(report, null, 2);
+    }
+
+    const successRate = report.totalFiles > 0
+        ? ((report.successfulFiles / report.totalFiles) * 100).toFixed(1)
+        : '0.0';
+
+    if (format === 'markdown') {
+        let output = '# Indexing Report\n\n';
+        output += `- **Files**: ${report.successfulFiles}/${report.totalFiles} (${successRate}%)\n`;
+        output += `- **Skipped**: ${report.skippedFiles}\n`;
+        output += `- **Partial**: ${report.partialFiles?.length ?? 0}\n`;
+        output += `- **Duration**: ${report.duration}ms\n`;
+        output += `- **Timestamp**: ${report.timestamp}\n`;
+        if (report.errors.length > 0) {
+            output += `\n## Errors (${report.errors.length})\n\n`;
+            for (const err of report.errors) {
+                output += `- \`${err.file}\` [${err.phase}]: ${err.error}\n`;
+            }
+        }
+        if (report.partialFiles && report.partialFiles.length > 0) {
+            output += `\n## Partially indexed (${report.partialFiles.length})\n\n`;
+            for (const file of report.partialFiles) {
+                output += `- \`${file}\`: top-level symbols and imports only\n`;
+            }
+        }
+        return output;
+    }
+
+    const lines = [
+        `Indexed ${report.successfulFiles}/${report.totalFiles} files (${successRate}%) in ${report.duration}ms`,
+        `Skipped: ${report.skippedFiles}, Partial: ${report.partialFiles?.length ?? 0}, Errors: ${report.errors.length}`
+    ];
+    for (const file of report.partialFiles ?? []) {
+        lines.push(`  ~ ${file} [outline only]`);
+    }
+    for (const err of report.errors) {
+        lines.push(`  ! ${err.file} [${err.phase}]: ${err.error}`);
+    }
+    return lines.join('\n');
+}
+
+export async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (!options.command || options.command === 'help') {
+        process.stdout.write(USAGE);
+        return options.command ? EXIT_OK : EXIT_USAGE;
+    }
+
+    if (!fs.existsSync(options.dir) || !fs.statSync(options.dir).isDirectory()) {
+        process.stderr.write(`Not a directory: ${options.dir}\n`);
+        return EXIT_USAGE;
+    }
+
+    const cancellationToken = new NodeCancellationTokenAdapter();
+    const onSigint = () => {
+        process.stderr.write('Cancelling...\n');
+        cancellationToken.cancel();
+    };
+    process.once('SIGINT', onSigint);
+
+    try {
+        switch (options.command) {
+            case 'index':
+                return await runIndex(options, cancellationToken);
+            case 'update':
+                return await runUpdate(options, cancellationToken);
+            case 'query':
+                return await runQuery(options);
+            case 'report':
+                return await runReport(options);
+            case 'explain':
+                return await runExplain(options);
+            case 'mcp':
+                return await runMcp(options);
+            default:
+                throw new UsageError(`Unknown command: ${options.command}`);
+        }
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`${error.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`logicgraph: ${errorMsg}\n`);
+        return EXIT_ERROR;
+    } finally {
+        process.removeListener('SIGINT', onSigint);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,319 @@
+/**
+ * LogicGraphSettings - Typed, validated `logicGraph.*` settings
+ *
+ * Every tunable of the pipeline with its default. Values are read through a
+ * `SettingsReader` (VS Code's WorkspaceConfiguration.get in the extension)
+ * and checked here: a value of the wrong type or out of range is replaced
+ * by its default and reported as a problem, so a typo in settings.json
+ * never reaches the indexer or the rankers.
+ *
+ * Keys are relative to the `logicGraph` section and must match the
+ * `contributes.configuration` entries in package.json.
+ */
+
+import { GraphConfig } from '../types';
+import { RerankerConfig } from '../retrieval/HybridReranker';
+import { BM25Parameters } from '../retrieval/BM25LexicalRetriever';
+import { GraphScoreWeights } from '../graph/GraphAwareRelevanceScorer';
+import { QueryExpanderOptions } from '../search/QueryExpander';
+import { EmbeddingProviderConfig, EmbeddingProviderKind } from '../retrieval/EmbeddingProvider';
+import { FileScannerOptions, SymlinkPolicy } from '../indexer/FileScanner';
+
+export interface IndexingSettings {
+    maxFileSize: number; // Bytes; larger files are indexed in outline mode (top-level symbols and imports)
+    batchSize: number; // Files between progress reports and cancellation checks
+    streamingThreshold: number; // Bytes; larger files are indexed without their content
+    callHierarchy: boolean; // Query the language servers' call hierarchy and references (extension only)
+    workers: number; // Worker threads for hashing and parsing; 0: one per CPU core but one
+    fileTimeoutMs: number; // A file taking longer is reported as failed; 0: no limit
+    include: string[]; // Globs of the files to index, relative to the workspace folder; empty: every code file
+    exclude: string[]; // Globs excluded on top of .gitignore and .logicgraphignore
+    symlinks: SymlinkPolicy;
+    maxDepth: number; // Directory levels indexed below the workspace folder; 0: no limit
+    pythonSourceRoots: string[]; // Python import roots relative to the workspace folder; empty: the folder and src/
+}
+
+export interface WatcherSettings {
+    enabled: boolean;
+    include: string; // Glob relative to the workspace folder
+    debounceMs: number;
+}
+
+export interface RankingSettings {
+    graphWeight: number; // Share of the graph score in the final ranking; the rest is the hybrid score
+}
+
+export interface EmbeddingSettings {
+    /**
+     * Empty: use the LOGICGRAPH_EMBEDDING_* environment configuration
+     */
+    provider: EmbeddingProviderKind | '';
+    model: string;
+    modelPath: string;
+    url: string;
+    dimension: number; // 0: as reported by the model
+    maxTokens: number; // 0: as reported by the model
+}
+
+export interface LogicGraphSettings {
+    indexing: IndexingSettings;
+    watcher: WatcherSettings;
+    bm25: BM25Parameters;
+    reranker: RerankerConfig;
+    ranking: RankingSettings;
+    graph: { weights: GraphScoreWeights };
+    queryExpansion: QueryExpanderOptions;
+    embedding: EmbeddingSettings;
+}
+
+export type SettingsSection = keyof LogicGraphSettings;
+
+export const SETTINGS_SECTIONS: SettingsSection[] = [
+    'indexing', 'watcher', 'bm25', 'reranker', 'ranking', 'graph', 'queryExpansion', 'embedding'
+];
+
+export const DEFAULT_SETTINGS: LogicGraphSettings = {
+    indexing: {
+        maxFileSize: 1024 * 100,
+        batchSize: 50,
+        streamingThreshold: 1024 * 50,
+        callHierarchy: false,
+        workers: 0,
+        fileTimeoutMs: 30000,
+        include: [],
+        exclude: [],
+        symlinks: 'skip',
+        maxDepth: 0,
+        pythonSourceRoots: []
+    },
+    watcher: {
+        enabled: true,
+        include: '**/*.{ts,tsx,js,jsx,py,java,go,rs,c,h,cpp,hpp,cs,rb,php}',
+        debounceMs: 2000
+    },
+    bm25: {
+        k1: 1.5,
+        b: 0.75
+    },
+    reranker: {
+        bm25Weight: 0.4,
+        semanticWeight: 0.6,
+        rrfK: 60,
+        retrievalTopK: 50,
+        finalTopK: 20
+    },
+    ranking: {
+        graphWeight: 0.6
+    },
+    graph: {
+        weights: {
+            symbolAffinity: 0.3,
+            importProximity: 0.15,
+            callGraphMatch: 0.25,
+            referenceDensity: 0.15,
+            centrality: 0.15
+        }
+    },
+    queryExpansion: {
+        mineExpansions: true,
+        maxMinedPerTerm: 2,
+        minMinedScore: 0.4
+    },
+    embedding: {
+        provider: '',
+        model: '',
+        modelPath: '',
+        url: '',
+        dimension: 0,
+        maxTokens: 0
+    }
+};
+
+/**
+ * Value of a setting, or undefined when it is not set
+ */
+export type SettingsReader = (key: string) => unknown;
+
+export interface SettingsReadResult {
+    settings: LogicGraphSettings;
+    problems: string[]; // One message per rejected value
+}
+
+/**
+ * Read and validate all settings
+ */
+export function readSettings(read: SettingsReader): SettingsReadResult {
+    const problems: string[] = [];
+    const defaults = DEFAULT_SETTINGS;
+
+    const number = (key: string, fallback: number, min: number, max: number, integer: boolean = false): number => {
+        const value = read(key);
+        if (value === undefined || value === null) {
+            return fallback;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+            problems.push(`logicGraph.${key}: expected ${integer ? 'an integer' : 'a number'} from ${min} to ${max}, using ${fallback}`);
+            return fallback;
+        }
+        return value;
+    };
+
+    const boolean = (key: string, fallback: boolean): boolean => {
+        const value = read(key);
+        if (value === undefined || value === null) {
+            return fallback;
+        }
+        if (typeof value !== 'boolean') {
+            problems.push(`logicGraph.${key}: expected true or false, using ${fallback}`);
+            return fallback;
+        }
+        return value;
+    };
+
+    const string = (key: string, fallback: string, allowed?: string[]): string => {
+        const value = read(key);
+        if (value === undefined || value === null) {
+            return fallback;
+        }
+        if (typeof value !== 'string' || (allowed && !allowed.includes(value.trim()))) {
+            const expected = allowed ? `one of ${allowed.filter(v => v).map(v => `"${v}"`).join(', ')}` : 'a string';
+            problems.push(`logicGraph.${key}: expected ${expected}, using "${fallback}"`);
+            return fallback;
+        }
+        return value.trim();
+    };
+
+    const stringList = (key: string, fallback: string[]): string[] => {
+        const value = read(key);
+        if (value === undefined || value === null) {
+            return fallback;
+        }
+        if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+            problems.push(`logicGraph.${key}: expected a list of strings, using [${fallback.map(v => `"${v}"`).join(', ')}]`);
+            return fallback;
+        }
+        return value.map(item => item.trim()).filter(item => item);
+    };
+
+    const settings: LogicGraphSettings = {
+        indexing: {
+            maxFileSize: number('indexing.maxFileSize', defaults.indexing.maxFileSize, 1024, 100 * 1024 * 1024, true),
+            batchSize: number('indexing.batchSize', defaults.indexing.batchSize, 1, 1000, true),
+            streamingThreshold: number('indexing.streamingThreshold', defaults.indexing.streamingThreshold, 1024, 100 * 1024 * 1024, true),
+            callHierarchy: boolean('indexing.callHierarchy', defaults.indexing.callHierarchy),
+            workers: number('indexing.workers', defaults.indexing.workers, 0, 64, true),
+            fileTimeoutMs: number('indexing.fileTimeoutMs', defaults.indexing.fileTimeoutMs, 0, 10 * 60 * 1000, true),
+            include: stringList('indexing.include', defaults.indexing.include),
+            exclude: stringList('indexing.exclude', defaults.indexing.exclude),
+            symlinks: string('indexing.symlinks', defaults.indexing.symlinks, ['skip', 'workspace', 'follow']) as SymlinkPolicy,
+            maxDepth: number('indexing.maxDepth', defaults.indexing.maxDepth, 0, 1000, true),
+            pythonSourceRoots: stringList('indexing.pythonSourceRoots', defaults.indexing.pythonSourceRoots)
+        },
+        watcher: {
+            enabled: boolean('watcher.enabled', defaults.watcher.enabled),
+            include: string('watcher.include', defaults.watcher.include) || defaults.watcher.include,
+            debounceMs: number('watcher.debounceMs', defaults.watcher.debounceMs, 0, 60000, true)
+        },
+        bm25: {
+            k1: number('bm25.k1', defaults.bm25.k1, 0, 3),
+            b: number('bm25.b', defaults.bm25.b, 0, 1)
+        },
+        reranker: {
+            bm25Weight: number('reranker.bm25Weight', defaults.reranker.bm25Weight, 0, 1),
+            semanticWeight: number('reranker.semanticWeight', defaults.reranker.semanticWeight, 0, 1),
+            rrfK: number('reranker.rrfK', defaults.reranker.rrfK, 1, 1000, true),
+            retrievalTopK: number('reranker.retrievalTopK', defaults.reranker.retrievalTopK, 1, 1000, true),
+            finalTopK: number('reranker.finalTopK', defaults.reranker.finalTopK, 1, 1000, true)
+        },
+        ranking: {
+            graphWeight: number('ranking.graphWeight', defaults.ranking.graphWeight, 0, 1)
+        },
+        graph: {
+            weights: {
+                symbolAffinity: number('graph.weights.symbolAffinity', defaults.graph.weights.symbolAffinity, 0, 1),
+                importProximity: number('graph.weights.importProximity', defaults.graph.weights.importProximity, 0, 1),
+                callGraphMatch: number('graph.weights.callGraphMatch', defaults.graph.weights.callGraphMatch, 0, 1),
+                referenceDensity: number('graph.weights.referenceDensity', defaults.graph.weights.referenceDensity, 0, 1),
+                centrality: number('graph.weights.centrality', defaults.graph.weights.centrality, 0, 1)
+            }
+        },
+        queryExpansion: {
+            mineExpansions: boolean('queryExpansion.mineExpansions', defaults.queryExpansion.mineExpansions),
+            maxMinedPerTerm: number('queryExpansion.maxMinedPerTerm', defaults.queryExpansion.maxMinedPerTerm, 0, 10, true),
+            minMinedScore: number('queryExpansion.minMinedScore', defaults.queryExpansion.minMinedScore, 0, 1)
+        },
+        embedding: {
+            provider: string('embedding.provider', defaults.embedding.provider, ['', 'transformers', 'local', 'openai']) as EmbeddingSettings['provider'],
+            model: string('embedding.model', defaults.embedding.model),
+            modelPath: string('embedding.modelPath', defaults.embedding.modelPath),
+            url: string('embedding.url', defaults.embedding.url),
+            dimension: number('embedding.dimension', defaults.embedding.dimension, 0, 65536, true),
+            maxTokens: number('embedding.maxTokens', defaults.embedding.maxTokens, 0, 1048576, true)
+        }
+    };
+
+    // Weights are normalized when applied, which needs a non-zero sum
+    if (settings.reranker.bm25Weight + settings.reranker.semanticWeight === 0) {
+        problems.push('logicGraph.reranker: bm25Weight and semanticWeight are both 0, using the defaults');
+        settings.reranker.bm25Weight = defaults.reranker.bm25Weight;
+        settings.reranker.semanticWeight = defaults.reranker.semanticWeight;
+    }
+    if (Object.values(settings.graph.weights).every(weight => weight === 0)) {
+        problems.push('logicGraph.graph.weights: all weights are 0, using the defaults');
+        settings.graph.weights = { ...defaults.graph.weights };
+    }
+    if (settings.embedding.provider === 'local' && !settings.embedding.modelPath) {
+        problems.push('logicGraph.embedding.modelPath: required by the "local" provider');
+    }
+    if (settings.embedding.provider === 'openai' && !settings.embedding.url) {
+        problems.push('logicGraph.embedding.url: required by the "openai" provider');
+    }
+
+    return { settings, problems };
+}
+
+/**
+ * Graph builder configuration for an index run
+ */
+export function graphConfigFromSettings(settings: LogicGraphSettings): GraphConfig {
+    return {
+        maxDepth: 1,
+        useSkeletonMode: true,
+        maxFileSize: settings.indexing.maxFileSize,
+        batchSize: settings.indexing.batchSize,
+        streamingThreshold: settings.indexing.streamingThreshold
+    };
+}
+
+/**
+ * File scanner options: which files an index run covers
+ */
+export function fileScannerOptionsFromSettings(settings: LogicGraphSettings): FileScannerOptions {
+    return {
+        include: settings.indexing.include,
+        exclude: settings.indexing.exclude,
+        symlinks: settings.indexing.symlinks,
+        maxDepth: settings.indexing.maxDepth
+    };
+}
+
+/**
+ * Embedding provider configuration, or null to use the environment
+ * The API key is never a setting; it comes from the environment
+ */
+export function embeddingConfigFromSettings(settings: LogicGraphSettings, env: NodeJS.ProcessEnv): EmbeddingProviderConfig | null {
+    const embedding = settings.embedding;
+    if (!embedding.provider) {
+        return null;
+    }
+
+    return {
+        provider: embedding.provider,
+        model: embedding.model || undefined,
+        modelPath: embedding.modelPath || undefined,
+        url: embedding.url || undefined,
+        apiKey: env.LOGICGRAPH_EMBEDDING_API_KEY || env.OPENAI_API_KEY || undefined,
+        dimension: embedding.dimension || undefined,
+        maxSequenceLength: embedding.maxTokens || undefined
+    };
+}
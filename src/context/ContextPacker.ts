@@ -0,0 +1,533 @@
+/**
+ * ContextPacker - Token-budgeted code context for LLM prompts
+ *
+ * Turns ranked query results into the code itself:
+ * 1. Symbol bodies, re-read from the file range (or `SymbolNode.fullCode`
+ *    when the file is gone)
+ * 2. Overlapping ranges in the same file merged (a class and its methods
+ *    become one snippet)
+ * 3. Import blocks and caller snippets for the packed symbols
+ * 4. Everything ordered by relevance and cut to the token budget
+ *
+ * Tokens are estimated as characters / 4, which is close enough for
+ * budgeting across common tokenizers.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextGraph, GraphNode, SymbolNode } from '../types';
+import { EnhancedQueryResult } from '../orchestrator/CopilotIntelligenceOrchestrator';
+import { detectLanguageId } from '../utils/LanguageDetector';
+import { symbolId, fileOfSymbolId } from '../graph/SymbolId';
+
+export interface ContextPackOptions {
+    tokenBudget: number;
+    maxSymbolLines?: number; // Longest body taken per symbol before truncation
+    includeImports?: boolean;
+    includeCallers?: boolean;
+    maxCallersPerSymbol?: number;
+}
+
+export interface PackedSnippet {
+    kind: 'symbol' | 'imports' | 'caller';
+    file: string; // Workspace-relative
+    language: string;
+    startLine: number; // 0-based, inclusive
+    endLine: number;
+    symbols: string[]; // Symbols covered by this range
+    relevanceScore: number;
+    code: string;
+    tokens: number;
+    truncated: boolean;
+}
+
+export interface OmittedResult {
+    symbol: string;
+    file: string;
+    reason: 'budget' | 'unreadable';
+}
+
+export interface ContextPack {
+    query: string;
+    tokenBudget: number;
+    tokensUsed: number;
+    snippets: PackedSnippet[];
+    truncated: Array<{ symbol: string; file: string; originalTokens: number; packedTokens: number }>;
+    dropped: OmittedResult[];
+}
+
+interface CandidateRange {
+    symbol: string;
+    file: string; // Absolute
+    startLine: number;
+    endLine: number;
+    relevanceScore: number;
+    code?: string; // Stored code when the file cannot be read
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ContextPackOptions, 'tokenBudget'>> = {
+    maxSymbolLines: 120,
+    includeImports: true,
+    includeCallers: true,
+    maxCallersPerSymbol: 2
+};
+
+// Below this many free tokens a truncated snippet is not worth including
+const MIN_SNIPPET_TOKENS = 48;
+const MAX_BLOCK_SCAN_LINES = 1000;
+const CALLER_CONTEXT_LINES = 2;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export class ContextPacker {
+    private workspacePath: string;
+    private nodesByPath: Map<string, GraphNode>;
+    private contextGraph: ContextGraph | null;
+    private fileCache: Map<string, string[] | null>;
+
+    constructor(workspacePath: string, contextGraph: ContextGraph | null) {
+        this.workspacePath = workspacePath;
+        this.contextGraph = contextGraph;
+        this.nodesByPath = new Map((contextGraph?.nodes || []).map(node => [node.filePath, node]));
+        this.fileCache = new Map();
+    }
+
+    /**
+     * Pack ranked results into at most `tokenBudget` tokens
+     */
+    public pack(query: string, results: EnhancedQueryResult[], options: ContextPackOptions): ContextPack {
+        const settings = { ...DEFAULT_OPTIONS, ...options };
+        this.fileCache.clear();
+
+        const pack: ContextPack = {
+            query,
+            tokenBudget: settings.tokenBudget,
+            tokensUsed: 0,
+            snippets: [],
+            truncated: [],
+            dropped: []
+        };
+
+        // Step 1: Symbol bodies in relevance order, merging overlaps within a file
+        const ordered = [...results].sort((a, b) => b.relevanceScore - a.relevanceScore);
+        for (const result of ordered) {
+            const candidate = this.resolveRange(result);
+            if (!candidate) {
+                pack.dropped.push({ symbol: result.symbol, file: result.file, reason: 'unreadable' });
+                continue;
+            }
+            this.addSymbolRange(pack, candidate, settings.maxSymbolLines);
+        }
+
+        const packedSymbols = pack.snippets.filter(s => s.kind === 'symbol');
+
+        // Step 2: Import blocks of files that contributed code
+        if (settings.includeImports) {
+            const seenFiles = new Set<string>();
+            for (const snippet of packedSymbols) {
+                if (seenFiles.has(snippet.file)) {
+                    continue;
+                }
+                seenFiles.add(snippet.file);
+                const importSnippet = this.buildImportSnippet(snippet);
+                if (importSnippet) {
+                    this.addIfFits(pack, importSnippet);
+                }
+            }
+        }
+
+        // Step 3: Where the packed symbols are used
+        if (settings.includeCallers) {
+            for (const snippet of packedSymbols) {
+                for (const symbolName of snippet.symbols) {
+                    const callerSnippets = this.buildCallerSnippets(snippet, symbolName, settings.maxCallersPerSymbol);
+                    for (const callerSnippet of callerSnippets) {
+                        this.addIfFits(pack, callerSnippet);
+                    }
+                }
+            }
+        }
+
+        return pack;
+    }
+
+    /**
+     * Locate a result's source range
+     */
+    private resolveRange(result: EnhancedQueryResult): CandidateRange | null {
+        const absolutePath = this.toAbsolute(result.file);
+        const symbol = this.findSymbol(absolutePath, result.symbol);
+        const lines = this.readLines(absolutePath);
+
+        if (!lines) {
+            // File moved or deleted since indexing: fall back to the code stored in the graph
+            if (!symbol?.fullCode) {
+                return null;
+            }
+            return {
+                symbol: result.symbol,
+                file: absolutePath,
+                startLine: symbol.location.line,
+                endLine: symbol.location.line + symbol.fullCode.split('\n').length - 1,
+                relevanceScore: result.relevanceScore,
+                code: symbol.fullCode
+            };
+        }
+
+        const startLine = Math.min(Math.max(0, symbol ? symbol.location.line : result.line), lines.length - 1);
+        // Indexed ranges are exact; older graphs have no end, so the block is measured
+        const blockEnd = symbol?.location.endLine ?? this.findBlockEnd(lines, startLine, detectLanguageId(absolutePath));
+        const endLine = Math.min(Math.max(blockEnd, startLine), lines.length - 1);
+
+        return {
+            symbol: result.symbol,
+            file: absolutePath,
+            startLine,
+            endLine,
+            relevanceScore: result.relevanceScore
+        };
+    }
+
+    private addSymbolRange(pack: ContextPack, candidate: CandidateRange, maxSymbolLines: number): void {
+        const relativeFile = this.toRelative(candidate.file);
+
+        // Contained in or overlapping already packed ranges: merge them all into the first
+        const overlapping = pack.snippets.filter(s =>
+            s.kind === 'symbol' &&
+            s.file === relativeFile &&
+            candidate.startLine <= s.endLine &&
+            candidate.endLine >= s.startLine
+        );
+
+        if (overlapping.length > 0) {
+            const target = overlapping[0];
+            if (candidate.startLine >= target.startLine && candidate.endLine <= target.endLine) {
+                target.symbols.push(candidate.symbol);
+                return;
+            }
+
+            // Truncated or stored-code snippets are not extended; the symbol is only partly shown
+            if (overlapping.some(s => s.truncated) || candidate.code !== undefined) {
+                target.symbols.push(candidate.symbol);
+                pack.truncated.push({
+                    symbol: candidate.symbol,
+                    file: relativeFile,
+                    originalTokens: estimateTokens(this.readRange(candidate.file, candidate.startLine, candidate.endLine)),
+                    packedTokens: 0
+                });
+                return;
+            }
+
+            const merged = this.buildSnippet(
+                'symbol',
+                candidate.file,
+                Math.min(candidate.startLine, ...overlapping.map(s => s.startLine)),
+                Math.max(candidate.endLine, ...overlapping.map(s => s.endLine)),
+                [...overlapping.flatMap(s => s.symbols), candidate.symbol],
+                Math.max(...overlapping.map(s => s.relevanceScore))
+            );
+            const extraTokens = merged.tokens - overlapping.reduce((sum, s) => sum + s.tokens, 0);
+            if (pack.tokensUsed + extraTokens > pack.tokenBudget) {
+                pack.dropped.push({ symbol: candidate.symbol, file: relativeFile, reason: 'budget' });
+                return;
+            }
+            Object.assign(target, merged);
+            pack.snippets = pack.snippets.filter(s => !overlapping.includes(s) || s === target);
+            pack.tokensUsed += extraTokens;
+            return;
+        }
+
+        const snippet = this.buildSnippet(
+            'symbol',
+            candidate.file,
+            candidate.startLine,
+            candidate.endLine,
+            [candidate.symbol],
+            candidate.relevanceScore,
+            candidate.code
+        );
+        const originalTokens = snippet.tokens;
+
+        // Cap very long bodies first, then whatever still does not fit the remaining budget
+        let packed = snippet;
+        if (snippet.endLine - snippet.startLine + 1 > maxSymbolLines) {
+            packed = this.truncateSnippet(snippet, Number.MAX_SAFE_INTEGER, maxSymbolLines);
+        }
+
+        const remaining = pack.tokenBudget - pack.tokensUsed;
+        if (packed.tokens > remaining) {
+            if (remaining < MIN_SNIPPET_TOKENS) {
+                pack.dropped.push({ symbol: candidate.symbol, file: relativeFile, reason: 'budget' });
+                return;
+            }
+            packed = this.truncateSnippet(packed, remaining, maxSymbolLines);
+        }
+
+        if (packed.truncated) {
+            pack.truncated.push({
+                symbol: candidate.symbol,
+                file: relativeFile,
+                originalTokens,
+                packedTokens: packed.tokens
+            });
+        }
+
+        pack.snippets.push(packed);
+        pack.tokensUsed += packed.tokens;
+    }
+
+    /**
+     * Supporting snippets are all-or-nothing and never overlap packed code
+     */
+    private addIfFits(pack: ContextPack, snippet: PackedSnippet): void {
+        const overlaps = pack.snippets.some(s =>
+            s.file === snippet.file &&
+            snippet.startLine <= s.endLine &&
+            snippet.endLine >= s.startLine
+        );
+        if (overlaps || pack.tokensUsed + snippet.tokens > pack.tokenBudget) {
+            return;
+        }
+        pack.snippets.push(snippet);
+        pack.tokensUsed += snippet.tokens;
+    }
+
+    /**
+     * Leading import statements of a file
+     */
+    private buildImportSnippet(symbolSnippet: PackedSnippet): PackedSnippet | null {
+        const absolutePath = this.toAbsolute(symbolSnippet.file);
+        const lines = this.readLines(absolutePath);
+        if (!lines) {
+            return null;
+        }
+
+        const importPattern = /^\s*(import\s|from\s+\S+\s+import\s|export\s+.*\sfrom\s|(const|let|var)\s+.*=\s*require\()/;
+        let firstImport = -1;
+        let lastImport = -1;
+        let inStatement = false;
+
+        for (let i = 0; i < Math.min(lines.length, symbolSnippet.startLine); i++) {
+            const trimmed = lines[i].trim();
+            if (importPattern.test(lines[i])) {
+                if (firstImport === -1) {
+                    firstImport = i;
+                }
+                lastImport = i;
+                // Multi-line `import {` / `from x import (` statements
+                inStatement = /[{(]\s*$/.test(trimmed) || (/[{(]/.test(trimmed) && !/[})]/.test(trimmed));
+            } else if (inStatement) {
+                lastImport = i;
+                inStatement = !/[})]/.test(trimmed);
+            } else if (trimmed.length > 0 && !this.isCommentLine(trimmed) && firstImport !== -1) {
+                break;
+            }
+        }
+
+        if (firstImport === -1) {
+            return null;
+        }
+
+        return this.buildSnippet('imports', absolutePath, firstImport, lastImport, [], symbolSnippet.relevanceScore);
+    }
+
+    /**
+     * First usage of a symbol in each file that imports it
+     */
+    private buildCallerSnippets(symbolSnippet: PackedSnippet, symbolName: string, maxCallers: number): PackedSnippet[] {
+        if (!this.contextGraph || maxCallers <= 0) {
+            return [];
+        }
+
+        const definingFile = this.toAbsolute(symbolSnippet.file);
+        const shortName = symbolName.substring(symbolName.lastIndexOf('.') + 1);
+        const id = symbolId(definingFile, symbolName);
+        const callerFiles = new Set<string>();
+        for (const edge of this.contextGraph.callGraph) {
+            // Imports that did not resolve to the declaration point at its file
+            const unresolvedImport = edge.to === definingFile && (edge.symbol === symbolName || edge.symbol === shortName);
+            if ((edge.to === id || unresolvedImport) && fileOfSymbolId(edge.from) !== definingFile) {
+                callerFiles.add(fileOfSymbolId(edge.from));
+            }
+        }
+
+        const usagePattern = new RegExp(`\\b${shortName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+        const snippets: PackedSnippet[] = [];
+
+        for (const callerFile of callerFiles) {
+            if (snippets.length >= maxCallers) {
+                break;
+            }
+            const lines = this.readLines(callerFile);
+            if (!lines) {
+                continue;
+            }
+
+            const usageLine = lines.findIndex(line =>
+                usagePattern.test(line) && !/^\s*(import|from)\s/.test(line) && !/require\(/.test(line)
+            );
+            if (usageLine === -1) {
+                continue;
+            }
+
+            snippets.push(this.buildSnippet(
+                'caller',
+                callerFile,
+                Math.max(0, usageLine - CALLER_CONTEXT_LINES),
+                Math.min(lines.length - 1, usageLine + CALLER_CONTEXT_LINES),
+                [symbolName],
+                symbolSnippet.relevanceScore
+            ));
+        }
+
+        return snippets;
+    }
+
+    private buildSnippet(
+        kind: PackedSnippet['kind'],
+        absolutePath: string,
+        startLine: number,
+        endLine: number,
+        symbols: string[],
+        relevanceScore: number,
+        storedCode?: string
+    ): PackedSnippet {
+        const code = storedCode ?? this.readRange(absolutePath, startLine, endLine);
+        return {
+            kind,
+            file: this.toRelative(absolutePath),
+            language: detectLanguageId(absolutePath),
+            startLine,
+            endLine,
+            symbols,
+            relevanceScore,
+            code,
+            tokens: estimateTokens(code),
+            truncated: false
+        };
+    }
+
+    /**
+     * Keep leading lines until the token or line limit is reached
+     */
+    private truncateSnippet(snippet: PackedSnippet, maxTokens: number, maxLines: number): PackedSnippet {
+        const marker = '// ... truncated';
+        const markerTokens = estimateTokens('\n' + marker);
+        const lines = snippet.code.split('\n');
+        const kept: string[] = [];
+        let tokens = 0;
+
+        for (const line of lines) {
+            const lineTokens = estimateTokens(line + '\n');
+            if (kept.length >= maxLines || tokens + lineTokens + markerTokens > maxTokens) {
+                break;
+            }
+            kept.push(line);
+            tokens += lineTokens;
+        }
+
+        if (kept.length === lines.length) {
+            return snippet;
+        }
+
+        const code = [...kept, marker].join('\n');
+        return {
+            ...snippet,
+            endLine: snippet.startLine + Math.max(kept.length - 1, 0),
+            code,
+            tokens: estimateTokens(code),
+            truncated: true
+        };
+    }
+
+    /**
+     * Last line of the block starting at `startLine`
+     * Braces for C-like languages, indentation for Python
+     */
+    private findBlockEnd(lines: string[], startLine: number, languageId: string): number {
+        const limit = Math.min(lines.length - 1, startLine + MAX_BLOCK_SCAN_LINES);
+
+        if (languageId === 'python') {
+            // Skip decorators and multi-line signatures up to the block colon
+            let headerEnd = startLine;
+            while (headerEnd < limit && !/:\s*(#.*)?$/.test(lines[headerEnd])) {
+                headerEnd++;
+            }
+
+            const baseIndent = this.indentOf(lines[startLine]);
+            let end = headerEnd;
+            for (let i = headerEnd + 1; i <= limit; i++) {
+                if (lines[i].trim().length === 0) {
+                    continue;
+                }
+                if (this.indentOf(lines[i]) <= baseIndent) {
+                    break;
+                }
+                end = i;
+            }
+            return end;
+        }
+
+        let depth = 0;
+        let seenOpen = false;
+        for (let i = startLine; i <= limit; i++) {
+            const code = lines[i]
+                .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+                .replace(/\/\/.*$/, '');
+            for (const char of code) {
+                if (char === '{') {
+                    depth++;
+                    seenOpen = true;
+                } else if (char === '}') {
+                    depth--;
+                }
+            }
+            if (seenOpen && depth <= 0) {
+                return i;
+            }
+            // Declarations without a body (`type X = ...;`, abstract members)
+            if (!seenOpen && /;\s*$/.test(code)) {
+                return i;
+            }
+        }
+        return seenOpen ? limit : startLine;
+    }
+
+    private findSymbol(absolutePath: string, symbolName: string): SymbolNode | undefined {
+        const node = this.nodesByPath.get(absolutePath);
+        return node?.symbols.find(s => s.name === symbolName);
+    }
+
+    private readRange(absolutePath: string, startLine: number, endLine: number): string {
+        return (this.readLines(absolutePath) || []).slice(startLine, endLine + 1).join('\n');
+    }
+
+    private readLines(absolutePath: string): string[] | null {
+        if (!this.fileCache.has(absolutePath)) {
+            try {
+                this.fileCache.set(absolutePath, fs.readFileSync(absolutePath, 'utf8').split(/\r?\n/));
+            } catch (error) {
+                this.fileCache.set(absolutePath, null);
+            }
+        }
+        return this.fileCache.get(absolutePath) || null;
+    }
+
+    private indentOf(line: string): number {
+        return line.length - line.trimStart().length;
+    }
+
+    private isCommentLine(trimmed: string): boolean {
+        return trimmed.startsWith('//') || trimmed.startsWith('#') || trimmed.startsWith('/*') || trimmed.startsWith('*');
+    }
+
+    private toAbsolute(filePath: string): string {
+        return path.isAbsolute(filePath) ? filePath : path.join(this.workspacePath, filePath);
+    }
+
+    private toRelative(filePath: string): string {
+        return path.relative(this.workspacePath, filePath).split(path.sep).join('/');
+    }
+}
@@ -13,18 +13,32 @@ import type {
     ContextGraph,
     IndexingReport,
     GraphNode,
-    QuickIndex,
-    SearchIndex
+    IProgress,
+    ICancellationToken
 } from './types';
 
 // Import core modules
 import { Indexer } from './indexer/Indexer';
 import { FileScanner } from './indexer/FileScanner';
+import { IndexWorkerPool } from './indexer/IndexWorkerPool';
 import { SecuritySanitizer } from './security/SecuritySanitizer';
 import { FuzzySearcher } from './search/FuzzySearcher';
 import { QueryAnalyzer } from './search/QueryAnalyzer';
 import { IncrementalUpdater } from './incremental/IncrementalUpdater';
 import { FileHasher } from './utils/FileHasher';
+import { ImportResolver } from './resolver/ImportResolver';
+import { saveIndicesToDisk, saveFileHashes } from './indexer/IndexStore';
+import { formatSearchResults, formatEnhancedSearchResults } from './output/ResultFormatter';
+import { LogicGraphChatParticipant } from './chat/LogicGraphChatParticipant';
+import { createEmbeddingProvider } from './retrieval/EmbeddingProvider';
+import {
+    LogicGraphSettings,
+    SettingsSection,
+    WatcherSettings,
+    graphConfigFromSettings,
+    embeddingConfigFromSettings,
+    fileScannerOptionsFromSettings
+} from './config/LogicGraphSettings';
 
 // Import adapters
 import {
@@ -38,11 +52,13 @@ import { CopilotIntelligenceOrchestrator } from './orchestrator/CopilotIntellige
 // Import VSCode-specific functions (these will remain in extension.ts)
 import {
     buildGraphNodeVSCode,
+    buildOutlineNodeVSCode,
     buildCompleteCallGraphVSCode,
-    generateQuickIndex,
-    generateSearchIndex,
+    loadWorkspaceQueries,
     showIndexingReportWebview
 } from './vscode/VSCodeHelpers';
+import { ConfigurationService } from './vscode/ConfigurationService';
+import { CallHierarchyEnricher } from './vscode/CallHierarchyEnricher';
 
 // Global state
 interface ExtensionState {
@@ -52,6 +68,9 @@ interface ExtensionState {
     indexingReport: IndexingReport | null;
     copilotOrchestrator: CopilotIntelligenceOrchestrator | null;
     copilotInitialized: boolean;
+    copilotLoading: Promise<void> | null;
+    importResolver: ImportResolver | null;
+    configuration: ConfigurationService;
     outputChannel: vscode.OutputChannel;
     statusBarItem: vscode.StatusBarItem;
 }
@@ -70,6 +89,8 @@ export function activate(context: vscode.ExtensionContext) {
     statusBarItem.tooltip = 'LogicGraph: Not Indexed';
     statusBarItem.show();
 
+    const configuration = new ConfigurationService(outputChannel);
+
     const state: ExtensionState = {
         contextGraph: null,
         incrementalUpdater: null,
@@ -77,16 +98,25 @@ export function activate(context: vscode.ExtensionContext) {
         indexingReport: null,
         copilotOrchestrator: null,
         copilotInitialized: false,
+        copilotLoading: null,
+        importResolver: null,
+        configuration,
         outputChannel,
         statusBarItem
     };
 
-    const fileScanner = new FileScanner();
+    const fileScanner = new FileScanner(fileScannerOptionsFromSettings(configuration.getSettings()));
     const securitySanitizer = new SecuritySanitizer();
     const fuzzySearcher = new FuzzySearcher();
     const queryAnalyzer = new QueryAnalyzer();
     
-    state.copilotOrchestrator = new CopilotIntelligenceOrchestrator();
+    state.copilotOrchestrator = createCopilotOrchestrator(configuration.getSettings());
+
+    // Settings changes re-tune the running components where possible
+    const settingsListener = configuration.onDidChange((settings, changed) => {
+        fileScanner.setOptions(fileScannerOptionsFromSettings(settings));
+        applySettingsChange(state, settings, changed);
+    });
 
     // Command: Generate full index
     const indexCommand = vscode.commands.registerCommand(
@@ -128,17 +158,104 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // Chat participant (@logicgraph)
+    const chatParticipant = new LogicGraphChatParticipant({
+        getOrchestrator: () => loadCopilotOrchestrator(state),
+        outputChannel
+    }).register();
+
     // File watcher for auto-incremental updates
     setupFileWatcher(context, state);
 
     context.subscriptions.push(
+        configuration.register(),
+        settingsListener,
         indexCommand,
         queryCommand,
         incrementalCommand,
-        viewReportCommand
+        viewReportCommand,
+        chatParticipant
     );
 }
 
+function createCopilotOrchestrator(settings: LogicGraphSettings): CopilotIntelligenceOrchestrator {
+    const embeddingConfig = embeddingConfigFromSettings(settings, process.env);
+    return new CopilotIntelligenceOrchestrator({
+        settings,
+        embeddingProvider: embeddingConfig ? createEmbeddingProvider(embeddingConfig) : undefined
+    });
+}
+
+/**
+ * Apply changed settings
+ * Ranking settings re-tune the loaded orchestrator in place. A different
+ * embedding provider needs new vectors, so the orchestrator is replaced
+ * and reloaded; the embedding cache keeps vectors per provider, so
+ * switching back is cheap. Indexing and watcher settings are read when
+ * they are next used.
+ */
+function applySettingsChange(state: ExtensionState, settings: LogicGraphSettings, changed: SettingsSection[]): void {
+    if (changed.includes('embedding')) {
+        state.outputChannel.appendLine('[Settings] Embedding provider changed, reloading Copilot intelligence...');
+        state.copilotOrchestrator = createCopilotOrchestrator(settings);
+        state.copilotInitialized = false;
+        state.copilotLoading = null;
+        state.statusBarItem.text = '$(search) LogicGraph';
+        state.statusBarItem.tooltip = 'LogicGraph: Reloading embeddings';
+        void loadCopilotOrchestrator(state);
+        return;
+    }
+
+    const rankingSections: SettingsSection[] = ['bm25', 'reranker', 'ranking', 'graph', 'queryExpansion'];
+    if (changed.some(section => rankingSections.includes(section)) && state.copilotOrchestrator) {
+        state.copilotOrchestrator.applySettings(settings);
+        state.outputChannel.appendLine('[Settings] Ranking re-tuned');
+    }
+    if (changed.includes('indexing')) {
+        state.outputChannel.appendLine('[Settings] Indexing settings apply from the next index or update');
+    }
+}
+
+/**
+ * Orchestrator for chat requests, loading an index from disk (e.g. one built
+ * by the CLI) on first use. If the embedding model fails to load the
+ * orchestrator is still returned: queryWithFallback uses fuzzy search.
+ */
+async function loadCopilotOrchestrator(state: ExtensionState): Promise<CopilotIntelligenceOrchestrator | null> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder || !state.copilotOrchestrator) {
+        return null;
+    }
+
+    if (!state.copilotInitialized && !state.copilotLoading) {
+        const searchPath = path.join(workspaceFolder.uri.fsPath, 'search_index.json');
+        if (!fs.existsSync(searchPath)) {
+            return null;
+        }
+
+        state.outputChannel.appendLine('[Copilot] Loading index from disk for chat...');
+        const orchestrator = state.copilotOrchestrator;
+        state.copilotLoading = orchestrator.initialize(workspaceFolder.uri.fsPath).then(() => {
+            // Settings may have replaced the orchestrator while it loaded
+            if (state.copilotOrchestrator !== orchestrator) {
+                return;
+            }
+            state.copilotInitialized = true;
+            state.statusBarItem.text = '$(sparkle) LogicGraph: Copilot Ready';
+            state.statusBarItem.tooltip = 'LogicGraph: Copilot Intelligence Active';
+            state.outputChannel.appendLine('[Copilot] ✅ Initialized from disk');
+        }).catch(error => {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            state.outputChannel.appendLine(`[Copilot] ⚠️ Initialization failed: ${errorMsg}`);
+        });
+    }
+
+    if (state.copilotLoading) {
+        await state.copilotLoading;
+    }
+    return state.copilotOrchestrator;
+}
+
 async function generateIndexWithProgress(
     context: vscode.ExtensionContext,
     state: ExtensionState,
@@ -159,25 +276,40 @@ async function generateIndexWithProgress(
             cancellable: true
         },
         async (progress, token) => {
+            let workerPool: IndexWorkerPool | undefined;
             try {
-                const config: GraphConfig = {
-                    maxDepth: 1,
-                    useSkeletonMode: true,
-                    maxFileSize: 1024 * 100,
-                    batchSize: 50,
-                    streamingThreshold: 1024 * 50
-                };
+                const settings = state.configuration.getSettings();
+                const config: GraphConfig = graphConfigFromSettings(settings);
 
                 const progressAdapter = new VSCodeProgressAdapter(progress);
                 const cancellationAdapter = new VSCodeCancellationTokenAdapter(token);
 
+                // Resolve imports using tsconfig/jsconfig paths and Python source roots
+                const importResolver = ImportResolver.fromWorkspace(workspaceFolder.uri.fsPath, {
+                    pythonSourceRoots: settings.indexing.pythonSourceRoots
+                });
+                state.importResolver = importResolver;
+                loadWorkspaceQueries(workspaceFolder.uri.fsPath);
+
+                // Hashing and Tree-sitter parsing run on worker threads, off the extension host
+                const pool = new IndexWorkerPool(workspaceFolder.uri.fsPath, {
+                    workers: settings.indexing.workers,
+                    fileTimeoutMs: settings.indexing.fileTimeoutMs
+                });
+                workerPool = pool;
+
                 // Create indexer with dependencies
                 const indexer = new Indexer({
                     fileScanner,
                     buildGraphNode: (filePath: string, config: GraphConfig) =>
-                        buildGraphNodeVSCode(filePath, config),
+                        buildGraphNodeVSCode(filePath, config, importResolver, pool),
                     buildCompleteCallGraph: (graph: ContextGraph) =>
-                        buildCompleteCallGraphVSCode(graph)
+                        buildCompleteCallGraphVSCode(graph),
+                    buildOutlineNode: (filePath: string) =>
+                        buildOutlineNodeVSCode(filePath, importResolver, pool),
+                    hashFile: (filePath, cancellationToken) => pool.hashFile(filePath, cancellationToken),
+                    concurrency: pool.size,
+                    fileTimeoutMs: settings.indexing.fileTimeoutMs
                 });
 
                 // Generate index
@@ -191,35 +323,28 @@ async function generateIndexWithProgress(
                 // Sanitize for security
                 result.graph = securitySanitizer.sanitizeContextGraph(result.graph);
 
-                // Enhance with Tree-sitter (if Copilot is enabled)
-                if (state.copilotOrchestrator) {
-                    try {
-                        state.outputChannel.appendLine('[Tree-sitter] Enhancing context graph with syntactic analysis...');
-                        const enhanceStartTime = Date.now();
-                        result.graph = await state.copilotOrchestrator.enhanceContextGraphWithTreeSitter(
-                            result.graph,
-                            workspaceFolder.uri.fsPath
-                        );
-                        const enhanceDuration = Date.now() - enhanceStartTime;
-                        state.outputChannel.appendLine(`[Tree-sitter] ✅ Enhancement complete in ${enhanceDuration}ms`);
-                    } catch (error) {
-                        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-                        state.outputChannel.appendLine(`[Tree-sitter] ⚠️ Enhancement failed: ${errorMsg}`);
-                    }
+                await pool.dispose();
+                workerPool = undefined;
+
+                // Precise call sites from the language servers (opt-in)
+                if (settings.indexing.callHierarchy) {
+                    await enrichWithCallHierarchy(state, result.graph, undefined, progressAdapter, cancellationAdapter);
                 }
 
                 // Store state
                 state.contextGraph = result.graph;
                 state.incrementalUpdater = new IncrementalUpdater(
                     result.fileHashes,
-                    (filePath: string, config: GraphConfig) => buildGraphNodeVSCode(filePath, config),
-                    (graph: ContextGraph) => buildCompleteCallGraphVSCode(graph)
+                    (filePath: string, config: GraphConfig) => buildGraphNodeVSCode(filePath, config, importResolver),
+                    (graph: ContextGraph) => buildCompleteCallGraphVSCode(graph),
+                    (filePath: string) => buildOutlineNodeVSCode(filePath, importResolver)
                 );
                 state.lastIndexTime = Date.now();
                 state.indexingReport = result.report;
 
                 // Save to disk
                 await saveIndicesToDisk(workspaceFolder.uri.fsPath, result.graph, result.report);
+                saveFileHashes(workspaceFolder.uri.fsPath, result.fileHashes, result.graph.generated);
 
                 // Initialize Copilot orchestrator with new index
                 if (state.copilotOrchestrator) {
@@ -277,46 +402,13 @@ async function generateIndexWithProgress(
                         `Indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
                     );
                 }
+            } finally {
+                await workerPool?.dispose();
             }
         }
     );
 }
 
-async function saveIndicesToDisk(
-    workspacePath: string,
-    graph: ContextGraph,
-    report: IndexingReport
-): Promise<void> {
-    if (!workspacePath || !graph || !report) {
-        throw new Error('Invalid parameters provided to saveIndicesToDisk');
-    }
-
-    try {
-        // Generate indices
-        const quickIndex = generateQuickIndex(graph, workspacePath);
-        const searchIndex = generateSearchIndex(graph, workspacePath);
-
-    // Save files
-    const quickPath = path.join(workspacePath, 'quick_index.json');
-    const searchPath = path.join(workspacePath, 'search_index.json');
-    const contextGraphPath = path.join(workspacePath, 'context-graph.json');
-    const reportDir = path.join(workspacePath, '.logicgraph');
-
-    fs.mkdirSync(reportDir, { recursive: true });
-
-    fs.writeFileSync(quickPath, JSON.stringify(quickIndex, null, 2), 'utf8');
-    fs.writeFileSync(searchPath, JSON.stringify(searchIndex, null, 2), 'utf8');
-    fs.writeFileSync(contextGraphPath, JSON.stringify(graph, null, 2), 'utf8');
-
-    const reportPath = path.join(reportDir, 'indexing-report.json');
-    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf8');
-    } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error('Failed to save indices to disk:', errorMsg);
-        throw new Error(`Failed to save indices: ${errorMsg}`);
-    }
-}
-
 async function queryCodebase(
     state: ExtensionState,
     fuzzySearcher: FuzzySearcher,
@@ -402,77 +494,36 @@ async function queryCodebase(
     }
 }
 
-function formatSearchResults(query: string, results: any[]): string {
-    if (!query) {
-        query = '(no query)';
-    }
-    if (!Array.isArray(results)) {
-        return '# Error: Invalid results';
-    }
-
-    let output = `# Search Results for: "${query}"\n\n`;
-    output += `Found ${results.length} relevant symbols\n\n`;
-
-    for (const result of results) {
-        if (!result || !result.symbol) {
-            continue; // Skip invalid results
-        }
-        output += `## \`${result.symbol}\` (${result.type || 'unknown'})\n`;
-        output += `- **File**: ${result.file || 'unknown'}:${result.line || 0}\n`;
-        output += `- **Signature**: \`${result.signature || 'N/A'}\`\n\n`;
-    }
-
-    if (results.length === 0) {
-        output += '\n*No results found. Try refining your search query.*\n';
-    }
-
-    return output;
-}
-
-function formatEnhancedSearchResults(contextAssembly: any): string {
-    if (!contextAssembly) {
-        return '# Error: Invalid context assembly';
-    }
-
-    let output = `# 🤖 Copilot Intelligence Search Results\n\n`;
-    output += `**Query**: "${contextAssembly.query || 'N/A'}"\n`;
-    output += `**Intent**: ${contextAssembly.intent || 'unknown'}\n`;
-    output += `**Processing Time**: ${contextAssembly.processingTime || 0}ms\n`;
-    output += `**Results**: ${contextAssembly.totalResults || 0}\n\n`;
-    output += `---\n\n`;
-
-    const results = contextAssembly.results || [];
-    for (let i = 0; i < results.length; i++) {
-        const result = results[i];
-        if (!result) continue;
-        
-        output += `### ${i + 1}. ${result.symbol || 'unknown'} (${result.type || 'unknown'})\n\n`;
-        output += `- **File**: [${result.file || 'unknown'}:${result.line || 0}](${result.file || '#'}#L${result.line || 0})\n`;
-        output += `- **Relevance Score**: ${((result.relevanceScore || 0) * 100).toFixed(1)}%\n\n`;
-        
-        // Explanation section
-        output += `**Relevance Breakdown**:\n`;
-        output += `- Lexical Match (BM25): ${(result.explanation.lexicalScore * 100).toFixed(1)}%\n`;
-        output += `- Semantic Similarity: ${(result.explanation.semanticScore * 100).toFixed(1)}%\n`;
-        output += `- Graph Relevance: ${(result.explanation.graphScore * 100).toFixed(1)}%\n\n`;
-        
-        if (result.explanation.matchedTerms.length > 0) {
-            output += `**Matched Query Terms**: ${result.explanation.matchedTerms.join(', ')}\n\n`;
-        }
-        
-        if (result.explanation.graphRelationships.length > 0) {
-            output += `**Call Graph Relationships**:\n`;
-            for (const rel of result.explanation.graphRelationships) {
-                output += `- \`${rel}\`\n`;
-            }
-            output += `\n`;
-        }
+/**
+ * Record language server call sites and references on the graph's
+ * functions and methods, then rebuild its call graph
+ * Incremental updates query the changed files only: calls they make into
+ * unchanged files keep just their Tree-sitter edges until the next full index.
+ */
+async function enrichWithCallHierarchy(
+    state: ExtensionState,
+    graph: ContextGraph,
+    filePaths: string[] | undefined,
+    progress: IProgress | undefined,
+    cancellationToken: ICancellationToken
+): Promise<void> {
+    try {
+        state.outputChannel.appendLine('[Call hierarchy] Querying language servers...');
+        const startTime = Date.now();
+        const enricher = new CallHierarchyEnricher(graph);
+        const result = await enricher.enrich(filePaths, progress, cancellationToken);
+        await buildCompleteCallGraphVSCode(graph);
+
+        const duration = Date.now() - startTime;
+        state.outputChannel.appendLine(
+            `[Call hierarchy] ✅ ${result.callSites} call site(s) and ${result.references} reference(s) ` +
+            `for ${result.symbols} symbol(s) in ${duration}ms` +
+            (result.failures > 0 ? ` (${result.failures} failed)` : '')
+        );
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        state.outputChannel.appendLine(`[Call hierarchy] ⚠️ Enrichment failed: ${errorMsg}`);
     }
-
-    output += `\n---\n\n`;
-    output += `*Powered by Tree-sitter, BM25, Semantic Embeddings, and Graph-Aware Ranking*\n`;
-
-    return output;
 }
 
 async function performIncrementalUpdate(
@@ -514,9 +565,13 @@ async function performIncrementalUpdate(
                 state.outputChannel.appendLine(`  - Deleted: ${changedFiles.deleted.length}`);
                 state.outputChannel.appendLine(`  - Added: ${changedFiles.added.length}`);
 
-                const config: GraphConfig = state.contextGraph!.config;
+                // Current settings, so limits changed since the full index apply
+                const config: GraphConfig = graphConfigFromSettings(state.configuration.getSettings());
                 const cancellationAdapter = new VSCodeCancellationTokenAdapter(token);
 
+                // Added or removed files change what specifiers resolve to
+                state.importResolver?.clearCache();
+
                 // Update graph
                 const updateResult = await state.incrementalUpdater!.updateGraph(
                     state.contextGraph!,
@@ -532,6 +587,17 @@ async function performIncrementalUpdate(
                     });
                 }
 
+                if (state.configuration.getSettings().indexing.callHierarchy) {
+                    progress.report({ message: '📞 Querying call hierarchy...' });
+                    await enrichWithCallHierarchy(
+                        state,
+                        updateResult.updatedGraph,
+                        [...changedFiles.modified, ...changedFiles.added],
+                        undefined,
+                        cancellationAdapter
+                    );
+                }
+
                 // Update state
                 state.contextGraph = updateResult.updatedGraph;
                 state.lastIndexTime = Date.now();
@@ -547,6 +613,7 @@ async function performIncrementalUpdate(
                     totalFiles: state.contextGraph.nodes.length,
                     successfulFiles: state.contextGraph.nodes.length - updateResult.errors.length,
                     skippedFiles: 0,
+                    partialFiles: sanitizedGraph.nodes.filter(node => node.partial).map(node => node.filePath),
                     errors: updateResult.errors.map(err => ({
                         file: err.file,
                         error: err.error,
@@ -558,6 +625,7 @@ async function performIncrementalUpdate(
                 };
 
                 await saveIndicesToDisk(workspaceFolder.uri.fsPath, sanitizedGraph, report);
+                saveFileHashes(workspaceFolder.uri.fsPath, state.incrementalUpdater!.getFileHashes());
 
                 // Refresh Copilot orchestrator if initialized
                 if (state.copilotInitialized && state.copilotOrchestrator) {
@@ -565,7 +633,11 @@ async function performIncrementalUpdate(
                     state.outputChannel.appendLine('  🔄 Refreshing Copilot orchestrator...');
                     
                     try {
-                        await state.copilotOrchestrator.initialize(workspaceFolder.uri.fsPath);
+                        await state.copilotOrchestrator.applyIncrementalUpdate(
+                            workspaceFolder.uri.fsPath,
+                            sanitizedGraph,
+                            changedFiles
+                        );
                         state.outputChannel.appendLine('  ✅ Copilot orchestrator refreshed');
                     } catch (error) {
                         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -599,14 +671,36 @@ function setupFileWatcher(context: vscode.ExtensionContext, state: ExtensionStat
         return;
     }
 
+    // Recreated when the watcher settings change
+    let watcher: vscode.Disposable | null = null;
+    const startWatcher = (settings: WatcherSettings) => {
+        watcher?.dispose();
+        watcher = settings.enabled ? createFileWatcher(workspaceFolder, state, settings) : null;
+    };
+    startWatcher(state.configuration.getSettings().watcher);
+
+    const settingsListener = state.configuration.onDidChange((settings, changed) => {
+        if (changed.includes('watcher')) {
+            startWatcher(settings.watcher);
+            state.outputChannel.appendLine(
+                settings.watcher.enabled ? `[Settings] Watching ${settings.watcher.include}` : '[Settings] File watcher disabled'
+            );
+        }
+    });
+
+    context.subscriptions.push(settingsListener, new vscode.Disposable(() => watcher?.dispose()));
+}
+
+function createFileWatcher(
+    workspaceFolder: vscode.WorkspaceFolder,
+    state: ExtensionState,
+    settings: WatcherSettings
+): vscode.Disposable {
     const watcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(
-            workspaceFolder,
-            '**/*.{ts,tsx,js,jsx,py,java,go,rs,c,cpp}'
-        )
+        new vscode.RelativePattern(workspaceFolder, settings.include)
     );
 
-    // Debounce incremental updates - wait 2 seconds after last change
+    // Debounce incremental updates - wait for changes to settle
     let updateTimeout: NodeJS.Timeout | null = null;
     const pendingChanges = new Set<string>();
 
@@ -620,10 +714,10 @@ function setupFileWatcher(context: vscode.ExtensionContext, state: ExtensionStat
                 state.outputChannel.appendLine(`\n🔄 Auto-triggering incremental update for ${pendingChanges.size} changed file(s)...`);
                 pendingChanges.clear();
                 
-                const fileScanner = new FileScanner();
+                const fileScanner = new FileScanner(fileScannerOptionsFromSettings(state.configuration.getSettings()));
                 await performIncrementalUpdate(state, fileScanner);
             }
-        }, 2000); // Wait 2 seconds after last change
+        }, settings.debounceMs);
     };
 
     watcher.onDidChange((uri) => {
@@ -654,7 +748,12 @@ function setupFileWatcher(context: vscode.ExtensionContext, state: ExtensionStat
         }
     });
 
-    context.subscriptions.push(watcher);
+    return new vscode.Disposable(() => {
+        if (updateTimeout) {
+            clearTimeout(updateTimeout);
+        }
+        watcher.dispose();
+    });
 }
 
 export function deactivate() {}
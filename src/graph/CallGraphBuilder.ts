@@ -0,0 +1,128 @@
+/**
+ * CallGraphBuilder - Derives the call graph from graph nodes
+ *
+ * Independent of VS Code so it runs both in the extension host and in
+ * plain Node processes.
+ */
+
+import { ContextGraph, CallEdge, TypeEdge } from '../types';
+import { CallGraphResolver, parseImportSpecifier } from './CallGraphResolver';
+import { symbolId } from './SymbolId';
+
+/**
+ * Rebuild `callGraph` from the nodes' resolved imports and call sites, and
+ * `typeHierarchy` from their base types; fill `referencedBy` from imports
+ * and language server references
+ * Edges connect qualified symbol IDs (`file#Class.method`); import edges
+ * start at the importing file. Call sites the language server reported
+ * (SymbolNode.references) are merged into the Tree-sitter edges, and each
+ * edge lists every source that reported it. Safe to call again after nodes
+ * change: the edges are derived from scratch and references are not
+ * duplicated.
+ */
+export async function buildCompleteCallGraph(graph: ContextGraph): Promise<void> {
+    const resolver = new CallGraphResolver(graph.nodes);
+    const nodeMap = new Map(graph.nodes.map(node => [node.filePath, node]));
+    const edges = new Map<string, CallEdge>();
+
+    const addEdge = (edge: CallEdge) => {
+        const key = edgeKey(edge);
+        const existing = edges.get(key);
+        if (!existing) {
+            edges.set(key, edge);
+            return;
+        }
+        for (const source of edge.provenance || []) {
+            if (!existing.provenance!.includes(source)) {
+                existing.provenance!.push(source);
+            }
+        }
+    };
+
+    for (const node of graph.nodes) {
+        for (const importNode of node.imports) {
+            if (!importNode.resolvedPath) {
+                continue;
+            }
+
+            const targetNode = nodeMap.get(importNode.resolvedPath);
+            if (!targetNode) {
+                continue;
+            }
+
+            for (const specifier of importNode.symbols) {
+                const symbolName = parseImportSpecifier(specifier).exported;
+                addEdge({
+                    from: node.filePath,
+                    to: resolver.resolveExport(importNode.resolvedPath, symbolName) || importNode.resolvedPath,
+                    symbol: symbolName,
+                    kind: 'import',
+                    provenance: ['imports']
+                });
+
+                const symbol = targetNode.symbols.find(s => 
+                    s.name === symbolName || s.name.endsWith('.' + symbolName)
+                );
+                if (symbol && !symbol.referencedBy.includes(node.filePath)) {
+                    symbol.referencedBy.push(node.filePath);
+                }
+            }
+        }
+
+        // One edge per caller, callee and kind, at the first call site
+        for (const callSite of node.callSites || []) {
+            const edge = resolver.resolveCallSite(node, callSite);
+            if (edge) {
+                addEdge({ ...edge, provenance: ['tree-sitter'] });
+            }
+        }
+    }
+
+    // Language server call sites, once every Tree-sitter edge is known
+    for (const node of graph.nodes) {
+        for (const symbol of node.symbols) {
+            for (const site of symbol.references || []) {
+                if (!nodeMap.has(site.file)) {
+                    continue; // Reported from a file that is no longer indexed
+                }
+                if (!symbol.referencedBy.includes(site.file) && site.file !== node.filePath) {
+                    symbol.referencedBy.push(site.file);
+                }
+                if (site.caller === undefined) {
+                    continue; // A reference, not a call
+                }
+
+                const from = site.caller ? symbolId(site.file, site.caller) : site.file;
+                const to = symbolId(node.filePath, symbol.name);
+                // Constructor calls are 'new' edges in Tree-sitter terms
+                const kind = edges.has(edgeKey({ from, to, symbol: '', kind: 'new' })) ? 'new' : 'call';
+                addEdge({
+                    from,
+                    to,
+                    symbol: symbol.name.substring(symbol.name.lastIndexOf('.') + 1),
+                    kind,
+                    line: site.line,
+                    provenance: [site.provenance]
+                });
+            }
+        }
+    }
+
+    graph.callGraph = Array.from(edges.values());
+
+    const typeEdges = new Map<string, TypeEdge>();
+    for (const node of graph.nodes) {
+        for (const clause of node.heritage || []) {
+            const edge = resolver.resolveHeritage(node, clause);
+            const key = edge ? `${edge.from}\u0000${edge.to}\u0000${edge.kind}` : '';
+            if (edge && !typeEdges.has(key)) {
+                typeEdges.set(key, edge);
+            }
+        }
+    }
+    graph.typeHierarchy = Array.from(typeEdges.values());
+}
+
+function edgeKey(edge: CallEdge): string {
+    return `${edge.from}\u0000${edge.to}\u0000${edge.kind}\u0000${edge.kind === 'import' ? edge.symbol : ''}`;
+}
@@ -0,0 +1,294 @@
+/**
+ * CallGraphResolver - Binds call sites, base types and imports to the definitions they name
+ *
+ * Call sites carry the callee as written (`login`, `this.save`,
+ * `auth.login`, `new Session`). Names are looked up the way the languages
+ * scope them, nearest first:
+ * 1. `this.x` / `self.x` / `cls.x`: members of the enclosing class
+ * 2. Plain names: definitions nested in the enclosing functions, then
+ *    module-level definitions, then imported names
+ * 3. `Name.x` where Name is a local or imported class, or an imported
+ *    module / namespace: the member of that class or module
+ * 4. Any other receiver (`user.save()` on a variable, inherited members):
+ *    the member of that name, if exactly one is declared in the file or
+ *    the files it imports
+ * Imported names that the target file does not declare (barrel
+ * re-exports) follow the target's own imports, then fall back to the only
+ * module-level definition with that name. Calls that bind to nothing in
+ * the workspace, such as library and built-in calls, produce no edge.
+ * Base types in `extends` / `implements` clauses resolve the same way, from
+ * the scope enclosing the type. A class whose base is an interface
+ * implements it, whatever the clause said (C# lists both in one clause).
+ */
+
+import { GraphNode, SymbolNode, CallSite, CallEdge, HeritageClause, TypeEdge } from '../types';
+import { symbolId, parseSymbolId } from './SymbolId';
+
+interface ImportBinding {
+    file: string; // Resolved path of the imported module
+    name?: string; // Exported name; undefined when the module itself is bound
+}
+
+/**
+ * Split an import specifier: `a as b` exports a and binds b
+ * (JavaScript; Python aliases are dropped at extraction)
+ */
+export function parseImportSpecifier(specifier: string): { exported: string; local: string } {
+    const [exported, local] = specifier.replace(/^type\s+/, '').split(/\s+as\s+/).map(s => s.trim());
+    return { exported, local: local || exported };
+}
+
+const SELF_RECEIVERS = new Set(['this', 'self', 'cls', 'Self', '$this']);
+const CLASS_KINDS = new Set(['Class', 'Interface', 'Struct', 'Enum']);
+const MAX_REEXPORT_DEPTH = 3;
+
+export class CallGraphResolver {
+    private nodesByPath: Map<string, GraphNode>;
+    private symbolsByFile: Map<string, Map<string, SymbolNode>>; // file -> dotted name -> symbol
+    private definitionsByName: Map<string, string[]>; // last name segment -> symbol IDs
+    private bindingsByFile: Map<string, Map<string, ImportBinding>>; // file -> local name -> binding
+
+    constructor(nodes: GraphNode[]) {
+        this.nodesByPath = new Map();
+        this.symbolsByFile = new Map();
+        this.definitionsByName = new Map();
+        this.bindingsByFile = new Map();
+
+        for (const node of nodes) {
+            this.nodesByPath.set(node.filePath, node);
+            const symbols = new Map<string, SymbolNode>();
+            for (const symbol of node.symbols) {
+                if (!symbols.has(symbol.name)) {
+                    symbols.set(symbol.name, symbol);
+                }
+                const shortName = this.shortName(symbol.name);
+                if (!this.definitionsByName.has(shortName)) {
+                    this.definitionsByName.set(shortName, []);
+                }
+                this.definitionsByName.get(shortName)!.push(symbolId(node.filePath, symbol.name));
+            }
+            this.symbolsByFile.set(node.filePath, symbols);
+        }
+    }
+
+    /**
+     * ID of the definition an import names in its target file, or null
+     */
+    public resolveExport(targetFile: string, exportedName: string, depth: number = 0): string | null {
+        if (this.symbolsByFile.get(targetFile)?.has(exportedName)) {
+            return symbolId(targetFile, exportedName);
+        }
+
+        // Re-exported from another module the target imports
+        const binding = this.getBindings(targetFile).get(exportedName);
+        if (binding && binding.name && depth < MAX_REEXPORT_DEPTH) {
+            const reexported = this.resolveExport(binding.file, binding.name, depth + 1);
+            if (reexported) {
+                return reexported;
+            }
+        }
+
+        if (depth > 0) {
+            return null;
+        }
+        const topLevel = (this.definitionsByName.get(exportedName) || [])
+            .filter(id => parseSymbolId(id).symbol === exportedName);
+        return topLevel.length === 1 ? topLevel[0] : null;
+    }
+
+    /**
+     * Edge for a call site of `node`, or null when the callee is not a
+     * workspace definition
+     */
+    public resolveCallSite(node: GraphNode, site: CallSite): CallEdge | null {
+        const to = this.resolveCallee(node.filePath, site);
+        if (!to) {
+            return null;
+        }
+
+        return {
+            from: this.callerId(node.filePath, site.caller),
+            to,
+            symbol: site.callee,
+            kind: site.kind,
+            line: site.line
+        };
+    }
+
+    /**
+     * Type hierarchy edge for a base type of `node`, or null when the base
+     * is not a workspace definition
+     */
+    public resolveHeritage(node: GraphNode, clause: HeritageClause): TypeEdge | null {
+        const from = this.lookup(node.filePath, clause.type);
+        const to = from
+            ? this.resolveCallee(node.filePath, { caller: clause.type, callee: clause.base, receiver: clause.receiver })
+            : null;
+        if (!from || !to || to === from) {
+            return null;
+        }
+
+        const implementsInterface = this.kindOf(to) === 'Interface' && this.kindOf(from) !== 'Interface';
+        return {
+            from,
+            to,
+            name: clause.base,
+            kind: implementsInterface ? 'implements' : clause.kind,
+            line: clause.line
+        };
+    }
+
+    /**
+     * The caller's ID; nested definitions the symbol provider did not
+     * report fall back to their nearest reported ancestor, then the file
+     */
+    private callerId(file: string, caller: string): string {
+        const symbols = this.symbolsByFile.get(file);
+        const parts = caller ? caller.split('.') : [];
+        for (let i = parts.length; i > 0; i--) {
+            const name = parts.slice(0, i).join('.');
+            if (symbols?.has(name)) {
+                return symbolId(file, name);
+            }
+        }
+        return file;
+    }
+
+    private resolveCallee(file: string, site: Pick<CallSite, 'caller' | 'callee' | 'receiver'>): string | null {
+        const { callee, receiver } = site;
+
+        if (receiver === undefined) {
+            return this.resolveName(file, site.caller, callee);
+        }
+
+        if (SELF_RECEIVERS.has(receiver)) {
+            const owner = this.enclosingClass(file, site.caller);
+            const member = owner ? this.lookup(file, `${owner}.${callee}`) : null;
+            return member || this.resolveUnique(file, callee);
+        }
+
+        if (receiver) {
+            const member = this.resolveMember(file, site.caller, receiver, callee);
+            if (member) {
+                return member;
+            }
+        }
+
+        return this.resolveUnique(file, callee);
+    }
+
+    /**
+     * A plain name: enclosing function scopes, module level, then imports
+     * Class bodies are skipped: methods do not see their siblings unqualified
+     */
+    private resolveName(file: string, caller: string, name: string): string | null {
+        const parts = caller ? caller.split('.') : [];
+        for (let i = parts.length; i >= 0; i--) {
+            const scope = parts.slice(0, i).join('.');
+            if (scope && CLASS_KINDS.has(this.symbolsByFile.get(file)?.get(scope)?.kind || '')) {
+                continue;
+            }
+            const local = this.lookup(file, scope ? `${scope}.${name}` : name);
+            if (local) {
+                return local;
+            }
+        }
+
+        const binding = this.getBindings(file).get(name);
+        if (binding && binding.name) {
+            return this.resolveExport(binding.file, binding.name);
+        }
+        return null;
+    }
+
+    /**
+     * `receiver.name` where the receiver is a class or an imported module
+     */
+    private resolveMember(file: string, caller: string, receiver: string, name: string): string | null {
+        const binding = this.getBindings(file).get(receiver);
+        if (binding) {
+            // Namespace and module imports bind the module, not one of its symbols
+            const owner = binding.name ? this.resolveExport(binding.file, binding.name) : null;
+            if (owner) {
+                const { file: ownerFile, symbol } = parseSymbolId(owner);
+                return this.lookup(ownerFile, `${symbol}.${name}`);
+            }
+            return this.resolveExport(binding.file, name);
+        }
+
+        if (!receiver.includes('.')) {
+            const owner = this.resolveName(file, caller, receiver);
+            if (owner) {
+                const { file: ownerFile, symbol } = parseSymbolId(owner);
+                return this.lookup(ownerFile, `${symbol}.${name}`);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * The only declaration of `name` (as a last segment) in the file or the
+     * files it imports
+     */
+    private resolveUnique(file: string, name: string): string | null {
+        const node = this.nodesByPath.get(file);
+        const visible = new Set([file, ...(node?.imports || []).map(imp => imp.resolvedPath).filter(p => !!p)]);
+        const candidates = (this.definitionsByName.get(name) || []).filter(id => visible.has(parseSymbolId(id).file));
+        return candidates.length === 1 ? candidates[0] : null;
+    }
+
+    private enclosingClass(file: string, caller: string): string | null {
+        const symbols = this.symbolsByFile.get(file);
+        const parts = caller ? caller.split('.') : [];
+        for (let i = parts.length; i > 0; i--) {
+            const name = parts.slice(0, i).join('.');
+            if (CLASS_KINDS.has(symbols?.get(name)?.kind || '')) {
+                return name;
+            }
+        }
+        return null;
+    }
+
+    private kindOf(id: string): string | undefined {
+        const { file, symbol } = parseSymbolId(id);
+        return symbol ? this.symbolsByFile.get(file)?.get(symbol)?.kind : undefined;
+    }
+
+    private lookup(file: string, name: string): string | null {
+        return this.symbolsByFile.get(file)?.has(name) ? symbolId(file, name) : null;
+    }
+
+    /**
+     * Local names bound by a file's resolved imports
+     * `import { a as b }` binds b to a; Python `import pkg.mod` binds the
+     * dotted module name to the module
+     */
+    private getBindings(file: string): Map<string, ImportBinding> {
+        let bindings = this.bindingsByFile.get(file);
+        if (bindings) {
+            return bindings;
+        }
+
+        bindings = new Map();
+        for (const importNode of this.nodesByPath.get(file)?.imports || []) {
+            if (!importNode.resolvedPath) {
+                continue;
+            }
+            if (importNode.symbols.length === 0 && !importNode.importPath.startsWith('.')) {
+                bindings.set(importNode.importPath, { file: importNode.resolvedPath });
+            }
+            for (const specifier of importNode.symbols) {
+                const { exported, local } = parseImportSpecifier(specifier);
+                if (exported && exported !== '*') {
+                    bindings.set(local, { file: importNode.resolvedPath, name: exported });
+                }
+            }
+        }
+        this.bindingsByFile.set(file, bindings);
+        return bindings;
+    }
+
+    private shortName(name: string): string {
+        return name.substring(name.lastIndexOf('.') + 1);
+    }
+}
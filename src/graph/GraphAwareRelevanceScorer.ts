@@ -8,13 +8,16 @@
  * - Call graph structure: Calling relationships and patterns
  * - Reference density: How central/important a symbol is
  * - Graph centrality: PageRank-style importance
+ * - Type hierarchy: for "what implements / extends X" queries, subtypes of X
+ *   (kept out of the weighted sum; such queries rank subtypes first)
  * 
  * This enables Copilot-style understanding of "how code works" rather than
  * just "where symbols are". Graph relevance dominates for explanatory queries.
  */
 
-import { ContextGraph, GraphNode, CallEdge, SymbolNode } from '../types';
+import { ContextGraph, GraphNode, CallEdge, TypeEdge, SymbolNode } from '../types';
 import { VirtualQueryGraph } from '../semantic/QueryIntentGraph';
+import { symbolId, parseSymbolId } from './SymbolId';
 
 interface GraphRelevanceScore {
     symbolAffinity: number; // 0-1: Query entity match strength
@@ -22,10 +25,24 @@ interface GraphRelevanceScore {
     callGraphMatch: number; // 0-1: Call pattern similarity
     referenceDensity: number; // 0-1: How referenced the symbol is
     centrality: number; // 0-1: Graph centrality (PageRank-like)
-    overall: number; // Weighted combination
+    typeHierarchy: number; // 0-1: Subtype of a type the query asks about; 1 for direct subtypes
+    overall: number; // Weighted combination of the other components
+}
+
+/**
+ * Relative weight of each component of the overall score
+ * Normalized to sum to 1.0 when applied
+ */
+export interface GraphScoreWeights {
+    symbolAffinity: number;
+    importProximity: number;
+    callGraphMatch: number;
+    referenceDensity: number;
+    centrality: number;
 }
 
 interface ScoredSymbol {
+    id: string; // Call graph ID, `file#symbol`
     symbol: string;
     file: string;
     line: number;
@@ -34,19 +51,27 @@ interface ScoredSymbol {
     explanation: string;
 }
 
+// Query relations answered from the type hierarchy
+const TYPE_RELATIONS = new Set(['implements', 'extends', 'inherits', 'subclasses', 'implementations']);
+const MAX_TYPE_DEPTH = 3;
+
 export class GraphAwareRelevanceScorer {
     private contextGraph: ContextGraph | null = null;
     private queryGraph: VirtualQueryGraph | null = null;
     
-    // Graph structures for efficient lookup
+    // Graph structures for efficient lookup, keyed by symbol ID (see SymbolId)
     private callGraphMap: Map<string, Set<string>>; // symbol -> callees
     private reverseCallGraph: Map<string, Set<string>>; // symbol -> callers
     private importGraphMap: Map<string, Set<string>>; // file -> imported files
-    private symbolToFile: Map<string, string>; // symbol -> file path
+    private symbolToFile: Map<string, string>; // symbol name -> file path
     private symbolCentrality: Map<string, number>; // Precomputed centrality
+    private outgoingEdges: Map<string, CallEdge[]>; // caller -> edges
+    private incomingEdges: Map<string, CallEdge[]>; // callee -> edges
+    private supertypeEdges: Map<string, TypeEdge[]>; // subtype -> edges
+    private subtypeEdges: Map<string, TypeEdge[]>; // supertype -> edges
     
     // Scoring weights
-    private weights = {
+    private weights: GraphScoreWeights = {
         symbolAffinity: 0.3,
         importProximity: 0.15,
         callGraphMatch: 0.25,
@@ -60,6 +85,10 @@ export class GraphAwareRelevanceScorer {
         this.importGraphMap = new Map();
         this.symbolToFile = new Map();
         this.symbolCentrality = new Map();
+        this.outgoingEdges = new Map();
+        this.incomingEdges = new Map();
+        this.supertypeEdges = new Map();
+        this.subtypeEdges = new Map();
     }
 
     /**
@@ -72,6 +101,55 @@ export class GraphAwareRelevanceScorer {
         console.log('GraphAwareRelevanceScorer: Loaded context graph');
     }
 
+    /**
+     * Apply changes to some files of the loaded graph
+     * `graph` is the updated graph; imports and symbols of `changedFiles`
+     * are replaced, call and type edges are re-read from the graph.
+     * Centrality is global, so it is recomputed from the updated structures.
+     */
+    public updateFiles(graph: ContextGraph, changedFiles: string[]): void {
+        this.contextGraph = graph;
+        const affected = new Set(changedFiles);
+
+        // A changed file can re-route edges between unchanged files (a
+        // re-export, a name that is no longer unique), so the call edges are
+        // re-read in full from the rebuilt call graph
+        this.indexCallGraph(graph.callGraph);
+        for (const file of affected) {
+            this.importGraphMap.delete(file);
+        }
+
+        // Symbols of affected files: drop, then re-add from the updated nodes
+        const removedSymbols: string[] = [];
+        for (const [symbolName, file] of this.symbolToFile) {
+            if (affected.has(file)) {
+                removedSymbols.push(symbolName);
+            }
+        }
+        for (const symbolName of removedSymbols) {
+            this.symbolToFile.delete(symbolName);
+        }
+
+        for (const node of graph.nodes) {
+            if (affected.has(node.filePath)) {
+                this.indexNode(node);
+            } else if (removedSymbols.length > 0) {
+                // A name can be declared in several files; fall back to another declaration
+                for (const symbol of node.symbols) {
+                    if (!this.symbolToFile.has(symbol.name) && removedSymbols.includes(symbol.name)) {
+                        this.symbolToFile.set(symbol.name, node.filePath);
+                    }
+                }
+            }
+        }
+
+        // Few edges, so the type hierarchy is simply re-read
+        this.indexTypeHierarchy(graph.typeHierarchy || []);
+
+        this.computeCentrality();
+        console.log(`GraphAwareRelevanceScorer: Updated ${affected.size} file(s)`);
+    }
+
     /**
      * Load query intent graph for structural comparison
      */
@@ -93,14 +171,17 @@ export class GraphAwareRelevanceScorer {
 
         // Extract query entities for matching
         const queryEntities = this.extractQueryEntities();
+        const typeTargets = this.findTypeRelationTargets(queryEntities);
 
         // Score each symbol in the context graph
         for (const node of this.contextGraph.nodes) {
             for (const symbol of node.symbols) {
-                const score = this.scoreSymbol(symbol.name, node.filePath, queryEntities);
+                const id = symbolId(node.filePath, symbol.name);
+                const score = this.scoreSymbol(id, symbol.name, node.filePath, queryEntities, typeTargets);
                 const explanation = this.explainScore(symbol.name, score);
 
                 scoredSymbols.push({
+                    id,
                     symbol: symbol.name,
                     file: node.filePath,
                     line: symbol.location.line,
@@ -111,8 +192,10 @@ export class GraphAwareRelevanceScorer {
             }
         }
 
-        // Sort by overall score
-        scoredSymbols.sort((a, b) => b.score.overall - a.score.overall);
+        // Sort by overall score, subtypes of a queried type first
+        scoredSymbols.sort((a, b) =>
+            (b.score.typeHierarchy - a.score.typeHierarchy) || (b.score.overall - a.score.overall)
+        );
 
         return scoredSymbols;
     }
@@ -121,9 +204,11 @@ export class GraphAwareRelevanceScorer {
      * Score a specific symbol against query intent graph
      */
     private scoreSymbol(
+        id: string,
         symbolName: string,
         filePath: string,
-        queryEntities: string[]
+        queryEntities: string[],
+        typeTargets: Set<string>
     ): GraphRelevanceScore {
         // 1. Symbol Affinity: How well does symbol match query entities
         const symbolAffinity = this.computeSymbolAffinity(symbolName, queryEntities);
@@ -132,13 +217,16 @@ export class GraphAwareRelevanceScorer {
         const importProximity = this.computeImportProximity(filePath, queryEntities);
 
         // 3. Call Graph Match: Do call patterns match query structure
-        const callGraphMatch = this.computeCallGraphMatch(symbolName, queryEntities);
+        const callGraphMatch = this.computeCallGraphMatch(id, queryEntities);
 
         // 4. Reference Density: How referenced/important is this symbol
-        const referenceDensity = this.computeReferenceDensity(symbolName);
+        const referenceDensity = this.computeReferenceDensity(id);
 
         // 5. Centrality: Graph-theoretic importance
-        const centrality = this.symbolCentrality.get(symbolName) || 0;
+        const centrality = this.symbolCentrality.get(id) || 0;
+
+        // 6. Type Hierarchy: Is this a subtype of a type the query asks about
+        const typeHierarchy = this.computeTypeHierarchyMatch(id, typeTargets);
 
         // Weighted combination
         const overall =
@@ -154,6 +242,7 @@ export class GraphAwareRelevanceScorer {
             callGraphMatch,
             referenceDensity,
             centrality,
+            typeHierarchy,
             overall
         };
     }
@@ -218,16 +307,15 @@ export class GraphAwareRelevanceScorer {
      * Compute call graph match score
      * Measures how well call patterns match query structure
      */
-    private computeCallGraphMatch(symbolName: string, queryEntities: string[]): number {
+    private computeCallGraphMatch(id: string, queryEntities: string[]): number {
         if (queryEntities.length === 0) {
             return 0;
         }
 
-        // Get callees of this symbol
-        const callees = this.callGraphMap.get(symbolName) || new Set();
-        
-        // Get callers of this symbol
-        const callers = this.reverseCallGraph.get(symbolName) || new Set();
+        // Query entities are plain names; compare them with the full and
+        // last-segment names of the neighbors
+        const callees = this.neighborNames(this.callGraphMap.get(id));
+        const callers = this.neighborNames(this.reverseCallGraph.get(id));
 
         // Count how many query entities are in call neighborhood
         let matchCount = 0;
@@ -242,9 +330,13 @@ export class GraphAwareRelevanceScorer {
             const queryCallPatterns = new Set(
                 this.queryGraph.callGraph.map(e => `${e.from}->${e.to}`)
             );
-            const codeCallPatterns = new Set(
-                Array.from(callees).map(callee => `${symbolName}->${callee}`)
-            );
+            const symbolNames = this.neighborNames(new Set([id]));
+            const codeCallPatterns = new Set<string>();
+            for (const symbolName of symbolNames) {
+                for (const callee of callees) {
+                    codeCallPatterns.add(`${symbolName}->${callee}`);
+                }
+            }
 
             const patternMatches = [...queryCallPatterns].filter(p => codeCallPatterns.has(p)).length;
             matchCount += patternMatches * 2; // Pattern matches are more important
@@ -253,13 +345,81 @@ export class GraphAwareRelevanceScorer {
         return Math.min(matchCount / Math.max(queryEntities.length, 1), 1.0);
     }
 
+    /**
+     * Names a set of call graph IDs can be referred to by: the dotted
+     * symbol name and its last segment (`Session.login`, `login`)
+     */
+    private neighborNames(ids: Set<string> | undefined): Set<string> {
+        const names = new Set<string>();
+        for (const id of ids || []) {
+            const { symbol } = parseSymbolId(id);
+            if (symbol) {
+                names.add(symbol);
+                names.add(symbol.substring(symbol.lastIndexOf('.') + 1));
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Types a type-relation query names: "what implements PaymentProvider"
+     * targets every type declared as PaymentProvider
+     */
+    private findTypeRelationTargets(queryEntities: string[]): Set<string> {
+        const targets = new Set<string>();
+        const relationship = this.queryGraph?._relationship;
+        if (!this.contextGraph || !relationship || !TYPE_RELATIONS.has(relationship)) {
+            return targets;
+        }
+
+        const entities = new Set(queryEntities.map(e => e.toLowerCase()).filter(e => !TYPE_RELATIONS.has(e)));
+        for (const node of this.contextGraph.nodes) {
+            for (const symbol of node.symbols) {
+                const id = symbolId(node.filePath, symbol.name);
+                const names = this.neighborNames(new Set([id]));
+                if (this.subtypeEdges.has(id) && [...names].some(name => entities.has(name.toLowerCase()))) {
+                    targets.add(id);
+                }
+            }
+        }
+        return targets;
+    }
+
+    /**
+     * 1 for a direct subtype of a target, 1/depth for indirect ones
+     */
+    private computeTypeHierarchyMatch(id: string, typeTargets: Set<string>): number {
+        if (typeTargets.size === 0) {
+            return 0;
+        }
+
+        let level = [id];
+        const visited = new Set(level);
+        for (let depth = 1; depth <= MAX_TYPE_DEPTH && level.length > 0; depth++) {
+            const next: string[] = [];
+            for (const type of level) {
+                for (const edge of this.supertypeEdges.get(type) || []) {
+                    if (typeTargets.has(edge.to)) {
+                        return 1 / depth;
+                    }
+                    if (!visited.has(edge.to)) {
+                        visited.add(edge.to);
+                        next.push(edge.to);
+                    }
+                }
+            }
+            level = next;
+        }
+        return 0;
+    }
+
     /**
      * Compute reference density score
      * Measures how referenced/used a symbol is
      */
-    private computeReferenceDensity(symbolName: string): number {
-        const callers = this.reverseCallGraph.get(symbolName) || new Set();
-        const callees = this.callGraphMap.get(symbolName) || new Set();
+    private computeReferenceDensity(id: string): number {
+        const callers = this.reverseCallGraph.get(id) || new Set();
+        const callees = this.callGraphMap.get(id) || new Set();
 
         // Symbols with many callers are more important (referenced more)
         const inDegree = callers.size;
@@ -279,33 +439,78 @@ export class GraphAwareRelevanceScorer {
             return;
         }
 
-        // Build call graph maps
-        for (const edge of this.contextGraph.callGraph) {
-            if (!this.callGraphMap.has(edge.from)) {
-                this.callGraphMap.set(edge.from, new Set());
+        // Reloading a graph replaces the previous structures
+        this.importGraphMap.clear();
+        this.symbolToFile.clear();
+        this.symbolCentrality.clear();
+
+        this.indexCallGraph(this.contextGraph.callGraph);
+
+        // Build import graph and symbol-to-file mapping
+        for (const node of this.contextGraph.nodes) {
+            this.indexNode(node);
+        }
+
+        this.indexTypeHierarchy(this.contextGraph.typeHierarchy || []);
+    }
+
+    private indexTypeHierarchy(edges: TypeEdge[]): void {
+        this.supertypeEdges.clear();
+        this.subtypeEdges.clear();
+        for (const edge of edges) {
+            if (!this.supertypeEdges.has(edge.from)) {
+                this.supertypeEdges.set(edge.from, []);
             }
-            this.callGraphMap.get(edge.from)!.add(edge.to);
+            this.supertypeEdges.get(edge.from)!.push(edge);
 
-            if (!this.reverseCallGraph.has(edge.to)) {
-                this.reverseCallGraph.set(edge.to, new Set());
+            if (!this.subtypeEdges.has(edge.to)) {
+                this.subtypeEdges.set(edge.to, []);
             }
-            this.reverseCallGraph.get(edge.to)!.add(edge.from);
+            this.subtypeEdges.get(edge.to)!.push(edge);
         }
+    }
 
-        // Build import graph and symbol-to-file mapping
-        for (const node of this.contextGraph.nodes) {
-            const importedFiles = new Set<string>();
-            for (const imp of node.imports) {
-                if (imp.resolvedPath) {
-                    importedFiles.add(imp.resolvedPath);
-                }
+    /**
+     * Build the edge lists and caller/callee sets from the call graph
+     */
+    private indexCallGraph(edges: CallEdge[]): void {
+        this.outgoingEdges.clear();
+        this.incomingEdges.clear();
+        this.callGraphMap.clear();
+        this.reverseCallGraph.clear();
+
+        for (const edge of edges) {
+            if (!this.outgoingEdges.has(edge.from)) {
+                this.outgoingEdges.set(edge.from, []);
             }
-            this.importGraphMap.set(node.filePath, importedFiles);
+            this.outgoingEdges.get(edge.from)!.push(edge);
 
-            // Map symbols to files
-            for (const symbol of node.symbols) {
-                this.symbolToFile.set(symbol.name, node.filePath);
+            if (!this.incomingEdges.has(edge.to)) {
+                this.incomingEdges.set(edge.to, []);
             }
+            this.incomingEdges.get(edge.to)!.push(edge);
+        }
+
+        for (const [node, outgoing] of this.outgoingEdges) {
+            this.callGraphMap.set(node, new Set(outgoing.map(e => e.to)));
+        }
+        for (const [node, incoming] of this.incomingEdges) {
+            this.reverseCallGraph.set(node, new Set(incoming.map(e => e.from)));
+        }
+    }
+
+    private indexNode(node: GraphNode): void {
+        const importedFiles = new Set<string>();
+        for (const imp of node.imports) {
+            if (imp.resolvedPath) {
+                importedFiles.add(imp.resolvedPath);
+            }
+        }
+        this.importGraphMap.set(node.filePath, importedFiles);
+
+        // Map symbols to files
+        for (const symbol of node.symbols) {
+            this.symbolToFile.set(symbol.name, node.filePath);
         }
     }
 
@@ -317,6 +522,8 @@ export class GraphAwareRelevanceScorer {
             return;
         }
 
+        this.symbolCentrality.clear();
+
         // Simple PageRank implementation
         const dampingFactor = 0.85;
         const iterations = 20;
@@ -325,7 +532,7 @@ export class GraphAwareRelevanceScorer {
         // Collect all symbols
         for (const node of this.contextGraph.nodes) {
             for (const symbol of node.symbols) {
-                symbols.add(symbol.name);
+                symbols.add(symbolId(node.filePath, symbol.name));
             }
         }
 
@@ -468,13 +675,45 @@ export class GraphAwareRelevanceScorer {
             `- Reference Density: ${score.referenceDensity.toFixed(3)}`,
             `- Centrality: ${score.centrality.toFixed(3)}`
         ];
+        if (score.typeHierarchy > 0) {
+            parts.push(`- Type Hierarchy: ${score.typeHierarchy.toFixed(3)}`);
+        }
         return parts.join('\n  ');
     }
 
+    /**
+     * Call edges pointing at / leaving a call graph node (symbol or file ID)
+     */
+    public getIncomingEdges(target: string): CallEdge[] {
+        return this.incomingEdges.get(target) || [];
+    }
+
+    public getOutgoingEdges(source: string): CallEdge[] {
+        return this.outgoingEdges.get(source) || [];
+    }
+
+    /**
+     * Type hierarchy edges to a type's supertypes / from its subtypes
+     */
+    public getSupertypeEdges(type: string): TypeEdge[] {
+        return this.supertypeEdges.get(type) || [];
+    }
+
+    public getSubtypeEdges(type: string): TypeEdge[] {
+        return this.subtypeEdges.get(type) || [];
+    }
+
+    /**
+     * File that defines a symbol, if it is in the loaded graph
+     */
+    public getSymbolFile(symbolName: string): string | undefined {
+        return this.symbolToFile.get(symbolName);
+    }
+
     /**
      * Update scoring weights dynamically
      */
-    public updateWeights(weights: Partial<typeof this.weights>): void {
+    public updateWeights(weights: Partial<GraphScoreWeights>): void {
         this.weights = { ...this.weights, ...weights };
         
         // Normalize weights to sum to 1.0
@@ -492,12 +731,14 @@ export class GraphAwareRelevanceScorer {
     public getStats(): {
         totalSymbols: number;
         totalCallEdges: number;
+        totalTypeEdges: number;
         avgInDegree: number;
         avgOutDegree: number;
         topCentralSymbols: { symbol: string; centrality: number }[];
     } {
         const totalSymbols = this.symbolCentrality.size;
         const totalCallEdges = this.contextGraph?.callGraph.length || 0;
+        const totalTypeEdges = this.contextGraph?.typeHierarchy?.length || 0;
 
         let totalInDegree = 0;
         let totalOutDegree = 0;
@@ -518,6 +759,7 @@ export class GraphAwareRelevanceScorer {
         return {
             totalSymbols,
             totalCallEdges,
+            totalTypeEdges,
             avgInDegree: Math.round(avgInDegree * 100) / 100,
             avgOutDegree: Math.round(avgOutDegree * 100) / 100,
             topCentralSymbols
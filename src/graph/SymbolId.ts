@@ -0,0 +1,36 @@
+/**
+ * SymbolId - Qualified identifiers for call graph endpoints
+ *
+ * A symbol is identified by its file and dotted name, `file#Class.method`,
+ * so symbols that share a name in different files (or classes) stay
+ * distinct. A bare file path identifies the file itself.
+ */
+
+export function symbolId(filePath: string, symbolName: string): string {
+    return `${filePath}#${symbolName}`;
+}
+
+/**
+ * Split an ID into its file and symbol name (undefined for file IDs)
+ * Names can contain `#` (JavaScript private members), paths in practice
+ * do not, so the first one separates them
+ */
+export function parseSymbolId(id: string): { file: string; symbol?: string } {
+    const separator = id.indexOf('#');
+    if (separator < 0) {
+        return { file: id };
+    }
+    return { file: id.slice(0, separator), symbol: id.slice(separator + 1) };
+}
+
+export function fileOfSymbolId(id: string): string {
+    return parseSymbolId(id).file;
+}
+
+/**
+ * Short display form: the symbol name, or the file's base name
+ */
+export function displaySymbolId(id: string): string {
+    const { file, symbol } = parseSymbolId(id);
+    return symbol ?? file.split(/[\\/]/).pop() ?? file;
+}
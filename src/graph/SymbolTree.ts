@@ -0,0 +1,76 @@
+/**
+ * SymbolTree - Nesting of a file's symbols
+ *
+ * Symbol providers report nested symbols under dotted names
+ * (`Session.refresh`). The parent of a symbol is the longest dotted prefix
+ * of its name that the file also declares, so definitions the provider
+ * skipped (an anonymous block) do not break the chain.
+ */
+
+import { SymbolNode } from '../types';
+import { symbolId } from './SymbolId';
+
+/**
+ * Set `parentId` and `children` on the symbols of one file
+ */
+export function linkSymbolTree(filePath: string, symbols: SymbolNode[]): SymbolNode[] {
+    const byName = new Map<string, SymbolNode>();
+    for (const symbol of symbols) {
+        if (!byName.has(symbol.name)) {
+            byName.set(symbol.name, symbol);
+        }
+        delete symbol.parentId;
+        delete symbol.children;
+    }
+
+    for (const symbol of symbols) {
+        const parent = parentOf(symbol.name, byName);
+        if (!parent) {
+            continue;
+        }
+        symbol.parentId = symbolId(filePath, parent.name);
+        if (!parent.children) {
+            parent.children = [];
+        }
+        const id = symbolId(filePath, symbol.name);
+        if (!parent.children.includes(id)) {
+            parent.children.push(id); // Overloads share an ID
+        }
+    }
+    return symbols;
+}
+
+/**
+ * Innermost symbol whose range contains a 0-based position
+ * Symbols without an end position only contain their start line
+ */
+export function findEnclosingSymbol(symbols: SymbolNode[], line: number, character: number = 0): SymbolNode | undefined {
+    let best: SymbolNode | undefined;
+    for (const symbol of symbols) {
+        const { location } = symbol;
+        const endLine = location.endLine ?? location.line;
+        const endCharacter = location.endCharacter ?? Number.MAX_SAFE_INTEGER;
+        const startsBefore = location.line < line || (location.line === line && location.character <= character);
+        const endsAfter = endLine > line || (endLine === line && endCharacter >= character);
+        if (!startsBefore || !endsAfter) {
+            continue;
+        }
+        // Later starts are nested deeper; equal starts keep the longer name
+        if (!best || location.line > best.location.line ||
+            (location.line === best.location.line && location.character > best.location.character) ||
+            (location.line === best.location.line && location.character === best.location.character && symbol.name.length > best.name.length)) {
+            best = symbol;
+        }
+    }
+    return best;
+}
+
+function parentOf(name: string, byName: Map<string, SymbolNode>): SymbolNode | undefined {
+    for (let separator = name.lastIndexOf('.'); separator > 0; separator = name.lastIndexOf('.', separator - 1)) {
+        const parent = byName.get(name.slice(0, separator));
+        if (parent) {
+            return parent;
+        }
+    }
+    return undefined;
+}
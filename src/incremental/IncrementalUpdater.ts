@@ -1,20 +1,24 @@
 import { GraphNode, ICancellationToken, ContextGraph, GraphConfig } from '../types';
 import { FileHasher } from '../utils/FileHasher';
+import { fileOfSymbolId } from '../graph/SymbolId';
 import * as fs from 'fs';
 
 export class IncrementalUpdater {
     private fileHashes: Map<string, string>;
     private buildGraphNode: (filePath: string, config: GraphConfig) => Promise<GraphNode>;
     private buildCompleteCallGraph: (graph: ContextGraph) => Promise<void>;
+    private buildOutlineNode?: (filePath: string, config: GraphConfig) => Promise<GraphNode>;
 
     constructor(
         initialHashes: Map<string, string>,
         buildGraphNode: (filePath: string, config: GraphConfig) => Promise<GraphNode>,
-        buildCompleteCallGraph: (graph: ContextGraph) => Promise<void>
+        buildCompleteCallGraph: (graph: ContextGraph) => Promise<void>,
+        buildOutlineNode?: (filePath: string, config: GraphConfig) => Promise<GraphNode> // Files over maxFileSize; skipped without it
     ) {
         this.fileHashes = initialHashes;
         this.buildGraphNode = buildGraphNode;
         this.buildCompleteCallGraph = buildCompleteCallGraph;
+        this.buildOutlineNode = buildOutlineNode;
     }
 
     async detectChangedFiles(
@@ -94,6 +98,27 @@ export class IncrementalUpdater {
         const filesToRemove = [...changedFiles.deleted, ...changedFiles.modified];
         updatedGraph.nodes = updatedGraph.nodes.filter(node => !filesToRemove.includes(node.filePath));
 
+        // Drop edges the removed nodes produced or pointed at, so that a failed
+        // rebuild below does not leave edges to nodes that are gone
+        const removedFiles = new Set(filesToRemove);
+        const deletedFiles = new Set(changedFiles.deleted);
+        updatedGraph.callGraph = updatedGraph.callGraph.filter(edge =>
+            !removedFiles.has(fileOfSymbolId(edge.from)) && !deletedFiles.has(fileOfSymbolId(edge.to))
+        );
+        updatedGraph.typeHierarchy = (updatedGraph.typeHierarchy || []).filter(edge =>
+            !removedFiles.has(fileOfSymbolId(edge.from)) && !deletedFiles.has(fileOfSymbolId(edge.to))
+        );
+        for (const node of updatedGraph.nodes) {
+            for (const symbol of node.symbols) {
+                if (symbol.referencedBy.some(file => removedFiles.has(file))) {
+                    symbol.referencedBy = symbol.referencedBy.filter(file => !removedFiles.has(file));
+                }
+                if (symbol.references && symbol.references.some(site => removedFiles.has(site.file))) {
+                    symbol.references = symbol.references.filter(site => !removedFiles.has(site.file));
+                }
+            }
+        }
+
         // Remove from hashes
         for (const deletedFile of changedFiles.deleted) {
             this.fileHashes.delete(deletedFile);
@@ -110,7 +135,8 @@ export class IncrementalUpdater {
             try {
                 // Check file size
                 const stats = fs.statSync(filePath);
-                if (stats.size > config.maxFileSize) {
+                const buildNode = stats.size > config.maxFileSize ? this.buildOutlineNode : this.buildGraphNode;
+                if (!buildNode) {
                     errors.push({
                         file: filePath,
                         error: `File too large: ${(stats.size / 1024).toFixed(1)}KB`
@@ -118,8 +144,8 @@ export class IncrementalUpdater {
                     continue;
                 }
 
-                // Re-parse and build new node
-                const newNode = await this.buildGraphNode(filePath, config);
+                // Re-parse and build new node (an outline for files over maxFileSize)
+                const newNode = await buildNode(filePath, config);
                 updatedGraph.nodes.push(newNode);
 
                 // Update hash
@@ -134,9 +160,9 @@ export class IncrementalUpdater {
             }
         }
 
-        // Rebuild call graph only for affected files
+        // Rebuild the whole call graph and type hierarchy: a changed file can
+        // also change edges between unchanged files
         try {
-            // For now, rebuild entire call graph (can be optimized later)
             await this.buildCompleteCallGraph(updatedGraph);
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
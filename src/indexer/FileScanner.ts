@@ -1,102 +1,396 @@
+/**
+ * FileScanner - Finds the code files of a workspace in one directory walk
+ *
+ * A path is excluded by the first rule set that decides it, most specific
+ * first: the `exclude` globs, `.logicgraphignore`, the `.gitignore` files
+ * from the path's own directory up to the workspace root,
+ * `.git/info/exclude`, then the built-in excludes (dependencies, build
+ * output). A negated pattern (`!generated/`) re-includes a path for the
+ * rule sets after it. As in git, an excluded directory is not entered, so
+ * nothing inside it can be re-included. The remaining files are kept when
+ * they have a code file extension and match an `include` glob, if any.
+ *
+ * Followed symbolic links are walked once per target: a link back to a
+ * directory on its own path is a cycle, a second way to a directory
+ * already walked a duplicate. Every exclusion names its rule
+ * (`src/.gitignore:3: *.gen.ts`), so `explain` can tell why a file is not
+ * indexed.
+ */
+
 import ignore from 'ignore';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ICancellationToken } from '../types';
 
+/**
+ * - skip: symbolic links are not followed
+ * - workspace: followed when they point inside the workspace
+ * - follow: always followed
+ */
+export type SymlinkPolicy = 'skip' | 'workspace' | 'follow';
+
+export interface FileScannerOptions {
+    include?: string[]; // Globs (gitignore syntax) relative to the workspace; empty: every code file
+    exclude?: string[]; // Globs (gitignore syntax) relative to the workspace
+    symlinks?: SymlinkPolicy; // Default: skip
+    maxDepth?: number; // Directory levels entered below the workspace; 0 or unset: no limit
+}
+
+export interface ScanExclusion {
+    path: string; // Workspace-relative, `/`-separated; directories end in `/`
+    reason: string; // The rule as `source:line: pattern`, or why no rule applied
+}
+
+export interface ScanResult {
+    files: string[]; // Absolute paths
+    excluded: ScanExclusion[]; // Code files and directories left out; a directory stands for its contents
+}
+
+type Ignore = ReturnType<typeof ignore>;
+
+const CODE_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.c', '.cpp', '.h', '.hpp',
+    '.go', '.rs', '.cs', '.php', '.rb', '.swift', '.kt', '.scala', '.vue', '.svelte'
+]);
+
+const BUILT_IN_EXCLUDES = [
+    '.git', 'node_modules', '.next', 'dist', 'build', 'out',
+    '.output', 'coverage', '.nyc_output', 'venv', '__pycache__',
+    '*.pyc', 'target', 'bin', 'obj', '.DS_Store', '*.log',
+    '.vscode-test', '.idea'
+];
+
+/**
+ * Patterns of one ignore file or setting, applying below `base`
+ */
+interface RuleSet {
+    base: string; // Workspace-relative directory, `/`-terminated; '' for the root
+    matcher: Ignore;
+}
+
+/**
+ * State of one walk
+ */
+interface Walk {
+    realRoot: string;
+    outer: RuleSet[]; // Exclude globs and .logicgraphignore
+    inner: RuleSet[]; // .git/info/exclude and the built-in excludes
+    include: Ignore | null;
+    visited: Map<string, string>; // Real paths of the directories entered -> their workspace-relative path
+}
+
 export class FileScanner {
-    private gitignoreCache: Map<string, ReturnType<typeof ignore>> = new Map();
+    private options: FileScannerOptions;
+
+    constructor(options: FileScannerOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Use new options from the next scan on
+     */
+    public setOptions(options: FileScannerOptions): void {
+        this.options = options;
+    }
 
     async findCodeFiles(
         workspacePath: string,
         cancellationToken?: ICancellationToken
     ): Promise<string[]> {
-        const patterns = [
-            '**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx',
-            '**/*.py', '**/*.java', '**/*.c', '**/*.cpp',
-            '**/*.h', '**/*.hpp', '**/*.go', '**/*.rs',
-            '**/*.cs', '**/*.php', '**/*.rb', '**/*.swift',
-            '**/*.kt', '**/*.scala', '**/*.vue', '**/*.svelte'
-        ];
+        return (await this.scan(workspacePath, cancellationToken)).files;
+    }
 
-        const ig = await this.loadGitignorePatterns(workspacePath);
-        const allFiles: string[] = [];
+    /**
+     * Code files of the workspace, and what was left out by which rule
+     */
+    async scan(workspacePath: string, cancellationToken?: ICancellationToken): Promise<ScanResult> {
+        const walk = await this.startWalk(workspacePath);
+        const result: ScanResult = { files: [], excluded: [] };
+        await this.walkDirectory(walk, workspacePath, '', [], [walk.realRoot], result, cancellationToken);
+        return result;
+    }
 
-        for (const pattern of patterns) {
-            if (cancellationToken?.isCancellationRequested) {
-                throw new Error('Operation cancelled');
-            }
+    /**
+     * Why each path is not indexed, or null for the ones that are
+     * Answered from one scan, so the reasons are the walk's own
+     */
+    async explain(workspacePath: string, filePaths: string[]): Promise<Array<string | null>> {
+        const result = await this.scan(workspacePath);
+        const files = new Set(result.files);
+        return Promise.all(filePaths.map(filePath => this.explainPath(workspacePath, filePath, files, result.excluded)));
+    }
 
-            const files = await this.glob(workspacePath, pattern);
-            allFiles.push(...files);
+    private async explainPath(
+        workspacePath: string,
+        filePath: string,
+        files: Set<string>,
+        excluded: ScanExclusion[]
+    ): Promise<string | null> {
+        const absolutePath = path.resolve(workspacePath, filePath);
+        const relativePath = toRelative(workspacePath, absolutePath);
+        if (!relativePath || relativePath.startsWith('../')) {
+            return 'outside the workspace';
+        }
+        if (files.has(path.join(workspacePath, relativePath))) {
+            return null;
         }
 
-        const filteredFiles = allFiles.filter(filePath => {
-            const relativePath = path.relative(workspacePath, filePath);
-            const normalizedPath = relativePath.split(path.sep).join('/');
-            return !ig.ignores(normalizedPath);
+        // The entry itself, or the directory or link it was skipped with
+        const exclusion = excluded.find(entry => {
+            const directory = entry.path.endsWith('/') ? entry.path : entry.path + '/';
+            return entry.path === relativePath || (relativePath + '/').startsWith(directory);
         });
+        if (exclusion) {
+            return exclusion.reason;
+        }
 
-        return Array.from(new Set(filteredFiles));
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(absolutePath);
+        } catch (error) {
+            return (await isSymbolicLink(absolutePath)) ? 'broken symbolic link' : 'not found';
+        }
+        if (stats.isDirectory()) {
+            return 'a directory';
+        }
+        return CODE_EXTENSIONS.has(path.extname(absolutePath)) ? 'not reached by the scan' : 'not a code file';
     }
 
-    private async glob(basePath: string, pattern: string): Promise<string[]> {
-        // Simple glob implementation - in real usage, this would use a proper glob library
-        // For now, we'll just walk the directory tree
-        const files: string[] = [];
-        const extension = pattern.replace('**/*', '');
-        
-        const walk = (dir: string) => {
-            try {
-                const entries = fs.readdirSync(dir, { withFileTypes: true });
-                
-                for (const entry of entries) {
-                    const fullPath = path.join(dir, entry.name);
-                    
-                    if (entry.isDirectory()) {
-                        // Skip common exclude directories
-                        if (!['node_modules', '.git', 'dist', 'build', 'out'].includes(entry.name)) {
-                            walk(fullPath);
-                        }
-                    } else if (entry.isFile() && fullPath.endsWith(extension)) {
-                        files.push(fullPath);
+    private async startWalk(workspacePath: string): Promise<Walk> {
+        const outer: RuleSet[] = [];
+        if (this.options.exclude && this.options.exclude.length > 0) {
+            outer.push({ base: '', matcher: createMatcher(this.options.exclude, 'exclude setting') });
+        }
+        outer.push(...await this.readRuleSet(workspacePath, '', '.logicgraphignore'));
+
+        const inner = [
+            ...await this.readRuleSet(workspacePath, '', path.join('.git', 'info', 'exclude')),
+            { base: '', matcher: createMatcher(BUILT_IN_EXCLUDES, 'built-in') }
+        ];
+
+        let realRoot = workspacePath;
+        try {
+            realRoot = await fs.promises.realpath(workspacePath);
+        } catch (error) {
+            // A missing workspace yields no files
+        }
+
+        return {
+            realRoot,
+            outer,
+            inner,
+            include: this.options.include && this.options.include.length > 0
+                ? createMatcher(this.options.include, 'include setting')
+                : null,
+            visited: new Map([[realRoot, '']])
+        };
+    }
+
+    private async walkDirectory(
+        walk: Walk,
+        directory: string,
+        relativeDirectory: string,
+        parentGitignores: RuleSet[],
+        ancestors: string[], // Real paths from the root down to this directory
+        result: ScanResult,
+        cancellationToken?: ICancellationToken
+    ): Promise<void> {
+        if (cancellationToken?.isCancellationRequested) {
+            throw new Error('Operation cancelled');
+        }
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            return; // Skip inaccessible directories
+        }
+        entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+        const gitignores = entries.some(entry => entry.name === '.gitignore')
+            ? [...await this.readRuleSet(directory, relativeDirectory, '.gitignore'), ...parentGitignores]
+            : parentGitignores;
+
+        for (const dirent of entries) {
+            const entryPath = path.join(directory, dirent.name);
+            const relativePath = relativeDirectory + dirent.name;
+            const isLink = dirent.isSymbolicLink();
+            if (!isLink && !dirent.isDirectory() && !dirent.isFile()) {
+                continue;
+            }
+
+            let entry: { isDirectory: boolean; realPath?: string } = { isDirectory: dirent.isDirectory() };
+            if (isLink) {
+                let stats: fs.Stats;
+                try {
+                    stats = await fs.promises.lstat(entryPath);
+                } catch (error) {
+                    continue;
+                }
+                const resolved = await this.resolveEntry(walk, entryPath, stats);
+                if (typeof resolved === 'string') {
+                    if (resolved !== 'broken symbolic link') {
+                        result.excluded.push({ path: relativePath, reason: resolved });
                     }
+                    continue;
                 }
-            } catch (error) {
-                // Skip inaccessible directories
+                entry = resolved;
             }
-        };
 
-        walk(basePath);
-        return files;
+            if (!entry.isDirectory && !CODE_EXTENSIONS.has(path.extname(dirent.name))) {
+                continue;
+            }
+
+            const reason = this.entryExclusion(walk, gitignores, relativePath, entry.isDirectory, ancestors.length);
+            if (reason) {
+                result.excluded.push({ path: entry.isDirectory ? relativePath + '/' : relativePath, reason });
+                continue;
+            }
+
+            if (entry.isDirectory) {
+                const realPath = entry.realPath ?? await realPathOf(entryPath);
+                const walked = walk.visited.get(realPath);
+                if (walked !== undefined) {
+                    const reason = ancestors.includes(realPath) ? 'symbolic link cycle' : `duplicate of ${walked || './'}`;
+                    result.excluded.push({ path: relativePath + '/', reason });
+                    continue;
+                }
+                walk.visited.set(realPath, relativePath + '/');
+                await this.walkDirectory(
+                    walk, entryPath, relativePath + '/', gitignores, [...ancestors, realPath], result, cancellationToken
+                );
+                continue;
+            }
+
+            const fileReason = this.fileExclusion(walk, relativePath);
+            if (fileReason) {
+                result.excluded.push({ path: relativePath, reason: fileReason });
+            } else {
+                result.files.push(entryPath);
+            }
+        }
+    }
+
+    /**
+     * What a symbolic link (or plain entry) stands for under the symlink policy,
+     * or why it is not followed
+     */
+    private async resolveEntry(
+        walk: Walk,
+        entryPath: string,
+        stats: fs.Stats
+    ): Promise<{ isDirectory: boolean; realPath?: string } | string> {
+        if (!stats.isSymbolicLink()) {
+            return { isDirectory: stats.isDirectory() };
+        }
+
+        const policy = this.options.symlinks ?? 'skip';
+        if (policy === 'skip') {
+            return 'symbolic link (symlinks: skip)';
+        }
+
+        let realPath: string;
+        let target: fs.Stats;
+        try {
+            realPath = await fs.promises.realpath(entryPath);
+            target = await fs.promises.stat(realPath);
+        } catch (error) {
+            return 'broken symbolic link';
+        }
+        if (policy === 'workspace' && realPath !== walk.realRoot && !realPath.startsWith(walk.realRoot + path.sep)) {
+            return 'symbolic link outside the workspace (symlinks: workspace)';
+        }
+        return { isDirectory: target.isDirectory(), realPath };
     }
 
-    private async loadGitignorePatterns(workspacePath: string): Promise<ReturnType<typeof ignore>> {
-        if (this.gitignoreCache.has(workspacePath)) {
-            return this.gitignoreCache.get(workspacePath)!;
-        }
-
-        const ig = ignore();
-
-        // Default patterns
-        ig.add([
-            '.git', 'node_modules', '.next', 'dist', 'build', 'out',
-            '.output', 'coverage', '.nyc_output', 'venv', '__pycache__',
-            '*.pyc', 'target', 'bin', 'obj', '.DS_Store', '*.log',
-            '.vscode-test', '.idea'
-        ]);
-
-        // Load .gitignore
-        const gitignorePath = path.join(workspacePath, '.gitignore');
-        if (fs.existsSync(gitignorePath)) {
-            try {
-                const content = fs.readFileSync(gitignorePath, 'utf8');
-                ig.add(content);
-            } catch (error) {
-                console.warn('Failed to read .gitignore:', error);
+    /**
+     * The rule excluding an entry, or the depth limit for a directory
+     */
+    private entryExclusion(
+        walk: Walk,
+        gitignores: RuleSet[],
+        relativePath: string,
+        isDirectory: boolean,
+        depth: number
+    ): string | null {
+        const candidate = isDirectory ? relativePath + '/' : relativePath;
+        for (const ruleSet of [...walk.outer, ...gitignores, ...walk.inner]) {
+            if (!candidate.startsWith(ruleSet.base)) {
+                continue;
             }
+            const test = ruleSet.matcher.test(candidate.substring(ruleSet.base.length));
+            if (test.ignored) {
+                return `${test.rule?.mark}: ${test.rule?.pattern}`;
+            }
+            if (test.unignored) {
+                break;
+            }
+        }
+
+        const maxDepth = this.options.maxDepth ?? 0;
+        if (isDirectory && maxDepth > 0 && depth > maxDepth) {
+            return `deeper than maxDepth ${maxDepth}`;
+        }
+        return null;
+    }
+
+    /**
+     * Why a file that no rule excludes is still not indexed
+     */
+    private fileExclusion(walk: Walk, relativePath: string): string | null {
+        if (!CODE_EXTENSIONS.has(path.extname(relativePath))) {
+            return 'not a code file';
+        }
+        if (walk.include && !walk.include.ignores(relativePath)) {
+            return 'not matched by the include globs';
+        }
+        return null;
+    }
+
+    /**
+     * Patterns of an ignore file in `directory`; none when it does not exist
+     */
+    private async readRuleSet(directory: string, relativeDirectory: string, fileName: string): Promise<RuleSet[]> {
+        const filePath = path.join(directory, fileName);
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch (error) {
+            return [];
         }
 
-        this.gitignoreCache.set(workspacePath, ig);
-        return ig;
+        const source = relativeDirectory + fileName.split(path.sep).join('/');
+        return [{ base: relativeDirectory, matcher: createMatcher(content.split(/\r?\n/), source) }];
+    }
+}
+
+/**
+ * Matcher whose rules are marked `source:line`
+ */
+function createMatcher(patterns: string[], source: string): Ignore {
+    const matcher = ignore();
+    patterns.forEach((pattern, index) => {
+        matcher.add({ pattern, mark: `${source}:${index + 1}` });
+    });
+    return matcher;
+}
+
+function toRelative(workspacePath: string, filePath: string): string {
+    return path.relative(workspacePath, filePath).split(path.sep).join('/');
+}
+
+async function isSymbolicLink(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.lstat(filePath)).isSymbolicLink();
+    } catch (error) {
+        return false;
+    }
+}
+
+async function realPathOf(directory: string): Promise<string> {
+    try {
+        return await fs.promises.realpath(directory);
+    } catch (error) {
+        return directory;
     }
 }
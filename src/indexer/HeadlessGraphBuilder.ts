@@ -0,0 +1,237 @@
+/**
+ * HeadlessGraphBuilder - Builds GraphNodes without the VS Code LSP
+ *
+ * Drop-in replacement for `buildGraphNodeVSCode` that derives symbols from
+ * Tree-sitter parses instead of `vscode.executeDocumentSymbolProvider`.
+ * Works against the IWorkspace/IFileSystem abstractions, so the full indexing
+ * pipeline can run from a plain Node process or in CI.
+ */
+
+import {
+    GraphConfig,
+    GraphNode,
+    SymbolNode,
+    ContextGraph,
+    ITextDocument,
+    IWorkspace,
+    IFileSystem
+} from '../types';
+import { Indexer } from './Indexer';
+import { FileScanner } from './FileScanner';
+import { IndexWorkerPool } from './IndexWorkerPool';
+import { buildOutlineNode } from './OutlineNode';
+import { TreeSitterEnhancer, TreeSitterReferences, TreeSitterSymbol, declarationFields } from '../syntactic/TreeSitterEnhancer';
+import { ImportResolver } from '../resolver/ImportResolver';
+import { extractImportStatements } from '../resolver/ImportExtractor';
+import { buildCompleteCallGraph } from '../graph/CallGraphBuilder';
+import { linkSymbolTree } from '../graph/SymbolTree';
+import { detectLanguageId } from '../utils/LanguageDetector';
+import { NodeWorkspaceAdapter, FileSystemAdapter } from '../adapters/NodeAdapter';
+
+export interface HeadlessGraphBuilderOptions {
+    treeSitterEnhancer?: TreeSitterEnhancer;
+    importResolver?: ImportResolver;
+    workerPool?: IndexWorkerPool; // Parse on worker threads instead of in process
+}
+
+export interface HeadlessIndexerOptions extends HeadlessGraphBuilderOptions {
+    workers?: number; // Worker threads; 0 for one per CPU core but one, unset for in process
+    fileTimeoutMs?: number;
+    fileScanner?: FileScanner; // Default: the built-in excludes and the workspace's ignore files
+    pythonSourceRoots?: string[]; // Used when no importResolver is given
+}
+
+export class HeadlessGraphBuilder {
+    private workspace: IWorkspace;
+    private fileSystem: IFileSystem;
+    private treeSitterEnhancer: TreeSitterEnhancer;
+    private importResolver?: ImportResolver;
+    private workerPool?: IndexWorkerPool;
+
+    constructor(workspace: IWorkspace, fileSystem: IFileSystem, options: HeadlessGraphBuilderOptions = {}) {
+        this.workspace = workspace;
+        this.fileSystem = fileSystem;
+        this.treeSitterEnhancer = options.treeSitterEnhancer ?? new TreeSitterEnhancer();
+        this.importResolver = options.importResolver;
+        this.workerPool = options.workerPool;
+    }
+
+    /**
+     * Build a graph node from a Tree-sitter parse
+     * Produces the same shape as the LSP path: dotted names for nested
+     * symbols, 0-based lines, VS Code SymbolKind names
+     */
+    async buildGraphNode(filePath: string, config: GraphConfig): Promise<GraphNode> {
+        const document = await this.workspace.openTextDocument(filePath);
+        const stats = this.fileSystem.stat(filePath);
+
+        const node: GraphNode = {
+            filePath: document.uri.fsPath,
+            language: document.languageId,
+            depth: 0,
+            symbols: [],
+            imports: []
+        };
+
+        const fileSize = stats.size;
+        if (fileSize < config.streamingThreshold && !config.useSkeletonMode) {
+            node.content = document.getText();
+        }
+
+        try {
+            const text = document.getText();
+            let treeSitterSymbols: TreeSitterSymbol[];
+            let references: TreeSitterReferences;
+            if (this.workerPool) {
+                const enhancement = await this.workerPool.analyzeFile(filePath, document.languageId);
+                treeSitterSymbols = enhancement.symbols;
+                references = enhancement;
+            } else {
+                treeSitterSymbols = this.treeSitterEnhancer.extractSymbols(text, document.languageId);
+                references = this.treeSitterEnhancer.extractReferences(text, document.languageId);
+            }
+            node.symbols = linkSymbolTree(node.filePath, this.toSymbolNodes(document, treeSitterSymbols, config.useSkeletonMode));
+            node.callSites = references.callSites;
+            node.heritage = references.heritage;
+
+            // Import tables cover the languages without ImportExtractor patterns
+            const imports = references.imports.length > 0
+                ? references.imports
+                : extractImportStatements(text, document.languageId);
+            node.imports = this.importResolver
+                ? this.importResolver.resolveImports(imports, document.languageId, document.uri.fsPath)
+                : imports;
+        } catch (error) {
+            console.error('HeadlessGraphBuilder: Error building node:', error);
+        }
+
+        return node;
+    }
+
+    /**
+     * Build the partial node of a file over `maxFileSize` from a streamed
+     * outline; the file is never loaded whole
+     */
+    async buildOutlineNode(filePath: string): Promise<GraphNode> {
+        const languageId = detectLanguageId(filePath);
+        const outline = this.workerPool
+            ? await this.workerPool.outlineFile(filePath, languageId)
+            : await this.treeSitterEnhancer.extractOutline(filePath, languageId);
+        return buildOutlineNode(filePath, languageId, outline, this.importResolver);
+    }
+
+    async buildCompleteCallGraph(graph: ContextGraph): Promise<void> {
+        await buildCompleteCallGraph(graph);
+    }
+
+    private toSymbolNodes(
+        document: ITextDocument,
+        symbols: TreeSitterSymbol[],
+        skeletonMode: boolean
+    ): SymbolNode[] {
+        const parentNames = new Set(
+            symbols.filter(s => s.scope.length > 0).map(s => s.scope.join('.'))
+        );
+
+        return symbols.map(symbol => {
+            const parentName = symbol.scope.join('.');
+            const fullName = parentName ? `${parentName}.${symbol.name}` : symbol.name;
+
+            const symbolNode: SymbolNode = {
+                name: fullName,
+                kind: symbol.kind,
+                signature: this.extractSignatureText(document, symbol),
+                location: {
+                    line: symbol.startPosition.row,
+                    character: symbol.startPosition.column,
+                    endLine: symbol.endPosition.row,
+                    endCharacter: symbol.endPosition.column
+                },
+                ...declarationFields(symbol),
+                referencedBy: []
+            };
+
+            if (!skeletonMode && !parentNames.has(fullName)) {
+                const codeLines: string[] = [];
+                const lastLine = Math.min(symbol.endPosition.row, symbol.startPosition.row + 20);
+                for (let i = symbol.startPosition.row; i <= lastLine; i++) {
+                    codeLines.push(document.lineAt(i).text);
+                }
+                symbolNode.fullCode = codeLines.join('\n');
+            }
+
+            return symbolNode;
+        });
+    }
+
+    /**
+     * Same heuristic as the LSP path: declaration lines up to the opening brace
+     * (or a Python block colon)
+     */
+    private extractSignatureText(document: ITextDocument, symbol: TreeSitterSymbol): string {
+        const startLine = symbol.startPosition.row;
+        let signatureText = document.lineAt(startLine).text.trim();
+
+        let currentLine = startLine;
+        const maxLines = 10;
+        let linesRead = 0;
+
+        while (currentLine <= symbol.endPosition.row && linesRead < maxLines) {
+            const lineText = document.lineAt(currentLine).text;
+
+            if (currentLine > startLine) {
+                signatureText += ' ' + lineText.trim();
+            }
+
+            if (lineText.includes('{') || /:\s*(#.*)?$/.test(lineText)) {
+                break;
+            }
+
+            currentLine++;
+            linesRead++;
+        }
+
+        if (signatureText.length > 200) {
+            signatureText = signatureText.substring(0, 200) + '...';
+        }
+
+        return signatureText;
+    }
+}
+
+/**
+ * Create an Indexer wired to the headless graph builder for a workspace
+ * With `workers` set, hashing and parsing run on a worker pool the caller
+ * disposes when done
+ */
+export function createHeadlessIndexer(
+    workspacePath: string,
+    options: HeadlessIndexerOptions = {}
+): { indexer: Indexer; builder: HeadlessGraphBuilder; workerPool?: IndexWorkerPool } {
+    const fileSystem = new FileSystemAdapter();
+    const workspace = new NodeWorkspaceAdapter(workspacePath, fileSystem);
+    const treeSitterEnhancer = options.treeSitterEnhancer ?? new TreeSitterEnhancer();
+    treeSitterEnhancer.loadWorkspaceQueries(workspacePath);
+    const workerPool = options.workerPool ?? (options.workers !== undefined
+        ? new IndexWorkerPool(workspacePath, { workers: options.workers, fileTimeoutMs: options.fileTimeoutMs })
+        : undefined);
+    const builder = new HeadlessGraphBuilder(workspace, fileSystem, {
+        treeSitterEnhancer,
+        importResolver: options.importResolver ?? ImportResolver.fromWorkspace(workspacePath, {
+            pythonSourceRoots: options.pythonSourceRoots
+        }),
+        workerPool
+    });
+
+    const indexer = new Indexer({
+        fileScanner: options.fileScanner ?? new FileScanner(),
+        buildGraphNode: (filePath: string, config: GraphConfig) => builder.buildGraphNode(filePath, config),
+        buildCompleteCallGraph: (graph: ContextGraph) => builder.buildCompleteCallGraph(graph),
+        buildOutlineNode: (filePath: string) => builder.buildOutlineNode(filePath),
+        hashFile: workerPool && ((filePath, cancellationToken) => workerPool.hashFile(filePath, cancellationToken)),
+        concurrency: workerPool?.size,
+        fileTimeoutMs: options.fileTimeoutMs
+    });
+
+    return { indexer, builder, workerPool };
+}
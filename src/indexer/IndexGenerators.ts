@@ -0,0 +1,124 @@
+/**
+ * Index generators shared by the extension and the CLI
+ * Derive quick_index.json and search_index.json from a ContextGraph
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ContextGraph, FileMetadata, GraphNode, QuickIndex, SearchIndex, SymbolLocation } from '../types';
+import { parseSymbolId } from '../graph/SymbolId';
+
+/**
+ * Generate quick index
+ */
+export function generateQuickIndex(graph: ContextGraph, workspacePath: string): QuickIndex {
+    const filesByDirectory: { [directory: string]: any[] } = {};
+    const languageCounts: { [key: string]: number } = {};
+
+    for (const node of graph.nodes) {
+        const relativePath = path.relative(workspacePath, node.filePath);
+        const directory = path.dirname(relativePath);
+
+        if (!filesByDirectory[directory]) {
+            filesByDirectory[directory] = [];
+        }
+
+        filesByDirectory[directory].push({
+            path: relativePath,
+            language: node.language,
+            symbols: node.symbols.map(s => s.name)
+        });
+
+        languageCounts[node.language] = (languageCounts[node.language] || 0) + 1;
+    }
+
+    return {
+        _description: 'Quick Index for LLM context',
+        generated: new Date().toISOString(),
+        workspace: workspacePath,
+        summary: {
+            totalFiles: graph.nodes.length,
+            totalSymbols: graph.nodes.reduce((sum, n) => sum + n.symbols.length, 0),
+            languages: languageCounts
+        },
+        filesByDirectory
+    };
+}
+
+/**
+ * Generate search index
+ */
+export function generateSearchIndex(graph: ContextGraph, workspacePath: string): SearchIndex {
+    const symbolLocations: any[] = [];
+    const importMap: any[] = [];
+    const fileMetadata: any[] = [];
+
+    for (const node of graph.nodes) {
+        const relativePath = path.relative(workspacePath, node.filePath);
+        const entries = generateFileSearchEntries(node, workspacePath);
+        symbolLocations.push(...entries.symbolLocations);
+
+        if (node.imports.length > 0) {
+            importMap.push({
+                file: relativePath,
+                imports: node.imports.map(imp => ({
+                    from: imp.importPath,
+                    symbols: imp.symbols,
+                    ...(imp.resolvedPath && { resolved: path.relative(workspacePath, imp.resolvedPath) }),
+                    ...(imp.isExternal && { external: true })
+                }))
+            });
+        }
+
+        fileMetadata.push(entries.fileMetadata);
+    }
+
+    return {
+        _description: 'Search Index for symbol lookup',
+        generated: new Date().toISOString(),
+        workspace: workspacePath,
+        summary: {
+            totalSymbols: symbolLocations.length,
+            totalImports: importMap.reduce((sum, m) => sum + m.imports.length, 0),
+            topFiles: fileMetadata.slice(0, 10)
+        },
+        symbolLocations,
+        importMap,
+        fileMetadata
+    };
+}
+
+/**
+ * Search index entries contributed by a single file
+ * Used by incremental updates to refresh one file's documents
+ */
+export function generateFileSearchEntries(
+    node: GraphNode,
+    workspacePath: string
+): { symbolLocations: SymbolLocation[]; fileMetadata: FileMetadata } {
+    const relativePath = path.relative(workspacePath, node.filePath);
+
+    return {
+        symbolLocations: node.symbols.map(symbol => ({
+            symbol: symbol.name,
+            type: symbol.kind,
+            file: relativePath,
+            line: symbol.location.line,
+            ...(symbol.location.endLine !== undefined && { endLine: symbol.location.endLine }),
+            signature: symbol.signature,
+            ...(symbol.docstring && { docstring: symbol.docstring }),
+            ...(symbol.visibility && { visibility: symbol.visibility }),
+            ...(symbol.modifiers && { modifiers: symbol.modifiers }),
+            ...(symbol.decorators && { decorators: symbol.decorators }),
+            // Symbol IDs hold absolute paths; the search index names symbols within `file`
+            ...(symbol.parentId && { parent: parseSymbolId(symbol.parentId).symbol }),
+            ...(symbol.children && { children: symbol.children.map(id => parseSymbolId(id).symbol || id) })
+        })),
+        fileMetadata: {
+            path: relativePath,
+            language: node.language,
+            size: fs.statSync(node.filePath).size,
+            symbolCount: node.symbols.length
+        }
+    };
+}
@@ -0,0 +1,123 @@
+/**
+ * IndexStore - On-disk persistence for LogicGraph indices
+ *
+ * Both the extension and the CLI read and write the same files, so an index
+ * built in one can be queried or updated from the other:
+ * - context-graph.json, search_index.json, quick_index.json (workspace root)
+ * - .logicgraph/indexing-report.json
+ * - .logicgraph/incremental-index.json (file hashes for incremental updates)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+    ContextGraph,
+    IndexingReport,
+    IncrementalIndex,
+    SearchIndex
+} from '../types';
+import { generateQuickIndex, generateSearchIndex } from './IndexGenerators';
+
+const INCREMENTAL_INDEX_VERSION = '1.0';
+
+export async function saveIndicesToDisk(
+    workspacePath: string,
+    graph: ContextGraph,
+    report: IndexingReport
+): Promise<void> {
+    if (!workspacePath || !graph || !report) {
+        throw new Error('Invalid parameters provided to saveIndicesToDisk');
+    }
+
+    try {
+        // Generate indices
+        const quickIndex = generateQuickIndex(graph, workspacePath);
+        const searchIndex = generateSearchIndex(graph, workspacePath);
+
+        // Save files
+        const quickPath = path.join(workspacePath, 'quick_index.json');
+        const searchPath = path.join(workspacePath, 'search_index.json');
+        const contextGraphPath = path.join(workspacePath, 'context-graph.json');
+        const reportDir = path.join(workspacePath, '.logicgraph');
+
+        fs.mkdirSync(reportDir, { recursive: true });
+
+        fs.writeFileSync(quickPath, JSON.stringify(quickIndex, null, 2), 'utf8');
+        fs.writeFileSync(searchPath, JSON.stringify(searchIndex, null, 2), 'utf8');
+        fs.writeFileSync(contextGraphPath, JSON.stringify(graph, null, 2), 'utf8');
+
+        const reportPath = path.join(reportDir, 'indexing-report.json');
+        fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf8');
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Failed to save indices to disk:', errorMsg);
+        throw new Error(`Failed to save indices: ${errorMsg}`);
+    }
+}
+
+/**
+ * Load context-graph.json, or null if the workspace has not been indexed
+ */
+export function loadContextGraph(workspacePath: string): ContextGraph | null {
+    return readJsonFile<ContextGraph>(path.join(workspacePath, 'context-graph.json'));
+}
+
+export function loadSearchIndex(workspacePath: string): SearchIndex | null {
+    return readJsonFile<SearchIndex>(path.join(workspacePath, 'search_index.json'));
+}
+
+export function loadIndexingReport(workspacePath: string): IndexingReport | null {
+    return readJsonFile<IndexingReport>(path.join(workspacePath, '.logicgraph', 'indexing-report.json'));
+}
+
+/**
+ * Persist file hashes so incremental updates survive restarts
+ */
+export function saveFileHashes(
+    workspacePath: string,
+    fileHashes: Map<string, string>,
+    lastFullIndex?: string
+): void {
+    const existing = readJsonFile<IncrementalIndex>(incrementalIndexPath(workspacePath));
+    const now = new Date().toISOString();
+
+    const incrementalIndex: IncrementalIndex = {
+        version: INCREMENTAL_INDEX_VERSION,
+        lastFullIndex: lastFullIndex || existing?.lastFullIndex || now,
+        fileHashes: Array.from(fileHashes.entries()).map(([filePath, hash]) => ({
+            path: filePath,
+            hash,
+            lastIndexed: now
+        }))
+    };
+
+    fs.mkdirSync(path.join(workspacePath, '.logicgraph'), { recursive: true });
+    fs.writeFileSync(incrementalIndexPath(workspacePath), JSON.stringify(incrementalIndex, null, 2), 'utf8');
+}
+
+/**
+ * Load persisted file hashes, or null if none were saved
+ */
+export function loadFileHashes(workspacePath: string): Map<string, string> | null {
+    const incrementalIndex = readJsonFile<IncrementalIndex>(incrementalIndexPath(workspacePath));
+    if (!incrementalIndex || !Array.isArray(incrementalIndex.fileHashes)) {
+        return null;
+    }
+    return new Map(incrementalIndex.fileHashes.map(entry => [entry.path, entry.hash]));
+}
+
+function incrementalIndexPath(workspacePath: string): string {
+    return path.join(workspacePath, '.logicgraph', 'incremental-index.json');
+}
+
+function readJsonFile<T>(filePath: string): T | null {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to read ${path.basename(filePath)}: ${errorMsg}`);
+    }
+}
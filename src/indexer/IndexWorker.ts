@@ -0,0 +1,46 @@
+/**
+ * IndexWorker - Worker thread side of IndexWorkerPool
+ *
+ * Hashes files and runs Tree-sitter over them, whole or in outline mode. Each thread has its own
+ * parser and compiled queries, loaded once with the workspace's query
+ * overrides.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import * as fs from 'fs';
+import { FileHasher } from '../utils/FileHasher';
+import { TreeSitterEnhancer } from '../syntactic/TreeSitterEnhancer';
+import type { IndexTask, IndexWorkerData } from './IndexWorkerPool';
+import type { WorkerResponse } from './WorkerPool';
+
+const data = workerData as IndexWorkerData;
+const treeSitterEnhancer = new TreeSitterEnhancer();
+if (data.workspacePath) {
+    treeSitterEnhancer.loadWorkspaceQueries(data.workspacePath);
+}
+
+async function runTask(task: IndexTask): Promise<unknown> {
+    switch (task.kind) {
+        case 'hash':
+            return FileHasher.calculateHash(task.filePath);
+        case 'analyze': {
+            const content = await fs.promises.readFile(task.filePath, 'utf8');
+            return treeSitterEnhancer.enhanceGraphNode(
+                { filePath: task.filePath, language: task.languageId, depth: 0, symbols: [], imports: [] },
+                content
+            );
+        }
+        case 'outline':
+            return treeSitterEnhancer.extractOutline(task.filePath, task.languageId);
+    }
+}
+
+parentPort?.on('message', async ({ id, task }: { id: number; task: IndexTask }) => {
+    let response: WorkerResponse<unknown>;
+    try {
+        response = { id, result: await runTask(task) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    parentPort?.postMessage(response);
+});
@@ -0,0 +1,85 @@
+/**
+ * IndexWorkerPool - File hashing and Tree-sitter analysis on worker threads
+ *
+ * Parsing is CPU bound and blocks the thread it runs on, so indexing hands
+ * it to workers (see IndexWorker) and keeps the main thread for assembling
+ * graph nodes. Results are the same as running TreeSitterEnhancer and
+ * FileHasher in process.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { ICancellationToken } from '../types';
+import { TreeSitterEnhancement, TreeSitterOutline } from '../syntactic/TreeSitterEnhancer';
+import { WorkerPool } from './WorkerPool';
+
+export type IndexTask =
+    | { kind: 'hash'; filePath: string }
+    | { kind: 'analyze'; filePath: string; languageId: string }
+    | { kind: 'outline'; filePath: string; languageId: string };
+
+export interface IndexWorkerData {
+    workspacePath?: string; // Loads the workspace's tag query overrides
+}
+
+export interface IndexWorkerPoolOptions {
+    workers?: number; // 0 or unset: one per CPU core but one
+    fileTimeoutMs?: number; // 0: no timeout
+}
+
+const DEFAULT_FILE_TIMEOUT_MS = 30000;
+const MAX_DEFAULT_WORKERS = 8;
+
+/**
+ * Worker count for a `workers` setting
+ */
+export function resolveWorkerCount(workers: number = 0): number {
+    return workers > 0 ? workers : Math.max(1, Math.min(os.cpus().length - 1, MAX_DEFAULT_WORKERS));
+}
+
+export class IndexWorkerPool {
+    private pool: WorkerPool<IndexTask, unknown>;
+
+    constructor(workspacePath: string, options: IndexWorkerPoolOptions = {}) {
+        const workerData: IndexWorkerData = { workspacePath };
+        this.pool = new WorkerPool(path.join(__dirname, 'IndexWorker.js'), {
+            size: resolveWorkerCount(options.workers),
+            taskTimeoutMs: options.fileTimeoutMs ?? DEFAULT_FILE_TIMEOUT_MS,
+            workerData
+        });
+    }
+
+    public get size(): number {
+        return this.pool.size;
+    }
+
+    public async hashFile(filePath: string, cancellationToken?: ICancellationToken): Promise<string> {
+        return await this.pool.run({ kind: 'hash', filePath }, cancellationToken) as string;
+    }
+
+    /**
+     * Tree-sitter symbols and references of a file, read from disk
+     */
+    public async analyzeFile(
+        filePath: string,
+        languageId: string,
+        cancellationToken?: ICancellationToken
+    ): Promise<TreeSitterEnhancement> {
+        return await this.pool.run({ kind: 'analyze', filePath, languageId }, cancellationToken) as TreeSitterEnhancement;
+    }
+
+    /**
+     * Top-level symbols and imports of a file too large to index whole
+     */
+    public async outlineFile(
+        filePath: string,
+        languageId: string,
+        cancellationToken?: ICancellationToken
+    ): Promise<TreeSitterOutline> {
+        return await this.pool.run({ kind: 'outline', filePath, languageId }, cancellationToken) as TreeSitterOutline;
+    }
+
+    public dispose(): Promise<void> {
+        return this.pool.dispose();
+    }
+}
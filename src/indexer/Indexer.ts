@@ -7,24 +7,42 @@ import {
     ICancellationToken,
     IProgress
 } from '../types';
+import * as fs from 'fs';
 import { FileScanner } from './FileScanner';
 import { FileHasher } from '../utils/FileHasher';
+import { mapWithConcurrency, withTimeout } from '../utils/Concurrency';
 
 export interface IndexerDependencies {
     fileScanner: FileScanner;
     buildGraphNode: (filePath: string, config: GraphConfig) => Promise<GraphNode>;
     buildCompleteCallGraph: (graph: ContextGraph) => Promise<void>;
+    buildOutlineNode?: (filePath: string, config: GraphConfig) => Promise<GraphNode>; // Files over maxFileSize; skipped without it
+    hashFile?: (filePath: string, cancellationToken?: ICancellationToken) => Promise<string>; // Defaults to hashing in process
+    concurrency?: number; // Files in flight at once; default 1
+    fileTimeoutMs?: number; // Per-file limit; 0 or unset: none
 }
 
+type FileOutcome =
+    | { kind: 'indexed'; filePath: string; node: GraphNode; hash: string }
+    | { kind: 'skipped' | 'failed'; error: IndexingError };
+
 export class Indexer {
     private fileScanner: FileScanner;
     private buildGraphNode: (filePath: string, config: GraphConfig) => Promise<GraphNode>;
     private buildCompleteCallGraph: (graph: ContextGraph) => Promise<void>;
+    private buildOutlineNode?: (filePath: string, config: GraphConfig) => Promise<GraphNode>;
+    private hashFile: (filePath: string, cancellationToken?: ICancellationToken) => Promise<string>;
+    private concurrency: number;
+    private fileTimeoutMs: number;
 
     constructor(dependencies: IndexerDependencies) {
         this.fileScanner = dependencies.fileScanner;
         this.buildGraphNode = dependencies.buildGraphNode;
         this.buildCompleteCallGraph = dependencies.buildCompleteCallGraph;
+        this.buildOutlineNode = dependencies.buildOutlineNode;
+        this.hashFile = dependencies.hashFile ?? (filePath => FileHasher.calculateHash(filePath));
+        this.concurrency = Math.max(1, dependencies.concurrency ?? 1);
+        this.fileTimeoutMs = dependencies.fileTimeoutMs ?? 0;
     }
 
     async generateIndex(
@@ -37,6 +55,7 @@ export class Indexer {
         const errors: IndexingError[] = [];
         let successfulFiles = 0;
         let skippedFiles = 0;
+        const partialFiles: string[] = [];
 
         progress?.report('🔍 Scanning for code files...');
 
@@ -52,12 +71,13 @@ export class Indexer {
         };
 
         const fileHashes = new Map<string, string>();
-        const visited = new Set<string>();
 
-        // Process files in batches
+        // Process files in batches; files within a batch run concurrently
+        // and are added in scan order, so the graph matches a serial run
+        const uniqueFiles = Array.from(new Set(allFiles));
         const batches = [];
-        for (let i = 0; i < allFiles.length; i += config.batchSize) {
-            batches.push(allFiles.slice(i, i + config.batchSize));
+        for (let i = 0; i < uniqueFiles.length; i += config.batchSize) {
+            batches.push(uniqueFiles.slice(i, i + config.batchSize));
         }
 
         let totalProcessed = 0;
@@ -68,48 +88,30 @@ export class Indexer {
                 throw new Error('Indexing cancelled by user');
             }
 
-            const batch = batches[batchIndex];
-            
-            for (const filePath of batch) {
-                if (cancellationToken?.isCancellationRequested) {
-                    throw new Error('Indexing cancelled by user');
-                }
+            const outcomes = await mapWithConcurrency(
+                batches[batchIndex],
+                this.concurrency,
+                filePath => this.indexFile(filePath, config, cancellationToken),
+                cancellationToken
+            );
+            if (cancellationToken?.isCancellationRequested) {
+                throw new Error('Indexing cancelled by user');
+            }
 
-                try {
-                    if (visited.has(filePath)) {
-                        continue;
+            for (const outcome of outcomes) {
+                if (outcome.kind === 'indexed') {
+                    fileHashes.set(outcome.filePath, outcome.hash);
+                    contextGraph.nodes.push(outcome.node);
+                    if (outcome.node.partial) {
+                        partialFiles.push(outcome.filePath);
                     }
-
-                    const fs = await import('fs');
-                    const stats = fs.statSync(filePath);
-                    
-                    if (stats.size > config.maxFileSize) {
-                        skippedFiles++;
-                        errors.push({
-                            file: filePath,
-                            error: `File too large: ${(stats.size / 1024).toFixed(1)}KB`,
-                            timestamp: new Date().toISOString(),
-                            phase: 'scanning'
-                        });
-                        continue;
-                    }
-
-                    const fileHash = await FileHasher.calculateHash(filePath);
-                    fileHashes.set(filePath, fileHash);
-
-                    const node = await this.buildGraphNode(filePath, config);
-                    contextGraph.nodes.push(node);
-                    visited.add(filePath);
                     successfulFiles++;
                     totalProcessed++;
-
-                } catch (error) {
-                    errors.push({
-                        file: filePath,
-                        error: error instanceof Error ? error.message : String(error),
-                        timestamp: new Date().toISOString(),
-                        phase: 'parsing'
-                    });
+                } else {
+                    if (outcome.kind === 'skipped') {
+                        skippedFiles++;
+                    }
+                    errors.push(outcome.error);
                 }
             }
 
@@ -133,6 +135,7 @@ export class Indexer {
             totalFiles: allFiles.length,
             successfulFiles,
             skippedFiles,
+            partialFiles,
             errors,
             duration: Date.now() - startTime,
             timestamp: new Date().toISOString()
@@ -140,4 +143,43 @@ export class Indexer {
 
         return { graph: contextGraph, report, fileHashes };
     }
+
+    private async indexFile(
+        filePath: string,
+        config: GraphConfig,
+        cancellationToken?: ICancellationToken
+    ): Promise<FileOutcome> {
+        try {
+            const stats = await fs.promises.stat(filePath);
+            const buildNode = stats.size > config.maxFileSize ? this.buildOutlineNode : this.buildGraphNode;
+            if (!buildNode) {
+                return {
+                    kind: 'skipped',
+                    error: {
+                        file: filePath,
+                        error: `File too large: ${(stats.size / 1024).toFixed(1)}KB`,
+                        timestamp: new Date().toISOString(),
+                        phase: 'scanning'
+                    }
+                };
+            }
+
+            return await withTimeout((async (): Promise<FileOutcome> => {
+                const hash = await this.hashFile(filePath, cancellationToken);
+                const node = await buildNode(filePath, config);
+                return { kind: 'indexed', filePath, node, hash };
+            })(), this.fileTimeoutMs, `Timed out after ${this.fileTimeoutMs}ms`);
+
+        } catch (error) {
+            return {
+                kind: 'failed',
+                error: {
+                    file: filePath,
+                    error: error instanceof Error ? error.message : String(error),
+                    timestamp: new Date().toISOString(),
+                    phase: 'parsing'
+                }
+            };
+        }
+    }
 }
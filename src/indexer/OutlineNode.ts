@@ -0,0 +1,48 @@
+/**
+ * OutlineNode - Graph nodes for files too large to index whole
+ *
+ * Files over `maxFileSize` are indexed in outline mode: their top-level
+ * symbols and imports, read with TreeSitterEnhancer.extractOutline. The node
+ * carries no content or symbol code and is marked `partial`, so readers of
+ * the graph (and the indexing report) can tell it from a full node.
+ */
+
+import { GraphNode, SymbolNode } from '../types';
+import { TreeSitterOutline, declarationFields } from '../syntactic/TreeSitterEnhancer';
+import { ImportResolver } from '../resolver/ImportResolver';
+import { linkSymbolTree } from '../graph/SymbolTree';
+
+/**
+ * Build the partial graph node of a file from its outline
+ */
+export function buildOutlineNode(
+    filePath: string,
+    languageId: string,
+    outline: TreeSitterOutline,
+    importResolver?: ImportResolver
+): GraphNode {
+    const symbols: SymbolNode[] = outline.symbols.map(symbol => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        signature: symbol.signature,
+        location: {
+            line: symbol.startPosition.row,
+            character: symbol.startPosition.column,
+            endLine: symbol.endPosition.row,
+            endCharacter: symbol.endPosition.column
+        },
+        ...declarationFields(symbol),
+        referencedBy: []
+    }));
+
+    return {
+        filePath,
+        language: languageId,
+        depth: 0,
+        symbols: linkSymbolTree(filePath, symbols),
+        imports: importResolver
+            ? importResolver.resolveImports(outline.imports, languageId, filePath)
+            : outline.imports,
+        partial: true
+    };
+}
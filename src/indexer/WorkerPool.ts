@@ -0,0 +1,198 @@
+/**
+ * WorkerPool - Runs tasks on a fixed number of worker threads
+ *
+ * Tasks wait in a queue until a worker is free. A task that runs past its
+ * timeout, or a worker that crashes, takes its worker down with it; the
+ * worker is replaced and the queue moves on. Cancelling a task's token
+ * rejects its queued tasks; tasks already running finish.
+ *
+ * Workers exchange `{ id, task }` and `{ id, result }` / `{ id, error }`
+ * messages. Idle workers do not keep the process alive.
+ */
+
+import { Worker } from 'worker_threads';
+import { ICancellationToken } from '../types';
+
+export interface WorkerPoolOptions {
+    size: number;
+    taskTimeoutMs: number; // 0: no timeout
+    workerData?: unknown;
+}
+
+export interface WorkerResponse<TResult> {
+    id: number;
+    result?: TResult;
+    error?: string;
+}
+
+interface PendingTask<TTask, TResult> {
+    id: number;
+    task: TTask;
+    cancellationToken?: ICancellationToken;
+    resolve: (result: TResult) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker<TTask, TResult> {
+    worker: Worker;
+    current: PendingTask<TTask, TResult> | null;
+    timer: NodeJS.Timeout | null;
+}
+
+export class WorkerPool<TTask, TResult> {
+    private script: string;
+    private options: WorkerPoolOptions;
+    private workers: PoolWorker<TTask, TResult>[] = [];
+    private queue: PendingTask<TTask, TResult>[] = [];
+    private watchedTokens: WeakSet<ICancellationToken> = new WeakSet();
+    private nextId = 0;
+    private disposed = false;
+
+    constructor(script: string, options: WorkerPoolOptions) {
+        this.script = script;
+        this.options = { ...options, size: Math.max(1, options.size) };
+    }
+
+    public get size(): number {
+        return this.options.size;
+    }
+
+    /**
+     * Queue a task; resolves with the worker's result
+     */
+    public run(task: TTask, cancellationToken?: ICancellationToken): Promise<TResult> {
+        if (this.disposed) {
+            return Promise.reject(new Error('Worker pool disposed'));
+        }
+        if (cancellationToken?.isCancellationRequested) {
+            return Promise.reject(new Error('Task cancelled'));
+        }
+
+        return new Promise<TResult>((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, task, cancellationToken, resolve, reject });
+            if (cancellationToken) {
+                this.watch(cancellationToken);
+            }
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Stop all workers; queued and running tasks are rejected
+     */
+    public async dispose(): Promise<void> {
+        this.disposed = true;
+        for (const pending of this.queue.splice(0)) {
+            pending.reject(new Error('Worker pool disposed'));
+        }
+        const workers = this.workers.splice(0);
+        await Promise.all(workers.map(entry => {
+            this.settle(entry, new Error('Worker pool disposed'));
+            return entry.worker.terminate();
+        }));
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            let entry = this.workers.find(candidate => !candidate.current);
+            if (!entry) {
+                if (this.workers.length >= this.options.size) {
+                    return;
+                }
+                entry = this.spawn();
+            }
+
+            const pending = this.queue.shift()!;
+            entry.current = pending;
+            entry.worker.ref();
+            if (this.options.taskTimeoutMs > 0) {
+                const busy = entry;
+                entry.timer = setTimeout(() => {
+                    this.replace(busy, new Error(`Timed out after ${this.options.taskTimeoutMs}ms`));
+                }, this.options.taskTimeoutMs);
+            }
+            entry.worker.postMessage({ id: pending.id, task: pending.task });
+        }
+    }
+
+    private spawn(): PoolWorker<TTask, TResult> {
+        const worker = new Worker(this.script, { workerData: this.options.workerData });
+        const entry: PoolWorker<TTask, TResult> = { worker, current: null, timer: null };
+        worker.unref();
+
+        worker.on('message', (response: WorkerResponse<TResult>) => {
+            const pending = entry.current;
+            if (!pending || pending.id !== response.id) {
+                return;
+            }
+            if (response.error !== undefined) {
+                this.settle(entry, new Error(response.error));
+            } else {
+                this.settle(entry, null, response.result as TResult);
+            }
+            worker.unref();
+            this.dispatch();
+        });
+        worker.on('error', error => {
+            this.replace(entry, error instanceof Error ? error : new Error(String(error)));
+        });
+        worker.on('exit', code => {
+            if (this.workers.includes(entry)) {
+                this.replace(entry, new Error(`Worker exited with code ${code}`));
+            }
+        });
+
+        this.workers.push(entry);
+        return entry;
+    }
+
+    /**
+     * Drop a timed out or failed worker; a new one is started on demand
+     */
+    private replace(entry: PoolWorker<TTask, TResult>, error: Error): void {
+        const index = this.workers.indexOf(entry);
+        if (index < 0) {
+            return;
+        }
+        this.workers.splice(index, 1);
+        this.settle(entry, error);
+        entry.worker.terminate().catch(() => undefined);
+        if (!this.disposed) {
+            this.dispatch();
+        }
+    }
+
+    private settle(entry: PoolWorker<TTask, TResult>, error: Error | null, result?: TResult): void {
+        if (entry.timer) {
+            clearTimeout(entry.timer);
+            entry.timer = null;
+        }
+        const pending = entry.current;
+        entry.current = null;
+        if (!pending) {
+            return;
+        }
+        if (error) {
+            pending.reject(error);
+        } else {
+            pending.resolve(result as TResult);
+        }
+    }
+
+    /**
+     * One listener per token: ICancellationToken listeners cannot be removed
+     */
+    private watch(cancellationToken: ICancellationToken): void {
+        if (this.watchedTokens.has(cancellationToken)) {
+            return;
+        }
+        this.watchedTokens.add(cancellationToken);
+        cancellationToken.onCancellationRequested(() => {
+            const cancelled = this.queue.filter(pending => pending.cancellationToken === cancellationToken);
+            this.queue = this.queue.filter(pending => pending.cancellationToken !== cancellationToken);
+            for (const pending of cancelled) {
+                pending.reject(new Error('Task cancelled'));
+            }
+        });
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * LogicGraphTools - MCP tools backed by the LogicGraph index
+ *
+ * Each tool returns JSON text with workspace-relative file paths and the
+ * same line numbers stored in the index.
+ */
+
+import * as path from 'path';
+import { CopilotIntelligenceOrchestrator } from '../orchestrator/CopilotIntelligenceOrchestrator';
+import { McpTool, McpToolResult } from './McpServer';
+
+const MAX_TOP_K = 100;
+
+export function createLogicGraphTools(
+    orchestrator: CopilotIntelligenceOrchestrator,
+    workspacePath: string,
+    ready: Promise<void>
+): McpTool[] {
+    const toRelative = (filePath: string) =>
+        path.isAbsolute(filePath) ? path.relative(workspacePath, filePath).split(path.sep).join('/') : filePath;
+    const toAbsolute = (filePath: string) => path.resolve(workspacePath, filePath);
+
+    return [
+        {
+            name: 'search_code',
+            description: 'Search the codebase with hybrid lexical, semantic and graph-aware ranking. ' +
+                'Returns symbols with file/line locations and a score breakdown.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'Natural language or identifier query. Supports filters: kind:function, ' +
+                            'file:src/api/**, lang:python, in:src/auth, calls:loginUser, calledby:main, is:async, ' +
+                            'decorator:route, "quoted phrases" and -excluded words'
+                    },
+                    topK: { type: 'number', description: 'Maximum number of results (default 10)' }
+                },
+                required: ['query']
+            },
+            handler: async args => {
+                await ready;
+                const contextAssembly = await orchestrator.queryWithFallback(String(args.query), clampTopK(args.topK, 10));
+                return jsonResult({
+                    query: contextAssembly.query,
+                    intent: contextAssembly.intent,
+                    expansions: contextAssembly.expansions,
+                    results: contextAssembly.results.map(result => ({
+                        symbol: result.symbol,
+                        type: result.type,
+                        file: toRelative(result.file),
+                        line: result.line,
+                        score: result.relevanceScore,
+                        explanation: result.explanation
+                    }))
+                });
+            }
+        },
+        {
+            name: 'get_symbol',
+            description: 'Get the signature, docstring, location and (if indexed) code of a symbol. ' +
+                'Accepts a full dotted name (AuthService.login) or its last segment.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: 'Symbol name' }
+                },
+                required: ['name']
+            },
+            handler: async args => {
+                await ready;
+                const symbol = orchestrator.getSymbol(String(args.name));
+                if (!symbol) {
+                    return errorResult(`Symbol not found: ${args.name}`);
+                }
+                return jsonResult({
+                    ...symbol,
+                    file: toRelative(symbol.file),
+                    referencedBy: symbol.referencedBy.map(toRelative),
+                    ...(symbol.references && {
+                        references: symbol.references.map(site => ({ ...site, file: toRelative(site.file) }))
+                    })
+                });
+            }
+        },
+        {
+            name: 'find_callers',
+            description: 'List symbols that call a symbol (with the line of the call) and files that import it.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    symbol: { type: 'string', description: 'Symbol name' }
+                },
+                required: ['symbol']
+            },
+            handler: async args => {
+                await ready;
+                if (!orchestrator.getSymbol(String(args.symbol))) {
+                    return errorResult(`Symbol not found: ${args.symbol}`);
+                }
+                const callers = orchestrator.findCallers(String(args.symbol));
+                return jsonResult({
+                    symbol: args.symbol,
+                    callers: callers.map(caller => ({ ...caller, file: toRelative(caller.file) }))
+                });
+            }
+        },
+        {
+            name: 'find_callees',
+            description: 'List symbols a symbol calls, constructs or is decorated with, resolved to their declarations.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    symbol: { type: 'string', description: 'Symbol name' }
+                },
+                required: ['symbol']
+            },
+            handler: async args => {
+                await ready;
+                if (!orchestrator.getSymbol(String(args.symbol))) {
+                    return errorResult(`Symbol not found: ${args.symbol}`);
+                }
+                const callees = orchestrator.findCallees(String(args.symbol));
+                return jsonResult({
+                    symbol: args.symbol,
+                    callees: callees.map(callee => ({ ...callee, file: toRelative(callee.file) }))
+                });
+            }
+        },
+        {
+            name: 'get_file_outline',
+            description: 'List the symbols declared in a file, in source order.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    file: { type: 'string', description: 'File path, relative to the workspace root' }
+                },
+                required: ['file']
+            },
+            handler: async args => {
+                await ready;
+                const outline = orchestrator.getFileOutline(toAbsolute(String(args.file)));
+                if (!outline) {
+                    return errorResult(`File not indexed: ${args.file}`);
+                }
+                return jsonResult({
+                    file: toRelative(toAbsolute(String(args.file))),
+                    symbols: outline.map(({ symbol, type, line }) => ({ symbol, type, line }))
+                });
+            }
+        },
+        {
+            name: 'find_similar',
+            description: 'Find symbols semantically similar to a given symbol using embeddings.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    symbol: { type: 'string', description: 'Symbol name as it appears in search results' },
+                    topK: { type: 'number', description: 'Maximum number of results (default 10)' }
+                },
+                required: ['symbol']
+            },
+            handler: async args => {
+                await ready;
+                if (!orchestrator.isReady()) {
+                    return errorResult('Semantic search is unavailable: the embedding model failed to load');
+                }
+                const similar = await orchestrator.findSimilar(String(args.symbol), clampTopK(args.topK, 10));
+                return jsonResult({
+                    symbol: args.symbol,
+                    results: similar.map(result => ({
+                        symbol: result.symbol,
+                        type: result.type,
+                        file: result.file ? toRelative(result.file) : undefined,
+                        line: result.line,
+                        score: result.score
+                    }))
+                });
+            }
+        }
+    ];
+}
+
+function clampTopK(value: any, fallback: number): number {
+    const topK = Number(value);
+    if (!Number.isFinite(topK) || topK < 1) {
+        return fallback;
+    }
+    return Math.min(Math.floor(topK), MAX_TOP_K);
+}
+
+function jsonResult(data: any): McpToolResult {
+    return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+}
+
+function errorResult(message: string): McpToolResult {
+    return { content: [{ type: 'text', text: message }], isError: true };
+}
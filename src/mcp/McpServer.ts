@@ -0,0 +1,186 @@
+/**
+ * McpServer - Model Context Protocol server over stdio
+ *
+ * Implements the subset of MCP that tool-only servers need: the
+ * initialize handshake, ping, tools/list and tools/call. Messages are
+ * newline-delimited JSON-RPC 2.0 on stdin/stdout; anything else a tool
+ * wants to say must go to stderr.
+ */
+
+import * as readline from 'readline';
+
+export interface McpToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: {
+        type: 'object';
+        properties: { [name: string]: any };
+        required?: string[];
+    };
+}
+
+export interface McpToolResult {
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+}
+
+export interface McpTool extends McpToolDefinition {
+    handler: (args: { [name: string]: any }) => Promise<McpToolResult>;
+}
+
+interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method: string;
+    params?: any;
+}
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+class JsonRpcError extends Error {
+    constructor(public code: number, message: string) {
+        super(message);
+    }
+}
+
+export class McpServer {
+    private tools = new Map<string, McpTool>();
+    private serverInfo: { name: string; version: string };
+    private write: (line: string) => void;
+
+    constructor(
+        serverInfo: { name: string; version: string },
+        write: (line: string) => void = line => process.stdout.write(line + '\n')
+    ) {
+        this.serverInfo = serverInfo;
+        this.write = write;
+    }
+
+    public registerTool(tool: McpTool): void {
+        this.tools.set(tool.name, tool);
+    }
+
+    /**
+     * Serve requests from stdin until it closes
+     */
+    public listen(input: NodeJS.ReadableStream = process.stdin): Promise<void> {
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+        const pending = new Set<Promise<void>>();
+
+        lines.on('line', line => {
+            if (line.trim().length === 0) {
+                return;
+            }
+            const task = this.handleMessage(line).finally(() => pending.delete(task));
+            pending.add(task);
+        });
+
+        return new Promise(resolve => {
+            lines.on('close', async () => {
+                await Promise.all(pending);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Handle one raw message and write the response, if any
+     */
+    public async handleMessage(raw: string): Promise<void> {
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch (error) {
+            this.sendError(null, PARSE_ERROR, 'Parse error');
+            return;
+        }
+
+        // Batches are allowed by JSON-RPC but not used by MCP clients
+        if (!message || typeof message !== 'object' || Array.isArray(message) || typeof message.method !== 'string') {
+            this.sendError(message?.id ?? null, INVALID_REQUEST, 'Invalid request');
+            return;
+        }
+
+        const request = message as JsonRpcRequest;
+        const isNotification = request.id === undefined;
+
+        try {
+            const result = await this.dispatch(request);
+            if (!isNotification) {
+                this.write(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+            }
+        } catch (error) {
+            if (isNotification) {
+                console.error(`McpServer: Error handling ${request.method}:`, error);
+                return;
+            }
+            if (error instanceof JsonRpcError) {
+                this.sendError(request.id ?? null, error.code, error.message);
+            } else {
+                const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                this.sendError(request.id ?? null, INTERNAL_ERROR, errorMsg);
+            }
+        }
+    }
+
+    private async dispatch(request: JsonRpcRequest): Promise<any> {
+        switch (request.method) {
+            case 'initialize':
+                return {
+                    protocolVersion: request.params?.protocolVersion || PROTOCOL_VERSION,
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo: this.serverInfo
+                };
+            case 'notifications/initialized':
+            case 'notifications/cancelled':
+                return undefined;
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return {
+                    tools: Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({
+                        name,
+                        description,
+                        inputSchema
+                    }))
+                };
+            case 'tools/call':
+                return this.callTool(request.params);
+            default:
+                throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+        }
+    }
+
+    private async callTool(params: any): Promise<McpToolResult> {
+        const tool = params && typeof params.name === 'string' ? this.tools.get(params.name) : undefined;
+        if (!tool) {
+            throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${params?.name}`);
+        }
+
+        const args = params.arguments && typeof params.arguments === 'object' ? params.arguments : {};
+        for (const required of tool.inputSchema.required || []) {
+            if (args[required] === undefined || args[required] === null || args[required] === '') {
+                throw new JsonRpcError(INVALID_PARAMS, `Missing required argument: ${required}`);
+            }
+        }
+
+        // Tool failures are reported in the result so the model can see them
+        try {
+            return await tool.handler(args);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            return { content: [{ type: 'text', text: errorMsg }], isError: true };
+        }
+    }
+
+    private sendError(id: string | number | null, code: number, message: string): void {
+        this.write(JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } }));
+    }
+}
@@ -15,13 +15,25 @@
 import { TreeSitterEnhancer } from '../syntactic/TreeSitterEnhancer';
 import { QueryIntentGraphBuilder, VirtualQueryGraph } from '../semantic/QueryIntentGraph';
 import { BM25LexicalRetriever } from '../retrieval/BM25LexicalRetriever';
-import { SemanticRetriever } from '../retrieval/SemanticRetriever';
+import { SemanticRetriever, SemanticResult } from '../retrieval/SemanticRetriever';
+import {
+    EmbeddingProvider,
+    createEmbeddingProvider,
+    embeddingConfigFromEnvironment
+} from '../retrieval/EmbeddingProvider';
 import { HybridReranker, HybridResult } from '../retrieval/HybridReranker';
 import { GraphAwareRelevanceScorer } from '../graph/GraphAwareRelevanceScorer';
+import { SymbolChunker } from '../retrieval/SymbolChunker';
 import { QueryAnalyzer } from '../search/QueryAnalyzer';
 import { FuzzySearcher } from '../search/FuzzySearcher';
-import { ContextGraph, SearchIndex } from '../types';
+import { QueryFilter } from '../search/QueryFilter';
+import { QueryExpander, QueryExpansion } from '../search/QueryExpander';
+import { generateFileSearchEntries } from '../indexer/IndexGenerators';
+import { symbolId, parseSymbolId, displaySymbolId } from '../graph/SymbolId';
+import { LogicGraphSettings } from '../config/LogicGraphSettings';
+import { ContextGraph, GraphNode, SearchIndex, SymbolLocation, SymbolNode, SymbolModifier, SymbolVisibility, CallEdgeKind, EdgeProvenance, ReferenceSite } from '../types';
 import * as fs from 'fs/promises';
+import * as path from 'path';
 
 export interface EnhancedQueryResult {
     symbol: string;
@@ -29,24 +41,87 @@ export interface EnhancedQueryResult {
     line: number;
     type: string;
     relevanceScore: number;
+    matchedChunk?: { startLine: number; endLine: number }; // Body lines that matched the query
     explanation: {
         lexicalScore: number;
         semanticScore: number;
         graphScore: number;
+        weights?: RankingWeights; // relevanceScore = the scores above times these weights
         matchedTerms: string[];
+        expandedTerms?: string[]; // Expansions found in the result, as "expansion (term)"
         graphRelationships: string[];
     };
 }
 
+/**
+ * Shares of the lexical, semantic and graph scores in the relevance score
+ */
+export interface RankingWeights {
+    lexical: number;
+    semantic: number;
+    graph: number;
+}
+
+/**
+ * A hybrid result after graph reranking: `scores.hybrid` holds the final
+ * score and `graphScore` the graph relevance that went into it
+ */
+type RankedResult = HybridResult & { graphScore: number };
+
 export interface ContextAssembly {
     query: string;
     intent: string;
     results: EnhancedQueryResult[];
     virtualQueryGraph: VirtualQueryGraph;
+    expansions: QueryExpansion[];
     totalResults: number;
     processingTime: number;
 }
 
+export interface SymbolReference {
+    symbol: string;
+    file: string;
+    line: number;
+    type: string;
+}
+
+export interface SymbolDetails extends SymbolReference {
+    signature: string;
+    docstring?: string;
+    visibility?: SymbolVisibility;
+    modifiers?: SymbolModifier[];
+    decorators?: string[];
+    code?: string;
+    referencedBy: string[];
+    references?: ReferenceSite[];
+}
+
+/**
+ * A call graph edge seen from one endpoint
+ * `symbol` is the symbol at the other end; when that end is a file that
+ * imports the symbol (kind 'import'), it is the imported name instead
+ */
+export interface CallRelation {
+    file: string;
+    symbol: string;
+    line?: number; // Of the call site for callers, of the declaration for callees
+    type?: string;
+    kind?: CallEdgeKind;
+    provenance?: EdgeProvenance[];
+}
+
+export interface OrchestratorOptions {
+    /**
+     * Source of embeddings; defaults to the LOGICGRAPH_EMBEDDING_* environment
+     * configuration
+     */
+    embeddingProvider?: EmbeddingProvider;
+    /**
+     * Ranking parameters; built-in defaults when omitted
+     */
+    settings?: LogicGraphSettings;
+}
+
 export class CopilotIntelligenceOrchestrator {
     private treeSitterEnhancer: TreeSitterEnhancer;
     private queryIntentBuilder: QueryIntentGraphBuilder;
@@ -54,6 +129,9 @@ export class CopilotIntelligenceOrchestrator {
     private semanticRetriever: SemanticRetriever;
     private hybridReranker: HybridReranker;
     private graphScorer: GraphAwareRelevanceScorer;
+    private symbolChunker: SymbolChunker;
+    private queryExpander: QueryExpander;
+    private graphWeight: number = 0.6; // Share of the graph score in the final ranking
     
     // Fallback to existing system
     private queryAnalyzer: QueryAnalyzer;
@@ -61,19 +139,42 @@ export class CopilotIntelligenceOrchestrator {
     
     private contextGraph: ContextGraph | null = null;
     private searchIndex: SearchIndex | null = null;
+    private workspacePath: string = '';
     private isInitialized: boolean = false;
 
-    constructor() {
+    constructor(options: OrchestratorOptions = {}) {
         this.treeSitterEnhancer = new TreeSitterEnhancer();
         this.queryIntentBuilder = new QueryIntentGraphBuilder();
         this.bm25Retriever = new BM25LexicalRetriever();
-        this.semanticRetriever = new SemanticRetriever();
+        this.semanticRetriever = new SemanticRetriever({
+            provider: options.embeddingProvider || createEmbeddingProvider(embeddingConfigFromEnvironment(process.env))
+        });
         this.hybridReranker = new HybridReranker(this.bm25Retriever, this.semanticRetriever);
         this.graphScorer = new GraphAwareRelevanceScorer();
+        this.symbolChunker = new SymbolChunker(this.treeSitterEnhancer);
+        this.queryExpander = new QueryExpander(this.bm25Retriever);
         
         // Fallbacks
         this.queryAnalyzer = new QueryAnalyzer();
         this.fuzzySearcher = new FuzzySearcher();
+
+        if (options.settings) {
+            this.applySettings(options.settings);
+        }
+    }
+
+    /**
+     * Re-tune ranking without re-indexing
+     * BM25 parameters, reranker and graph weights and query expansion all
+     * apply at query time. Embedding settings are not applied here: a new
+     * provider needs a new orchestrator.
+     */
+    public applySettings(settings: LogicGraphSettings): void {
+        this.bm25Retriever.updateParameters(settings.bm25);
+        this.hybridReranker.updateConfig(settings.reranker);
+        this.graphScorer.updateWeights(settings.graph.weights);
+        this.queryExpander.updateOptions(settings.queryExpansion);
+        this.graphWeight = settings.ranking.graphWeight;
     }
 
     /**
@@ -83,32 +184,90 @@ export class CopilotIntelligenceOrchestrator {
     public async initialize(workspacePath: string): Promise<void> {
         try {
             await this.loadIndices(workspacePath);
+            this.workspacePath = workspacePath;
+            this.queryExpander.loadDictionaries(workspacePath);
+            this.treeSitterEnhancer.loadWorkspaceQueries(workspacePath);
+
+            // Load context graph for graph-aware scoring
+            // Done before the embedding model so graph lookups work even if it fails to load
+            if (this.contextGraph) {
+                this.graphScorer.loadContextGraph(this.contextGraph);
+            }
 
             // Initialize semantic retriever (loads embedding model)
+            // Embeddings of unchanged symbols are reused from .logicgraph/embeddings
+            this.semanticRetriever.setCacheDirectory(path.join(workspacePath, '.logicgraph', 'embeddings'));
             await this.semanticRetriever.initialize();
 
             // Index data for retrieval
             if (this.searchIndex) {
                 this.bm25Retriever.indexSearchIndex(this.searchIndex);
-                await this.semanticRetriever.indexSearchIndex(this.searchIndex);
-            }
-
-            // Load context graph for graph-aware scoring
-            if (this.contextGraph) {
-                this.graphScorer.loadContextGraph(this.contextGraph);
+                const chunks = this.contextGraph ? this.symbolChunker.chunkGraph(this.contextGraph, workspacePath) : [];
+                await this.semanticRetriever.indexSearchIndex(this.searchIndex, chunks);
             }
 
             this.isInitialized = true;
             console.log('CopilotIntelligenceOrchestrator: Initialization complete');
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`CopilotIntelligenceOrchestrator: Initialization failed: ${errorMsg}`);
             if (error instanceof Error && error.stack) {
+                console.debug(error.stack);
             }
             this.isInitialized = false;
             throw error;
         }
     }
 
+    /**
+     * Apply an incremental index update without reloading from disk
+     * Only the documents, IDF statistics and graph edges of the changed files
+     * are replaced; unchanged symbols keep their embeddings.
+     */
+    public async applyIncrementalUpdate(
+        workspacePath: string,
+        graph: ContextGraph,
+        changedFiles: { modified: string[]; deleted: string[]; added: string[] }
+    ): Promise<void> {
+        if (!this.isInitialized || !this.searchIndex) {
+            throw new Error('Orchestrator not initialized. Call initialize() first.');
+        }
+
+        const nodesByPath = new Map(graph.nodes.map(node => [node.filePath, node]));
+        const affectedFiles = [...changedFiles.modified, ...changedFiles.deleted, ...changedFiles.added];
+
+        // Search index paths are workspace-relative, graph paths absolute
+        const relativePaths = new Set(affectedFiles.map(filePath => path.relative(workspacePath, filePath)));
+
+        this.contextGraph = graph;
+        this.graphScorer.updateFiles(graph, affectedFiles);
+
+        // Keep the in-memory search index in step for the fuzzy fallback
+        this.searchIndex.symbolLocations = this.searchIndex.symbolLocations.filter(s => !relativePaths.has(s.file));
+        this.searchIndex.fileMetadata = this.searchIndex.fileMetadata.filter(f => !relativePaths.has(f.path));
+
+        for (const filePath of affectedFiles) {
+            const relativePath = path.relative(workspacePath, filePath);
+            const node = nodesByPath.get(filePath);
+            const entries = node ? generateFileSearchEntries(node, workspacePath) : null;
+
+            if (entries) {
+                this.searchIndex.symbolLocations.push(...entries.symbolLocations);
+                this.searchIndex.fileMetadata.push(entries.fileMetadata);
+            }
+
+            this.bm25Retriever.updateFile(relativePath, entries ? entries.symbolLocations : []);
+            await this.semanticRetriever.updateFile(
+                relativePath,
+                entries ? entries.symbolLocations : [],
+                entries ? entries.fileMetadata : null,
+                node ? this.symbolChunker.chunkNode(node, workspacePath) : []
+            );
+        }
+
+        console.log(`CopilotIntelligenceOrchestrator: Applied incremental update for ${affectedFiles.length} file(s)`);
+    }
+
     /**
      * Process query with full Copilot-like intelligence
      * Returns enhanced results with graph-aware relevance
@@ -130,8 +289,13 @@ export class CopilotIntelligenceOrchestrator {
 
         console.log(`CopilotIntelligenceOrchestrator: Processing query "${queryText.substring(0, 50)}..."`);
 
+        // Filters (kind:, file:, calls:, ...) restrict candidates; the free text is ranked
+        const queryContext = this.queryAnalyzer.analyzeIntent(queryText);
+        const freeText = (queryContext.text ?? queryText).trim();
+        const filter = new QueryFilter(queryContext.filters, this.contextGraph?.callGraph || []);
+
         // Step 1: Build Query Intent Graph
-        const queryIntentGraph = this.queryIntentBuilder.buildQueryIntentGraph(queryText);
+        const queryIntentGraph = this.queryIntentBuilder.buildQueryIntentGraph(freeText || queryText);
         this.graphScorer.loadQueryGraph(queryIntentGraph);
 
         // Extract key terms for BM25 by removing stop words
@@ -148,52 +312,38 @@ export class CopilotIntelligenceOrchestrator {
                                      'she', 'her', 'hers', 'herself', 'it', 'its', 'itself', 'they', 'them',
                                      'their', 'theirs', 'themselves', 'this', 'that', 'these', 'those']);
         
-        // Query expansion: map domain terms to code equivalents
-        const queryExpansions: { [key: string]: string[] } = {
-            'resume': ['resume', 'cv', 'work', 'experience', 'employment', 'career', 'job', 'certification', 'skill', 'education'],
-            'cv': ['resume', 'cv', 'work', 'experience', 'employment'],
-            'portfolio': ['portfolio', 'project', 'work', 'showcase'],
-            'contact': ['contact', 'email', 'phone', 'social', 'link', 'reach'],
-            'about': ['about', 'bio', 'profile', 'introduction', 'description'],
-            'skills': ['skill', 'ability', 'proficiency', 'competency', 'expertise'],
-            'projects': ['project', 'work', 'portfolio', 'showcase', 'demo'],
-            'experience': ['experience', 'work', 'employment', 'job', 'position', 'role'],
-            'education': ['education', 'degree', 'university', 'college', 'school', 'study'],
-            'certifications': ['certification', 'certificate', 'credential', 'qualification', 'license']
-        };
-        
-        let queryTokens = queryText.toLowerCase().split(/\s+/).filter(t => t.length > 0 && !stopWords.has(t));
+        const queryTokens = freeText.split(/[^\w$]+/).filter(t => t.length > 0 && !stopWords.has(t.toLowerCase()));
         
-        // Expand query terms with synonyms
-        const expandedTokens = new Set<string>();
-        for (const token of queryTokens) {
-            expandedTokens.add(token);
-            // Check if token matches any expansion key (exact or contains)
-            for (const [key, expansions] of Object.entries(queryExpansions)) {
-                if (token.includes(key) || key.includes(token)) {
-                    expansions.forEach(exp => expandedTokens.add(exp));
-                    break;
-                }
-            }
-        }
-        
-        const searchQuery = Array.from(expandedTokens).join(' ') || queryText;
-        console.log(`[Orchestrator] Query expansion: "${queryText}" → "${searchQuery}"`);
+        // Query expansion: workspace synonym dictionaries plus vocabulary mined from the index
+        const expanded = this.queryExpander.expand(queryTokens);
+        const searchQuery = expanded.terms.join(' ') || freeText;
+        console.log(`[Orchestrator] Query expansion: "${freeText}" → "${searchQuery}"`);
 
         // Step 2: Hybrid Retrieval (BM25 + Semantic)
-        const hybridResults = await this.hybridReranker.search(searchQuery, topK * 2); // Get more for graph reranking
+        // A query of filters only lists what they select, ranked by the graph alone
+        const hybridResults = searchQuery
+            ? await this.hybridReranker.search(searchQuery, topK * 2, filter) // Get more for graph reranking
+            : this.listFiltered(filter);
 
         // Step 3: Graph-Aware Reranking
         const graphScoredSymbols = this.graphScorer.scoreSymbols();
         const graphScoreMap = new Map(
-            graphScoredSymbols.map(s => [s.symbol, s.score.overall])
+            graphScoredSymbols.map(s => [s.id, s.score.overall])
         );
 
+        // "What implements X": subtypes of X rank first, found by the text retrievers or not
+        const subtypeScores = new Map(
+            graphScoredSymbols.filter(s => s.score.typeHierarchy > 0).map(s => [s.id, s.score.typeHierarchy])
+        );
+        const candidates = subtypeScores.size > 0
+            ? [...hybridResults, ...this.listMissingSymbols(hybridResults, subtypeScores, filter)]
+            : hybridResults;
+
         // Step 4: Combine hybrid and graph scores
-        const finalResults = this.combineScores(hybridResults, graphScoreMap, topK);
+        const finalResults = this.combineScores(candidates, graphScoreMap, subtypeScores, topK);
 
         // Step 5: Assemble context with explanations
-        const enhancedResults = this.assembleContext(finalResults, queryIntentGraph);
+        const enhancedResults = this.assembleContext(finalResults, queryIntentGraph, expanded.expansions);
 
         const processingTime = Date.now() - startTime;
 
@@ -202,6 +352,7 @@ export class CopilotIntelligenceOrchestrator {
             intent: queryIntentGraph._intentType,
             results: enhancedResults,
             virtualQueryGraph: queryIntentGraph,
+            expansions: expanded.expansions,
             totalResults: enhancedResults.length,
             processingTime
         };
@@ -222,7 +373,8 @@ export class CopilotIntelligenceOrchestrator {
             if (!this.searchIndex) {
                 throw new Error('Search index not loaded');
             }
-            const fuzzyResults = await this.fuzzySearcher.search(queryText, this.searchIndex);
+            const fuzzyResults = (await this.fuzzySearcher.search(queryText, this.searchIndex, this.contextGraph?.callGraph || []))
+                .slice(0, topK);
             const queryContext = this.queryAnalyzer.analyzeIntent(queryText);
 
             // Convert to enhanced format
@@ -246,6 +398,7 @@ export class CopilotIntelligenceOrchestrator {
                 intent: queryContext.intent,
                 results: enhancedResults,
                 virtualQueryGraph: this.queryIntentBuilder.buildQueryIntentGraph(queryText),
+                expansions: [],
                 totalResults: enhancedResults.length,
                 processingTime: 0
             };
@@ -253,65 +406,67 @@ export class CopilotIntelligenceOrchestrator {
     }
 
     /**
-     * Enhance context graph with Tree-sitter syntactic information
-     * Call this during indexing to augment LSP data
+     * Every indexed symbol that passes the filter, unscored
      */
-    public async enhanceContextGraphWithTreeSitter(
-        graph: ContextGraph,
-        workspacePath: string
-    ): Promise<ContextGraph> {
-        const enhancedNodes = [];
-
-        for (const node of graph.nodes) {
-            try {
-                // Read file content
-                const content = await fs.readFile(node.filePath, 'utf-8');
-
-                // Enhance with Tree-sitter
-                const enhancement = this.treeSitterEnhancer.enhanceGraphNode(node, content);
-
-                // Merge enhancements into symbols
-                const enhancedSymbols = this.treeSitterEnhancer.mergeEnhancements(
-                    node.symbols,
-                    enhancement
-                );
-
-                // Add additional call edges
-                const additionalCalls = enhancement.additionalCalls;
-                graph.callGraph.push(...additionalCalls);
-
-                enhancedNodes.push({
-                    ...node,
-                    symbols: enhancedSymbols
-                });
-            } catch (error) {
-                enhancedNodes.push(node); // Keep original if enhancement fails
-            }
+    private listFiltered(filter: QueryFilter): HybridResult[] {
+        if (!this.searchIndex || filter.isEmpty()) {
+            return [];
         }
 
+        return this.searchIndex.symbolLocations
+            .filter(symbol => filter.matches(symbol))
+            .map((symbol, index) => this.toUnscoredResult(symbol, index + 1));
+    }
+
+    /**
+     * Indexed symbols with the given IDs that are not among the results yet
+     */
+    private listMissingSymbols(results: HybridResult[], ids: Map<string, number>, filter: QueryFilter): HybridResult[] {
+        if (!this.searchIndex) {
+            return [];
+        }
+
+        const present = new Set(results.map(result => this.resultSymbolId(result)));
+        return this.searchIndex.symbolLocations
+            .filter(symbol => {
+                const id = symbolId(path.resolve(this.workspacePath, symbol.file), symbol.symbol);
+                return ids.has(id) && !present.has(id) && filter.matches(symbol);
+            })
+            .map((symbol, index) => this.toUnscoredResult(symbol, results.length + index + 1));
+    }
+
+    private toUnscoredResult(symbol: SymbolLocation, rank: number): HybridResult {
         return {
-            ...graph,
-            nodes: enhancedNodes
+            documentId: `${symbol.file}:${symbol.line}:${symbol.symbol}`,
+            symbol: symbol.symbol,
+            file: symbol.file,
+            type: symbol.type,
+            line: symbol.line,
+            scores: { bm25: 0, semantic: 0, hybrid: 0, rrf: 0 },
+            rank
         };
     }
 
     /**
      * Combine hybrid retrieval scores with graph scores
+     * Subtypes of a type the query asks about come first, closest first
      */
     private combineScores(
         hybridResults: HybridResult[],
         graphScores: Map<string, number>,
+        subtypeScores: Map<string, number>,
         topK: number
-    ): HybridResult[] {
+    ): RankedResult[] {
         const combined = hybridResults.map(result => {
-            const graphScore = result.symbol ? (graphScores.get(result.symbol) || 0) : 0;
-            
-            // Weighted combination: 40% hybrid, 60% graph
-            // Graph scores dominate for explanatory queries
-            const finalScore = 0.4 * result.scores.hybrid + 0.6 * graphScore;
+            const id = this.resultSymbolId(result);
+            const graphScore = id ? (graphScores.get(id) || 0) : 0;
+
+            // ranking.graphWeight of the graph score, the rest hybrid (60% graph by default)
+            const finalScore = (1 - this.graphWeight) * result.scores.hybrid + this.graphWeight * graphScore;
 
             return {
                 ...result,
+                graphScore,
                 scores: {
                     ...result.scores,
                     hybrid: finalScore // Override hybrid score with combined
@@ -320,19 +475,35 @@ export class CopilotIntelligenceOrchestrator {
         });
 
         // Re-sort by combined score
-        combined.sort((a, b) => b.scores.hybrid - a.scores.hybrid);
+        const subtypeScore = (result: RankedResult) => subtypeScores.get(this.resultSymbolId(result) || '') || 0;
+        combined.sort((a, b) => (subtypeScore(b) - subtypeScore(a)) || (b.scores.hybrid - a.scores.hybrid));
 
         return combined.slice(0, topK);
     }
 
+    /**
+     * Weights of the final score: the reranker's BM25/semantic split of the
+     * hybrid share, and ranking.graphWeight
+     */
+    private getRankingWeights(): RankingWeights {
+        const { bm25Weight, semanticWeight } = this.hybridReranker.getConfig();
+        return {
+            lexical: (1 - this.graphWeight) * bm25Weight,
+            semantic: (1 - this.graphWeight) * semanticWeight,
+            graph: this.graphWeight
+        };
+    }
+
     /**
      * Assemble final context with explanations
      */
     private assembleContext(
-        results: HybridResult[],
-        queryGraph: VirtualQueryGraph
+        results: RankedResult[],
+        queryGraph: VirtualQueryGraph,
+        expansions: QueryExpansion[]
     ): EnhancedQueryResult[] {
         const queryEntities = queryGraph.nodes.flatMap(n => n.symbols.map(s => s.name));
+        const weights = this.getRankingWeights();
 
         return results.map((result, index) => {
             // Debug: log first result's scores
@@ -347,11 +518,12 @@ export class CopilotIntelligenceOrchestrator {
             
             // Extract graph relationships
             const relationships: string[] = [];
-            if (this.contextGraph && result.symbol) {
-                const edges = this.contextGraph.callGraph.filter(
-                    e => e.from === result.symbol || e.to === result.symbol
-                );
-                relationships.push(...edges.map(e => `${e.from} -> ${e.to}`));
+            const id = this.resultSymbolId(result);
+            if (id) {
+                const typeEdges = [...this.graphScorer.getSupertypeEdges(id), ...this.graphScorer.getSubtypeEdges(id)];
+                relationships.push(...typeEdges.map(e => `${displaySymbolId(e.from)} ${e.kind} ${displaySymbolId(e.to)}`));
+                const edges = [...this.graphScorer.getOutgoingEdges(id), ...this.graphScorer.getIncomingEdges(id)];
+                relationships.push(...edges.map(e => `${displaySymbolId(e.from)} -> ${displaySymbolId(e.to)}`));
             }
 
             // Identify matched terms
@@ -359,23 +531,169 @@ export class CopilotIntelligenceOrchestrator {
                 result.symbol?.toLowerCase().includes(entity.toLowerCase())
             );
 
+            // Expansions that show up in the symbol or its path
+            const haystack = `${result.symbol || ''} ${result.file || ''}`.toLowerCase();
+            const expandedTerms = expansions.flatMap(expansion => expansion.expansions
+                .filter(word => haystack.includes(word.toLowerCase()))
+                .map(word => `${word} (${expansion.term})`)
+            );
+
             return {
                 symbol: result.symbol || '',
                 file: result.file || '',
                 line: result.line || 0,
                 type: result.type || '',
                 relevanceScore: result.scores.hybrid,
+                ...(result.chunk && { matchedChunk: result.chunk }),
                 explanation: {
                     lexicalScore: result.scores.bm25,
                     semanticScore: result.scores.semantic,
-                    graphScore: result.scores.hybrid - (0.4 * result.scores.bm25 + 0.6 * result.scores.semantic),
+                    graphScore: result.graphScore,
+                    weights,
                     matchedTerms,
+                    ...(expandedTerms.length > 0 && { expandedTerms }),
                     graphRelationships: relationships.slice(0, 5) // Top 5 relationships
                 }
             };
         });
     }
 
+    /**
+     * Look up a symbol by name
+     * Accepts the full dotted name or its last segment (`login` for `AuthService.login`)
+     */
+    public getSymbol(symbolName: string): SymbolDetails | null {
+        const match = this.findSymbolNode(symbolName);
+        if (!match) {
+            return null;
+        }
+
+        const { node, symbol } = match;
+        return {
+            ...this.toSymbolReference(node, symbol),
+            signature: symbol.signature,
+            docstring: symbol.docstring,
+            ...(symbol.visibility && { visibility: symbol.visibility }),
+            ...(symbol.modifiers && { modifiers: symbol.modifiers }),
+            ...(symbol.decorators && { decorators: symbol.decorators }),
+            code: symbol.fullCode,
+            referencedBy: symbol.referencedBy,
+            ...(symbol.references && { references: symbol.references })
+        };
+    }
+
+    /**
+     * Symbols declared in a file, in source order
+     * Returns null when the file is not in the index
+     */
+    public getFileOutline(filePath: string): SymbolReference[] | null {
+        const node = this.contextGraph?.nodes.find(n => n.filePath === filePath);
+        if (!node) {
+            return null;
+        }
+
+        return node.symbols
+            .map(symbol => this.toSymbolReference(node, symbol))
+            .sort((a, b) => a.line - b.line);
+    }
+
+    /**
+     * Symbols that call a symbol, and files that import it
+     */
+    public findCallers(symbolName: string): CallRelation[] {
+        const match = this.findSymbolNode(symbolName);
+        if (!match) {
+            return [];
+        }
+
+        const id = symbolId(match.node.filePath, match.symbol.name);
+        return this.graphScorer.getIncomingEdges(id).map(edge => {
+            const { file, symbol } = parseSymbolId(edge.from);
+            const caller = symbol ? this.findSymbolInFile(file, symbol) : undefined;
+            return {
+                file,
+                symbol: symbol || edge.symbol,
+                line: edge.line,
+                type: caller?.kind,
+                kind: edge.kind,
+                provenance: edge.provenance
+            };
+        });
+    }
+
+    /**
+     * Symbols a symbol calls, resolved to their declarations
+     */
+    public findCallees(symbolName: string): CallRelation[] {
+        const match = this.findSymbolNode(symbolName);
+        if (!match) {
+            return [];
+        }
+
+        const id = symbolId(match.node.filePath, match.symbol.name);
+        return this.graphScorer.getOutgoingEdges(id).map(edge => {
+            const { file, symbol } = parseSymbolId(edge.to);
+            const target = symbol ? this.findSymbolInFile(file, symbol) : undefined;
+            return {
+                file,
+                symbol: symbol || edge.symbol,
+                line: target?.location.line,
+                type: target?.kind,
+                kind: edge.kind,
+                provenance: edge.provenance
+            };
+        });
+    }
+
+    /**
+     * Semantically similar symbols (requires the embedding model)
+     */
+    public async findSimilar(symbolName: string, topK: number = 10): Promise<SemanticResult[]> {
+        return this.semanticRetriever.findSimilar(symbolName, topK);
+    }
+
+    private findSymbolNode(symbolName: string): { node: GraphNode; symbol: SymbolNode } | null {
+        if (!this.contextGraph || !symbolName) {
+            return null;
+        }
+
+        let suffixMatch: { node: GraphNode; symbol: SymbolNode } | null = null;
+        for (const node of this.contextGraph.nodes) {
+            for (const symbol of node.symbols) {
+                if (symbol.name === symbolName) {
+                    return { node, symbol };
+                }
+                if (!suffixMatch && symbol.name.endsWith('.' + symbolName)) {
+                    suffixMatch = { node, symbol };
+                }
+            }
+        }
+        return suffixMatch;
+    }
+
+    private findSymbolInFile(filePath: string, symbolName: string): SymbolNode | undefined {
+        return this.contextGraph?.nodes.find(n => n.filePath === filePath)?.symbols.find(s => s.name === symbolName);
+    }
+
+    /**
+     * Call graph ID of a ranked result; results carry workspace-relative paths
+     */
+    private resultSymbolId(result: HybridResult): string | null {
+        if (!result.symbol || !result.file) {
+            return null;
+        }
+        return symbolId(path.resolve(this.workspacePath, result.file), result.symbol);
+    }
+
+    private toSymbolReference(node: GraphNode, symbol: SymbolNode): SymbolReference {
+        return {
+            symbol: symbol.name,
+            file: node.filePath,
+            line: symbol.location.line,
+            type: symbol.kind
+        };
+    }
+
     /**
      * Load indices from workspace
      */
@@ -415,6 +733,13 @@ export class CopilotIntelligenceOrchestrator {
         };
     }
 
+    /**
+     * Loaded context graph, for consumers that need symbol bodies or edges
+     */
+    public getContextGraph(): ContextGraph | null {
+        return this.contextGraph;
+    }
+
     /**
      * Check if orchestrator is ready
      */
@@ -0,0 +1,134 @@
+/**
+ * ResultFormatter - Markdown rendering of search results
+ * Shared by the editor (untitled markdown documents) and the CLI
+ */
+
+import type { ContextPack } from '../context/ContextPacker';
+
+export function formatSearchResults(query: string, results: any[]): string {
+    if (!query) {
+        query = '(no query)';
+    }
+    if (!Array.isArray(results)) {
+        return '# Error: Invalid results';
+    }
+
+    let output = `# Search Results for: "${query}"\n\n`;
+    output += `Found ${results.length} relevant symbols\n\n`;
+
+    for (const result of results) {
+        if (!result || !result.symbol) {
+            continue; // Skip invalid results
+        }
+        output += `## \`${result.symbol}\` (${result.type || 'unknown'})\n`;
+        output += `- **File**: ${result.file || 'unknown'}:${result.line || 0}\n`;
+        output += `- **Signature**: \`${result.signature || 'N/A'}\`\n\n`;
+    }
+
+    if (results.length === 0) {
+        output += '\n*No results found. Try refining your search query.*\n';
+    }
+
+    return output;
+}
+
+export function formatEnhancedSearchResults(contextAssembly: any): string {
+    if (!contextAssembly) {
+        return '# Error: Invalid context assembly';
+    }
+
+    let output = `# 🤖 Copilot Intelligence Search Results\n\n`;
+    output += `**Query**: "${contextAssembly.query || 'N/A'}"\n`;
+    output += `**Intent**: ${contextAssembly.intent || 'unknown'}\n`;
+    output += `**Processing Time**: ${contextAssembly.processingTime || 0}ms\n`;
+    output += `**Results**: ${contextAssembly.totalResults || 0}\n`;
+    for (const expansion of contextAssembly.expansions || []) {
+        output += `**Expanded** \`${expansion.term}\` → ${expansion.expansions.join(', ')} _(${expansion.source})_\n`;
+    }
+    output += `\n---\n\n`;
+
+    const results = contextAssembly.results || [];
+    for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        if (!result) continue;
+        
+        output += `### ${i + 1}. ${result.symbol || 'unknown'} (${result.type || 'unknown'})\n\n`;
+        output += `- **File**: [${result.file || 'unknown'}:${result.line || 0}](${result.file || '#'}#L${result.line || 0})\n`;
+        output += `- **Relevance Score**: ${((result.relevanceScore || 0) * 100).toFixed(1)}%\n\n`;
+        
+        // Explanation section
+        output += `**Relevance Breakdown**:\n`;
+        const weights = result.explanation.weights;
+        const weight = (share: number | undefined) => share !== undefined ? ` (weight ${share.toFixed(2)})` : '';
+        output += `- Lexical Match (BM25): ${(result.explanation.lexicalScore * 100).toFixed(1)}%${weight(weights?.lexical)}\n`;
+        output += `- Semantic Similarity: ${(result.explanation.semanticScore * 100).toFixed(1)}%${weight(weights?.semantic)}\n`;
+        output += `- Graph Relevance: ${(result.explanation.graphScore * 100).toFixed(1)}%${weight(weights?.graph)}\n\n`;
+        
+        if (result.explanation.matchedTerms.length > 0) {
+            output += `**Matched Query Terms**: ${result.explanation.matchedTerms.join(', ')}\n\n`;
+        }
+
+        if (result.explanation.expandedTerms?.length > 0) {
+            output += `**Matched Expansions**: ${result.explanation.expandedTerms.join(', ')}\n\n`;
+        }
+        
+        if (result.explanation.graphRelationships.length > 0) {
+            output += `**Call Graph Relationships**:\n`;
+            for (const rel of result.explanation.graphRelationships) {
+                output += `- \`${rel}\`\n`;
+            }
+            output += `\n`;
+        }
+    }
+
+    output += `\n---\n\n`;
+    output += `*Powered by Tree-sitter, BM25, Semantic Embeddings, and Graph-Aware Ranking*\n`;
+
+    return output;
+}
+
+const FENCE_LANGUAGES: { [languageId: string]: string } = {
+    typescriptreact: 'tsx',
+    javascriptreact: 'jsx',
+    unknown: ''
+};
+
+/**
+ * Render a context pack as a prompt-ready markdown bundle
+ */
+export function formatContextPack(pack: ContextPack): string {
+    let output = `# Code context for: "${pack.query}"\n\n`;
+    output += `_~${pack.tokensUsed}/${pack.tokenBudget} tokens, ${pack.snippets.length} snippet(s)`;
+    if (pack.truncated.length > 0) {
+        output += `, ${pack.truncated.length} truncated`;
+    }
+    if (pack.dropped.length > 0) {
+        output += `, ${pack.dropped.length} dropped`;
+    }
+    output += '_\n\n';
+
+    for (const snippet of pack.snippets) {
+        const range = `${snippet.file}:${snippet.startLine + 1}-${snippet.endLine + 1}`;
+        if (snippet.kind === 'imports') {
+            output += `## ${range} (imports)\n\n`;
+        } else if (snippet.kind === 'caller') {
+            output += `## ${range} (uses \`${snippet.symbols.join('`, `')}\`)\n\n`;
+        } else {
+            output += `## ${range} — \`${snippet.symbols.join('`, `')}\`${snippet.truncated ? ' (truncated)' : ''}\n\n`;
+        }
+
+        const fence = snippet.code.includes('```') ? '````' : '```';
+        const language = FENCE_LANGUAGES[snippet.language] ?? snippet.language;
+        output += `${fence}${language}\n${snippet.code}\n${fence}\n\n`;
+    }
+
+    if (pack.dropped.length > 0) {
+        output += `## Omitted\n\n`;
+        for (const dropped of pack.dropped) {
+            const reason = dropped.reason === 'budget' ? 'token budget' : 'source unavailable';
+            output += `- \`${dropped.symbol}\` (${dropped.file}): ${reason}\n`;
+        }
+    }
+
+    return output;
+}
@@ -0,0 +1,85 @@
+/**
+ * ImportExtractor - Language-level import statement extraction
+ *
+ * Pure text analysis shared by the LSP-backed and headless graph builders.
+ * Resolution of the extracted specifiers is done by ImportResolver.
+ */
+
+import { ImportNode } from '../types';
+
+/**
+ * Extract import statements from source text
+ * Returned nodes carry only `importPath` and `symbols`
+ */
+export function extractImportStatements(text: string, language: string): ImportNode[] {
+    const imports: ImportNode[] = [];
+
+    // JavaScript/TypeScript
+    if (language === 'javascript' || language === 'typescript' || 
+        language === 'javascriptreact' || language === 'typescriptreact') {
+        
+        const es6Pattern = /import\s+(?:{([^}]+)}|([*\w]+)|\*\s+as\s+(\w+))\s+from\s+['"]([^'"]+)['"]/g;
+        let match;
+
+        while ((match = es6Pattern.exec(text)) !== null) {
+            const symbols: string[] = [];
+            
+            if (match[1]) symbols.push(...match[1].split(',').map(s => s.trim()));
+            if (match[2]) symbols.push(match[2]);
+            if (match[3]) symbols.push(match[3]);
+
+            imports.push({
+                importPath: match[4],
+                symbols: symbols
+            });
+        }
+    }
+
+    // Python
+    if (language === 'python') {
+        imports.push(...extractPythonImports(text));
+    }
+
+    return imports;
+}
+
+/**
+ * Extract `import a.b as c` and `from ..pkg import (x, y as z)` statements
+ * Aliases are dropped so symbols match the names defined in the target module
+ */
+function extractPythonImports(text: string): ImportNode[] {
+    const imports: ImportNode[] = [];
+    // A parenthesised list, or a line and the lines it continues with `\`
+    const pythonPattern = /^[ \t]*(?:from\s+(\.+[\w.]*|[\w.]+)\s+)?import\s+(\([^)]*\)|(?:.*\\\r?\n)*.+)/gm;
+    let match;
+
+    const stripAlias = (item: string) => item.trim().split(/\s+as\s+/)[0].trim();
+
+    while ((match = pythonPattern.exec(text)) !== null) {
+        const fromModule = match[1];
+        const importedItems = match[2]
+            .replace(/[()]/g, '')
+            .replace(/\\\r?\n/g, ' ')
+            .replace(/#.*$/gm, '')
+            .split(/[,\n]/)
+            .map(stripAlias)
+            .filter(item => item.length > 0);
+
+        if (fromModule) {
+            imports.push({
+                importPath: fromModule,
+                symbols: importedItems
+            });
+        } else {
+            // `import a.b, c` binds modules, not symbols
+            for (const moduleName of importedItems) {
+                imports.push({
+                    importPath: moduleName,
+                    symbols: []
+                });
+            }
+        }
+    }
+
+    return imports;
+}
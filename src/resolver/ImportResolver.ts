@@ -0,0 +1,98 @@
+/**
+ * ImportResolver - Language-aware entry point for import resolution
+ *
+ * Dispatches extracted imports to the JavaScript/TypeScript or Python
+ * resolver and fills `resolvedPath`, `isExternal` and `packageName`.
+ */
+
+import * as path from 'path';
+import { ImportNode } from '../types';
+import { ModuleResolver } from './ModuleResolver';
+import { PythonModuleResolver } from './PythonModuleResolver';
+
+export interface ImportResolverOptions {
+    pythonSourceRoots?: string[];
+}
+
+const JS_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+
+export class ImportResolver {
+    private moduleResolver: ModuleResolver;
+    private pythonResolver: PythonModuleResolver;
+
+    constructor(moduleResolver: ModuleResolver, pythonResolver: PythonModuleResolver) {
+        this.moduleResolver = moduleResolver;
+        this.pythonResolver = pythonResolver;
+    }
+
+    static fromWorkspace(workspacePath: string, options: ImportResolverOptions = {}): ImportResolver {
+        return new ImportResolver(
+            ModuleResolver.fromWorkspace(workspacePath),
+            new PythonModuleResolver(workspacePath, options.pythonSourceRoots)
+        );
+    }
+
+    /**
+     * Resolve extracted imports for a file in place
+     * Python `from pkg import mod` entries that name submodules are split
+     * into their own ImportNode so the module file joins the import graph
+     */
+    public resolveImports(imports: ImportNode[], languageId: string, fromFile: string): ImportNode[] {
+        if (JS_LANGUAGES.includes(languageId)) {
+            for (const importNode of imports) {
+                this.applyResolution(importNode, this.moduleResolver.resolve(importNode.importPath, fromFile));
+            }
+            return imports;
+        }
+
+        if (languageId === 'python') {
+            const resolvedImports: ImportNode[] = [];
+            for (const importNode of imports) {
+                this.applyResolution(importNode, this.pythonResolver.resolve(importNode.importPath, fromFile));
+
+                const attributeSymbols: string[] = [];
+                for (const symbol of importNode.symbols) {
+                    const submodulePath = symbol === '*'
+                        ? null
+                        : this.pythonResolver.resolveSubmodule(importNode.importPath, symbol, fromFile);
+                    if (submodulePath && submodulePath !== importNode.resolvedPath) {
+                        resolvedImports.push({
+                            importPath: this.joinPythonModule(importNode.importPath, symbol),
+                            resolvedPath: submodulePath,
+                            isExternal: false,
+                            symbols: []
+                        });
+                    } else {
+                        attributeSymbols.push(symbol);
+                    }
+                }
+
+                // `from . import a, b` where every name is a submodule adds nothing on its own
+                if (attributeSymbols.length > 0 || importNode.symbols.length === 0) {
+                    resolvedImports.push({ ...importNode, symbols: attributeSymbols });
+                }
+            }
+            return resolvedImports;
+        }
+
+        return imports;
+    }
+
+    public clearCache(): void {
+        this.moduleResolver.clearCache();
+        this.pythonResolver.clearCache();
+    }
+
+    private applyResolution(
+        importNode: ImportNode,
+        resolved: { resolvedPath?: string; isExternal: boolean; packageName?: string }
+    ): void {
+        importNode.resolvedPath = resolved.resolvedPath ? path.normalize(resolved.resolvedPath) : undefined;
+        importNode.isExternal = resolved.isExternal;
+        importNode.packageName = resolved.packageName;
+    }
+
+    private joinPythonModule(modulePath: string, name: string): string {
+        return modulePath.endsWith('.') ? `${modulePath}${name}` : `${modulePath}.${name}`;
+    }
+}
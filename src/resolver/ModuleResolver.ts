@@ -0,0 +1,503 @@
+/**
+ * ModuleResolver - Resolves JavaScript/TypeScript import specifiers to files
+ *
+ * Mirrors the parts of TypeScript/Node module resolution that matter for
+ * building the import graph:
+ * - Relative specifiers, extension-less specifiers and directory index files
+ * - `paths` + `baseUrl` from tsconfig.json / jsconfig.json (following `extends`)
+ * - Bare package specifiers via node_modules, honoring package.json `exports`
+ *
+ * Anything that cannot be mapped to a workspace file (npm packages, Node
+ * builtins, broken specifiers) is reported as external rather than dropped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import { PathAliasConfig, ResolvedImport } from '../types';
+import { parseJsonc } from '../utils/Jsonc';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// Emitted-extension specifiers (`./foo.js`) that point at TypeScript sources
+const EMITTED_TO_SOURCE: { [ext: string]: string[] } = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
+
+const EXPORT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+
+export class ModuleResolver {
+    private config: PathAliasConfig;
+    private workspacePath: string;
+    private resolutionCache: Map<string, ResolvedImport> = new Map();
+    private statCache: Map<string, 'file' | 'directory' | null> = new Map();
+    private packageJsonCache: Map<string, any | null> = new Map();
+
+    constructor(workspacePath: string, config?: Partial<PathAliasConfig>) {
+        this.workspacePath = path.resolve(workspacePath);
+        this.config = {
+            aliases: config?.aliases ?? {},
+            baseUrl: config?.baseUrl ?? '',
+            nodeModulesPath: config?.nodeModulesPath ?? path.join(this.workspacePath, 'node_modules')
+        };
+    }
+
+    /**
+     * Create a resolver configured from the workspace tsconfig.json or jsconfig.json
+     */
+    static fromWorkspace(workspacePath: string): ModuleResolver {
+        return new ModuleResolver(workspacePath, ModuleResolver.loadPathAliasConfig(workspacePath));
+    }
+
+    /**
+     * Read `baseUrl` and `paths` from tsconfig.json (preferred) or jsconfig.json
+     * Alias targets are returned as absolute paths
+     */
+    static loadPathAliasConfig(workspacePath: string): PathAliasConfig {
+        const config: PathAliasConfig = {
+            aliases: {},
+            baseUrl: '',
+            nodeModulesPath: path.join(workspacePath, 'node_modules')
+        };
+
+        for (const fileName of ['tsconfig.json', 'jsconfig.json']) {
+            const configPath = path.join(workspacePath, fileName);
+            if (!fs.existsSync(configPath)) {
+                continue;
+            }
+
+            try {
+                const compilerOptions = ModuleResolver.readCompilerOptions(configPath, new Set());
+                if (compilerOptions.baseUrl) {
+                    config.baseUrl = compilerOptions.baseUrl;
+                }
+                if (compilerOptions.paths) {
+                    const pathsBase = compilerOptions.baseUrl || compilerOptions.pathsBase;
+                    for (const [alias, targets] of Object.entries(compilerOptions.paths)) {
+                        if (Array.isArray(targets)) {
+                            config.aliases[alias] = targets.map(t => path.resolve(pathsBase, String(t)));
+                        }
+                    }
+                }
+            } catch (error) {
+                console.warn(`ModuleResolver: Failed to read ${fileName}:`, error);
+            }
+            break;
+        }
+
+        return config;
+    }
+
+    /**
+     * Resolve compilerOptions through the `extends` chain
+     * `baseUrl` is made absolute relative to the config that declares it,
+     * `pathsBase` records where `paths` were declared (used when baseUrl is absent)
+     */
+    private static readCompilerOptions(configPath: string, seen: Set<string>): any {
+        if (seen.has(configPath)) {
+            return {};
+        }
+        seen.add(configPath);
+
+        const raw = parseJsonc(fs.readFileSync(configPath, 'utf8'));
+        const configDir = path.dirname(configPath);
+        let inherited: any = {};
+
+        const extendsList = Array.isArray(raw.extends) ? raw.extends : raw.extends ? [raw.extends] : [];
+        for (const extendsSpec of extendsList) {
+            const parentPath = ModuleResolver.locateExtendedConfig(String(extendsSpec), configDir);
+            if (parentPath) {
+                inherited = { ...inherited, ...ModuleResolver.readCompilerOptions(parentPath, seen) };
+            }
+        }
+
+        const own = raw.compilerOptions || {};
+        const merged = { ...inherited, ...own };
+        if (own.baseUrl) {
+            merged.baseUrl = path.resolve(configDir, own.baseUrl);
+        }
+        if (own.paths) {
+            merged.pathsBase = configDir;
+        }
+        return merged;
+    }
+
+    private static locateExtendedConfig(spec: string, configDir: string): string | null {
+        const candidates: string[] = [];
+        if (spec.startsWith('.') || path.isAbsolute(spec)) {
+            const base = path.resolve(configDir, spec);
+            candidates.push(base, `${base}.json`);
+        } else {
+            // Shared configs such as "@tsconfig/node18/tsconfig.json"
+            let dir = configDir;
+            while (true) {
+                const base = path.join(dir, 'node_modules', spec);
+                candidates.push(base, `${base}.json`, path.join(base, 'tsconfig.json'));
+                const parent = path.dirname(dir);
+                if (parent === dir) break;
+                dir = parent;
+            }
+        }
+        return candidates.find(c => fs.existsSync(c) && fs.statSync(c).isFile()) || null;
+    }
+
+    /**
+     * Resolve an import specifier as written in `fromFile`
+     */
+    public resolve(specifier: string, fromFile: string): ResolvedImport {
+        if (!specifier || typeof specifier !== 'string') {
+            return { isExternal: true };
+        }
+
+        const fromDir = path.dirname(fromFile);
+        const cacheKey = `${fromDir}\0${specifier}`;
+        const cached = this.resolutionCache.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const result = this.resolveUncached(specifier, fromDir);
+        this.resolutionCache.set(cacheKey, result);
+        return result;
+    }
+
+    /**
+     * Forget cached lookups (call after files are added or removed)
+     */
+    public clearCache(): void {
+        this.resolutionCache.clear();
+        this.statCache.clear();
+        this.packageJsonCache.clear();
+    }
+
+    public getConfig(): PathAliasConfig {
+        return this.config;
+    }
+
+    private resolveUncached(specifier: string, fromDir: string): ResolvedImport {
+        if (specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+            return { isExternal: true, packageName: specifier.replace(/^node:/, '') };
+        }
+
+        // 1. Relative and absolute specifiers
+        if (this.isRelative(specifier) || path.isAbsolute(specifier)) {
+            const resolved = this.resolveFileOrDirectory(path.resolve(fromDir, specifier));
+            return resolved
+                ? this.toWorkspaceResult(resolved, undefined)
+                : { isExternal: true };
+        }
+
+        // 2. tsconfig `paths` aliases
+        const aliasResolved = this.resolveAlias(specifier);
+        if (aliasResolved) {
+            return this.toWorkspaceResult(aliasResolved, undefined);
+        }
+
+        // 3. Non-relative specifiers against `baseUrl`
+        if (this.config.baseUrl) {
+            const resolved = this.resolveFileOrDirectory(path.resolve(this.config.baseUrl, specifier));
+            if (resolved) {
+                return this.toWorkspaceResult(resolved, undefined);
+            }
+        }
+
+        // 4. Packages in node_modules
+        const packageName = this.getPackageName(specifier);
+        const packageResolved = this.resolvePackage(specifier, packageName, fromDir);
+        if (packageResolved) {
+            return this.toWorkspaceResult(packageResolved, packageName);
+        }
+
+        return { isExternal: true, packageName };
+    }
+
+    /**
+     * Files under node_modules are external unless they are symlinks back into
+     * the workspace (monorepo packages), in which case the real path is used
+     */
+    private toWorkspaceResult(filePath: string, packageName: string | undefined): ResolvedImport {
+        let realPath = filePath;
+        if (packageName) {
+            try {
+                realPath = fs.realpathSync(filePath);
+            } catch (error) {
+                // Keep the unresolved path
+            }
+        }
+
+        const relative = path.relative(this.workspacePath, realPath);
+        const insideWorkspace = !relative.startsWith('..') && !path.isAbsolute(relative);
+        const inNodeModules = realPath.split(path.sep).includes('node_modules');
+
+        if (insideWorkspace && !inNodeModules) {
+            return { resolvedPath: realPath, isExternal: false, packageName };
+        }
+        return { isExternal: true, packageName };
+    }
+
+    private resolveAlias(specifier: string): string | null {
+        let bestMatch: { targets: string[]; captured: string; prefixLength: number } | null = null;
+
+        for (const [alias, targets] of Object.entries(this.config.aliases)) {
+            const starIndex = alias.indexOf('*');
+            if (starIndex === -1) {
+                if (alias === specifier && (!bestMatch || alias.length > bestMatch.prefixLength)) {
+                    bestMatch = { targets, captured: '', prefixLength: alias.length };
+                }
+                continue;
+            }
+
+            const prefix = alias.slice(0, starIndex);
+            const suffix = alias.slice(starIndex + 1);
+            if (specifier.length >= prefix.length + suffix.length &&
+                specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+                // TypeScript picks the pattern with the longest prefix
+                if (!bestMatch || prefix.length > bestMatch.prefixLength) {
+                    bestMatch = {
+                        targets,
+                        captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+                        prefixLength: prefix.length
+                    };
+                }
+            }
+        }
+
+        if (!bestMatch) {
+            return null;
+        }
+
+        for (const target of bestMatch.targets) {
+            const candidate = target.replace('*', bestMatch.captured);
+            const resolved = this.resolveFileOrDirectory(candidate);
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return null;
+    }
+
+    private resolveFileOrDirectory(basePath: string): string | null {
+        return this.resolveFile(basePath) || this.resolveDirectory(basePath);
+    }
+
+    private resolveFile(basePath: string): string | null {
+        const ext = path.extname(basePath);
+
+        // `./foo.js` written in TypeScript sources refers to `./foo.ts`
+        const sourceExts = EMITTED_TO_SOURCE[ext];
+        if (sourceExts) {
+            const stem = basePath.slice(0, -ext.length);
+            for (const sourceExt of sourceExts) {
+                if (this.statKind(stem + sourceExt) === 'file') {
+                    return stem + sourceExt;
+                }
+            }
+        }
+
+        if (this.statKind(basePath) === 'file') {
+            return basePath;
+        }
+
+        for (const candidateExt of SOURCE_EXTENSIONS) {
+            if (this.statKind(basePath + candidateExt) === 'file') {
+                return basePath + candidateExt;
+            }
+        }
+
+        return null;
+    }
+
+    private resolveDirectory(dirPath: string): string | null {
+        if (this.statKind(dirPath) !== 'directory') {
+            return null;
+        }
+
+        const packageJson = this.readPackageJson(dirPath);
+        if (packageJson) {
+            for (const field of ['types', 'typings', 'module', 'main']) {
+                if (typeof packageJson[field] === 'string') {
+                    const entry = path.resolve(dirPath, packageJson[field]);
+                    const resolved = this.resolveFile(entry) || this.resolveIndex(entry);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+
+        return this.resolveIndex(dirPath);
+    }
+
+    private resolveIndex(dirPath: string): string | null {
+        for (const ext of SOURCE_EXTENSIONS) {
+            const indexPath = path.join(dirPath, `index${ext}`);
+            if (this.statKind(indexPath) === 'file') {
+                return indexPath;
+            }
+        }
+        return null;
+    }
+
+    private resolvePackage(specifier: string, packageName: string, fromDir: string): string | null {
+        const subpath = specifier.slice(packageName.length);
+
+        for (const nodeModulesDir of this.getNodeModulesDirs(fromDir)) {
+            const packageDir = path.join(nodeModulesDir, packageName);
+            if (this.statKind(packageDir) !== 'directory') {
+                continue;
+            }
+
+            const packageJson = this.readPackageJson(packageDir);
+            if (packageJson && packageJson.exports !== undefined) {
+                const target = this.resolveExports(packageJson.exports, `.${subpath}`);
+                // Packages with `exports` hide everything not listed
+                return target ? this.resolveFile(path.resolve(packageDir, target)) : null;
+            }
+
+            return subpath
+                ? this.resolveFileOrDirectory(path.join(packageDir, subpath))
+                : this.resolveDirectory(packageDir);
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolve a subpath ("." or "./feature") through a package.json `exports` field
+     */
+    private resolveExports(exportsField: any, subpath: string): string | null {
+        // "exports": "./index.js" or conditional object without subpath keys
+        if (typeof exportsField === 'string' || Array.isArray(exportsField) ||
+            (exportsField && typeof exportsField === 'object' &&
+                !Object.keys(exportsField).some(k => k.startsWith('.')))) {
+            return subpath === '.' ? this.resolveExportTarget(exportsField, '') : null;
+        }
+
+        if (!exportsField || typeof exportsField !== 'object') {
+            return null;
+        }
+
+        if (exportsField[subpath] !== undefined) {
+            return this.resolveExportTarget(exportsField[subpath], '');
+        }
+
+        // Subpath patterns: "./features/*": "./src/features/*.js"
+        let best: { key: string; captured: string } | null = null;
+        for (const key of Object.keys(exportsField)) {
+            const starIndex = key.indexOf('*');
+            if (starIndex === -1) {
+                continue;
+            }
+            const prefix = key.slice(0, starIndex);
+            const suffix = key.slice(starIndex + 1);
+            if (subpath.startsWith(prefix) && subpath.endsWith(suffix) &&
+                subpath.length >= prefix.length + suffix.length &&
+                (!best || prefix.length > best.key.indexOf('*'))) {
+                best = { key, captured: subpath.slice(prefix.length, subpath.length - suffix.length) };
+            }
+        }
+
+        return best ? this.resolveExportTarget(exportsField[best.key], best.captured) : null;
+    }
+
+    private resolveExportTarget(target: any, captured: string): string | null {
+        if (typeof target === 'string') {
+            return target.replace(/\*/g, captured);
+        }
+        if (Array.isArray(target)) {
+            for (const item of target) {
+                const resolved = this.resolveExportTarget(item, captured);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+            return null;
+        }
+        if (target && typeof target === 'object') {
+            for (const condition of EXPORT_CONDITIONS) {
+                if (target[condition] !== undefined) {
+                    const resolved = this.resolveExportTarget(target[condition], captured);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    private getNodeModulesDirs(fromDir: string): string[] {
+        const dirs: string[] = [];
+        let dir = fromDir;
+        while (true) {
+            if (path.basename(dir) !== 'node_modules') {
+                dirs.push(path.join(dir, 'node_modules'));
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir || !this.isWithinWorkspace(parent)) {
+                break;
+            }
+            dir = parent;
+        }
+        if (!dirs.includes(this.config.nodeModulesPath)) {
+            dirs.push(this.config.nodeModulesPath);
+        }
+        return dirs;
+    }
+
+    private getPackageName(specifier: string): string {
+        const parts = specifier.split('/');
+        return specifier.startsWith('@') && parts.length > 1
+            ? `${parts[0]}/${parts[1]}`
+            : parts[0];
+    }
+
+    private readPackageJson(dirPath: string): any | null {
+        if (this.packageJsonCache.has(dirPath)) {
+            return this.packageJsonCache.get(dirPath);
+        }
+
+        let packageJson: any | null = null;
+        const packageJsonPath = path.join(dirPath, 'package.json');
+        if (this.statKind(packageJsonPath) === 'file') {
+            try {
+                packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+            } catch (error) {
+                packageJson = null;
+            }
+        }
+
+        this.packageJsonCache.set(dirPath, packageJson);
+        return packageJson;
+    }
+
+    private statKind(filePath: string): 'file' | 'directory' | null {
+        if (this.statCache.has(filePath)) {
+            return this.statCache.get(filePath)!;
+        }
+
+        let kind: 'file' | 'directory' | null = null;
+        try {
+            const stats = fs.statSync(filePath);
+            kind = stats.isFile() ? 'file' : stats.isDirectory() ? 'directory' : null;
+        } catch (error) {
+            kind = null;
+        }
+
+        this.statCache.set(filePath, kind);
+        return kind;
+    }
+
+    private isRelative(specifier: string): boolean {
+        return specifier === '.' || specifier === '..' ||
+            specifier.startsWith('./') || specifier.startsWith('../');
+    }
+
+    private isWithinWorkspace(dir: string): boolean {
+        const relative = path.relative(this.workspacePath, dir);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * PythonModuleResolver - Resolves Python module paths to source files
+ *
+ * Handles dotted absolute imports (`import app.services.auth`) against a set
+ * of source roots (workspace root, `src/`, ...) and relative imports
+ * (`from ..utils import x`) against the importing file's package.
+ * Modules map to `<name>.py` / `<name>.pyi` or a package's `__init__.py`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResolvedImport } from '../types';
+import { matchesGlob } from '../utils/Glob';
+
+const DEFAULT_SOURCE_ROOTS = ['.', 'src'];
+
+export class PythonModuleResolver {
+    private workspacePath: string;
+    private sourceRoots: string[];
+    private resolutionCache: Map<string, ResolvedImport> = new Map();
+    private fileExistsCache: Map<string, boolean> = new Map();
+
+    /**
+     * @param sourceRoots Directories (relative to the workspace) that act as
+     *        import roots, where a `*` segment matches any directory name;
+     *        defaults to the workspace root and `src/`
+     */
+    constructor(workspacePath: string, sourceRoots?: string[]) {
+        this.workspacePath = path.resolve(workspacePath);
+        const roots = sourceRoots && sourceRoots.length > 0 ? sourceRoots : DEFAULT_SOURCE_ROOTS;
+        this.sourceRoots = Array.from(new Set(roots.flatMap(root => this.expandSourceRoot(root))))
+            .filter(root => fs.existsSync(root));
+    }
+
+    /**
+     * Resolve a module path as written after `import` / `from`
+     * Leading dots make the path relative to the importing file's package
+     */
+    public resolve(modulePath: string, fromFile: string): ResolvedImport {
+        if (!modulePath || typeof modulePath !== 'string') {
+            return { isExternal: true };
+        }
+
+        const cacheKey = modulePath.startsWith('.')
+            ? `${path.dirname(fromFile)}\0${modulePath}`
+            : modulePath;
+        const cached = this.resolutionCache.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const result = this.resolveUncached(modulePath, fromFile);
+        this.resolutionCache.set(cacheKey, result);
+        return result;
+    }
+
+    /**
+     * Resolve `name` as a submodule of `modulePath` (for `from pkg import mod`)
+     * Returns null when `name` is not a module, i.e. it is a plain attribute
+     */
+    public resolveSubmodule(modulePath: string, name: string, fromFile: string): string | null {
+        const qualified = modulePath.endsWith('.') ? `${modulePath}${name}` : `${modulePath}.${name}`;
+        const result = this.resolve(qualified, fromFile);
+        return result.isExternal ? null : result.resolvedPath ?? null;
+    }
+
+    public clearCache(): void {
+        this.resolutionCache.clear();
+        this.fileExistsCache.clear();
+    }
+
+    public getSourceRoots(): string[] {
+        return [...this.sourceRoots];
+    }
+
+    /**
+     * Directories a source root names; a segment with `*` expands to the matching subdirectories
+     */
+    private expandSourceRoot(root: string): string[] {
+        if (!root.includes('*')) {
+            return [path.resolve(this.workspacePath, root)];
+        }
+
+        let directories = [path.isAbsolute(root) ? path.parse(root).root : this.workspacePath];
+        for (const segment of root.split(/[\\/]/).filter(part => part.length > 0)) {
+            if (!segment.includes('*')) {
+                directories = directories.map(directory => path.resolve(directory, segment));
+                continue;
+            }
+            directories = directories.flatMap(directory => {
+                try {
+                    return fs.readdirSync(directory, { withFileTypes: true })
+                        .filter(entry => entry.isDirectory() && matchesGlob(entry.name, segment))
+                        .map(entry => path.join(directory, entry.name))
+                        .sort();
+                } catch (error) {
+                    return [];
+                }
+            });
+        }
+        return directories;
+    }
+
+    private resolveUncached(modulePath: string, fromFile: string): ResolvedImport {
+        const leadingDots = modulePath.match(/^\.*/)![0].length;
+        const parts = modulePath.slice(leadingDots).split('.').filter(p => p.length > 0);
+
+        if (leadingDots > 0) {
+            // One dot is the current package, each extra dot goes up a level
+            let baseDir = path.dirname(fromFile);
+            for (let i = 1; i < leadingDots; i++) {
+                baseDir = path.dirname(baseDir);
+            }
+            const resolved = this.resolveModuleFile(baseDir, parts);
+            return resolved ? { resolvedPath: resolved, isExternal: false } : { isExternal: true };
+        }
+
+        for (const root of this.sourceRoots) {
+            const resolved = this.resolveModuleFile(root, parts);
+            if (resolved) {
+                return { resolvedPath: resolved, isExternal: false };
+            }
+        }
+
+        return { isExternal: true, packageName: parts[0] };
+    }
+
+    private resolveModuleFile(baseDir: string, parts: string[]): string | null {
+        const modulePath = path.join(baseDir, ...parts);
+
+        if (parts.length > 0) {
+            for (const ext of ['.py', '.pyi']) {
+                if (this.fileExists(modulePath + ext)) {
+                    return modulePath + ext;
+                }
+            }
+        }
+
+        for (const initFile of ['__init__.py', '__init__.pyi']) {
+            const initPath = path.join(modulePath, initFile);
+            if (this.fileExists(initPath)) {
+                return initPath;
+            }
+        }
+
+        return null;
+    }
+
+    private fileExists(filePath: string): boolean {
+        if (this.fileExistsCache.has(filePath)) {
+            return this.fileExistsCache.get(filePath)!;
+        }
+
+        let exists = false;
+        try {
+            exists = fs.statSync(filePath).isFile();
+        } catch (error) {
+            exists = false;
+        }
+
+        this.fileExistsCache.set(filePath, exists);
+        return exists;
+    }
+}
@@ -13,20 +13,38 @@
  * This implementation is self-contained and doesn't rely on external BM25 libraries.
  */
 
-import { SearchIndex, SymbolLocation, FileMetadata } from '../types';
+import { SearchIndex, SymbolLocation, FileMetadata, SymbolModifier, SymbolVisibility } from '../types';
+import { QueryFilter } from '../search/QueryFilter';
 import * as natural from 'natural';
 
 interface BM25Document {
     id: string; // Unique document identifier
     tokens: string[]; // Tokenized content
+    termFreqs: Map<string, number>; // Token -> occurrences in this document
+    signature?: string; // For phrase filters; not indexed
+    nameTerms: string[]; // Distinct stemmed subtokens of the symbol name
     metadata: {
         symbol?: string;
         file?: string;
         type?: string;
         line?: number;
+        visibility?: SymbolVisibility;
+        modifiers?: SymbolModifier[];
+        decorators?: string[];
     };
 }
 
+export interface CooccurringTerm {
+    term: string;
+    score: number; // Normalized PMI in (0, 1]
+    count: number; // Symbols whose names contain both terms
+}
+
+export interface BM25Parameters {
+    k1: number;
+    b: number;
+}
+
 interface BM25Result {
     documentId: string;
     score: number;
@@ -37,28 +55,48 @@ interface BM25Result {
 }
 
 export class BM25LexicalRetriever {
-    private documents: BM25Document[];
     private documentIndex: Map<string, BM25Document>;
-    private invertedIndex: Map<string, Set<number>>;
-    private docLengths: number[];
-    private avgDocLength: number;
-    private idfScores: Map<string, number>;
-    private totalDocs: number;
+    private invertedIndex: Map<string, Set<string>>; // token -> document ids (size = document frequency)
+    private fileDocuments: Map<string, Set<string>>; // file -> document ids
+    private subtokenDocuments: Map<string, Set<string>>; // stemmed name subtoken -> document ids
+    private subtokenForms: Map<string, string>; // stemmed name subtoken -> a spelling seen in code
+    private totalDocLength: number;
     private stemmer: typeof natural.PorterStemmer;
 
     // BM25 parameters (tuned for code search)
-    private readonly k1 = 1.5; // Term frequency saturation (higher = more weight to term freq)
-    private readonly b = 0.75; // Length normalization (0-1, higher = more length penalty)
+    private k1 = 1.5; // Term frequency saturation (higher = more weight to term freq)
+    private b = 0.75; // Length normalization (0-1, higher = more length penalty)
 
-    constructor() {
-        this.documents = [];
+    constructor(parameters: Partial<BM25Parameters> = {}) {
         this.documentIndex = new Map();
         this.invertedIndex = new Map();
-        this.docLengths = [];
-        this.avgDocLength = 0;
-        this.idfScores = new Map();
-        this.totalDocs = 0;
+        this.fileDocuments = new Map();
+        this.subtokenDocuments = new Map();
+        this.subtokenForms = new Map();
+        this.totalDocLength = 0;
         this.stemmer = natural.PorterStemmer;
+        this.updateParameters(parameters);
+    }
+
+    private get totalDocs(): number {
+        return this.documentIndex.size;
+    }
+
+    private get avgDocLength(): number {
+        return this.totalDocs > 0 ? this.totalDocLength / this.totalDocs : 0;
+    }
+
+    /**
+     * Change k1 and b
+     * Scores are computed at query time, so the index is kept as is
+     */
+    updateParameters(parameters: Partial<BM25Parameters>): void {
+        if (parameters.k1 !== undefined) {
+            this.k1 = Math.max(0, parameters.k1);
+        }
+        if (parameters.b !== undefined) {
+            this.b = Math.min(1, Math.max(0, parameters.b));
+        }
     }
 
     /**
@@ -71,90 +109,216 @@ export class BM25LexicalRetriever {
 
         console.log(`[BM25] Indexing ${searchIndex.symbolLocations.length} symbols...`);
         
-        this.documents = [];
         this.documentIndex.clear();
+        this.invertedIndex.clear();
+        this.fileDocuments.clear();
+        this.subtokenDocuments.clear();
+        this.subtokenForms.clear();
+        this.totalDocLength = 0;
         
-        // Create documents from symbols
         for (const symbol of searchIndex.symbolLocations) {
-            const doc: BM25Document = {
-                id: `${symbol.file}:${symbol.line}:${symbol.symbol}`,
-                tokens: this.tokenize(this.createSearchableText(symbol)),
-                metadata: {
-                    symbol: symbol.symbol,
-                    file: symbol.file,
-                    type: symbol.type,
-                    line: symbol.line
-                }
-            };
-            
-            this.documents.push(doc);
-            this.documentIndex.set(doc.id, doc);
+            this.addDocument(symbol);
         }
         
-        this.totalDocs = this.documents.length;
-        
-        // Calculate document lengths
-        this.docLengths = this.documents.map(doc => doc.tokens.length);
-        this.avgDocLength = this.docLengths.reduce((a, b) => a + b, 0) / this.totalDocs;
-        
-        // Build inverted index and calculate IDF
-        this.buildInvertedIndex();
-        this.calculateIDF();
-        
         console.log(`[BM25] Indexed ${this.totalDocs} documents, avgDocLen=${this.avgDocLength.toFixed(2)}`);
         console.log(`[BM25] Sample tokens in index: ${Array.from(this.invertedIndex.keys()).slice(0, 20).join(', ')}`);
     }
 
     /**
-     * Build inverted index for fast candidate retrieval
+     * Replace the documents of one file
+     * Document frequencies and lengths are adjusted in place; IDF is derived
+     * from them at query time, so nothing else needs recomputing
      */
-    private buildInvertedIndex(): void {
-        this.invertedIndex.clear();
-        
-        for (let i = 0; i < this.documents.length; i++) {
-            const uniqueTokens = new Set(this.documents[i].tokens);
-            
-            for (const token of uniqueTokens) {
-                if (!this.invertedIndex.has(token)) {
-                    this.invertedIndex.set(token, new Set());
+    updateFile(filePath: string, symbols: SymbolLocation[]): void {
+        this.removeFile(filePath);
+        for (const symbol of symbols) {
+            this.addDocument(symbol);
+        }
+    }
+
+    /**
+     * Remove all documents of one file
+     */
+    removeFile(filePath: string): void {
+        const documentIds = this.fileDocuments.get(filePath);
+        if (!documentIds) {
+            return;
+        }
+
+        for (const documentId of Array.from(documentIds)) {
+            this.removeDocument(documentId);
+        }
+        this.fileDocuments.delete(filePath);
+    }
+
+    private addDocument(symbol: SymbolLocation): void {
+        const tokens = this.tokenize(this.createSearchableText(symbol));
+        const termFreqs = new Map<string, number>();
+        for (const token of tokens) {
+            termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+        }
+
+        const nameSubtokens = this.nameSubtokens(symbol.symbol);
+        const doc: BM25Document = {
+            id: `${symbol.file}:${symbol.line}:${symbol.symbol}`,
+            tokens,
+            termFreqs,
+            signature: symbol.signature,
+            nameTerms: Array.from(nameSubtokens.keys()),
+            metadata: {
+                symbol: symbol.symbol,
+                file: symbol.file,
+                type: symbol.type,
+                line: symbol.line,
+                ...(symbol.visibility && { visibility: symbol.visibility }),
+                ...(symbol.modifiers && { modifiers: symbol.modifiers }),
+                ...(symbol.decorators && { decorators: symbol.decorators })
+            }
+        };
+
+        // Same symbol declared twice on one line: keep the latest
+        if (this.documentIndex.has(doc.id)) {
+            this.removeDocument(doc.id);
+        }
+
+        this.documentIndex.set(doc.id, doc);
+        this.totalDocLength += tokens.length;
+
+        for (const token of termFreqs.keys()) {
+            if (!this.invertedIndex.has(token)) {
+                this.invertedIndex.set(token, new Set());
+            }
+            this.invertedIndex.get(token)!.add(doc.id);
+        }
+
+        if (!this.fileDocuments.has(symbol.file)) {
+            this.fileDocuments.set(symbol.file, new Set());
+        }
+        this.fileDocuments.get(symbol.file)!.add(doc.id);
+
+        for (const [stem, form] of nameSubtokens) {
+            if (!this.subtokenDocuments.has(stem)) {
+                this.subtokenDocuments.set(stem, new Set());
+                this.subtokenForms.set(stem, form);
+            }
+            this.subtokenDocuments.get(stem)!.add(doc.id);
+        }
+    }
+
+    private removeDocument(documentId: string): void {
+        const doc = this.documentIndex.get(documentId);
+        if (!doc) {
+            return;
+        }
+
+        this.documentIndex.delete(documentId);
+        this.totalDocLength -= doc.tokens.length;
+
+        for (const token of doc.termFreqs.keys()) {
+            const postings = this.invertedIndex.get(token);
+            postings?.delete(documentId);
+            if (postings && postings.size === 0) {
+                this.invertedIndex.delete(token);
+            }
+        }
+
+        if (doc.metadata.file) {
+            this.fileDocuments.get(doc.metadata.file)?.delete(documentId);
+        }
+
+        for (const stem of doc.nameTerms) {
+            const documentIds = this.subtokenDocuments.get(stem);
+            documentIds?.delete(documentId);
+            if (documentIds && documentIds.size === 0) {
+                this.subtokenDocuments.delete(stem);
+                this.subtokenForms.delete(stem);
+            }
+        }
+    }
+
+    /**
+     * Identifier subtokens of a symbol name: getUserById -> get, user, id
+     * Only the last segment of a dotted name counts, so a class name does
+     * not co-occur with every method term. Keyed by stem, with the
+     * lower-case spelling as value
+     */
+    private nameSubtokens(name: string | undefined): Map<string, string> {
+        const subtokens = new Map<string, string>();
+        const ownName = (name || '').split('.').pop() || '';
+        for (const part of ownName.split(/[^a-zA-Z0-9]+/)) {
+            for (const piece of part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)) {
+                const form = piece.toLowerCase();
+                if (form.length >= 3 && !/^\d+$/.test(form)) {
+                    subtokens.set(this.stemmer.stem(form), form);
                 }
-                this.invertedIndex.get(token)!.add(i);
             }
         }
+        return subtokens;
     }
 
     /**
-     * Calculate IDF (Inverse Document Frequency) scores for all terms
+     * Name subtokens that co-occur with a term across symbol names
+     * (`refreshAccessToken` relates refresh, access and token), scored by
+     * normalized pointwise mutual information over the indexed symbols
      */
-    private calculateIDF(): void {
-        this.idfScores.clear();
-        
-        // Count document frequency for each term
-        const docFreq = new Map<string, number>();
-        for (const doc of this.documents) {
-            const uniqueTokens = new Set(doc.tokens);
-            for (const token of uniqueTokens) {
-                docFreq.set(token, (docFreq.get(token) || 0) + 1);
+    getCooccurringTerms(term: string, limit: number = 3, minScore: number = 0.4, minCount: number = 2): CooccurringTerm[] {
+        const stem = this.stemmer.stem((term || '').toLowerCase());
+        const documentIds = this.subtokenDocuments.get(stem);
+        const total = this.totalDocs;
+        if (!documentIds || documentIds.size < minCount || total === 0) {
+            return [];
+        }
+
+        const counts = new Map<string, number>();
+        for (const documentId of documentIds) {
+            for (const other of this.documentIndex.get(documentId)?.nameTerms || []) {
+                if (other !== stem) {
+                    counts.set(other, (counts.get(other) || 0) + 1);
+                }
             }
         }
-        
-        // Calculate IDF: log((N - df + 0.5) / (df + 0.5) + 1)
-        for (const [term, df] of docFreq.entries()) {
-            const idf = Math.log((this.totalDocs - df + 0.5) / (df + 0.5) + 1);
-            this.idfScores.set(term, idf);
+
+        const termProbability = documentIds.size / total;
+        const related: CooccurringTerm[] = [];
+        for (const [other, count] of counts) {
+            const joint = count / total;
+            if (count < minCount || joint >= 1) {
+                continue;
+            }
+            const otherProbability = this.subtokenDocuments.get(other)!.size / total;
+            const score = Math.log(joint / (termProbability * otherProbability)) / -Math.log(joint);
+            if (score >= minScore) {
+                related.push({ term: this.subtokenForms.get(other) || other, score, count });
+            }
+        }
+
+        return related
+            .sort((a, b) => b.score - a.score || b.count - a.count)
+            .slice(0, limit);
+    }
+
+    /**
+     * IDF: log((N - df + 0.5) / (df + 0.5) + 1)
+     */
+    private idf(term: string): number {
+        const df = this.invertedIndex.get(term)?.size || 0;
+        if (df === 0) {
+            return 0;
         }
+        return Math.log((this.totalDocs - df + 0.5) / (df + 0.5) + 1);
     }
 
     /**
      * Search for symbols matching a query
+     * Documents rejected by `filter` are dropped before scoring
      */
-    search(query: string, topK: number = 10): BM25Result[] {
+    search(query: string, topK: number = 10, filter?: QueryFilter): BM25Result[] {
         if (!query || typeof query !== 'string') {
             console.warn('[BM25] Invalid query provided');
             return [];
         }
 
-        if (this.documents.length === 0) {
+        if (this.totalDocs === 0) {
             console.warn('[BM25] No documents indexed');
             return [];
         }
@@ -175,12 +339,16 @@ export class BM25LexicalRetriever {
         console.log(`[BM25] Found ${candidates.size} candidates for ${queryTokens.length} query tokens`);
         
         // Score all candidates
-        const scores: Array<{ docIdx: number; score: number }> = [];
+        const scores: Array<{ doc: BM25Document; score: number }> = [];
         
-        for (const docIdx of candidates) {
-            const score = this.calculateBM25Score(docIdx, queryTokens);
+        for (const documentId of candidates) {
+            const doc = this.documentIndex.get(documentId)!;
+            if (filter && !filter.matches({ ...doc.metadata, signature: doc.signature })) {
+                continue;
+            }
+            const score = this.calculateBM25Score(doc, queryTokens);
             if (score > 0) {
-                scores.push({ docIdx, score });
+                scores.push({ doc, score });
             }
         }
         
@@ -188,14 +356,11 @@ export class BM25LexicalRetriever {
         const results = scores
             .sort((a, b) => b.score - a.score)
             .slice(0, topK)
-            .map(({ docIdx, score }) => {
-                const doc = this.documents[docIdx];
-                return {
-                    documentId: doc.id,
-                    score,
-                    ...doc.metadata
-                };
-            });
+            .map(({ doc, score }) => ({
+                documentId: doc.id,
+                score,
+                ...doc.metadata
+            }));
         
         return results;
     }
@@ -203,14 +368,14 @@ export class BM25LexicalRetriever {
     /**
      * Get candidate documents that contain at least one query term
      */
-    private getCandidates(queryTokens: string[]): Set<number> {
-        const candidates = new Set<number>();
+    private getCandidates(queryTokens: string[]): Set<string> {
+        const candidates = new Set<string>();
         
         for (const token of queryTokens) {
-            const docIndices = this.invertedIndex.get(token);
-            if (docIndices) {
-                for (const docIdx of docIndices) {
-                    candidates.add(docIdx);
+            const documentIds = this.invertedIndex.get(token);
+            if (documentIds) {
+                for (const documentId of documentIds) {
+                    candidates.add(documentId);
                 }
             }
         }
@@ -221,22 +386,15 @@ export class BM25LexicalRetriever {
     /**
      * Calculate BM25 score for a document given query tokens
      */
-    private calculateBM25Score(docIdx: number, queryTokens: string[]): number {
-        const doc = this.documents[docIdx];
-        const docLength = this.docLengths[docIdx];
-        
-        // Calculate term frequencies
-        const termFreqs = new Map<string, number>();
-        for (const token of doc.tokens) {
-            termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
-        }
+    private calculateBM25Score(doc: BM25Document, queryTokens: string[]): number {
+        const docLength = doc.tokens.length;
         
         let score = 0;
         for (const qTerm of queryTokens) {
-            const tf = termFreqs.get(qTerm) || 0;
+            const tf = doc.termFreqs.get(qTerm) || 0;
             if (tf === 0) continue;
             
-            const idf = this.idfScores.get(qTerm) || 0;
+            const idf = this.idf(qTerm);
             
             // BM25 formula: IDF * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (docLength / avgDocLength)))
             const numerator = tf * (this.k1 + 1);
@@ -251,15 +409,17 @@ export class BM25LexicalRetriever {
     /**
      * Create searchable text from a symbol (matches original implementation)
      */
-    private createSearchableText(symbol: any): string {
+    private createSearchableText(symbol: SymbolLocation): string {
         const parts: string[] = [];
         
         if (symbol.symbol) parts.push(symbol.symbol);
         if (symbol.file) parts.push(symbol.file);
         if (symbol.type) parts.push(symbol.type);
-        if (symbol.docComment) parts.push(symbol.docComment);
+        if (symbol.decorators) parts.push(...symbol.decorators); // `@route` handlers match "route"
+        if (symbol.docstring) parts.push(symbol.docstring);
         
-        return parts.join(' ').toLowerCase();
+        // tokenize() lowercases after splitting camelCase
+        return parts.join(' ');
     }
 
     /**
@@ -305,7 +465,7 @@ export class BM25LexicalRetriever {
         return {
             totalDocs: this.totalDocs,
             avgDocLength: this.avgDocLength,
-            uniqueTerms: this.idfScores.size
+            uniqueTerms: this.invertedIndex.size
         };
     }
 
@@ -319,24 +479,15 @@ export class BM25LexicalRetriever {
         }
         
         const queryTokens = this.tokenize(query);
-        const docIdx = this.documents.findIndex(d => d.id === documentId);
-        if (docIdx === -1) {
-            return `Document index not found`;
-        }
-        
-        const docLength = this.docLengths[docIdx];
-        const termFreqs = new Map<string, number>();
-        for (const token of doc.tokens) {
-            termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
-        }
+        const docLength = doc.tokens.length;
         
         let explanation = `BM25 Score Breakdown for "${documentId}":\n`;
         explanation += `Document length: ${docLength} (avg: ${this.avgDocLength.toFixed(2)})\n\n`;
         
         let totalScore = 0;
         for (const qTerm of queryTokens) {
-            const tf = termFreqs.get(qTerm) || 0;
-            const idf = this.idfScores.get(qTerm) || 0;
+            const tf = doc.termFreqs.get(qTerm) || 0;
+            const idf = this.idf(qTerm);
             
             if (tf > 0) {
                 const numerator = tf * (this.k1 + 1);
@@ -366,11 +517,9 @@ export class BM25LexicalRetriever {
         
         // Find all documents matching this symbol name
         let bestScore = 0;
-        let matchedDocs = 0;
-        for (let i = 0; i < this.documents.length; i++) {
-            if (this.documents[i].metadata.symbol === symbolName) {
-                matchedDocs++;
-                const score = this.calculateBM25Score(i, queryTokens);
+        for (const doc of this.documentIndex.values()) {
+            if (doc.metadata.symbol === symbolName) {
+                const score = this.calculateBM25Score(doc, queryTokens);
                 bestScore = Math.max(bestScore, score);
             }
         }
@@ -385,16 +534,19 @@ export class BM25LexicalRetriever {
     public getMaxScore(): number {
         // Theoretical max BM25 score for this corpus
         // Used for normalizing scores to [0,1] range
+        // The rarest term has the highest IDF
         let maxIdf = 0;
-        for (const idf of this.idfScores.values()) {
-            if (idf > maxIdf) {
-                maxIdf = idf;
-            }
+        for (const term of this.invertedIndex.keys()) {
+            maxIdf = Math.max(maxIdf, this.idf(term));
         }
         
         // Max occurs when all query terms appear with max TF in shortest doc
-        const minDocLength = Math.min(...this.docLengths);
-        const maxTF = Math.max(...this.docLengths); // Approximate
+        let minDocLength = Infinity;
+        let maxTF = 0; // Approximate
+        for (const doc of this.documentIndex.values()) {
+            minDocLength = Math.min(minDocLength, doc.tokens.length);
+            maxTF = Math.max(maxTF, doc.tokens.length);
+        }
         
         // BM25 formula upper bound
         const numerator = maxTF * (this.k1 + 1);
@@ -413,13 +565,11 @@ export class BM25LexicalRetriever {
 
         const queryTokens = this.tokenize(query);
         
-        // Find all documents in this file
+        // Score the documents of this file
         let bestScore = 0;
-        for (let i = 0; i < this.documents.length; i++) {
-            if (this.documents[i].metadata.file === filePath) {
-                const score = this.calculateBM25Score(i, queryTokens);
-                bestScore = Math.max(bestScore, score);
-            }
+        for (const documentId of this.fileDocuments.get(filePath) || []) {
+            const score = this.calculateBM25Score(this.documentIndex.get(documentId)!, queryTokens);
+            bestScore = Math.max(bestScore, score);
         }
         
         return bestScore;
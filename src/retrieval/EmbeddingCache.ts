@@ -0,0 +1,165 @@
+/**
+ * EmbeddingCache - On-disk embedding store keyed by content hash
+ *
+ * One cache per embedding model under `.logicgraph/embeddings/`:
+ * - <model>.json: format version, model name, dimension and the row hashes
+ * - <model>.bin:  Float32 rows in the same order
+ *
+ * Keys are SHA-256 hashes of the exact text that was embedded, so a symbol
+ * is only re-embedded when its text representation changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface EmbeddingCacheManifest {
+    version: number;
+    modelName: string;
+    dimension: number;
+    hashes: string[];
+}
+
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * File name stem for a model's cache files
+ */
+export function cacheFileStem(modelName: string): string {
+    return modelName.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
+
+export class EmbeddingCache {
+    private cacheDir: string;
+    private modelName: string;
+    private dimension: number;
+    private entries: Map<string, Float32Array>;
+    private dirty: boolean = false;
+    private hits: number = 0;
+    private misses: number = 0;
+
+    constructor(cacheDir: string, modelName: string, dimension: number) {
+        this.cacheDir = cacheDir;
+        this.modelName = modelName;
+        this.dimension = dimension;
+        this.entries = new Map();
+    }
+
+    /**
+     * Load the cache from disk
+     * A missing, corrupt or mismatched cache starts empty rather than failing
+     */
+    public async load(): Promise<void> {
+        this.entries.clear();
+        this.dirty = false;
+
+        const { manifestPath, dataPath } = this.getPaths();
+        if (!fs.existsSync(manifestPath) || !fs.existsSync(dataPath)) {
+            return;
+        }
+
+        try {
+            const manifest: EmbeddingCacheManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+            if (manifest.version !== CACHE_FORMAT_VERSION ||
+                manifest.modelName !== this.modelName ||
+                manifest.dimension !== this.dimension) {
+                console.log('EmbeddingCache: Cache was built for a different model or format, ignoring it');
+                return;
+            }
+
+            const data = await fs.promises.readFile(dataPath);
+            const expectedBytes = manifest.hashes.length * this.dimension * Float32Array.BYTES_PER_ELEMENT;
+            if (data.byteLength !== expectedBytes) {
+                console.warn('EmbeddingCache: Cache data does not match manifest, ignoring it');
+                return;
+            }
+
+            // Copy into an aligned buffer; Node may hand back a pooled, unaligned slice
+            const vectors = new Float32Array(data.byteLength / Float32Array.BYTES_PER_ELEMENT);
+            new Uint8Array(vectors.buffer).set(data);
+
+            manifest.hashes.forEach((hash, row) => {
+                this.entries.set(hash, vectors.subarray(row * this.dimension, (row + 1) * this.dimension));
+            });
+
+            console.log(`EmbeddingCache: Loaded ${this.entries.size} cached embeddings for ${this.modelName}`);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`EmbeddingCache: Failed to load cache: ${errorMsg}`);
+            this.entries.clear();
+        }
+    }
+
+    public get(hash: string): number[] | undefined {
+        const vector = this.entries.get(hash);
+        if (vector) {
+            this.hits++;
+            return Array.from(vector);
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    public set(hash: string, embedding: number[]): void {
+        if (embedding.length !== this.dimension) {
+            return;
+        }
+        this.entries.set(hash, Float32Array.from(embedding));
+        this.dirty = true;
+    }
+
+    /**
+     * Drop entries whose text is no longer in the index
+     */
+    public prune(liveHashes: Set<string>): void {
+        for (const hash of this.entries.keys()) {
+            if (!liveHashes.has(hash)) {
+                this.entries.delete(hash);
+                this.dirty = true;
+            }
+        }
+    }
+
+    /**
+     * Write the cache if anything changed since it was loaded
+     * Files are written to temporaries and renamed so readers never see a partial cache
+     */
+    public async save(): Promise<void> {
+        if (!this.dirty) {
+            return;
+        }
+
+        const { manifestPath, dataPath } = this.getPaths();
+        await fs.promises.mkdir(this.cacheDir, { recursive: true });
+
+        const hashes = Array.from(this.entries.keys());
+        const vectors = new Float32Array(hashes.length * this.dimension);
+        hashes.forEach((hash, row) => vectors.set(this.entries.get(hash)!, row * this.dimension));
+
+        const manifest: EmbeddingCacheManifest = {
+            version: CACHE_FORMAT_VERSION,
+            modelName: this.modelName,
+            dimension: this.dimension,
+            hashes
+        };
+
+        await fs.promises.writeFile(`${dataPath}.tmp`, Buffer.from(vectors.buffer));
+        await fs.promises.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest), 'utf8');
+        await fs.promises.rename(`${dataPath}.tmp`, dataPath);
+        await fs.promises.rename(`${manifestPath}.tmp`, manifestPath);
+
+        this.dirty = false;
+        console.log(`EmbeddingCache: Saved ${hashes.length} embeddings to ${this.cacheDir}`);
+    }
+
+    public getStats(): { entries: number; hits: number; misses: number } {
+        return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+    }
+
+    private getPaths(): { manifestPath: string; dataPath: string } {
+        const slug = cacheFileStem(this.modelName);
+        return {
+            manifestPath: path.join(this.cacheDir, `${slug}.json`),
+            dataPath: path.join(this.cacheDir, `${slug}.bin`)
+        };
+    }
+}
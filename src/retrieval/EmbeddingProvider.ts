@@ -0,0 +1,137 @@
+/**
+ * EmbeddingProvider - Pluggable source of text embeddings
+ *
+ * SemanticRetriever only needs vectors; where they come from is up to the
+ * provider: a transformers.js model from the Hugging Face hub, the same
+ * from a local model directory (air-gapped machines), or an
+ * OpenAI-compatible HTTP embeddings endpoint.
+ *
+ * Providers report their own dimension, normalization and maximum input
+ * length. Their `id` changes whenever the vectors they produce would, and
+ * is used as the key of the on-disk embedding cache, so switching provider
+ * or model never reuses stale vectors.
+ */
+
+import { TransformersEmbeddingProvider } from './TransformersEmbeddingProvider';
+import { HttpEmbeddingProvider } from './HttpEmbeddingProvider';
+
+export interface EmbeddingProvider {
+    /**
+     * Identifies the provider, model and output settings
+     */
+    readonly id: string;
+    /**
+     * Vector length; known after initialize()
+     */
+    readonly dimension: number;
+    /**
+     * Whether returned vectors are L2-normalized
+     */
+    readonly normalized: boolean;
+    /**
+     * Longest input in tokens; longer texts are truncated
+     */
+    readonly maxSequenceLength: number;
+
+    initialize(): Promise<void>;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderKind = 'transformers' | 'local' | 'openai';
+
+export interface EmbeddingProviderConfig {
+    provider: EmbeddingProviderKind;
+    /**
+     * Model name: hub id for 'transformers', directory name for 'local',
+     * model parameter for 'openai'
+     */
+    model?: string;
+    /**
+     * 'local': directory containing the model directory
+     */
+    modelPath?: string;
+    /**
+     * 'openai': base URL of the API, e.g. http://localhost:8080/v1
+     */
+    url?: string;
+    apiKey?: string;
+    /**
+     * Override what the model reports
+     */
+    dimension?: number;
+    maxSequenceLength?: number;
+    normalize?: boolean;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2'; // 384-dim embeddings, ~80MB
+
+const PROVIDER_KINDS: EmbeddingProviderKind[] = ['transformers', 'local', 'openai'];
+
+/**
+ * Create the provider described by a configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+    switch (config.provider) {
+        case 'openai':
+            return new HttpEmbeddingProvider({
+                url: config.url || '',
+                model: config.model || 'text-embedding-3-small',
+                apiKey: config.apiKey,
+                dimension: config.dimension,
+                maxSequenceLength: config.maxSequenceLength,
+                normalize: config.normalize
+            });
+        case 'local':
+        case 'transformers':
+            return new TransformersEmbeddingProvider({
+                model: config.model || DEFAULT_EMBEDDING_MODEL,
+                localModelPath: config.provider === 'local' ? config.modelPath : undefined,
+                maxSequenceLength: config.maxSequenceLength,
+                normalize: config.normalize
+            });
+    }
+}
+
+/**
+ * Read the provider configuration from LOGICGRAPH_EMBEDDING_* variables
+ * Unset variables fall back to the default transformers.js model
+ */
+export function embeddingConfigFromEnvironment(env: NodeJS.ProcessEnv): EmbeddingProviderConfig {
+    const kind = (env.LOGICGRAPH_EMBEDDING_PROVIDER || 'transformers').trim().toLowerCase();
+    const provider = PROVIDER_KINDS.find(k => k === kind);
+    if (!provider) {
+        console.warn(`EmbeddingProvider: Unknown provider "${kind}", using transformers`);
+    }
+
+    const toNumber = (value: string | undefined): number | undefined => {
+        const parsed = value ? parseInt(value, 10) : NaN;
+        return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+    };
+
+    return {
+        provider: provider || 'transformers',
+        model: env.LOGICGRAPH_EMBEDDING_MODEL || undefined,
+        modelPath: env.LOGICGRAPH_EMBEDDING_MODEL_PATH || undefined,
+        url: env.LOGICGRAPH_EMBEDDING_URL || undefined,
+        apiKey: env.LOGICGRAPH_EMBEDDING_API_KEY || env.OPENAI_API_KEY || undefined,
+        dimension: toNumber(env.LOGICGRAPH_EMBEDDING_DIMENSION),
+        maxSequenceLength: toNumber(env.LOGICGRAPH_EMBEDDING_MAX_TOKENS)
+    };
+}
+
+/**
+ * Scale a vector to unit length in place
+ */
+export function normalizeVector(vector: number[]): number[] {
+    let norm = 0;
+    for (const value of vector) {
+        norm += value * value;
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) {
+            vector[i] /= norm;
+        }
+    }
+    return vector;
+}
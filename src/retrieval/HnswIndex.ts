@@ -0,0 +1,539 @@
+/**
+ * HnswIndex - Approximate nearest neighbour search over embeddings
+ *
+ * Pure TypeScript Hierarchical Navigable Small World graph (Malkov &
+ * Yashunin, 2016). Vectors are normalized on insert, so similarity is the
+ * dot product and matches the cosine scores of exact search.
+ *
+ * Tuning:
+ * - M: links per node; higher improves recall and memory use
+ * - efConstruction: candidate list size while inserting; higher builds a
+ *   better graph, more slowly
+ * - efSearch: candidate list size while querying; the main recall/latency knob
+ *
+ * Removal marks nodes as deleted and keeps them for navigation; the graph
+ * is rebuilt from live nodes once too many are deleted.
+ *
+ * Only the graph is persisted (ids and links). Vectors are supplied again
+ * on load, normally from the embedding cache.
+ */
+
+import * as fs from 'fs';
+
+export interface HnswParameters {
+    M: number;
+    efConstruction: number;
+    efSearch: number;
+}
+
+export interface HnswSearchResult {
+    id: string;
+    score: number; // Cosine similarity [-1, 1]
+}
+
+interface HnswManifest {
+    version: number;
+    dimension: number;
+    parameters: HnswParameters;
+    entryPoint: number;
+    maxLevel: number;
+    ids: string[];
+    levels: number[];
+    deleted: number[];
+}
+
+export const DEFAULT_HNSW_PARAMETERS: HnswParameters = {
+    M: 16,
+    efConstruction: 100,
+    efSearch: 64
+};
+
+const INDEX_FORMAT_VERSION = 1;
+const MAX_DELETED_RATIO = 0.25;
+
+/**
+ * Binary heap ordered by `score`; `max` selects a max-heap
+ */
+class ScoreHeap {
+    private items: Array<{ node: number; score: number }> = [];
+
+    constructor(private max: boolean) {}
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    peek(): { node: number; score: number } | undefined {
+        return this.items[0];
+    }
+
+    push(node: number, score: number): void {
+        this.items.push({ node, score });
+        let i = this.items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(this.items[i], this.items[parent])) {
+                break;
+            }
+            [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): { node: number; score: number } | undefined {
+        const top = this.items[0];
+        const last = this.items.pop();
+        if (this.items.length > 0 && last) {
+            this.items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let next = i;
+                if (left < this.items.length && this.before(this.items[left], this.items[next])) {
+                    next = left;
+                }
+                if (right < this.items.length && this.before(this.items[right], this.items[next])) {
+                    next = right;
+                }
+                if (next === i) {
+                    break;
+                }
+                [this.items[i], this.items[next]] = [this.items[next], this.items[i]];
+                i = next;
+            }
+        }
+        return top;
+    }
+
+    toArray(): Array<{ node: number; score: number }> {
+        return [...this.items];
+    }
+
+    private before(a: { score: number }, b: { score: number }): boolean {
+        return this.max ? a.score > b.score : a.score < b.score;
+    }
+}
+
+export class HnswIndex {
+    private dimension: number;
+    private parameters: HnswParameters;
+    private levelMultiplier: number;
+    private randomState: number;
+
+    private ids: string[] = [];
+    private vectors: Float32Array[] = [];
+    private levels: number[] = [];
+    private links: number[][][] = []; // node -> level -> neighbour nodes
+    private deleted: boolean[] = [];
+    private idToNode: Map<string, number> = new Map();
+    private deletedCount: number = 0;
+    private entryPoint: number = -1;
+    private maxLevel: number = -1;
+
+    constructor(dimension: number, parameters: Partial<HnswParameters> = {}, seed: number = 42) {
+        this.dimension = dimension;
+        this.parameters = { ...DEFAULT_HNSW_PARAMETERS, ...parameters };
+        this.levelMultiplier = 1 / Math.log(Math.max(this.parameters.M, 2));
+        this.randomState = seed;
+    }
+
+    /**
+     * Number of live (not deleted) vectors
+     */
+    public get size(): number {
+        return this.idToNode.size;
+    }
+
+    public has(id: string): boolean {
+        return this.idToNode.has(id);
+    }
+
+    public setEfSearch(efSearch: number): void {
+        this.parameters.efSearch = Math.max(1, Math.floor(efSearch));
+    }
+
+    /**
+     * Insert a vector; an existing id is replaced
+     */
+    public add(id: string, vector: ArrayLike<number>): void {
+        if (vector.length !== this.dimension) {
+            throw new Error(`HnswIndex: Expected ${this.dimension} dimensions, got ${vector.length}`);
+        }
+
+        if (this.idToNode.has(id)) {
+            this.remove(id);
+        }
+
+        const node = this.ids.length;
+        const level = this.randomLevel();
+        this.ids.push(id);
+        this.vectors.push(this.normalize(vector));
+        this.levels.push(level);
+        this.links.push(Array.from({ length: level + 1 }, () => []));
+        this.deleted.push(false);
+        this.idToNode.set(id, node);
+
+        this.connect(node);
+    }
+
+    /**
+     * Mark a vector as deleted
+     */
+    public remove(id: string): void {
+        const node = this.idToNode.get(id);
+        if (node === undefined) {
+            return;
+        }
+
+        this.idToNode.delete(id);
+        this.deleted[node] = true;
+        this.deletedCount++;
+
+        if (this.deletedCount > this.ids.length * MAX_DELETED_RATIO) {
+            this.rebuild();
+        }
+    }
+
+    /**
+     * k nearest live vectors to `query`, best first
+     */
+    public search(query: ArrayLike<number>, k: number, efSearch?: number): HnswSearchResult[] {
+        if (this.entryPoint < 0 || this.size === 0 || k <= 0) {
+            return [];
+        }
+
+        const target = this.normalize(query);
+        let current = this.entryPoint;
+        let currentScore = this.similarity(target, this.vectors[current]);
+
+        // Greedy descent through the upper layers
+        for (let level = this.maxLevel; level > 0; level--) {
+            let improved = true;
+            while (improved) {
+                improved = false;
+                for (const neighbour of this.links[current][level] || []) {
+                    const score = this.similarity(target, this.vectors[neighbour]);
+                    if (score > currentScore) {
+                        current = neighbour;
+                        currentScore = score;
+                        improved = true;
+                    }
+                }
+            }
+        }
+
+        // Deleted nodes still route the search, so widen the beam to make up for them
+        const ef = Math.max(efSearch ?? this.parameters.efSearch, k) + Math.min(this.deletedCount, k);
+        return this.searchLayer(target, [current], ef, 0)
+            .filter(candidate => !this.deleted[candidate.node])
+            .slice(0, k)
+            .map(candidate => ({ id: this.ids[candidate.node], score: candidate.score }));
+    }
+
+    /**
+     * Write the graph (not the vectors) to `<basePath>.json` and `<basePath>.bin`
+     */
+    public async save(basePath: string): Promise<void> {
+        const manifest: HnswManifest = {
+            version: INDEX_FORMAT_VERSION,
+            dimension: this.dimension,
+            parameters: this.parameters,
+            entryPoint: this.entryPoint,
+            maxLevel: this.maxLevel,
+            ids: this.ids,
+            levels: this.levels,
+            deleted: this.deleted.flatMap((isDeleted, node) => (isDeleted ? [node] : []))
+        };
+
+        // Per node and level: neighbour count, then neighbours
+        const linkData: number[] = [];
+        for (const nodeLinks of this.links) {
+            for (const levelLinks of nodeLinks) {
+                linkData.push(levelLinks.length, ...levelLinks);
+            }
+        }
+
+        const dataPath = `${basePath}.bin`;
+        const manifestPath = `${basePath}.json`;
+        await fs.promises.writeFile(`${dataPath}.tmp`, Buffer.from(Int32Array.from(linkData).buffer));
+        await fs.promises.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest), 'utf8');
+        await fs.promises.rename(`${dataPath}.tmp`, dataPath);
+        await fs.promises.rename(`${manifestPath}.tmp`, manifestPath);
+    }
+
+    /**
+     * Load a graph written by `save`
+     * Returns null if the files are missing or were built with other settings.
+     * Ids without a vector are treated as deleted.
+     */
+    public static async load(
+        basePath: string,
+        dimension: number,
+        parameters: Partial<HnswParameters>,
+        getVector: (id: string) => ArrayLike<number> | undefined
+    ): Promise<HnswIndex | null> {
+        const manifestPath = `${basePath}.json`;
+        const dataPath = `${basePath}.bin`;
+        if (!fs.existsSync(manifestPath) || !fs.existsSync(dataPath)) {
+            return null;
+        }
+
+        try {
+            const manifest: HnswManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+            const expected = { ...DEFAULT_HNSW_PARAMETERS, ...parameters };
+            if (manifest.version !== INDEX_FORMAT_VERSION ||
+                manifest.dimension !== dimension ||
+                manifest.parameters.M !== expected.M ||
+                manifest.parameters.efConstruction !== expected.efConstruction) {
+                return null;
+            }
+
+            const data = await fs.promises.readFile(dataPath);
+            const linkData = new Int32Array(data.byteLength / Int32Array.BYTES_PER_ELEMENT);
+            new Uint8Array(linkData.buffer).set(data);
+
+            const index = new HnswIndex(dimension, expected);
+            const deleted = new Set(manifest.deleted);
+            let offset = 0;
+
+            for (let node = 0; node < manifest.ids.length; node++) {
+                const id = manifest.ids[node];
+                const vector = deleted.has(node) ? undefined : getVector(id);
+                const isDeleted = !vector || vector.length !== dimension || index.idToNode.has(id);
+
+                const nodeLinks: number[][] = [];
+                for (let level = 0; level <= manifest.levels[node]; level++) {
+                    const count = linkData[offset++];
+                    nodeLinks.push(Array.from(linkData.subarray(offset, offset + count)));
+                    offset += count;
+                }
+
+                index.ids.push(id);
+                // Deleted nodes keep a placeholder so they can still be traversed
+                index.vectors.push(isDeleted ? new Float32Array(dimension) : index.normalize(vector!));
+                index.levels.push(manifest.levels[node]);
+                index.links.push(nodeLinks);
+                index.deleted.push(isDeleted);
+                if (isDeleted) {
+                    index.deletedCount++;
+                } else {
+                    index.idToNode.set(id, node);
+                }
+            }
+
+            if (offset !== linkData.length) {
+                return null;
+            }
+
+            index.entryPoint = manifest.entryPoint;
+            index.maxLevel = manifest.maxLevel;
+
+            if (index.deletedCount > index.ids.length * MAX_DELETED_RATIO) {
+                index.rebuild();
+            }
+            return index;
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`HnswIndex: Failed to load index: ${errorMsg}`);
+            return null;
+        }
+    }
+
+    /**
+     * Link a freshly appended node into the graph
+     */
+    private connect(node: number): void {
+        const level = this.levels[node];
+
+        if (this.entryPoint < 0) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+            return;
+        }
+
+        const vector = this.vectors[node];
+        let current = this.entryPoint;
+        let currentScore = this.similarity(vector, this.vectors[current]);
+
+        for (let l = this.maxLevel; l > level; l--) {
+            let improved = true;
+            while (improved) {
+                improved = false;
+                for (const neighbour of this.links[current][l] || []) {
+                    const score = this.similarity(vector, this.vectors[neighbour]);
+                    if (score > currentScore) {
+                        current = neighbour;
+                        currentScore = score;
+                        improved = true;
+                    }
+                }
+            }
+        }
+
+        let entryPoints = [current];
+        for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+            const candidates = this.searchLayer(vector, entryPoints, this.parameters.efConstruction, l);
+            const maxLinks = l === 0 ? this.parameters.M * 2 : this.parameters.M;
+            const neighbours = this.selectNeighbours(candidates, this.parameters.M);
+
+            this.links[node][l] = neighbours.map(candidate => candidate.node);
+            for (const { node: neighbour } of neighbours) {
+                const neighbourLinks = this.links[neighbour][l];
+                neighbourLinks.push(node);
+                if (neighbourLinks.length > maxLinks) {
+                    const scored = neighbourLinks.map(other => ({
+                        node: other,
+                        score: this.similarity(this.vectors[neighbour], this.vectors[other])
+                    }));
+                    scored.sort((a, b) => b.score - a.score);
+                    this.links[neighbour][l] = this.selectNeighbours(scored, maxLinks).map(c => c.node);
+                }
+            }
+
+            entryPoints = candidates.map(candidate => candidate.node);
+        }
+
+        if (level > this.maxLevel) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+        }
+    }
+
+    /**
+     * Beam search within one layer; returns candidates best first
+     */
+    private searchLayer(
+        target: Float32Array,
+        entryPoints: number[],
+        ef: number,
+        level: number
+    ): Array<{ node: number; score: number }> {
+        const visited = new Set<number>(entryPoints);
+        const candidates = new ScoreHeap(true); // Best candidate first
+        const results = new ScoreHeap(false); // Worst kept result first
+
+        for (const node of entryPoints) {
+            const score = this.similarity(target, this.vectors[node]);
+            candidates.push(node, score);
+            results.push(node, score);
+        }
+
+        while (candidates.size > 0) {
+            const candidate = candidates.pop()!;
+            if (results.size >= ef && candidate.score < results.peek()!.score) {
+                break;
+            }
+
+            for (const neighbour of this.links[candidate.node][level] || []) {
+                if (visited.has(neighbour)) {
+                    continue;
+                }
+                visited.add(neighbour);
+
+                const score = this.similarity(target, this.vectors[neighbour]);
+                if (results.size < ef || score > results.peek()!.score) {
+                    candidates.push(neighbour, score);
+                    results.push(neighbour, score);
+                    if (results.size > ef) {
+                        results.pop();
+                    }
+                }
+            }
+        }
+
+        return results.toArray().sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Neighbour selection heuristic: prefer candidates that are closer to the
+     * new node than to any neighbour already chosen, which keeps links spread
+     * across clusters. Remaining slots are filled with the closest leftovers.
+     * `candidates` must be sorted best first.
+     */
+    private selectNeighbours(
+        candidates: Array<{ node: number; score: number }>,
+        count: number
+    ): Array<{ node: number; score: number }> {
+        const selected: Array<{ node: number; score: number }> = [];
+        const skipped: Array<{ node: number; score: number }> = [];
+
+        for (const candidate of candidates) {
+            if (selected.length >= count) {
+                break;
+            }
+            const isDiverse = selected.every(chosen =>
+                this.similarity(this.vectors[candidate.node], this.vectors[chosen.node]) < candidate.score
+            );
+            (isDiverse ? selected : skipped).push(candidate);
+        }
+
+        for (const candidate of skipped) {
+            if (selected.length >= count) {
+                break;
+            }
+            selected.push(candidate);
+        }
+
+        return selected;
+    }
+
+    /**
+     * Rebuild the graph from live nodes, dropping deleted ones
+     */
+    private rebuild(): void {
+        const live = Array.from(this.idToNode.entries()).map(([id, node]) => ({ id, vector: this.vectors[node] }));
+
+        this.ids = [];
+        this.vectors = [];
+        this.levels = [];
+        this.links = [];
+        this.deleted = [];
+        this.idToNode.clear();
+        this.deletedCount = 0;
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+
+        for (const { id, vector } of live) {
+            this.add(id, vector);
+        }
+    }
+
+    private randomLevel(): number {
+        return Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    }
+
+    /**
+     * Seeded PRNG (mulberry32) so the same inserts build the same graph
+     */
+    private random(): number {
+        this.randomState = (this.randomState + 0x6D2B79F5) | 0;
+        let t = this.randomState;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    private normalize(vector: ArrayLike<number>): Float32Array {
+        const normalized = Float32Array.from(vector);
+        let norm = 0;
+        for (let i = 0; i < normalized.length; i++) {
+            norm += normalized[i] * normalized[i];
+        }
+        norm = Math.sqrt(norm);
+        if (norm > 0) {
+            for (let i = 0; i < normalized.length; i++) {
+                normalized[i] /= norm;
+            }
+        }
+        return normalized;
+    }
+
+    private similarity(a: Float32Array, b: Float32Array): number {
+        let dot = 0;
+        for (let i = 0; i < a.length; i++) {
+            dot += a[i] * b[i];
+        }
+        return dot;
+    }
+}
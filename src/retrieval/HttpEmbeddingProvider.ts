@@ -0,0 +1,181 @@
+/**
+ * HttpEmbeddingProvider - Embeddings from an OpenAI-compatible endpoint
+ *
+ * POSTs `{ model, input: string[] }` to `<url>/embeddings` and reads
+ * `data[].embedding`, which is what OpenAI, Azure OpenAI, Ollama,
+ * llama.cpp, vLLM and text-embeddings-inference all accept. There is no
+ * tokenizer on this side, so inputs are cut to `maxSequenceLength` tokens
+ * using the usual four characters per token estimate.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { EmbeddingProvider, normalizeVector } from './EmbeddingProvider';
+
+export interface HttpEmbeddingProviderOptions {
+    url: string;
+    model: string;
+    apiKey?: string;
+    /**
+     * Requested output size, for models that support shortening
+     * (sent as `dimensions`); otherwise measured on initialize()
+     */
+    dimension?: number;
+    maxSequenceLength?: number;
+    normalize?: boolean;
+    timeoutMs?: number;
+}
+
+interface EmbeddingsResponse {
+    data?: Array<{ embedding?: number[]; index?: number }>;
+}
+
+const DEFAULT_MAX_SEQUENCE_LENGTH = 512;
+const CHARS_PER_TOKEN = 4;
+
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+    public readonly normalized: boolean;
+    public readonly maxSequenceLength: number;
+    private endpoint: URL | null;
+    private model: string;
+    private apiKey: string | undefined;
+    private requestedDimension: number | undefined;
+    private timeoutMs: number;
+    private _dimension: number = 0;
+
+    // Inputs per request
+    private readonly batchSize = 64;
+
+    constructor(options: HttpEmbeddingProviderOptions) {
+        this.model = options.model;
+        this.apiKey = options.apiKey;
+        this.requestedDimension = options.dimension;
+        this.maxSequenceLength = options.maxSequenceLength ?? DEFAULT_MAX_SEQUENCE_LENGTH;
+        this.normalized = options.normalize ?? true;
+        this.timeoutMs = options.timeoutMs ?? 60000;
+        this.endpoint = this.parseEndpoint(options.url);
+
+        this.id = [
+            `openai:${this.endpoint ? this.endpoint.origin + this.endpoint.pathname : options.url}#${this.model}`,
+            this.normalized ? 'norm' : 'raw',
+            ...(this.requestedDimension ? [`d${this.requestedDimension}`] : []),
+            `max${this.maxSequenceLength}`
+        ].join('|');
+    }
+
+    public get dimension(): number {
+        return this._dimension;
+    }
+
+    public async initialize(): Promise<void> {
+        if (this._dimension > 0) {
+            return;
+        }
+        if (!this.endpoint) {
+            throw new Error('Embedding endpoint URL is missing or invalid');
+        }
+
+        console.log(`HttpEmbeddingProvider: Connecting to ${this.endpoint.origin} (${this.model})...`);
+        const [probe] = await this.request(['dimension probe']);
+        if (this.requestedDimension && probe.length !== this.requestedDimension) {
+            throw new Error(`Endpoint returned ${probe.length}-dimensional embeddings, expected ${this.requestedDimension}`);
+        }
+        this._dimension = probe.length;
+        console.log(`HttpEmbeddingProvider: ${this.model} ready (${this._dimension} dimensions)`);
+    }
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        const embeddings: number[][] = [];
+        for (let i = 0; i < texts.length; i += this.batchSize) {
+            const batch = texts.slice(i, i + this.batchSize);
+            const vectors = await this.request(batch);
+            if (this._dimension > 0 && vectors.some(v => v.length !== this._dimension)) {
+                throw new Error('Endpoint returned embeddings of inconsistent dimension');
+            }
+            embeddings.push(...vectors);
+        }
+        return embeddings;
+    }
+
+    private async request(texts: string[]): Promise<number[][]> {
+        const maxChars = this.maxSequenceLength * CHARS_PER_TOKEN;
+        const body: Record<string, unknown> = {
+            model: this.model,
+            // Empty strings are rejected by some servers
+            input: texts.map(text => text.slice(0, maxChars) || ' ')
+        };
+        if (this.requestedDimension) {
+            body.dimensions = this.requestedDimension;
+        }
+
+        const response = await this.post(JSON.stringify(body)) as EmbeddingsResponse;
+        if (!Array.isArray(response.data) || response.data.length !== texts.length) {
+            throw new Error(`Endpoint returned ${response.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+        }
+
+        // `index` gives the input order; servers are not required to preserve it
+        const vectors: number[][] = new Array(texts.length);
+        response.data.forEach((item, position) => {
+            const index = typeof item.index === 'number' ? item.index : position;
+            if (!Array.isArray(item.embedding) || index < 0 || index >= texts.length) {
+                throw new Error('Malformed embeddings response');
+            }
+            vectors[index] = this.normalized ? normalizeVector(item.embedding) : item.embedding;
+        });
+        return vectors;
+    }
+
+    private post(payload: string): Promise<unknown> {
+        const endpoint = this.endpoint!;
+        const client = endpoint.protocol === 'https:' ? https : http;
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload)
+        };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        return new Promise((resolve, reject) => {
+            const req = client.request(endpoint, { method: 'POST', headers, timeout: this.timeoutMs }, res => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('end', () => {
+                    const text = Buffer.concat(chunks).toString('utf8');
+                    if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+                        reject(new Error(`Embedding request failed with HTTP ${res.statusCode}: ${text.slice(0, 200)}`));
+                        return;
+                    }
+                    try {
+                        resolve(JSON.parse(text));
+                    } catch (error) {
+                        reject(new Error('Embedding endpoint returned invalid JSON'));
+                    }
+                });
+                res.on('error', reject);
+            });
+            req.on('timeout', () => req.destroy(new Error(`Embedding request timed out after ${this.timeoutMs}ms`)));
+            req.on('error', reject);
+            req.end(payload);
+        });
+    }
+
+    /**
+     * Accept either the API base (…/v1) or the full …/embeddings URL
+     */
+    private parseEndpoint(url: string): URL | null {
+        try {
+            const parsed = new URL(url);
+            if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+                return null;
+            }
+            if (!/\/embeddings\/?$/.test(parsed.pathname)) {
+                parsed.pathname = parsed.pathname.replace(/\/?$/, '/embeddings');
+            }
+            return parsed;
+        } catch (error) {
+            return null;
+        }
+    }
+}
@@ -15,6 +15,7 @@
 import { BM25LexicalRetriever } from './BM25LexicalRetriever';
 import { SemanticRetriever } from './SemanticRetriever';
 import { SearchIndex } from '../types';
+import { QueryFilter } from '../search/QueryFilter';
 
 export interface HybridResult {
     documentId: string;
@@ -22,6 +23,7 @@ export interface HybridResult {
     file?: string;
     type?: string;
     line?: number;
+    chunk?: { startLine: number; endLine: number }; // Body chunk that matched semantically
     scores: {
         bm25: number;
         semantic: number;
@@ -79,8 +81,10 @@ export class HybridReranker {
     /**
      * Hybrid search with reranking
      * Combines BM25 and semantic retrieval for best results
+     * Both retrievers apply `filter` before ranking, so every candidate
+     * merged here has passed it
      */
-    public async search(query: string, topK?: number): Promise<HybridResult[]> {
+    public async search(query: string, topK?: number, filter?: QueryFilter): Promise<HybridResult[]> {
         if (!query || typeof query !== 'string' || query.trim().length === 0) {
             console.warn('HybridReranker: Invalid query provided');
             return [];
@@ -92,8 +96,8 @@ export class HybridReranker {
 
         try {
             // Step 1: Retrieve candidates from both systems
-            const bm25Results = this.bm25Retriever.search(query, this.config.retrievalTopK);
-            const semanticResults = await this.semanticRetriever.search(query, this.config.retrievalTopK);
+            const bm25Results = this.bm25Retriever.search(query, this.config.retrievalTopK, filter);
+            const semanticResults = await this.semanticRetriever.search(query, this.config.retrievalTopK, filter);
 
             console.log(`HybridReranker: BM25 found ${bm25Results.length}, Semantic found ${semanticResults.length}`);
 
@@ -362,6 +366,7 @@ export class HybridReranker {
         file?: string;
         type?: string;
         line?: number;
+        chunk?: { startLine: number; endLine: number };
     } {
         // Try to find metadata in BM25 results first
         const bm25Result = bm25Results.find(r => r.documentId === docId);
@@ -381,7 +386,8 @@ export class HybridReranker {
                 symbol: semanticResult.symbol,
                 file: semanticResult.file,
                 type: semanticResult.type,
-                line: semanticResult.line
+                line: semanticResult.line,
+                ...(semanticResult.chunk && { chunk: semanticResult.chunk })
             };
         }
 
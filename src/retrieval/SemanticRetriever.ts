@@ -2,19 +2,32 @@
  * SemanticRetriever - Dense vector retrieval using embeddings
  * 
  * Provides semantic similarity search using transformer-based embeddings.
- * Uses @xenova/transformers for lightweight in-browser/Node.js embeddings.
- * Implements simple dense retrieval with cosine similarity.
+ * Vectors come from an EmbeddingProvider (transformers.js by default, or a
+ * local model directory or HTTP endpoint). Implements dense retrieval with
+ * cosine similarity.
  * 
- * For production scale, this can be replaced with FAISS or ScaNN for
- * approximate nearest neighbor (ANN) search, but for VS Code extension
- * use cases (typically < 10k symbols), exact search is sufficient.
+ * Symbol bodies are embedded as overlapping chunks (see SymbolChunker);
+ * chunk hits are folded back into their parent symbol, scored by the max
+ * or mean over the symbol's signature document and chunks.
+ * 
+ * Small corpora are searched exactly. Above `exactSearchThreshold`
+ * documents an HNSW index answers queries approximately; it is keyed by
+ * the same content hashes as the embedding cache and persisted next to it.
  */
 
-import { pipeline, Pipeline } from '@xenova/transformers';
-import { SearchIndex, SymbolLocation, FileMetadata } from '../types';
+import { SearchIndex, SymbolLocation, FileMetadata, SymbolModifier, SymbolVisibility } from '../types';
+import { EmbeddingCache, cacheFileStem } from './EmbeddingCache';
+import { EmbeddingProvider, DEFAULT_EMBEDDING_MODEL } from './EmbeddingProvider';
+import { TransformersEmbeddingProvider } from './TransformersEmbeddingProvider';
+import { HnswIndex, HnswParameters } from './HnswIndex';
+import { SymbolChunk } from './SymbolChunker';
+import { QueryFilter } from '../search/QueryFilter';
+import { FileHasher } from '../utils/FileHasher';
+import * as path from 'path';
 
 interface EmbeddedDocument {
     id: string;
+    hash: string; // Content hash of the embedded text
     embedding: number[];
     metadata: {
         symbol?: string;
@@ -22,30 +35,71 @@ interface EmbeddedDocument {
         type?: string;
         line?: number;
         signature?: string;
+        visibility?: SymbolVisibility;
+        modifiers?: SymbolModifier[];
+        decorators?: string[];
+        parentId?: string; // Chunks: id of the symbol document they belong to
+        startLine?: number;
+        endLine?: number;
     };
 }
 
-interface SemanticResult {
+export interface SemanticResult {
     documentId: string;
     score: number; // Cosine similarity [-1, 1]
     symbol?: string;
     file?: string;
     type?: string;
     line?: number;
+    chunk?: { startLine: number; endLine: number }; // Best matching body chunk, if any
+}
+
+export interface SemanticRetrieverOptions {
+    /**
+     * Source of embeddings (default: transformers.js all-MiniLM-L6-v2)
+     */
+    provider?: EmbeddingProvider;
+    /**
+     * Corpora with fewer documents are searched exactly (default 5000)
+     */
+    exactSearchThreshold?: number;
+    /**
+     * HNSW recall/speed parameters
+     */
+    ann?: Partial<HnswParameters>;
+    /**
+     * How chunk scores combine into a symbol score (default 'max')
+     */
+    chunkAggregation?: 'max' | 'mean';
 }
 
 export class SemanticRetriever {
-    private embeddingModel: Pipeline | null = null;
+    private provider: EmbeddingProvider;
     private documents: EmbeddedDocument[] = [];
     private documentIndex: Map<string, EmbeddedDocument>;
+    private symbolDocuments: Map<string, Set<string>>; // symbol name -> document ids
+    private hashDocuments: Map<string, Set<string>>; // content hash -> document ids
+    private parentChunks: Map<string, Set<string>>; // symbol document id -> chunk ids
     private isInitialized: boolean = false;
+    private embeddingCache: EmbeddingCache | null = null;
+    private cacheDirectory: string | null = null;
+    private cacheLoaded: boolean = false;
+    private annIndex: HnswIndex | null = null;
+    private exactSearchThreshold: number;
+    private annParameters: Partial<HnswParameters>;
+    private chunkAggregation: 'max' | 'mean';
 
-    // Model configuration
-    private readonly modelName = 'Xenova/all-MiniLM-L6-v2'; // 384-dim embeddings, ~80MB
-    private readonly embeddingDim = 384;
+    private readonly minRelevanceScore = 0.3;
 
-    constructor() {
+    constructor(options: SemanticRetrieverOptions = {}) {
         this.documentIndex = new Map();
+        this.symbolDocuments = new Map();
+        this.hashDocuments = new Map();
+        this.parentChunks = new Map();
+        this.provider = options.provider || new TransformersEmbeddingProvider({ model: DEFAULT_EMBEDDING_MODEL });
+        this.exactSearchThreshold = options.exactSearchThreshold ?? 5000;
+        this.annParameters = options.ann || {};
+        this.chunkAggregation = options.chunkAggregation || 'max';
     }
 
     /**
@@ -58,23 +112,23 @@ export class SemanticRetriever {
         }
 
         try {
-            console.log('SemanticRetriever: Initializing embedding model...');
-            // @ts-ignore - Type definition issue with transformers
-            this.embeddingModel = await pipeline('feature-extraction', this.modelName);
+            console.log(`SemanticRetriever: Initializing embedding provider ${this.provider.id}...`);
+            await this.provider.initialize();
             this.isInitialized = true;
 
         } catch (error) {
             console.error('SemanticRetriever: Failed to load model:', error);
-            throw new Error('Failed to initialize semantic retrieval model');
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to initialize semantic retrieval model: ${errorMsg}`);
         }
     }
 
     /**
      * Index SearchIndex data with embeddings
-     * Generates embeddings for all symbols and files
+     * Generates embeddings for all symbols, files and symbol body chunks
      */
-    public async indexSearchIndex(searchIndex: SearchIndex): Promise<void> {
-        if (!this.isInitialized || !this.embeddingModel) {
+    public async indexSearchIndex(searchIndex: SearchIndex, chunks: SymbolChunk[] = []): Promise<void> {
+        if (!this.isInitialized) {
             throw new Error('SemanticRetriever not initialized. Call initialize() first.');
         }
 
@@ -84,67 +138,29 @@ export class SemanticRetriever {
 
         this.documents = [];
         this.documentIndex.clear();
+        this.symbolDocuments.clear();
+        this.hashDocuments.clear();
+        this.parentChunks.clear();
+        this.annIndex = null;
 
-        const batchSize = 32;
-        const symbols = searchIndex.symbolLocations;
-
-        for (let i = 0; i < symbols.length; i += batchSize) {
-            const batch = symbols.slice(i, i + batchSize);
-            const texts = batch.map(s => this.createTextRepresentation(s));
-            
-            // Generate embeddings for batch
-            const embeddings = await this.batchEmbed(texts);
-
-            // Store documents with embeddings
-            for (let j = 0; j < batch.length; j++) {
-                const symbol = batch[j];
-                const doc: EmbeddedDocument = {
-                    id: `symbol:${symbol.file}:${symbol.symbol}:${symbol.line}`,
-                    embedding: embeddings[j],
-                    metadata: {
-                        symbol: symbol.symbol,
-                        file: symbol.file,
-                        type: symbol.type,
-                        line: symbol.line,
-                        signature: symbol.signature
-                    }
-                };
-                this.documents.push(doc);
-                this.documentIndex.set(doc.id, doc);
-            }
-        }
-
-        // Index file metadata
-        const files = searchIndex.fileMetadata;
-        for (const file of files) {
-            const text = this.createTextFromFile(file);
-            const embedding = await this.embed(text);
-            const doc: EmbeddedDocument = {
-                id: `file:${file.path}`,
-                embedding,
-                metadata: {
-                    file: file.path,
-                    type: file.language
-                }
-            };
-            this.documents.push(doc);
-            this.documentIndex.set(doc.id, doc);
-        }
+        await this.addDocuments(searchIndex.symbolLocations, searchIndex.fileMetadata, chunks, true);
+        await this.buildAnnIndex();
 
         console.log(`SemanticRetriever: Indexed ${this.documents.length} documents with embeddings`);
     }
 
     /**
      * Semantic search using cosine similarity
-     * Returns top-k most semantically similar results
+     * Returns top-k most semantically similar results; documents rejected by
+     * `filter` are dropped before ranking
      */
-    public async search(query: string, topK: number = 20): Promise<SemanticResult[]> {
+    public async search(query: string, topK: number = 20, filter?: QueryFilter): Promise<SemanticResult[]> {
         if (!query || typeof query !== 'string' || query.trim().length === 0) {
             console.warn('SemanticRetriever: Invalid query provided');
             return [];
         }
 
-        if (!this.isInitialized || !this.embeddingModel) {
+        if (!this.isInitialized) {
             console.warn('SemanticRetriever: Not initialized');
             return [];
         }
@@ -157,23 +173,32 @@ export class SemanticRetriever {
         // Generate query embedding
         const queryEmbedding = await this.embed(query);
 
-        // Compute cosine similarity with all documents
-        const scores = this.documents.map(doc => ({
-            doc,
-            score: this.cosineSimilarity(queryEmbedding, doc.embedding)
-        }));
+        const isAllowed = (doc: EmbeddedDocument): boolean => {
+            if (!filter || filter.isEmpty()) {
+                return true;
+            }
+            // Chunks are judged by the symbol they belong to
+            const owner = (doc.metadata.parentId && this.documentIndex.get(doc.metadata.parentId)) || doc;
+            return filter.matches(owner.metadata);
+        };
 
-        // Sort by similarity and take top K
-        const results: SemanticResult[] = scores
-            .filter(s => s.score > 0.3) // Threshold for relevance
-            .sort((a, b) => b.score - a.score)
-            .slice(0, topK)
-            .map(s => ({
-                documentId: s.doc.id,
-                score: s.score,
-                ...s.doc.metadata
+        // Approximate search on large corpora, exact cosine scan otherwise
+        // Chunks of one symbol can crowd the ANN candidates, and filters
+        // reject some, so ask for more
+        const hits = this.annIndex
+            ? this.searchAnn(queryEmbedding, topK * (filter && !filter.isEmpty() ? 10 : 3)).filter(hit => isAllowed(hit.doc))
+            : this.documents.filter(isAllowed).map(doc => ({
+                doc,
+                score: this.cosineSimilarity(queryEmbedding, doc.embedding)
             }));
 
+        // Fold chunk hits into their symbols, then take top K
+        const candidates = hits.filter(s => s.score > this.minRelevanceScore); // Threshold for relevance
+        const results: SemanticResult[] = this.aggregateBySymbol(queryEmbedding, candidates)
+            .filter(s => s.score > this.minRelevanceScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+
         return results;
     }
 
@@ -181,20 +206,18 @@ export class SemanticRetriever {
      * Get semantic similarity score for specific symbol
      */
     public async getSymbolScore(query: string, symbolName: string): Promise<number> {
-        if (!this.isInitialized || !this.embeddingModel) {
+        if (!this.isInitialized) {
             return 0;
         }
 
-        const doc = Array.from(this.documentIndex.values()).find(
-            d => d.metadata.symbol === symbolName
-        );
+        const doc = this.findSymbolDocument(symbolName);
 
         if (!doc) {
             return 0;
         }
 
         const queryEmbedding = await this.embed(query);
-        return this.cosineSimilarity(queryEmbedding, doc.embedding);
+        return this.scoreSymbol(queryEmbedding, doc.id).score;
     }
 
     /**
@@ -203,19 +226,16 @@ export class SemanticRetriever {
     public async batchScore(query: string, symbolNames: string[]): Promise<Map<string, number>> {
         const scores = new Map<string, number>();
 
-        if (!this.isInitialized || !this.embeddingModel) {
+        if (!this.isInitialized) {
             return scores;
         }
 
         const queryEmbedding = await this.embed(query);
 
         for (const symbolName of symbolNames) {
-            const doc = Array.from(this.documentIndex.values()).find(
-                d => d.metadata.symbol === symbolName
-            );
+            const doc = this.findSymbolDocument(symbolName);
             if (doc) {
-                const score = this.cosineSimilarity(queryEmbedding, doc.embedding);
-                scores.set(symbolName, score);
+                scores.set(symbolName, this.scoreSymbol(queryEmbedding, doc.id).score);
             } else {
                 scores.set(symbolName, 0);
             }
@@ -233,28 +253,25 @@ export class SemanticRetriever {
             return [];
         }
 
-        const doc = Array.from(this.documentIndex.values()).find(
-            d => d.metadata.symbol === symbolName
-        );
+        const doc = this.findSymbolDocument(symbolName);
 
         if (!doc) {
             return [];
         }
 
-        const scores = this.documents
-            .filter(d => d.id !== doc.id) // Exclude the query symbol itself
-            .map(d => ({
+        const hits = this.annIndex
+            ? this.searchAnn(doc.embedding, (topK + 1) * 3)
+            : this.documents.map(d => ({
                 doc: d,
                 score: this.cosineSimilarity(doc.embedding, d.embedding)
-            }))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, topK)
-            .map(s => ({
-                documentId: s.doc.id,
-                score: s.score,
-                ...s.doc.metadata
             }));
 
+        // Compare signatures with signatures; chunks only widen the candidate set
+        const candidates = hits.filter(s => (s.doc.metadata.parentId || s.doc.id) !== doc.id); // Exclude the query symbol itself
+        const scores = this.aggregateBySymbol(doc.embedding, candidates)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+
         return scores;
     }
 
@@ -262,38 +279,399 @@ export class SemanticRetriever {
      * Generate embedding for a single text
      */
     private async embed(text: string): Promise<number[]> {
-        if (!this.embeddingModel) {
-            throw new Error('Embedding model not initialized');
+        const [embedding] = await this.provider.embed([text]);
+        return embedding;
+    }
+
+    /**
+     * Replace the documents of one file, embedding only its symbols
+     * Pass null metadata when the file was deleted
+     */
+    public async updateFile(
+        filePath: string,
+        symbols: SymbolLocation[],
+        fileMetadata: FileMetadata | null,
+        chunks: SymbolChunk[] = []
+    ): Promise<void> {
+        if (!this.isInitialized) {
+            throw new Error('SemanticRetriever not initialized. Call initialize() first.');
+        }
+
+        this.removeFile(filePath);
+        await this.addDocuments(symbols, fileMetadata ? [fileMetadata] : [], chunks, false);
+
+        // Corpus grew past the threshold: switch to approximate search
+        if (!this.annIndex && this.documents.length >= this.exactSearchThreshold) {
+            await this.buildAnnIndex();
+        } else {
+            await this.saveAnnIndex();
+        }
+    }
+
+    /**
+     * Remove all documents of one file
+     */
+    public removeFile(filePath: string): void {
+        const remaining: EmbeddedDocument[] = [];
+        for (const doc of this.documents) {
+            if (doc.metadata.file === filePath) {
+                this.unlinkDocument(doc);
+            } else {
+                remaining.push(doc);
+            }
+        }
+        this.documents = remaining;
+    }
+
+    /**
+     * Embed and store documents for symbols, files and body chunks
+     * `isFullCorpus` lets the cache drop entries no longer in use
+     */
+    private async addDocuments(
+        symbols: SymbolLocation[],
+        files: FileMetadata[],
+        chunks: SymbolChunk[],
+        isFullCorpus: boolean
+    ): Promise<void> {
+        const pending: Array<{ id: string; text: string; metadata: EmbeddedDocument['metadata'] }> = [];
+
+        for (const symbol of symbols) {
+            pending.push({
+                id: `symbol:${symbol.file}:${symbol.symbol}:${symbol.line}`,
+                text: this.createTextRepresentation(symbol),
+                metadata: {
+                    symbol: symbol.symbol,
+                    file: symbol.file,
+                    type: symbol.type,
+                    line: symbol.line,
+                    signature: symbol.signature,
+                    ...(symbol.visibility && { visibility: symbol.visibility }),
+                    ...(symbol.modifiers && { modifiers: symbol.modifiers }),
+                    ...(symbol.decorators && { decorators: symbol.decorators })
+                }
+            });
+        }
+
+        // Index file metadata
+        for (const file of files) {
+            pending.push({
+                id: `file:${file.path}`,
+                text: this.createTextFromFile(file),
+                metadata: {
+                    file: file.path,
+                    type: file.language
+                }
+            });
+        }
+
+        // Index symbol body chunks
+        for (const chunk of chunks) {
+            const parentId = `symbol:${chunk.file}:${chunk.symbol}:${chunk.line}`;
+            pending.push({
+                id: `chunk:${chunk.file}:${chunk.symbol}:${chunk.line}:${chunk.chunkIndex}`,
+                text: chunk.text,
+                metadata: {
+                    symbol: chunk.symbol,
+                    file: chunk.file,
+                    type: chunk.type,
+                    line: chunk.line,
+                    parentId,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine
+                }
+            });
+        }
+
+        const hashes = pending.map(p => FileHasher.hashContent(p.text));
+        const embeddings = await this.embedWithCache(pending.map(p => p.text), hashes, isFullCorpus);
+
+        for (let i = 0; i < pending.length; i++) {
+            const doc: EmbeddedDocument = {
+                id: pending[i].id,
+                hash: hashes[i],
+                embedding: embeddings[i],
+                metadata: pending[i].metadata
+            };
+            const existing = this.documentIndex.get(doc.id);
+            if (existing) {
+                this.unlinkDocument(existing);
+                this.documents = this.documents.filter(d => d.id !== doc.id);
+            }
+            this.documents.push(doc);
+            this.linkDocument(doc);
+        }
+    }
+
+    /**
+     * Register a document in the lookup maps and the ANN index
+     */
+    private linkDocument(doc: EmbeddedDocument): void {
+        this.documentIndex.set(doc.id, doc);
+
+        if (doc.metadata.parentId) {
+            if (!this.parentChunks.has(doc.metadata.parentId)) {
+                this.parentChunks.set(doc.metadata.parentId, new Set());
+            }
+            this.parentChunks.get(doc.metadata.parentId)!.add(doc.id);
+        } else if (doc.metadata.symbol) {
+            if (!this.symbolDocuments.has(doc.metadata.symbol)) {
+                this.symbolDocuments.set(doc.metadata.symbol, new Set());
+            }
+            this.symbolDocuments.get(doc.metadata.symbol)!.add(doc.id);
+        }
+
+        // Documents with identical text share one vector in the ANN index
+        if (!this.hashDocuments.has(doc.hash)) {
+            this.hashDocuments.set(doc.hash, new Set());
+            this.annIndex?.add(doc.hash, doc.embedding);
+        }
+        this.hashDocuments.get(doc.hash)!.add(doc.id);
+    }
+
+    private unlinkDocument(doc: EmbeddedDocument): void {
+        this.documentIndex.delete(doc.id);
+
+        if (doc.metadata.parentId) {
+            const ids = this.parentChunks.get(doc.metadata.parentId);
+            ids?.delete(doc.id);
+            if (ids && ids.size === 0) {
+                this.parentChunks.delete(doc.metadata.parentId);
+            }
+        } else if (doc.metadata.symbol) {
+            const ids = this.symbolDocuments.get(doc.metadata.symbol);
+            ids?.delete(doc.id);
+            if (ids && ids.size === 0) {
+                this.symbolDocuments.delete(doc.metadata.symbol);
+            }
+        }
+
+        const ids = this.hashDocuments.get(doc.hash);
+        ids?.delete(doc.id);
+        if (ids && ids.size === 0) {
+            this.hashDocuments.delete(doc.hash);
+            this.annIndex?.remove(doc.hash);
+        }
+    }
+
+    private findSymbolDocument(symbolName: string): EmbeddedDocument | undefined {
+        const ids = this.symbolDocuments.get(symbolName);
+        if (!ids || ids.size === 0) {
+            return undefined;
+        }
+        return this.documentIndex.get(ids.values().next().value as string);
+    }
+
+    /**
+     * Map document hits to one result per symbol (or file)
+     */
+    private aggregateBySymbol(
+        queryEmbedding: number[],
+        hits: Array<{ doc: EmbeddedDocument; score: number }>
+    ): SemanticResult[] {
+        const representatives = new Map<string, EmbeddedDocument>();
+        for (const { doc } of hits) {
+            const parentId = doc.metadata.parentId || doc.id;
+            if (!representatives.has(parentId)) {
+                representatives.set(parentId, this.documentIndex.get(parentId) || doc);
+            }
         }
 
-        const output = await this.embeddingModel(text, { pooling: 'mean', normalize: true });
-        return Array.from(output.data);
+        return Array.from(representatives, ([parentId, doc]) => {
+            const { score, chunk } = this.scoreSymbol(queryEmbedding, parentId);
+            return {
+                documentId: parentId,
+                score,
+                symbol: doc.metadata.symbol,
+                file: doc.metadata.file,
+                type: doc.metadata.type,
+                line: doc.metadata.line,
+                ...(chunk && { chunk })
+            };
+        });
     }
 
     /**
-     * Generate embeddings for multiple texts efficiently
-     * Uses true batch processing to leverage model parallelization
+     * Score a symbol over its signature document and body chunks
      */
-    private async batchEmbed(texts: string[]): Promise<number[][]> {
-        if (!this.embeddingModel) {
-            throw new Error('Embedding model not initialized');
+    private scoreSymbol(
+        queryEmbedding: number[],
+        parentId: string
+    ): { score: number; chunk?: { startLine: number; endLine: number } } {
+        const members: EmbeddedDocument[] = [];
+        const parent = this.documentIndex.get(parentId);
+        if (parent) {
+            members.push(parent);
+        }
+        for (const chunkId of this.parentChunks.get(parentId) || []) {
+            const chunk = this.documentIndex.get(chunkId);
+            if (chunk) {
+                members.push(chunk);
+            }
         }
 
-        // Process texts in parallel batches for better performance
-        const batchSize = 8; // Optimal for transformers.js
-        const allEmbeddings: number[][] = [];
+        if (members.length === 0) {
+            return { score: 0 };
+        }
 
-        for (let i = 0; i < texts.length; i += batchSize) {
-            const batch = texts.slice(i, i + batchSize);
-            
-            // Process batch in parallel
-            const batchPromises = batch.map(text => this.embed(text));
-            const batchEmbeddings = await Promise.all(batchPromises);
-            
-            allEmbeddings.push(...batchEmbeddings);
+        let best = members[0];
+        let bestScore = -Infinity;
+        let total = 0;
+        for (const member of members) {
+            const score = this.cosineSimilarity(queryEmbedding, member.embedding);
+            total += score;
+            if (score > bestScore) {
+                best = member;
+                bestScore = score;
+            }
         }
 
-        return allEmbeddings;
+        const { parentId: bestParent, startLine, endLine } = best.metadata;
+        return {
+            score: this.chunkAggregation === 'mean' ? total / members.length : bestScore,
+            chunk: bestParent && startLine !== undefined && endLine !== undefined
+                ? { startLine, endLine }
+                : undefined
+        };
+    }
+
+    /**
+     * Nearest documents from the ANN index
+     */
+    private searchAnn(embedding: number[], topK: number): Array<{ doc: EmbeddedDocument; score: number }> {
+        const results: Array<{ doc: EmbeddedDocument; score: number }> = [];
+        for (const { id: hash, score } of this.annIndex!.search(embedding, topK)) {
+            for (const documentId of this.hashDocuments.get(hash) || []) {
+                const doc = this.documentIndex.get(documentId);
+                if (doc) {
+                    results.push({ doc, score });
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Build the ANN index for large corpora, reusing the persisted graph
+     * when one matches the current settings
+     */
+    private async buildAnnIndex(): Promise<void> {
+        if (this.documents.length < this.exactSearchThreshold) {
+            this.annIndex = null;
+            return;
+        }
+
+        const startTime = Date.now();
+        const basePath = this.getAnnIndexPath();
+        const getVector = (hash: string) => {
+            const ids = this.hashDocuments.get(hash);
+            return ids && ids.size > 0 ? this.documentIndex.get(ids.values().next().value as string)?.embedding : undefined;
+        };
+
+        let index = basePath
+            ? await HnswIndex.load(basePath, this.provider.dimension, this.annParameters, getVector)
+            : null;
+        const reused = index !== null;
+        if (!index) {
+            index = new HnswIndex(this.provider.dimension, this.annParameters);
+        }
+
+        // Persisted graphs may predate the latest changes
+        let added = 0;
+        for (const [hash] of this.hashDocuments) {
+            if (!index.has(hash)) {
+                index.add(hash, getVector(hash)!);
+                added++;
+            }
+        }
+
+        this.annIndex = index;
+        console.log(
+            `SemanticRetriever: ${reused ? 'Loaded' : 'Built'} HNSW index with ${index.size} vectors ` +
+            `(${added} inserted) in ${Date.now() - startTime}ms`
+        );
+
+        if (added > 0) {
+            await this.saveAnnIndex();
+        }
+    }
+
+    private async saveAnnIndex(): Promise<void> {
+        const basePath = this.getAnnIndexPath();
+        if (!this.annIndex || !basePath) {
+            return;
+        }
+
+        try {
+            await this.annIndex.save(basePath);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`SemanticRetriever: Failed to save HNSW index: ${errorMsg}`);
+        }
+    }
+
+    private getAnnIndexPath(): string | null {
+        return this.cacheDirectory
+            ? path.join(this.cacheDirectory, `${cacheFileStem(this.provider.id)}.hnsw`)
+            : null;
+    }
+
+    /**
+     * Persist embeddings under `cacheDir` and reuse them across sessions
+     * Pass null to disable caching
+     */
+    public setCacheDirectory(cacheDir: string | null): void {
+        this.embeddingCache = null;
+        this.cacheDirectory = cacheDir;
+        this.cacheLoaded = false;
+    }
+
+    /**
+     * Embed texts, taking unchanged ones from the cache
+     * With `pruneCache` the cache is trimmed to the given texts, so only
+     * pass it for the full corpus
+     */
+    private async embedWithCache(texts: string[], hashes: string[], pruneCache: boolean): Promise<number[][]> {
+        const embeddings: (number[] | undefined)[] = new Array(texts.length);
+
+        // Opened lazily: the dimension is only known once the provider is up
+        if (this.cacheDirectory && !this.cacheLoaded) {
+            this.embeddingCache = new EmbeddingCache(this.cacheDirectory, this.provider.id, this.provider.dimension);
+            await this.embeddingCache.load();
+            this.cacheLoaded = true;
+        }
+
+        const missing: number[] = [];
+        for (let i = 0; i < texts.length; i++) {
+            embeddings[i] = this.embeddingCache?.get(hashes[i]);
+            if (!embeddings[i]) {
+                missing.push(i);
+            }
+        }
+
+        const batchSize = 32;
+        for (let i = 0; i < missing.length; i += batchSize) {
+            const batch = missing.slice(i, i + batchSize);
+            const batchEmbeddings = await this.provider.embed(batch.map(index => texts[index]));
+            batch.forEach((index, j) => {
+                embeddings[index] = batchEmbeddings[j];
+                this.embeddingCache?.set(hashes[index], batchEmbeddings[j]);
+            });
+        }
+
+        if (this.embeddingCache) {
+            console.log(`SemanticRetriever: ${texts.length - missing.length} embeddings from cache, ${missing.length} computed`);
+            if (pruneCache) {
+                this.embeddingCache.prune(new Set(hashes));
+            }
+            try {
+                await this.embeddingCache.save();
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                console.warn(`SemanticRetriever: Failed to save embedding cache: ${errorMsg}`);
+            }
+        }
+
+        return embeddings as number[][];
     }
 
     /**
@@ -301,7 +679,7 @@ export class SemanticRetriever {
      * Combines symbol name, type, and signature for rich semantic representation
      */
     private createTextRepresentation(symbol: SymbolLocation): string {
-        // Format: "type symbolName signature in file"
+        // Format: "type symbolName signature in file", then the doc comment
         // Example: "Function calculateTotal function calculateTotal(items: Item[]): number in src/utils/helper.ts"
         const parts = [
             symbol.type,
@@ -310,6 +688,9 @@ export class SemanticRetriever {
             'in',
             symbol.file
         ];
+        if (symbol.docstring) {
+            parts.push(symbol.docstring);
+        }
         return parts.join(' ');
     }
 
@@ -355,13 +736,19 @@ export class SemanticRetriever {
         totalDocuments: number;
         embeddingDimension: number;
         modelName: string;
+        maxSequenceLength: number;
         isInitialized: boolean;
+        searchMode: 'exact' | 'hnsw';
+        cache?: { entries: number; hits: number; misses: number };
     } {
         return {
             totalDocuments: this.documents.length,
-            embeddingDimension: this.embeddingDim,
-            modelName: this.modelName,
-            isInitialized: this.isInitialized
+            embeddingDimension: this.provider.dimension,
+            modelName: this.provider.id,
+            maxSequenceLength: this.provider.maxSequenceLength,
+            isInitialized: this.isInitialized,
+            searchMode: this.annIndex ? 'hnsw' : 'exact',
+            cache: this.embeddingCache?.getStats()
         };
     }
 
@@ -372,7 +759,7 @@ export class SemanticRetriever {
     public async saveEmbeddings(path: string): Promise<void> {
         const fs = await import('fs/promises');
         const data = {
-            modelName: this.modelName,
+            modelName: this.provider.id,
             documents: this.documents
         };
         await fs.writeFile(path, JSON.stringify(data), 'utf-8');
@@ -387,16 +774,22 @@ export class SemanticRetriever {
         const fs = await import('fs/promises');
         const data = JSON.parse(await fs.readFile(path, 'utf-8'));
         
-        if (data.modelName !== this.modelName) {
+        if (data.modelName !== this.provider.id) {
 
             return;
         }
 
         this.documents = data.documents;
         this.documentIndex.clear();
+        this.symbolDocuments.clear();
+        this.hashDocuments.clear();
+        this.annIndex = null;
         for (const doc of this.documents) {
-            this.documentIndex.set(doc.id, doc);
+            // Files saved before documents carried a content hash
+            doc.hash = doc.hash || FileHasher.hashContent(doc.id);
+            this.linkDocument(doc);
         }
+        await this.buildAnnIndex();
 
         console.log(`SemanticRetriever: Loaded ${this.documents.length} embeddings from ${path}`);
     }
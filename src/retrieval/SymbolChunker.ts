@@ -0,0 +1,226 @@
+/**
+ * SymbolChunker - Splits symbol bodies into overlapping chunks for embedding
+ *
+ * Signature-only embeddings cannot match logic inside a function body.
+ * The chunker takes each symbol's range from a Tree-sitter parse, prepends
+ * its leading comments, and cuts the body into overlapping line windows.
+ * Doc comments are among those comments and docstrings open the body, so
+ * `SymbolNode.docstring` is not added again. Every chunk is labelled with its parent symbol so that
+ * chunk hits can be folded back into symbol results.
+ *
+ * Container symbols (classes, interfaces with members) contribute only
+ * their header, up to the first member, so bodies are not embedded twice.
+ * Without a grammar for the language, the symbol's stored `fullCode` is
+ * chunked instead. Partially indexed files have neither and are not chunked.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextGraph, GraphNode, SymbolNode } from '../types';
+import { TreeSitterEnhancer, TreeSitterSymbol } from '../syntactic/TreeSitterEnhancer';
+
+export interface SymbolChunk {
+    symbol: string;
+    file: string; // Workspace-relative, like search index paths
+    type: string;
+    line: number; // Line of the parent symbol, as stored in the index
+    startLine: number; // 0-based source range of the chunk
+    endLine: number;
+    chunkIndex: number;
+    text: string;
+}
+
+export interface SymbolChunkerOptions {
+    maxChunkLines: number;
+    overlapLines: number;
+    maxChunksPerSymbol: number;
+    maxCommentLines: number;
+}
+
+const DEFAULT_OPTIONS: SymbolChunkerOptions = {
+    maxChunkLines: 40,
+    overlapLines: 10,
+    maxChunksPerSymbol: 8,
+    maxCommentLines: 20
+};
+
+export class SymbolChunker {
+    private treeSitterEnhancer: TreeSitterEnhancer;
+    private options: SymbolChunkerOptions;
+
+    constructor(treeSitterEnhancer: TreeSitterEnhancer, options: Partial<SymbolChunkerOptions> = {}) {
+        this.treeSitterEnhancer = treeSitterEnhancer;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        if (this.options.overlapLines >= this.options.maxChunkLines) {
+            this.options.overlapLines = Math.floor(this.options.maxChunkLines / 4);
+        }
+    }
+
+    /**
+     * Chunk every symbol in the graph
+     */
+    public chunkGraph(graph: ContextGraph, workspacePath: string): SymbolChunk[] {
+        const chunks: SymbolChunk[] = [];
+        for (const node of graph.nodes) {
+            chunks.push(...this.chunkNode(node, workspacePath));
+        }
+        return chunks;
+    }
+
+    /**
+     * Chunk the symbols of one file
+     */
+    public chunkNode(node: GraphNode, workspacePath: string): SymbolChunk[] {
+        const relativePath = path.relative(workspacePath, node.filePath);
+        const content = this.readContent(node);
+        const ranges = content !== null && this.treeSitterEnhancer.supportsLanguage(node.language)
+            ? this.matchRanges(node.symbols, this.treeSitterEnhancer.extractSymbols(content, node.language))
+            : new Map<SymbolNode, TreeSitterSymbol>();
+        const lines = content !== null ? content.split(/\r?\n/) : [];
+
+        const chunks: SymbolChunk[] = [];
+        for (const symbol of node.symbols) {
+            const range = ranges.get(symbol);
+            let bodyLines: string[];
+            let startLine: number;
+            let commentLines: string[] = [];
+
+            if (range) {
+                startLine = range.startPosition.row;
+                const endLine = this.bodyEnd(range, ranges);
+                bodyLines = lines.slice(startLine, endLine + 1);
+                commentLines = this.leadingComments(lines, startLine);
+            } else if (symbol.fullCode) {
+                startLine = symbol.location.line;
+                bodyLines = symbol.fullCode.split(/\r?\n/);
+            } else {
+                continue;
+            }
+
+            // One-line symbols are already covered by the signature document
+            if (bodyLines.length <= 1 && commentLines.length === 0) {
+                continue;
+            }
+
+            chunks.push(...this.splitSymbol(symbol, relativePath, startLine, bodyLines, commentLines));
+        }
+
+        return chunks;
+    }
+
+    private splitSymbol(
+        symbol: SymbolNode,
+        relativePath: string,
+        startLine: number,
+        bodyLines: string[],
+        commentLines: string[]
+    ): SymbolChunk[] {
+        const { maxChunkLines, overlapLines, maxChunksPerSymbol } = this.options;
+        const header = `${symbol.kind} ${symbol.name} in ${relativePath}`;
+        const step = maxChunkLines - overlapLines;
+        const chunks: SymbolChunk[] = [];
+
+        for (let offset = 0; offset < bodyLines.length && chunks.length < maxChunksPerSymbol; offset += step) {
+            const window = bodyLines.slice(offset, offset + maxChunkLines);
+            const parts = [header];
+
+            // Comments describe the whole symbol, so they lead the first chunk
+            if (offset === 0 && commentLines.length > 0) {
+                parts.push(commentLines.join('\n'));
+            }
+            parts.push(window.join('\n'));
+
+            chunks.push({
+                symbol: symbol.name,
+                file: relativePath,
+                type: symbol.kind,
+                line: symbol.location.line,
+                startLine: startLine + offset,
+                endLine: startLine + offset + window.length - 1,
+                chunkIndex: chunks.length,
+                text: parts.join('\n')
+            });
+
+            if (offset + maxChunkLines >= bodyLines.length) {
+                break;
+            }
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Pair graph symbols with Tree-sitter definitions
+     * By qualified name first, then by start line (LSP and Tree-sitter can
+     * name anonymous or assigned functions differently)
+     */
+    private matchRanges(symbols: SymbolNode[], parsed: TreeSitterSymbol[]): Map<SymbolNode, TreeSitterSymbol> {
+        const byName = new Map<string, TreeSitterSymbol>();
+        const byRow = new Map<number, TreeSitterSymbol>();
+        for (const candidate of parsed) {
+            const qualifiedName = [...candidate.scope, candidate.name].join('.');
+            if (!byName.has(qualifiedName)) {
+                byName.set(qualifiedName, candidate);
+            }
+            if (!byRow.has(candidate.startPosition.row)) {
+                byRow.set(candidate.startPosition.row, candidate);
+            }
+        }
+
+        const ranges = new Map<SymbolNode, TreeSitterSymbol>();
+        for (const symbol of symbols) {
+            const match = byName.get(symbol.name) ?? byRow.get(symbol.location.line);
+            if (match) {
+                ranges.set(symbol, match);
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Last line to embed for a symbol: its end, or the line before its first
+     * nested definition for containers
+     */
+    private bodyEnd(range: TreeSitterSymbol, ranges: Map<SymbolNode, TreeSitterSymbol>): number {
+        let end = range.endPosition.row;
+        for (const other of ranges.values()) {
+            const isNested = other !== range &&
+                other.startPosition.row > range.startPosition.row &&
+                other.endPosition.row <= range.endPosition.row;
+            if (isNested) {
+                end = Math.min(end, other.startPosition.row - 1);
+            }
+        }
+        return Math.max(end, range.startPosition.row);
+    }
+
+    /**
+     * Comment and decorator lines directly above a declaration
+     */
+    private leadingComments(lines: string[], startLine: number): string[] {
+        const comments: string[] = [];
+        for (let i = startLine - 1; i >= 0 && comments.length < this.options.maxCommentLines; i--) {
+            const trimmed = lines[i].trim();
+            if (/^(\/\/|\/\*|\*|#|@)/.test(trimmed)) {
+                comments.unshift(lines[i]);
+            } else {
+                break;
+            }
+        }
+        return comments;
+    }
+
+    private readContent(node: GraphNode): string | null {
+        if (node.partial) {
+            return null; // Outline only: the file is too large to read whole
+        }
+        if (node.content !== undefined) {
+            return node.content;
+        }
+        try {
+            return fs.readFileSync(node.filePath, 'utf8');
+        } catch (error) {
+            return null;
+        }
+    }
+}
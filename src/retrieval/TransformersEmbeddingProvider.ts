@@ -0,0 +1,114 @@
+/**
+ * TransformersEmbeddingProvider - Embeddings from a transformers.js model
+ *
+ * Runs any feature-extraction model that transformers.js can load
+ * (sentence-transformers, code models such as jina-embeddings-v2-base-code)
+ * with mean pooling. With `localModelPath` the model is read from disk
+ * only: the directory must contain a sub-directory per model with its
+ * config, tokenizer and `onnx/` weights, and nothing is downloaded.
+ *
+ * transformers.js is imported on initialize(), so other providers do not
+ * pull in onnxruntime and its native dependencies.
+ */
+
+import * as path from 'path';
+import { EmbeddingProvider } from './EmbeddingProvider';
+
+export interface TransformersEmbeddingProviderOptions {
+    model: string;
+    localModelPath?: string;
+    maxSequenceLength?: number;
+    normalize?: boolean;
+    quantized?: boolean;
+}
+
+// Tokenizers without a configured limit report a huge sentinel value
+const FALLBACK_MAX_SEQUENCE_LENGTH = 512;
+
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+    public readonly normalized: boolean;
+    private model: string;
+    private localModelPath: string | null;
+    private quantized: boolean;
+    private extractor: any = null;
+    private _dimension: number = 0;
+    private _maxSequenceLength: number;
+
+    // Texts per forward pass; padded to the longest text in the batch
+    private readonly batchSize = 8;
+
+    constructor(options: TransformersEmbeddingProviderOptions) {
+        this.model = options.model;
+        this.localModelPath = options.localModelPath ? path.resolve(options.localModelPath) : null;
+        this.normalized = options.normalize ?? true;
+        this.quantized = options.quantized ?? true;
+        this._maxSequenceLength = options.maxSequenceLength ?? 0;
+
+        const source = this.localModelPath ? `local:${path.join(this.localModelPath, this.model)}` : `transformers:${this.model}`;
+        this.id = [
+            source,
+            this.quantized ? 'q8' : 'fp32',
+            this.normalized ? 'norm' : 'raw',
+            ...(options.maxSequenceLength ? [`max${options.maxSequenceLength}`] : [])
+        ].join('|');
+    }
+
+    public get dimension(): number {
+        return this._dimension;
+    }
+
+    public get maxSequenceLength(): number {
+        return this._maxSequenceLength;
+    }
+
+    public async initialize(): Promise<void> {
+        if (this.extractor) {
+            return;
+        }
+
+        const { pipeline, env } = await import('@xenova/transformers');
+        if (this.localModelPath) {
+            env.localModelPath = this.localModelPath;
+            env.allowLocalModels = true;
+            env.allowRemoteModels = false;
+        }
+
+        console.log(`TransformersEmbeddingProvider: Loading ${this.model}${this.localModelPath ? ` from ${this.localModelPath}` : ''}...`);
+        this.extractor = await pipeline('feature-extraction', this.model, {
+            quantized: this.quantized,
+            local_files_only: this.localModelPath !== null
+        });
+
+        const config = this.extractor.model?.config || {};
+        const tokenizer = this.extractor.tokenizer || {};
+        if (!this._maxSequenceLength) {
+            const limits = [tokenizer.model_max_length, config.max_position_embeddings]
+                .filter((n: unknown): n is number => typeof n === 'number' && n > 0 && n < 1e6);
+            this._maxSequenceLength = limits.length > 0 ? Math.min(...limits) : FALLBACK_MAX_SEQUENCE_LENGTH;
+        }
+        // The tokenizer truncates to its own limit; apply a lower override too
+        if (typeof tokenizer.model_max_length !== 'number' || tokenizer.model_max_length > this._maxSequenceLength) {
+            tokenizer.model_max_length = this._maxSequenceLength;
+        }
+
+        // Hidden size is not named consistently across architectures, so measure it
+        const [probe] = await this.embed(['dimension probe']);
+        this._dimension = probe.length;
+        console.log(`TransformersEmbeddingProvider: ${this.model} ready (${this._dimension} dimensions, ${this._maxSequenceLength} tokens)`);
+    }
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        if (!this.extractor) {
+            throw new Error('Embedding model not initialized');
+        }
+
+        const embeddings: number[][] = [];
+        for (let i = 0; i < texts.length; i += this.batchSize) {
+            const batch = texts.slice(i, i + this.batchSize);
+            const output = await this.extractor(batch, { pooling: 'mean', normalize: this.normalized });
+            embeddings.push(...(output.tolist() as number[][]));
+        }
+        return embeddings;
+    }
+}
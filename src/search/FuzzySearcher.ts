@@ -1,7 +1,7 @@
 import Fuse from 'fuse.js';
-import * as path from 'path';
-import { SearchIndex, SymbolLocation, QueryContext } from '../types';
+import { SearchIndex, SymbolLocation, QueryContext, CallEdge } from '../types';
 import { QueryAnalyzer } from './QueryAnalyzer';
+import { QueryFilter } from './QueryFilter';
 
 export class FuzzySearcher {
     private queryAnalyzer: QueryAnalyzer;
@@ -10,7 +10,11 @@ export class FuzzySearcher {
         this.queryAnalyzer = new QueryAnalyzer();
     }
 
-    async search(query: string, searchIndex: SearchIndex): Promise<SymbolLocation[]> {
+    /**
+     * Fuzzy search over the index
+     * Pass the context graph's call edges to support calls: and calledby:
+     */
+    async search(query: string, searchIndex: SearchIndex, callGraph: CallEdge[] = []): Promise<SymbolLocation[]> {
         if (!query || typeof query !== 'string' || query.trim().length === 0) {
             console.warn('FuzzySearcher: Invalid query provided');
             return [];
@@ -26,57 +30,45 @@ export class FuzzySearcher {
         }
 
         const queryContext = this.queryAnalyzer.analyzeIntent(query);
+        const candidates = this.applyFilters(searchIndex.symbolLocations, queryContext, callGraph);
+        const freeText = (queryContext.text ?? query).trim();
+
+        // Filters only: list what they select
+        if (freeText.length === 0) {
+            return candidates.slice(0, 20);
+        }
         
-        const fuse = new Fuse(searchIndex.symbolLocations, {
+        const fuse = new Fuse(candidates, {
             keys: ['symbol', 'type', 'signature', 'file'],
             threshold: 0.4,
             includeScore: true,
             useExtendedSearch: true
         });
 
-        let searchQuery = query;
+        let searchQuery = freeText;
         
         if (queryContext.entities.length > 0) {
             searchQuery = queryContext.entities.join(' | ');
         }
 
         const results = fuse.search(searchQuery);
-        let filteredResults = results.map(r => r.item);
-
-        filteredResults = this.applyFilters(filteredResults, queryContext);
-        const scoredResults = this.applyTFIDFScoring(filteredResults, queryContext);
+        const scoredResults = this.applyTFIDFScoring(results.map(r => r.item), queryContext);
 
         scoredResults.sort((a, b) => b.score - a.score);
         return scoredResults.slice(0, 20).map(r => r.symbol);
     }
 
-    private applyFilters(symbols: SymbolLocation[], context: QueryContext): SymbolLocation[] {
+    private applyFilters(symbols: SymbolLocation[], context: QueryContext, callGraph: CallEdge[]): SymbolLocation[] {
         if (!symbols || symbols.length === 0) {
             return [];
         }
 
-        if (!context || !context.filters || !context.filters.fileTypes) {
+        const filter = new QueryFilter(context.filters || {}, callGraph);
+        if (filter.isEmpty()) {
             return symbols;
         }
 
-        return symbols.filter(symbol => {
-            const ext = path.extname(symbol.file);
-            return context.filters.fileTypes?.some(type => {
-                if (type === 'typescript' || type === 'typescriptreact') {
-                    return ext === '.ts' || ext === '.tsx';
-                }
-                if (type === 'python') {
-                    return ext === '.py';
-                }
-                if (type === 'java') {
-                    return ext === '.java';
-                }
-                if (type === 'go') {
-                    return ext === '.go';
-                }
-                return false;
-            });
-        });
+        return symbols.filter(symbol => filter.matches(symbol));
     }
 
     private applyTFIDFScoring(
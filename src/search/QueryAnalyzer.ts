@@ -1,11 +1,14 @@
 import { QueryContext } from '../types';
+import { QueryParser } from './QueryParser';
 import * as natural from 'natural';
 
 export class QueryAnalyzer {
     private stemmer: typeof natural.PorterStemmer;
+    private queryParser: QueryParser;
 
     constructor() {
         this.stemmer = natural.PorterStemmer;
+        this.queryParser = new QueryParser();
     }
 
     analyzeIntent(query: string): QueryContext {
@@ -13,7 +16,9 @@ export class QueryAnalyzer {
             throw new Error('Query must be a non-empty string');
         }
         
-        const lowerQuery = query.trim().toLowerCase();
+        // Filters (kind:, file:, lang:, ...) restrict results; the rest is ranked
+        const parsed = this.queryParser.parse(query);
+        const lowerQuery = parsed.text.trim().toLowerCase();
         
         let intent: QueryContext['intent'] = 'search';
         
@@ -25,18 +30,18 @@ export class QueryAnalyzer {
             intent = 'references';
         } else if (lowerQuery.includes('flow') || lowerQuery.includes('graph')) {
             intent = 'callGraph';
+        } else if (parsed.filters.calls || parsed.filters.calledBy) {
+            intent = 'references';
         }
 
-        const entities = this.extractEntities(query);
-        const fileTypes = this.detectFileTypes(lowerQuery);
+        const entities = this.extractEntities(parsed.text);
 
         return {
             query,
             intent,
             entities,
-            filters: {
-                fileTypes: fileTypes.length > 0 ? fileTypes : undefined
-            }
+            filters: parsed.filters,
+            text: parsed.text
         };
     }
 
@@ -58,25 +63,6 @@ export class QueryAnalyzer {
         return entities;
     }
 
-    private detectFileTypes(lowerQuery: string): string[] {
-        const fileTypes: string[] = [];
-        
-        if (lowerQuery.includes('typescript') || lowerQuery.includes('.ts')) {
-            fileTypes.push('typescript', 'typescriptreact');
-        }
-        if (lowerQuery.includes('python') || lowerQuery.includes('.py')) {
-            fileTypes.push('python');
-        }
-        if (lowerQuery.includes('java')) {
-            fileTypes.push('java');
-        }
-        if (lowerQuery.includes('go')) {
-            fileTypes.push('go');
-        }
-
-        return fileTypes;
-    }
-
     extractSearchTerms(query: string): string[] {
         if (!query || typeof query !== 'string') {
             return [];
@@ -89,7 +75,7 @@ export class QueryAnalyzer {
             'get', 'does', 'do', 'this', 'that', 'these', 'those', 'can', 'could', 'would'
         ]);
 
-        return query
+        return this.queryParser.parse(query).text
             .trim()
             .toLowerCase()
             .split(/\W+/)
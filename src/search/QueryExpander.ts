@@ -0,0 +1,199 @@
+/**
+ * QueryExpander - Adds domain synonyms and codebase vocabulary to queries
+ *
+ * Two sources of expansions:
+ * - Dictionaries in `.logicgraph/synonyms.json` and `.logicgraph/synonyms/*.json`
+ *   (JSON with comments):
+ *
+ *     {
+ *       "synonyms": { "auth": ["login", "signin", "session"] },
+ *       "groups": [["delete", "remove", "destroy"]]
+ *     }
+ *
+ *   `synonyms` expand one way; every word of a group expands to the others.
+ * - Terms mined from the index: identifier subtokens that co-occur with a
+ *   query term in symbol names (see BM25LexicalRetriever.getCooccurringTerms).
+ *
+ * Terms match by stem, so "sessions" picks up the entry for "session".
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as natural from 'natural';
+import { BM25LexicalRetriever } from '../retrieval/BM25LexicalRetriever';
+import { parseJsonc } from '../utils/Jsonc';
+
+export interface QueryExpansion {
+    term: string; // Query term that was expanded
+    expansions: string[];
+    source: 'dictionary' | 'mined';
+}
+
+export interface ExpandedQuery {
+    terms: string[]; // Original terms followed by expansions, without duplicates
+    expansions: QueryExpansion[];
+}
+
+export interface QueryExpanderOptions {
+    mineExpansions: boolean;
+    maxMinedPerTerm: number;
+    minMinedScore: number;
+}
+
+const DEFAULT_OPTIONS: QueryExpanderOptions = {
+    mineExpansions: true,
+    maxMinedPerTerm: 2,
+    minMinedScore: 0.4
+};
+
+export class QueryExpander {
+    private stemmer: typeof natural.PorterStemmer;
+    private dictionary: Map<string, Set<string>>; // stemmed term -> expansions
+    private bm25Retriever: BM25LexicalRetriever | null;
+    private options: QueryExpanderOptions;
+
+    constructor(bm25Retriever: BM25LexicalRetriever | null = null, options: Partial<QueryExpanderOptions> = {}) {
+        this.stemmer = natural.PorterStemmer;
+        this.dictionary = new Map();
+        this.bm25Retriever = bm25Retriever;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    public updateOptions(options: Partial<QueryExpanderOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Load the workspace dictionaries, replacing any loaded before
+     * Returns the number of terms with expansions
+     */
+    public loadDictionaries(workspacePath: string): number {
+        this.dictionary.clear();
+
+        const directory = path.join(workspacePath, '.logicgraph');
+        const files = [path.join(directory, 'synonyms.json')];
+        const extraDirectory = path.join(directory, 'synonyms');
+        if (fs.existsSync(extraDirectory)) {
+            for (const name of fs.readdirSync(extraDirectory).sort()) {
+                if (name.endsWith('.json')) {
+                    files.push(path.join(extraDirectory, name));
+                }
+            }
+        }
+
+        for (const file of files) {
+            if (!fs.existsSync(file)) {
+                continue;
+            }
+            try {
+                this.addDictionary(parseJsonc(fs.readFileSync(file, 'utf8')));
+                console.log(`QueryExpander: Loaded synonyms from ${file}`);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                console.warn(`QueryExpander: Ignoring ${file}: ${errorMsg}`);
+            }
+        }
+
+        return this.dictionary.size;
+    }
+
+    /**
+     * Merge a parsed dictionary (`synonyms` map and/or `groups` list)
+     */
+    public addDictionary(data: unknown): void {
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error('Synonym dictionary must be a JSON object');
+        }
+
+        const { synonyms, groups } = data as { synonyms?: unknown; groups?: unknown };
+        if (synonyms !== undefined) {
+            if (!synonyms || typeof synonyms !== 'object' || Array.isArray(synonyms)) {
+                throw new Error('"synonyms" must map terms to lists of words');
+            }
+            for (const [term, expansions] of Object.entries(synonyms as { [term: string]: unknown })) {
+                this.addEntry(term, this.toWords(expansions));
+            }
+        }
+
+        if (groups !== undefined) {
+            if (!Array.isArray(groups)) {
+                throw new Error('"groups" must be a list of word lists');
+            }
+            for (const group of groups) {
+                const words = this.toWords(group);
+                for (const word of words) {
+                    this.addEntry(word, words);
+                }
+            }
+        }
+    }
+
+    /**
+     * Expand query terms (already free of stop words and filter syntax)
+     */
+    public expand(terms: string[]): ExpandedQuery {
+        const seen = new Set<string>();
+        const output: string[] = [];
+        const add = (word: string): boolean => {
+            const key = this.stemmer.stem(word.toLowerCase());
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            output.push(word);
+            return true;
+        };
+
+        for (const term of terms) {
+            add(term);
+        }
+
+        const expansions: QueryExpansion[] = [];
+        for (const term of terms) {
+            const stem = this.stemmer.stem(term.toLowerCase());
+
+            const fromDictionary = Array.from(this.dictionary.get(stem) || []).filter(add);
+            if (fromDictionary.length > 0) {
+                expansions.push({ term, expansions: fromDictionary, source: 'dictionary' });
+            }
+
+            if (this.options.mineExpansions && this.bm25Retriever) {
+                const mined = this.bm25Retriever
+                    .getCooccurringTerms(term, this.options.maxMinedPerTerm, this.options.minMinedScore)
+                    .map(related => related.term)
+                    .filter(add);
+                if (mined.length > 0) {
+                    expansions.push({ term, expansions: mined, source: 'mined' });
+                }
+            }
+        }
+
+        return { terms: output, expansions };
+    }
+
+    private addEntry(term: string, expansions: string[]): void {
+        const key = this.stemmer.stem(term.trim().toLowerCase());
+        if (!key) {
+            return;
+        }
+        if (!this.dictionary.has(key)) {
+            this.dictionary.set(key, new Set());
+        }
+        const entry = this.dictionary.get(key)!;
+        for (const expansion of expansions) {
+            if (this.stemmer.stem(expansion) !== key) {
+                entry.add(expansion);
+            }
+        }
+    }
+
+    private toWords(value: unknown): string[] {
+        if (!Array.isArray(value)) {
+            throw new Error('Expected a list of words');
+        }
+        return value
+            .filter((word): word is string => typeof word === 'string')
+            .map(word => word.trim().toLowerCase())
+            .filter(word => word.length > 0);
+    }
+}
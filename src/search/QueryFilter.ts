@@ -0,0 +1,239 @@
+/**
+ * QueryFilter - Applies parsed query filters to retrieval candidates
+ *
+ * One matcher shared by FuzzySearcher, BM25LexicalRetriever,
+ * SemanticRetriever and HybridReranker, so every retriever drops the same
+ * candidates before ranking. Candidates use workspace-relative paths, as in
+ * the search index.
+ *
+ * `calls:` and `calledby:` are answered from the context graph's call
+ * edges, whose endpoints are symbol IDs (`file#Class.method`). Names given
+ * in the filter match the last segment of a symbol name. Import edges are
+ * not calls and are ignored; a call made from module-level code has the
+ * file as caller, so `calls:X` then admits the symbols of that file.
+ */
+
+import * as path from 'path';
+import { CallEdge, QueryFilters } from '../types';
+import { matchesGlob } from '../utils/Glob';
+import { parseSymbolId } from '../graph/SymbolId';
+import { detectLanguageId } from '../utils/LanguageDetector';
+
+export interface FilterCandidate {
+    symbol?: string;
+    file?: string;
+    type?: string;
+    signature?: string;
+    visibility?: string;
+    modifiers?: string[];
+    decorators?: string[];
+}
+
+export class QueryFilter {
+    private filters: QueryFilters;
+    private callerSymbols: Map<string, string[]> | null = null; // calls: calling symbol name -> its files
+    private callerFiles: string[] = []; // calls: files whose module-level code calls a target
+    private calleeSymbols: Map<string, string[]> | null = null; // calledby: callee name -> its files
+
+    constructor(filters: QueryFilters, callGraph: CallEdge[] = []) {
+        this.filters = filters;
+
+        if (filters.calls && filters.calls.length > 0) {
+            const targets = new Set(filters.calls.map(name => this.shortName(name)));
+            this.callerSymbols = new Map();
+            for (const edge of callGraph) {
+                if (edge.kind === 'import') {
+                    continue;
+                }
+                // Calls that did not resolve to a declaration point at the file
+                const target = parseSymbolId(edge.to).symbol || edge.symbol;
+                if (!targets.has(this.shortName(target))) {
+                    continue;
+                }
+                const { file, symbol } = parseSymbolId(edge.from);
+                if (symbol) {
+                    this.addSymbol(this.callerSymbols, symbol, file);
+                } else {
+                    this.callerFiles.push(this.normalizePath(file));
+                }
+            }
+        }
+
+        if (filters.calledBy && filters.calledBy.length > 0) {
+            const sources = new Set(filters.calledBy.map(name => this.shortName(name)));
+            this.calleeSymbols = new Map();
+            for (const edge of callGraph) {
+                const caller = parseSymbolId(edge.from).symbol;
+                const { file, symbol } = parseSymbolId(edge.to);
+                if (caller && symbol && sources.has(this.shortName(caller))) {
+                    this.addSymbol(this.calleeSymbols, symbol, file);
+                }
+            }
+        }
+    }
+
+    /**
+     * True when no filter is set, so callers can skip matching
+     */
+    public isEmpty(): boolean {
+        return Object.keys(this.filters).length === 0;
+    }
+
+    public getFilters(): QueryFilters {
+        return this.filters;
+    }
+
+    public matches(candidate: FilterCandidate): boolean {
+        const filters = this.filters;
+        const file = candidate.file ? this.normalizePath(candidate.file) : '';
+        const kind = (candidate.type || '').toLowerCase();
+        const language = file ? detectLanguageId(file) : '';
+        const isSymbol = !!candidate.symbol;
+
+        // Kind and relation filters select symbols, never whole files
+        if (filters.kinds && (!isSymbol || !filters.kinds.includes(kind))) {
+            return false;
+        }
+        if (filters.fileTypes && !filters.fileTypes.includes(language)) {
+            return false;
+        }
+        if (filters.filePatterns && !filters.filePatterns.some(pattern => this.matchesFile(file, pattern))) {
+            return false;
+        }
+        if (filters.directories && !filters.directories.some(dir => this.isInDirectory(file, dir))) {
+            return false;
+        }
+        if (this.callerSymbols && !this.isCaller(candidate.symbol, file)) {
+            return false;
+        }
+        if (this.calleeSymbols && !this.isSymbolIn(this.calleeSymbols, candidate.symbol, file)) {
+            return false;
+        }
+        if (filters.modifiers && !filters.modifiers.every(modifier => this.hasModifier(candidate, modifier))) {
+            return false;
+        }
+        if (filters.decorators && !filters.decorators.some(decorator => this.hasDecorator(candidate, decorator))) {
+            return false;
+        }
+
+        const exclude = filters.exclude;
+        if (exclude) {
+            if (exclude.kinds && exclude.kinds.includes(kind)) {
+                return false;
+            }
+            if (exclude.fileTypes && exclude.fileTypes.includes(language)) {
+                return false;
+            }
+            if (exclude.filePatterns && exclude.filePatterns.some(pattern => this.matchesFile(file, pattern))) {
+                return false;
+            }
+            if (exclude.directories && exclude.directories.some(dir => this.isInDirectory(file, dir))) {
+                return false;
+            }
+            if (exclude.modifiers && exclude.modifiers.some(modifier => this.hasModifier(candidate, modifier))) {
+                return false;
+            }
+            if (exclude.decorators && exclude.decorators.some(decorator => this.hasDecorator(candidate, decorator))) {
+                return false;
+            }
+        }
+
+        if (filters.phrases || exclude?.terms) {
+            const words = this.words([candidate.symbol, candidate.signature, file]);
+            const text = ` ${words.join(' ')} `;
+            if (filters.phrases && !filters.phrases.every(phrase => text.includes(` ${this.words([phrase]).join(' ')}`))) {
+                return false;
+            }
+            // Excluded words match identifier subtokens by prefix: -test drops fooTest and tests/
+            if (exclude?.terms && exclude.terms.some(term => text.includes(` ${this.words([term]).join(' ')}`))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private hasModifier(candidate: FilterCandidate, modifier: string): boolean {
+        return candidate.visibility === modifier || !!candidate.modifiers?.includes(modifier);
+    }
+
+    /**
+     * `decorator:route` matches `@route` and `@app.route`
+     */
+    private hasDecorator(candidate: FilterCandidate, decorator: string): boolean {
+        return !!candidate.decorators?.some(name => {
+            const lower = name.toLowerCase();
+            return lower === decorator || lower.endsWith(`.${decorator}`) || lower.endsWith(`::${decorator}`);
+        });
+    }
+
+    private isCaller(symbol: string | undefined, file: string): boolean {
+        if (this.isSymbolIn(this.callerSymbols!, symbol, file)) {
+            return true;
+        }
+        return file.length > 0 && this.callerFiles.some(caller => this.isSameFile(caller, file));
+    }
+
+    /**
+     * Symbols are told apart by file when the candidate has one
+     */
+    private isSymbolIn(symbols: Map<string, string[]>, symbol: string | undefined, file: string): boolean {
+        const files = symbol ? symbols.get(symbol) : undefined;
+        return !!files && (file.length === 0 || files.some(f => this.isSameFile(f, file)));
+    }
+
+    private addSymbol(symbols: Map<string, string[]>, symbol: string, file: string): void {
+        if (!symbols.has(symbol)) {
+            symbols.set(symbol, []);
+        }
+        symbols.get(symbol)!.push(this.normalizePath(file));
+    }
+
+    /**
+     * Graph paths are absolute, candidate paths relative to the workspace
+     */
+    private isSameFile(graphFile: string, file: string): boolean {
+        return graphFile === file || graphFile.endsWith('/' + file) || file.endsWith('/' + graphFile);
+    }
+
+    /**
+     * Globs match the whole relative path; plain values match any path containing them
+     */
+    private matchesFile(file: string, pattern: string): boolean {
+        if (/[*?[{]/.test(pattern)) {
+            return matchesGlob(file, pattern);
+        }
+        return file.toLowerCase().includes(pattern.toLowerCase());
+    }
+
+    /**
+     * Directories match from the workspace root or at any depth: in:auth
+     * covers src/auth/session.ts
+     */
+    private isInDirectory(file: string, directory: string): boolean {
+        return directory === '.' || directory === '' || `/${file}`.includes(`/${directory}/`);
+    }
+
+    /**
+     * Lower-case identifier subtokens: getUserById -> get user by id
+     */
+    private words(parts: Array<string | undefined>): string[] {
+        return parts
+            .filter((part): part is string => !!part)
+            .join(' ')
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length > 0);
+    }
+
+    private shortName(name: string): string {
+        const parts = name.split('.');
+        return parts[parts.length - 1];
+    }
+
+    private normalizePath(filePath: string): string {
+        return filePath.split(path.sep).join('/').replace(/\\/g, '/');
+    }
+}
@@ -0,0 +1,230 @@
+/**
+ * QueryParser - Structured filter syntax for search queries
+ *
+ * Splits a query into free text, which is ranked, and filters, which
+ * restrict candidates before ranking:
+ *
+ *   kind:function        symbol kind (comma-separated alternatives)
+ *   file:src/api/**      glob over workspace-relative paths; plain values
+ *                        match any path containing them
+ *   lang:python          language (aliases such as ts, py, golang)
+ *   in:src/auth          directory prefix (also dir:)
+ *   calls:loginUser      symbols that call loginUser
+ *   calledby:main        symbols called by main
+ *   is:async             visibility or modifier (exported, private, static,
+ *                        abstract, ...); several values must all hold
+ *   decorator:route      symbols with that decorator, annotation or attribute
+ *   "user session"       phrase that must appear in the name, signature or path
+ *   -test                exclude a word; -kind:, -file:, -lang:, -in:, -is: and
+ *                        -decorator: negate filters
+ *
+ * Unknown prefixes (`std::vector`, `http://`) stay in the free text.
+ */
+
+import * as path from 'path';
+import { QueryFilters } from '../types';
+
+export interface ParsedQuery {
+    text: string; // Free text, including phrase words
+    terms: string[]; // Free-text words outside phrases
+    filters: QueryFilters;
+    hasFilters: boolean;
+}
+
+type FilterKey = 'kind' | 'file' | 'lang' | 'in' | 'calls' | 'calledby' | 'is' | 'decorator';
+
+const FILTER_KEYS: { [key: string]: FilterKey } = {
+    kind: 'kind',
+    type: 'kind',
+    file: 'file',
+    path: 'file',
+    lang: 'lang',
+    language: 'lang',
+    in: 'in',
+    dir: 'in',
+    calls: 'calls',
+    calledby: 'calledby',
+    callers: 'calledby',
+    is: 'is',
+    decorator: 'decorator',
+    decorated: 'decorator',
+    annotation: 'decorator'
+};
+
+// Query spellings -> VS Code language ids (as stored in the index)
+const LANGUAGE_ALIASES: { [alias: string]: string[] } = {
+    ts: ['typescript', 'typescriptreact'],
+    typescript: ['typescript', 'typescriptreact'],
+    tsx: ['typescriptreact'],
+    js: ['javascript', 'javascriptreact'],
+    javascript: ['javascript', 'javascriptreact'],
+    jsx: ['javascriptreact'],
+    py: ['python'],
+    python: ['python'],
+    golang: ['go'],
+    rs: ['rust'],
+    'c#': ['csharp'],
+    cs: ['csharp'],
+    'c++': ['cpp'],
+    cxx: ['cpp'],
+    rb: ['ruby'],
+    kt: ['kotlin']
+};
+
+// Query spellings -> lower-case symbol kinds (LSP names, as stored in the index)
+const KIND_ALIASES: { [alias: string]: string } = {
+    fn: 'function',
+    func: 'function',
+    def: 'function',
+    functions: 'function',
+    methods: 'method',
+    cls: 'class',
+    classes: 'class',
+    iface: 'interface',
+    interfaces: 'interface',
+    var: 'variable',
+    let: 'variable',
+    const: 'constant',
+    prop: 'property',
+    ns: 'namespace'
+};
+
+// Query spellings -> visibilities and modifiers (as stored in the index)
+const MODIFIER_ALIASES: { [alias: string]: string } = {
+    export: 'exported',
+    pub: 'public',
+    priv: 'private',
+    sealed: 'final'
+};
+
+export class QueryParser {
+    /**
+     * Parse a query into free text and filters
+     */
+    public parse(query: string): ParsedQuery {
+        const filters: QueryFilters = {};
+        const terms: string[] = [];
+        const textParts: string[] = [];
+
+        for (const token of this.tokenize(query || '')) {
+            const negated = token.raw.startsWith('-') && token.raw.length > 1;
+            const body = negated ? token.raw.slice(1) : token.raw;
+
+            if (token.quoted) {
+                const phrase = this.unquote(body).trim();
+                if (phrase) {
+                    this.push(negated ? this.exclude(filters) : filters, negated ? 'terms' : 'phrases', phrase.toLowerCase());
+                    if (!negated) {
+                        textParts.push(phrase);
+                    }
+                }
+                continue;
+            }
+
+            const separator = body.indexOf(':');
+            const key = separator > 0 ? FILTER_KEYS[body.slice(0, separator).toLowerCase()] : undefined;
+            const value = separator > 0 ? this.unquote(body.slice(separator + 1)) : '';
+            if (key && value && !value.startsWith(':')) {
+                this.addFilter(filters, key, value, negated);
+                continue;
+            }
+
+            if (negated && /^[\w$.]+$/.test(body)) {
+                this.push(this.exclude(filters), 'terms', body.toLowerCase());
+                continue;
+            }
+
+            terms.push(token.raw);
+            textParts.push(token.raw);
+        }
+
+        return {
+            text: textParts.join(' '),
+            terms,
+            filters,
+            hasFilters: Object.keys(filters).length > 0
+        };
+    }
+
+    private addFilter(filters: QueryFilters, key: FilterKey, value: string, negated: boolean): void {
+        const values = value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+        const target = negated ? this.exclude(filters) : filters;
+
+        for (const item of values) {
+            switch (key) {
+                case 'kind': {
+                    const kind = item.toLowerCase();
+                    this.push(target, 'kinds', KIND_ALIASES[kind] || kind);
+                    break;
+                }
+                case 'lang':
+                    for (const language of LANGUAGE_ALIASES[item.toLowerCase()] || [item.toLowerCase()]) {
+                        this.push(target, 'fileTypes', language);
+                    }
+                    break;
+                case 'file':
+                    this.push(target, 'filePatterns', this.normalizePath(item));
+                    break;
+                case 'in':
+                    this.push(target, 'directories', this.normalizePath(item).replace(/\/+$/, ''));
+                    break;
+                case 'is': {
+                    const modifier = item.toLowerCase();
+                    this.push(target, 'modifiers', MODIFIER_ALIASES[modifier] || modifier);
+                    break;
+                }
+                case 'decorator':
+                    this.push(target, 'decorators', item.replace(/^@/, '').toLowerCase());
+                    break;
+                case 'calls':
+                case 'calledby':
+                    // Negated relations are not supported and are dropped
+                    if (!negated) {
+                        this.push(filters, key === 'calls' ? 'calls' : 'calledBy', item);
+                    }
+                    break;
+            }
+        }
+    }
+
+    private push(target: object, field: string, value: string): void {
+        const record = target as { [key: string]: string[] | undefined };
+        const list = record[field] || (record[field] = []);
+        if (!list.includes(value)) {
+            list.push(value);
+        }
+    }
+
+    private exclude(filters: QueryFilters): NonNullable<QueryFilters['exclude']> {
+        if (!filters.exclude) {
+            filters.exclude = {};
+        }
+        return filters.exclude;
+    }
+
+    private normalizePath(value: string): string {
+        return path.posix.normalize(value.replace(/\\/g, '/')).replace(/^\.\//, '');
+    }
+
+    private unquote(value: string): string {
+        return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+    }
+
+    /**
+     * Whitespace-separated tokens; double quotes group words, including
+     * quoted filter values such as file:"my dir/**"
+     */
+    private tokenize(query: string): Array<{ raw: string; quoted: boolean }> {
+        const tokens: Array<{ raw: string; quoted: boolean }> = [];
+        const pattern = /(-?)"([^"]*)"?|(\S*?:"[^"]*"?)|(\S+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(query)) !== null) {
+            if (match[2] !== undefined) {
+                tokens.push({ raw: `${match[1]}"${match[2]}"`, quoted: true });
+            } else {
+                tokens.push({ raw: match[3] || match[4], quoted: false });
+            }
+        }
+        return tokens;
+    }
+}
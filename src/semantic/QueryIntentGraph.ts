@@ -13,6 +13,7 @@
 const natural = require('natural');
 import { GraphNode, SymbolNode, ImportNode, ContextGraph, CallEdge } from '../types';
 import { QueryAnalyzer } from '../search/QueryAnalyzer';
+import { displaySymbolId } from '../graph/SymbolId';
 
 interface QueryIntent {
     primaryAction: string; // 'find', 'show', 'explain', 'how', 'where', 'what'
@@ -37,6 +38,7 @@ export interface VirtualQueryGraph extends ContextGraph {
     _virtual: true; // Explicit marker that this is NOT real code
     _querySource: string; // Original query text
     _intentType: string; // Primary intent classification
+    _relationship?: string; // Relation the query asks about ('calls', 'implements', ...)
 }
 
 export class QueryIntentGraphBuilder {
@@ -47,7 +49,8 @@ export class QueryIntentGraphBuilder {
 
     // Domain-specific vocabulary for code semantics
     private codeActions = ['find', 'show', 'explain', 'get', 'list', 'describe', 'how', 'where', 'what', 'why'];
-    private codeRelations = ['calls', 'uses', 'implements', 'extends', 'imports', 'depends', 'references'];
+    private codeRelations = ['calls', 'uses', 'implements', 'extends', 'inherits', 'subclasses', 'implementations',
+                             'imports', 'depends', 'references'];
     private codeEntities = ['function', 'class', 'method', 'variable', 'type', 'interface', 'component', 'module'];
 
     constructor() {
@@ -71,6 +74,7 @@ export class QueryIntentGraphBuilder {
             _virtual: true,
             _querySource: query,
             _intentType: intent.primaryAction,
+            ...(intent.relationshipType && { _relationship: intent.relationshipType }),
             generated: new Date().toISOString(),
             anchor: '[QUERY_INTENT_GRAPH]',
             config: {
@@ -195,6 +199,7 @@ export class QueryIntentGraphBuilder {
 
     /**
      * Project relationships as virtual call graph
+     * Endpoints are entity names rather than symbol IDs
      */
     private projectToCallGraph(intentNodes: IntentNode[], intent: QueryIntent): CallEdge[] {
         const edges: CallEdge[] = [];
@@ -206,7 +211,8 @@ export class QueryIntentGraphBuilder {
                 edges.push({
                     from: actionNode.value,
                     to: entity,
-                    symbol: entity
+                    symbol: entity,
+                    kind: 'call'
                 });
             }
         }
@@ -217,7 +223,8 @@ export class QueryIntentGraphBuilder {
                 edges.push({
                     from: intent.targetEntities[i],
                     to: intent.targetEntities[i + 1],
-                    symbol: intent.relationshipType
+                    symbol: intent.relationshipType,
+                    kind: 'call'
                 });
             }
         }
@@ -333,7 +340,8 @@ export class QueryIntentGraphBuilder {
 
         // Compare call graph patterns
         const queryEdgePatterns = new Set(queryGraph.callGraph.map(e => `${e.from}->${e.to}`));
-        const codeEdgePatterns = new Set(codeGraph.callGraph.map(e => `${e.from}->${e.to}`));
+        // Code edges join symbol IDs; query edges join entity names
+        const codeEdgePatterns = new Set(codeGraph.callGraph.map(e => `${displaySymbolId(e.from)}->${displaySymbolId(e.to)}`));
         
         const edgeIntersection = new Set([...queryEdgePatterns].filter(x => codeEdgePatterns.has(x)));
         const edgeUnion = new Set([...queryEdgePatterns, ...codeEdgePatterns]);
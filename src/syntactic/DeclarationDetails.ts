@@ -0,0 +1,223 @@
+/**
+ * DeclarationDetails - Doc comments, visibility, modifiers and decorators of a definition
+ *
+ * Read from the syntax around a definition node rather than from the tag
+ * query: modifier keywords are children of the definition or of the
+ * statements wrapping it (`export`, Python `decorated_definition`),
+ * decorators and attributes are children or preceding siblings, and doc
+ * comments are the comments directly above, decorators skipped.
+ * Only doc comment forms count (`/** *\/`, `///`, `//!`) unless the
+ * language documents with plain line comments (Go, Ruby).
+ */
+
+import Parser from 'tree-sitter';
+import { SymbolModifier, SymbolVisibility } from '../types';
+import { LanguageConventions } from './LanguageRegistry';
+
+export interface DeclarationDetails {
+    docstring?: string;
+    visibility?: SymbolVisibility;
+    modifiers: SymbolModifier[];
+    decorators: string[];
+}
+
+// Statements that wrap a definition without being one
+const WRAPPER_TYPES = new Set([
+    'export_statement', 'decorated_definition', 'lexical_declaration', 'variable_declaration', 'ambient_declaration'
+]);
+
+const DECORATOR_TYPES = new Set(['decorator', 'annotation', 'marker_annotation', 'attribute_list', 'attribute_item']);
+
+// Nodes whose words are modifier keywords (`pub(crate)`, `private`, `static`)
+const MODIFIER_TYPES = new Set([
+    'accessibility_modifier', 'visibility_modifier', 'modifier', 'static_modifier', 'abstract_modifier',
+    'final_modifier', 'readonly_modifier', 'override_modifier', 'function_modifiers', 'storage_class_specifier'
+]);
+
+const VISIBILITY_KEYWORDS: { [keyword: string]: SymbolVisibility } = {
+    export: 'exported',
+    public: 'public',
+    pub: 'public',
+    protected: 'protected',
+    private: 'private',
+    internal: 'internal'
+};
+
+const MODIFIER_KEYWORDS: { [keyword: string]: SymbolModifier } = {
+    async: 'async',
+    static: 'static',
+    abstract: 'abstract',
+    readonly: 'readonly',
+    override: 'override',
+    final: 'final',
+    sealed: 'final'
+};
+
+// Decorators that stand for a modifier (Python, Java `@Override`)
+const DECORATOR_MODIFIERS: { [decorator: string]: SymbolModifier } = {
+    staticmethod: 'static',
+    classmethod: 'static',
+    abstractmethod: 'abstract',
+    override: 'override',
+    Override: 'override'
+};
+
+const DOC_COMMENT = /^(\/\*\*(?!\/)|\/\*!|\/\/\/|\/\/!)/;
+
+/**
+ * Details of the definition `node` named `name`
+ */
+export function readDeclarationDetails(
+    node: Parser.SyntaxNode,
+    name: string,
+    conventions: LanguageConventions = {}
+): DeclarationDetails {
+    const outermost = wrapperOf(node);
+    const keywords: string[] = [];
+    const decorators: string[] = [];
+
+    // The definition, its wrappers, and a function bound to a variable or field
+    const owners: Parser.SyntaxNode[] = [];
+    for (let current: Parser.SyntaxNode | null = node; current; current = current === outermost ? null : current.parent) {
+        owners.push(current);
+    }
+    const value = node.childForFieldName('value');
+    if (value && /function|lambda|closure/.test(value.type)) {
+        owners.push(value);
+    }
+    for (const owner of owners) {
+        collectModifiers(owner.children, keywords, decorators);
+    }
+    for (let sibling = outermost.previousNamedSibling; sibling && DECORATOR_TYPES.has(sibling.type); sibling = sibling.previousNamedSibling) {
+        decorators.unshift(...decoratorNames(sibling));
+    }
+
+    const modifiers = new Set<SymbolModifier>();
+    let visibility: SymbolVisibility | undefined;
+    for (const keyword of keywords) {
+        const modifier = MODIFIER_KEYWORDS[keyword];
+        if (modifier) {
+            modifiers.add(modifier);
+        }
+        // Member access wins over `export`; `pub(crate)` is visible in its crate only
+        const access = keyword === 'crate' || keyword === 'super' ? 'internal' : VISIBILITY_KEYWORDS[keyword];
+        if (access && (!visibility || visibility === 'exported' || access === 'internal')) {
+            visibility = access;
+        }
+    }
+    for (const decorator of decorators) {
+        const modifier = DECORATOR_MODIFIERS[decorator.substring(decorator.lastIndexOf('.') + 1)];
+        if (modifier) {
+            modifiers.add(modifier);
+        }
+    }
+
+    if (!visibility) {
+        if (name.startsWith('#')) {
+            visibility = 'private';
+        } else if (conventions.exportedName?.test(name)) {
+            visibility = 'exported';
+        } else if (conventions.privateName?.test(name)) {
+            visibility = 'private';
+        }
+    }
+
+    const docstring = (conventions.bodyDocstrings && bodyDocstring(node)) || leadingDocComment(outermost, conventions);
+    return {
+        ...(docstring && { docstring }),
+        ...(visibility && { visibility }),
+        modifiers: Array.from(modifiers),
+        decorators
+    };
+}
+
+function wrapperOf(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    let outermost = node;
+    while (outermost.parent && WRAPPER_TYPES.has(outermost.parent.type)) {
+        outermost = outermost.parent;
+    }
+    return outermost;
+}
+
+/**
+ * Keywords and decorators among a node's children; Java groups them in `modifiers`
+ */
+function collectModifiers(children: Parser.SyntaxNode[], keywords: string[], decorators: string[]): void {
+    for (const child of children) {
+        if (!child.isNamed) {
+            keywords.push(child.type);
+        } else if (DECORATOR_TYPES.has(child.type)) {
+            decorators.push(...decoratorNames(child));
+        } else if (child.type === 'modifiers') {
+            collectModifiers(child.children, keywords, decorators);
+        } else if (MODIFIER_TYPES.has(child.type)) {
+            keywords.push(...child.text.split(/\W+/).filter(word => word));
+        }
+    }
+}
+
+/**
+ * `@app.route('/x')` -> app.route; attribute lists (`[A, B]`, `#[A]`) name each attribute
+ */
+function decoratorNames(node: Parser.SyntaxNode): string[] {
+    const attributes = node.descendantsOfType('attribute');
+    return (attributes.length > 0 ? attributes : [node])
+        .map(attribute => /[A-Za-z_$][\w$]*(?:(?:\.|::|\\)[A-Za-z_$][\w$]*)*/.exec(attribute.text)?.[0])
+        .filter((decorator): decorator is string => !!decorator);
+}
+
+/**
+ * Python: a string as the first statement of the body
+ */
+function bodyDocstring(node: Parser.SyntaxNode): string | undefined {
+    const statement = node.childForFieldName('body')?.firstNamedChild;
+    const literal = statement?.type === 'expression_statement' ? statement.firstNamedChild : null;
+    if (!literal || literal.type !== 'string') {
+        return undefined;
+    }
+    const text = literal.text.replace(/^[rRbBuUfF]*("""|'''|"|')/, '').replace(/("""|'''|"|')$/, '');
+    return cleanLines(text.split(/\r?\n/));
+}
+
+/**
+ * Comments ending on the line above the definition (or each other),
+ * decorators in between skipped
+ */
+function leadingDocComment(node: Parser.SyntaxNode, conventions: LanguageConventions): string | undefined {
+    const comments: string[] = [];
+    let nextRow = node.startPosition.row;
+    for (let sibling = node.previousNamedSibling; sibling; sibling = sibling.previousNamedSibling) {
+        if (DECORATOR_TYPES.has(sibling.type)) {
+            nextRow = sibling.startPosition.row;
+            continue;
+        }
+        if (!sibling.type.includes('comment') || sibling.endPosition.row < nextRow - 1) {
+            break;
+        }
+        const text = sibling.text.trim();
+        if (!DOC_COMMENT.test(text) && !(conventions.lineDocComments && /^(\/\/|#)/.test(text))) {
+            break;
+        }
+        comments.unshift(text);
+        nextRow = sibling.startPosition.row;
+    }
+
+    const lines = comments.flatMap(comment => comment.startsWith('/*')
+        ? comment.replace(/^\/\*[*!]?/, '').replace(/\*\/$/, '').split(/\r?\n/).map(line => line.replace(/^\s*\* ?/, ''))
+        : [comment.replace(/^(\/\/[/!]?|#) ?/, '')]
+    );
+    return cleanLines(lines);
+}
+
+/**
+ * Trim the common indentation and surrounding blank lines
+ */
+function cleanLines(lines: string[]): string | undefined {
+    if (lines.length === 0) {
+        return undefined;
+    }
+    const indents = lines.slice(1).filter(line => line.trim()).map(line => line.length - line.trimStart().length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    const text = [lines[0].trim(), ...lines.slice(1).map(line => line.slice(indent).trimEnd())].join('\n').trim();
+    return text || undefined;
+}
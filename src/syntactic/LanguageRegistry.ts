@@ -0,0 +1,179 @@
+/**
+ * LanguageRegistry - Tree-sitter grammars and tag queries per language
+ *
+ * What TreeSitterEnhancer extracts from a syntax tree is written as a tag
+ * query, after the tree-sitter `tags.scm` convention: one file per grammar
+ * in `queries/` (`queries/go.scm`). A workspace replaces the query of a
+ * language with a file of the same name in `.logicgraph/queries/`. Adding a
+ * language is a LanguageSpec entry and a query file.
+ *
+ * Captures:
+ * - `@definition.<kind>` on a definition, with `@name`. The kind is the LSP
+ *   symbol kind in lower case (`function`, `method`, `class`, `interface`,
+ *   `struct`, `enum`, `module`, `namespace`, `constructor`, `variable`).
+ *   A `function` nested in a type or a `@scope`, or qualified with the
+ *   name of a type, is a method.
+ *   `@owner` names a type the definition belongs to without being nested
+ *   in it (Go method receivers)
+ * - `@scope` with `@name`: a block that scopes the definitions inside it
+ *   without defining a symbol (Rust `impl`)
+ * - `@reference.call`, `@reference.class` (constructor call) and
+ *   `@reference.decorator` with `@name`, and `@receiver` for member calls
+ * - `@reference.extends` and `@reference.implementation` with `@name`: a
+ *   base type of the enclosing definition
+ * - `@reference.import` with `@name` on the imported module
+ * Qualified names (`a::b`, `A.B`, `A\B`) are split: the prefix becomes the
+ * scope of a definition or the receiver of a reference. Captures starting
+ * with `_` are only used by predicates.
+ *
+ * Doc comments, modifiers and decorators are read from the syntax around
+ * each definition; LanguageConventions holds the rules that are language
+ * specific rather than syntactic.
+ */
+
+import Parser from 'tree-sitter';
+import TypeScript from 'tree-sitter-typescript';
+import JavaScript from 'tree-sitter-javascript';
+import Python from 'tree-sitter-python';
+import Go from 'tree-sitter-go';
+import Rust from 'tree-sitter-rust';
+import Java from 'tree-sitter-java';
+import CSharp from 'tree-sitter-c-sharp';
+import C from 'tree-sitter-c';
+import Cpp from 'tree-sitter-cpp';
+import Ruby from 'tree-sitter-ruby';
+import PHP from 'tree-sitter-php';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const BUILTIN_QUERY_DIRECTORY = path.join(__dirname, '..', '..', 'queries');
+
+/**
+ * Documentation and visibility rules a grammar cannot express
+ */
+export interface LanguageConventions {
+    lineDocComments?: boolean; // Plain line comments above a definition document it (Go, Ruby)
+    bodyDocstrings?: boolean; // A string as the first statement of the body documents it (Python)
+    exportedName?: RegExp; // Names visible outside the module without a keyword (Go)
+    privateName?: RegExp; // Names private by convention (Python `_name`)
+}
+
+export interface LanguageSpec {
+    languageIds: string[];
+    grammar: unknown;
+    query: string; // Query file name without `.scm`
+    conventions?: LanguageConventions;
+}
+
+export const LANGUAGE_SPECS: LanguageSpec[] = [
+    { languageIds: ['typescript'], grammar: TypeScript.typescript, query: 'typescript' },
+    { languageIds: ['typescriptreact'], grammar: TypeScript.tsx, query: 'typescript' },
+    { languageIds: ['javascript', 'javascriptreact'], grammar: JavaScript, query: 'javascript' },
+    {
+        languageIds: ['python'],
+        grammar: Python,
+        query: 'python',
+        conventions: { bodyDocstrings: true, privateName: /^_(?!_.*__$)/ }
+    },
+    {
+        languageIds: ['go'],
+        grammar: Go,
+        query: 'go',
+        conventions: { lineDocComments: true, exportedName: /^\p{Lu}/u, privateName: /^[^\p{Lu}]/u }
+    },
+    { languageIds: ['rust'], grammar: Rust, query: 'rust' },
+    { languageIds: ['java'], grammar: Java, query: 'java' },
+    { languageIds: ['csharp'], grammar: CSharp, query: 'csharp' },
+    { languageIds: ['c'], grammar: C, query: 'c' },
+    { languageIds: ['cpp'], grammar: Cpp, query: 'cpp' },
+    { languageIds: ['ruby'], grammar: Ruby, query: 'ruby', conventions: { lineDocComments: true } },
+    { languageIds: ['php'], grammar: PHP.php, query: 'php' }
+];
+
+export class LanguageRegistry {
+    private specs: Map<string, LanguageSpec> = new Map();
+    private queries: Map<LanguageSpec, Parser.Query | null> = new Map(); // null when no query compiled
+    private queryFiles: Map<LanguageSpec, string> = new Map(); // File each compiled query came from
+    private workspaceQueryDirectory: string | null = null;
+
+    constructor(specs: LanguageSpec[] = LANGUAGE_SPECS) {
+        for (const spec of specs) {
+            this.register(spec);
+        }
+    }
+
+    /**
+     * Add a language, or replace the spec of its language ids
+     */
+    public register(spec: LanguageSpec): void {
+        for (const languageId of spec.languageIds) {
+            this.specs.set(languageId, spec);
+        }
+        this.queries.delete(spec);
+        this.queryFiles.delete(spec);
+    }
+
+    public get(languageId: string): LanguageSpec | undefined {
+        return this.specs.get(languageId);
+    }
+
+    public getLanguageIds(): string[] {
+        return Array.from(this.specs.keys());
+    }
+
+    /**
+     * Prefer the query files in a workspace's `.logicgraph/queries/`
+     * Returns the workspace query files in use
+     */
+    public loadWorkspaceQueries(workspacePath: string): string[] {
+        this.workspaceQueryDirectory = path.join(workspacePath, '.logicgraph', 'queries');
+        this.queries.clear();
+        this.queryFiles.clear();
+
+        const loaded = new Set<string>();
+        for (const spec of new Set(this.specs.values())) {
+            this.getQuery(spec);
+            const file = this.queryFiles.get(spec);
+            if (file && path.dirname(file) === this.workspaceQueryDirectory) {
+                console.log(`LanguageRegistry: Using ${file} for ${spec.languageIds.join(', ')}`);
+                loaded.add(file);
+            }
+        }
+        return Array.from(loaded);
+    }
+
+    /**
+     * Compiled tag query of a language: the workspace file, else the
+     * built-in one; null when neither compiles
+     */
+    public getQuery(spec: LanguageSpec): Parser.Query | null {
+        let query = this.queries.get(spec);
+        if (query === undefined) {
+            query = null;
+            const fileName = `${spec.query}.scm`;
+            const files = [path.join(BUILTIN_QUERY_DIRECTORY, fileName)];
+            if (this.workspaceQueryDirectory) {
+                files.unshift(path.join(this.workspaceQueryDirectory, fileName));
+            }
+            for (const file of files) {
+                query = fs.existsSync(file) ? this.compileQuery(spec, file) : null;
+                if (query) {
+                    this.queryFiles.set(spec, file);
+                    break;
+                }
+            }
+            this.queries.set(spec, query);
+        }
+        return query;
+    }
+
+    private compileQuery(spec: LanguageSpec, file: string): Parser.Query | null {
+        try {
+            return new Parser.Query(spec.grammar, fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`LanguageRegistry: Ignoring ${file}: ${errorMsg}`);
+            return null;
+        }
+    }
+}
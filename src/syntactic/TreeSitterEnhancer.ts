@@ -1,47 +1,123 @@
 /**
  * TreeSitterEnhancer - Enhances LSP-derived symbols with Tree-sitter syntax analysis
- * 
+ *
  * This module complements (does NOT replace) the existing VSCode LSP symbol extraction.
  * It provides additional syntactic signals for symbol boundaries, scopes, and call relationships.
  * Results are merged into existing GraphNode, SymbolNode, and CallEdge structures.
+ *
+ * What is a definition, a call, a base type or an import is decided by the
+ * language's tag query (see LanguageRegistry); this module turns the
+ * captures into scoped symbols and references.
  */
 
 import Parser from 'tree-sitter';
-import TypeScript from 'tree-sitter-typescript';
-import JavaScript from 'tree-sitter-javascript';
-import Python from 'tree-sitter-python';
 import * as fs from 'fs';
-import * as path from 'path';
-import { GraphNode, SymbolNode, CallEdge } from '../types';
+import { GraphNode, SymbolNode, CallSite, HeritageClause, ImportNode, TypeRelationKind, SymbolModifier, SymbolVisibility } from '../types';
+import { detectLanguageId } from '../utils/LanguageDetector';
+import { LanguageRegistry, LanguageSpec } from './LanguageRegistry';
+import { readDeclarationDetails } from './DeclarationDetails';
+import { extractImportStatements } from '../resolver/ImportExtractor';
 
-interface TreeSitterSymbol {
+export interface TreeSitterSymbol {
     name: string;
     kind: string;
     startPosition: { row: number; column: number };
     endPosition: { row: number; column: number };
     scope: string[];
     calls: string[];
+    docstring?: string;
+    visibility?: SymbolVisibility;
+    modifiers: SymbolModifier[];
+    decorators: string[];
 }
 
-interface TreeSitterEnhancement {
-    refinedSymbols: Map<string, TreeSitterSymbol>;
-    additionalCalls: CallEdge[];
+/**
+ * Unresolved references of a file; CallGraphResolver binds them to definitions
+ * `imports` is only filled for languages whose query captures them
+ */
+export interface TreeSitterReferences {
+    callSites: CallSite[];
+    heritage: HeritageClause[];
+    imports: ImportNode[];
+}
+
+export interface TreeSitterEnhancement extends TreeSitterReferences {
+    symbols: TreeSitterSymbol[]; // Document order, parents before children
+    refinedSymbols: Map<string, TreeSitterSymbol>; // By dotted name
     scopeHierarchy: Map<string, string[]>;
 }
 
+export interface OutlineSymbol extends TreeSitterSymbol {
+    signature: string; // Declaration line, trimmed
+}
+
+/**
+ * Top-level definitions and imports of a file indexed in outline mode
+ */
+export interface TreeSitterOutline {
+    symbols: OutlineSymbol[]; // Document order
+    imports: ImportNode[];
+}
+
+/**
+ * One query match: the node captured with a role (`definition.method`,
+ * `scope`, `reference.call`, ...) and its name
+ */
+interface Tag {
+    role: string;
+    node: Parser.SyntaxNode;
+    name: Parser.SyntaxNode;
+    receiver?: Parser.SyntaxNode;
+    owner?: Parser.SyntaxNode;
+    pattern: number;
+}
+
+interface TagIndex {
+    scopes: Map<number, Tag>; // Definitions and scopes by node id
+    references: Tag[]; // Document order
+    paths: Map<number, string[]>; // Node id -> qualified name parts
+}
+
+const CALL_ROLES: { [role: string]: CallSite['kind'] } = {
+    'reference.call': 'call',
+    'reference.class': 'new',
+    'reference.decorator': 'decorator'
+};
+
+const HERITAGE_ROLES: { [role: string]: TypeRelationKind } = {
+    'reference.extends': 'extends',
+    'reference.implementation': 'implements'
+};
+
+// Kinds whose nested functions are methods
+const TYPE_KINDS = new Set(['Class', 'Struct', 'Interface', 'Enum']);
+
+// `a::b`, `a.b`, `a->b`, `A\B`
+const NAME_SEPARATOR = /::|->|\.|\\/;
+
+const OUTLINE_CHUNK_SIZE = 64 * 1024;
+
+// Top-level nodes that belong to the declaration after them
+const LEADING_NODE = /comment|decorator|attribute|annotation/;
+
+// A top-level node the rest of the file parses in the context of (PHP `<?php`)
+const PREAMBLE_NODE = /_tag$/;
+
 export class TreeSitterEnhancer {
     private parser: Parser;
-    private tsLanguage: any;
-    private jsLanguage: any;
-    private pyLanguage: any;
+    private registry: LanguageRegistry;
 
-    constructor() {
+    constructor(registry: LanguageRegistry = new LanguageRegistry()) {
         this.parser = new Parser();
-        
-        // Initialize language parsers
-        this.tsLanguage = TypeScript.typescript;
-        this.jsLanguage = JavaScript;
-        this.pyLanguage = Python;
+        this.registry = registry;
+    }
+
+    /**
+     * Use the workspace's tag queries (`.logicgraph/queries/<language>.scm`)
+     * where it has them; returns the files in use
+     */
+    public loadWorkspaceQueries(workspacePath: string): string[] {
+        return this.registry.loadWorkspaceQueries(workspacePath);
     }
 
     /**
@@ -49,63 +125,49 @@ export class TreeSitterEnhancer {
      * Complements LSP symbols without replacing them
      */
     public enhanceGraphNode(node: GraphNode, content: string): TreeSitterEnhancement {
-        const language = this.getLanguageParser(node.language);
-        if (!language) {
-            return {
-                refinedSymbols: new Map(),
-                additionalCalls: [],
-                scopeHierarchy: new Map()
-            };
-        }
-
-        this.parser.setLanguage(language);
-        
         try {
-            const tree = this.parser.parse(content);
-            const rootNode = tree.rootNode;
-
-            const refinedSymbols = new Map<string, TreeSitterSymbol>();
-            const additionalCalls: CallEdge[] = [];
-            const scopeHierarchy = new Map<string, string[]>();
-
-            // Extract syntactic information
-            this.traverseTree(rootNode, node.filePath, [], refinedSymbols, additionalCalls, scopeHierarchy);
-
-            return { refinedSymbols, additionalCalls, scopeHierarchy };
+            return this.analyze(content, node.language) || this.emptyEnhancement();
         } catch (error) {
             console.error(`Tree-sitter parsing failed for ${node.filePath}:`, error);
-            return {
-                refinedSymbols: new Map(),
-                additionalCalls: [],
-                scopeHierarchy: new Map()
-            };
+            return this.emptyEnhancement();
         }
     }
 
     /**
      * Merge Tree-sitter enhancements into existing SymbolNode array
-     * Refines boundaries and adds scope information without replacing LSP data
+     * Refines boundaries and adds scope, doc comments and modifiers without
+     * replacing LSP data
+     * Symbols match by dotted name, else by name and start line (LSP and
+     * Tree-sitter can qualify nested definitions differently)
      */
     public mergeEnhancements(
         existingSymbols: SymbolNode[],
         enhancements: TreeSitterEnhancement
     ): SymbolNode[] {
+        const byRow = new Map<string, TreeSitterSymbol>(); // `row:name` -> symbol
+        for (const candidate of enhancements.symbols) {
+            const key = `${candidate.startPosition.row}:${candidate.name}`;
+            if (!byRow.has(key)) {
+                byRow.set(key, candidate);
+            }
+        }
+
         return existingSymbols.map(symbol => {
-            const enhanced = enhancements.refinedSymbols.get(symbol.name);
+            const shortName = symbol.name.substring(symbol.name.lastIndexOf('.') + 1);
+            const enhanced = enhancements.refinedSymbols.get(symbol.name) ?? byRow.get(`${symbol.location.line}:${shortName}`);
             if (enhanced) {
                 // Refine location if Tree-sitter provides more precise boundaries
+                // Both use 0-based lines; the LSP's end is kept when it reported one
                 return {
                     ...symbol,
                     location: {
-                        line: enhanced.startPosition.row + 1, // Tree-sitter uses 0-based
-                        character: enhanced.startPosition.column
+                        line: enhanced.startPosition.row,
+                        character: enhanced.startPosition.column,
+                        endLine: symbol.location.endLine ?? enhanced.endPosition.row,
+                        endCharacter: symbol.location.endCharacter ?? enhanced.endPosition.column
                     },
-                    // Add scope metadata (optional, doesn't break schema)
-                    ...(enhanced.scope.length > 0 && {
-                        docstring: symbol.docstring 
-                            ? `${symbol.docstring}\n[Scope: ${enhanced.scope.join(' > ')}]`
-                            : `[Scope: ${enhanced.scope.join(' > ')}]`
-                    })
+                    ...declarationFields(enhanced),
+                    ...(symbol.docstring && { docstring: symbol.docstring })
                 };
             }
             return symbol;
@@ -113,218 +175,457 @@ export class TreeSitterEnhancer {
     }
 
     /**
-     * Extract additional call edges not detected by LSP
+     * Extract definitions in document order, parents before children
+     * Used by the headless indexer when no LSP symbol provider is available
+     */
+    public extractSymbols(content: string, languageId: string): TreeSitterSymbol[] {
+        try {
+            return this.analyze(content, languageId)?.symbols || [];
+        } catch (error) {
+            console.error(`Tree-sitter symbol extraction failed (${languageId}):`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Top-level definitions and imports of a file too large to index whole
+     * The file is read in chunks and parsed incrementally: each chunk is
+     * appended to the unfinished tail of the text before it, and top-level
+     * nodes followed by another one are outlined and dropped, so memory is
+     * bounded by the chunk size and the largest top-level declaration
      */
-    public extractAdditionalCallEdges(
+    public async extractOutline(
         filePath: string,
-        content: string,
-        existingEdges: CallEdge[]
-    ): CallEdge[] {
-        const language = this.getLanguageParser(this.detectLanguage(filePath));
-        if (!language) {
-            return existingEdges;
+        languageId: string,
+        chunkSize: number = OUTLINE_CHUNK_SIZE
+    ): Promise<TreeSitterOutline> {
+        const outline: TreeSitterOutline = { symbols: [], imports: [] };
+        const spec = this.registry.get(languageId);
+        const query = spec ? this.registry.getQuery(spec) : null;
+        if (!spec || !query) {
+            return outline;
         }
 
-        this.parser.setLanguage(language);
+        let text = '';
+        let tree: Parser.Tree | undefined;
+        let keep = -1; // Length of the preamble kept when text is dropped
+        let rowOffset = 0;
+        const extractedImports: ImportNode[] = [];
+        const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: chunkSize });
+        for await (const chunk of stream as AsyncIterable<string>) {
+            if (tree) {
+                const end = endPoint(text);
+                tree.edit({
+                    startIndex: text.length,
+                    oldEndIndex: text.length,
+                    newEndIndex: text.length + chunk.length,
+                    startPosition: end,
+                    oldEndPosition: end,
+                    newEndPosition: endPoint(chunk, end)
+                });
+            }
+            text += chunk;
+            this.parser.setLanguage(spec.grammar);
+            tree = this.parse(text, tree);
+
+            // Keep the last declaration, or the first with a syntax error
+            // (it may be cut short), and the comments and decorators before
+            // it, from the start of its line; a text that does not parse as
+            // a whole is kept entirely
+            const nodes = tree.rootNode.type === 'ERROR' ? [] : tree.rootNode.children;
+            if (keep < 0 && nodes.length > 1) {
+                keep = PREAMBLE_NODE.test(nodes[0].type) ? text.indexOf('\n', nodes[0].endIndex) + 1 : 0;
+            }
+            const broken = nodes.findIndex(node => node.hasError);
+            let tail = broken >= 0 ? broken : nodes.length - 1;
+            while (tail > 0 && LEADING_NODE.test(nodes[tail - 1].type)) {
+                tail--;
+            }
+            const cut = tail > 0 ? text.lastIndexOf('\n', nodes[tail].startIndex - 1) + 1 : 0;
+            const settled = nodes.filter(node => node.startIndex >= keep && node.endIndex <= cut);
+            if (keep < 0 || settled.length === 0) {
+                continue;
+            }
 
-        try {
-            const tree = this.parser.parse(content);
-            const additionalCalls: CallEdge[] = [];
-            const existingSet = new Set(existingEdges.map(e => `${e.from}->${e.to}:${e.symbol}`));
+            const lines = text.substring(0, cut).split('\n');
+            const droppedRows = text.substring(keep, cut).split('\n').length - 1;
+            this.outlineNodes(settled, spec, query, lines, rowOffset, outline);
+            extractedImports.push(...extractImportStatements(text.substring(keep, cut), languageId));
+            const start = endPoint(text.substring(0, keep));
+            tree.edit({
+                startIndex: keep,
+                oldEndIndex: cut,
+                newEndIndex: keep,
+                startPosition: start,
+                oldEndPosition: { row: start.row + droppedRows, column: 0 },
+                newEndPosition: start
+            });
+            text = text.substring(0, keep) + text.substring(cut);
+            rowOffset += droppedRows;
+        }
 
-            this.extractCallsFromTree(tree.rootNode, filePath, additionalCalls, existingSet);
+        if (tree && text) {
+            this.parser.setLanguage(spec.grammar);
+            tree = this.parse(text, tree);
+            this.outlineNodes(tree.rootNode.children, spec, query, text.split('\n'), rowOffset, outline);
+            extractedImports.push(...extractImportStatements(text.substring(Math.max(keep, 0)), languageId));
+        }
+
+        // Import tables cover the languages whose query does not capture imports
+        if (outline.imports.length === 0) {
+            outline.imports = extractedImports;
+        }
+        return outline;
+    }
+
+    /**
+     * Check whether a language has a Tree-sitter grammar and tag query available
+     */
+    public supportsLanguage(languageId: string): boolean {
+        const spec = this.registry.get(languageId);
+        return !!spec && !!this.registry.getQuery(spec);
+    }
 
-            return [...existingEdges, ...additionalCalls];
+    /**
+     * Extract call sites, constructor calls, decorators, base types and imports
+     * Names are as written; CallGraphResolver binds them to definitions
+     */
+    public extractReferences(content: string, languageId: string): TreeSitterReferences {
+        try {
+            const enhancement = this.analyze(content, languageId);
+            return enhancement
+                ? { callSites: enhancement.callSites, heritage: enhancement.heritage, imports: enhancement.imports }
+                : { callSites: [], heritage: [], imports: [] };
         } catch (error) {
-            return existingEdges;
+            console.error(`Tree-sitter reference extraction failed (${languageId}):`, error);
+            return { callSites: [], heritage: [], imports: [] };
         }
     }
 
-    private traverseTree(
-        node: Parser.SyntaxNode,
-        filePath: string,
-        scope: string[],
-        refinedSymbols: Map<string, TreeSitterSymbol>,
-        additionalCalls: CallEdge[],
-        scopeHierarchy: Map<string, string[]>
+    private emptyEnhancement(): TreeSitterEnhancement {
+        return {
+            symbols: [],
+            refinedSymbols: new Map(),
+            callSites: [],
+            heritage: [],
+            imports: [],
+            scopeHierarchy: new Map()
+        };
+    }
+
+    /**
+     * Run the language's tag query; null when the language is unsupported
+     */
+    private analyze(content: string, languageId: string): TreeSitterEnhancement | null {
+        const spec = this.registry.get(languageId);
+        const query = spec ? this.registry.getQuery(spec) : null;
+        if (!spec || !query) {
+            return null;
+        }
+
+        this.parser.setLanguage(spec.grammar);
+        const tree = this.parse(content);
+        return this.analyzeMatches(query.matches(tree.rootNode), spec);
+    }
+
+    /**
+     * Add the top-level definitions and the imports among `nodes` to an
+     * outline; `lines` are the text's lines, starting `rowOffset` rows
+     * into the file
+     */
+    private outlineNodes(
+        nodes: Parser.SyntaxNode[],
+        spec: LanguageSpec,
+        query: Parser.Query,
+        lines: string[],
+        rowOffset: number,
+        outline: TreeSitterOutline
     ): void {
-        // Extract function/class definitions
-        if (this.isDefinitionNode(node)) {
-            const symbol = this.extractSymbol(node, scope);
-            if (symbol) {
-                refinedSymbols.set(symbol.name, symbol);
-                scopeHierarchy.set(symbol.name, [...scope]);
-                
-                // Recurse with updated scope
-                const newScope = [...scope, symbol.name];
-                for (const child of node.children) {
-                    this.traverseTree(child, filePath, newScope, refinedSymbols, additionalCalls, scopeHierarchy);
-                }
-                return;
+        const enhancement = this.analyzeMatches(nodes.flatMap(node => query.matches(node)), spec);
+        for (const symbol of enhancement.symbols) {
+            if (symbol.scope.length > 0) {
+                continue;
             }
+            const signature = lines[symbol.startPosition.row].trim();
+            outline.symbols.push({
+                ...symbol,
+                startPosition: { row: symbol.startPosition.row + rowOffset, column: symbol.startPosition.column },
+                endPosition: { row: symbol.endPosition.row + rowOffset, column: symbol.endPosition.column },
+                signature: signature.length > 200 ? signature.substring(0, 200) + '...' : signature
+            });
         }
+        outline.imports.push(...enhancement.imports);
+    }
 
-        // Extract call expressions
-        if (this.isCallExpression(node)) {
-            const call = this.extractCall(node, filePath, scope);
-            if (call) {
-                additionalCalls.push(call);
-            }
+    /**
+     * Turn tag query matches into scoped symbols and references
+     */
+    private analyzeMatches(matches: Parser.QueryMatch[], spec: LanguageSpec): TreeSitterEnhancement {
+        const index = this.collectTags(matches);
+        const enhancement = this.emptyEnhancement();
+        const symbolsByNode = new Map<number, TreeSitterSymbol>();
+
+        // Definitions; a node starts before the definitions nested in it
+        const definitions = Array.from(index.scopes.values())
+            .filter(tag => tag.role.startsWith('definition.'))
+            .sort((a, b) => a.node.startIndex - b.node.startIndex || b.node.endIndex - a.node.endIndex);
+        for (const tag of definitions) {
+            const path = this.pathOf(index, tag);
+            const kind = this.symbolKind(tag.role);
+            const symbol: TreeSitterSymbol = {
+                name: path[path.length - 1],
+                kind: kind === 'Function' && this.isMember(index, tag, path, enhancement) ? 'Method' : kind,
+                startPosition: tag.node.startPosition,
+                endPosition: tag.node.endPosition,
+                scope: path.slice(0, -1),
+                calls: [],
+                ...readDeclarationDetails(tag.node, path[path.length - 1], spec.conventions)
+            };
+            enhancement.symbols.push(symbol);
+            enhancement.refinedSymbols.set(path.join('.'), symbol);
+            enhancement.scopeHierarchy.set(path.join('.'), [...symbol.scope]);
+            symbolsByNode.set(tag.node.id, symbol);
         }
 
-        // Recurse through children
-        for (const child of node.children) {
-            this.traverseTree(child, filePath, scope, refinedSymbols, additionalCalls, scopeHierarchy);
+        for (const tag of index.references) {
+            if (tag.role === 'reference.import') {
+                const importPath = tag.name.text.replace(/^[\s('"<]+|[\s)'">;]+$/g, '');
+                if (importPath) {
+                    enhancement.imports.push({ importPath, symbols: [] });
+                }
+                continue;
+            }
+
+            const target = this.referenceName(tag);
+            if (!target) {
+                continue;
+            }
+
+            const callKind = CALL_ROLES[tag.role];
+            if (callKind) {
+                const caller = callKind === 'decorator' ? this.decoratedPath(index, tag.node) : this.enclosingPath(index, tag.node);
+                enhancement.callSites.push({
+                    caller: caller.join('.'),
+                    callee: target.name,
+                    ...(target.receiver !== undefined && { receiver: target.receiver }),
+                    kind: callKind,
+                    line: tag.node.startPosition.row
+                });
+                // Every enclosing definition lists the call
+                for (let parent = tag.node.parent; parent; parent = parent.parent) {
+                    symbolsByNode.get(parent.id)?.calls.push(target.name);
+                }
+                continue;
+            }
+
+            const heritageKind = HERITAGE_ROLES[tag.role];
+            const type = this.enclosingPath(index, tag.node);
+            if (heritageKind && type.length > 0) {
+                enhancement.heritage.push({
+                    type: type.join('.'),
+                    base: target.name,
+                    ...(target.receiver !== undefined && { receiver: target.receiver }),
+                    kind: heritageKind,
+                    line: tag.node.startPosition.row
+                });
+            }
         }
+
+        return enhancement;
     }
 
-    private extractCallsFromTree(
-        node: Parser.SyntaxNode,
-        filePath: string,
-        calls: CallEdge[],
-        existingSet: Set<string>
-    ): void {
-        if (this.isCallExpression(node)) {
-            const call = this.extractCall(node, filePath, []);
-            if (call) {
-                const key = `${call.from}->${call.to}:${call.symbol}`;
-                if (!existingSet.has(key)) {
-                    calls.push(call);
+    /**
+     * Tags of the query matches; when several patterns capture the same
+     * definition, or the same name as a reference, the first pattern wins
+     */
+    private collectTags(matches: Parser.QueryMatch[]): TagIndex {
+        const scopes = new Map<number, Tag>();
+        const references = new Map<number, Tag>(); // Name node id -> tag
+
+        for (const match of matches) {
+            let role: string | undefined;
+            let node: Parser.SyntaxNode | undefined;
+            let name: Parser.SyntaxNode | undefined;
+            let receiver: Parser.SyntaxNode | undefined;
+            let owner: Parser.SyntaxNode | undefined;
+            for (const capture of match.captures) {
+                if (capture.name === 'name') {
+                    name = capture.node;
+                } else if (capture.name === 'receiver') {
+                    receiver = capture.node;
+                } else if (capture.name === 'owner') {
+                    owner = capture.node;
+                } else if (capture.name === 'scope' || capture.name.startsWith('definition.') || capture.name.startsWith('reference.')) {
+                    role = capture.name;
+                    node = capture.node;
                 }
             }
+            if (!role || !node || !name) {
+                continue;
+            }
+
+            const tag: Tag = { role, node, name, receiver, owner, pattern: match.pattern };
+            const isReference = role.startsWith('reference.');
+            const tags = isReference ? references : scopes;
+            const key = isReference ? name.id : node.id;
+            const existing = tags.get(key);
+            if (!existing || tag.pattern < existing.pattern) {
+                tags.set(key, tag);
+            }
         }
 
-        for (const child of node.children) {
-            this.extractCallsFromTree(child, filePath, calls, existingSet);
+        return {
+            scopes,
+            references: Array.from(references.values()).sort((a, b) => a.node.startIndex - b.node.startIndex),
+            paths: new Map()
+        };
+    }
+
+    /**
+     * Qualified name parts of a definition or scope: the enclosing
+     * definitions, the owner type and a qualified name's prefix
+     * (`void Foo::run()`, `class A::B`), then its own name
+     */
+    private pathOf(index: TagIndex, tag: Tag): string[] {
+        let path = index.paths.get(tag.node.id);
+        if (!path) {
+            path = [
+                ...this.enclosingPath(index, tag.node),
+                ...(tag.owner ? [tag.owner.text] : []),
+                ...this.splitName(tag.name.text)
+            ];
+            index.paths.set(tag.node.id, path);
         }
+        return path;
     }
 
-    private isDefinitionNode(node: Parser.SyntaxNode): boolean {
-        const defTypes = [
-            'function_declaration',
-            'function_definition',
-            'method_definition',
-            'class_declaration',
-            'class_definition',
-            'arrow_function',
-            'function_expression'
-        ];
-        return defTypes.includes(node.type);
+    private enclosingPath(index: TagIndex, node: Parser.SyntaxNode): string[] {
+        const tag = this.enclosingTag(index, node);
+        return tag ? this.pathOf(index, tag) : [];
     }
 
-    private isCallExpression(node: Parser.SyntaxNode): boolean {
-        const callTypes = ['call_expression', 'new_expression', 'decorator'];
-        return callTypes.includes(node.type);
+    private enclosingTag(index: TagIndex, node: Parser.SyntaxNode): Tag | undefined {
+        for (let parent = node.parent; parent; parent = parent.parent) {
+            const tag = index.scopes.get(parent.id);
+            if (tag) {
+                return tag;
+            }
+        }
+        return undefined;
     }
 
-    private extractSymbol(node: Parser.SyntaxNode, scope: string[]): TreeSitterSymbol | null {
-        const nameNode = node.childForFieldName('name');
-        if (!nameNode) {
-            return null;
+    /**
+     * Whether a definition at `path` belongs to a type: it is nested in a
+     * type or a `@scope` block (Rust `impl`), or qualified with the name of
+     * a type defined earlier in the file (C++ `Foo::run`)
+     */
+    private isMember(index: TagIndex, tag: Tag, path: string[], enhancement: TreeSitterEnhancement): boolean {
+        if (this.enclosingTag(index, tag.node)?.role === 'scope') {
+            return true;
         }
+        const parent = enhancement.refinedSymbols.get(path.slice(0, -1).join('.'));
+        return parent !== undefined && TYPE_KINDS.has(parent.kind);
+    }
 
-        const name = nameNode.text;
-        const kind = this.mapNodeTypeToSymbolKind(node.type);
-        const calls = this.extractCallsFromNode(node);
+    /**
+     * Path of the definition a decorator applies to: the next definition
+     * among its siblings (Python `decorated_definition`, TypeScript methods
+     * and exported classes), else the one it sits in; TypeScript field
+     * decorators sit on a field, which is not a definition
+     */
+    private decoratedPath(index: TagIndex, decorator: Parser.SyntaxNode): string[] {
+        let sibling = decorator.nextNamedSibling;
+        while (sibling && sibling.type === decorator.type) {
+            sibling = sibling.nextNamedSibling;
+        }
+        const decorated = sibling ? index.scopes.get(sibling.id) : undefined;
+        if (decorated) {
+            return this.pathOf(index, decorated);
+        }
 
-        return {
-            name,
-            kind,
-            startPosition: node.startPosition,
-            endPosition: node.endPosition,
-            scope,
-            calls
-        };
+        const scope = this.enclosingPath(index, decorator);
+        const parent = decorator.parent;
+        if (parent && !index.scopes.has(parent.id)) {
+            const nameNode = parent.childForFieldName('name');
+            if (nameNode) {
+                return [...scope, nameNode.text];
+            }
+        }
+        return scope;
     }
 
-    private extractCall(
-        node: Parser.SyntaxNode,
-        filePath: string,
-        scope: string[]
-    ): CallEdge | null {
-        const functionNode = node.childForFieldName('function');
-        if (!functionNode) {
+    /**
+     * Name and receiver of a reference: `run` -> run, `this.auth.login` ->
+     * login on `this.auth`, `std::sort` -> sort on `std`
+     */
+    private referenceName(tag: Tag): { name: string; receiver?: string } | null {
+        const parts = this.splitName(tag.name.text);
+        const name = parts.pop();
+        if (!name) {
             return null;
         }
 
-        const calleeName = this.extractCalleeNameFromNode(functionNode);
-        if (!calleeName) {
-            return null;
+        if (tag.receiver) {
+            return { name, receiver: this.receiverName(this.splitName(tag.receiver.text).join('.')) };
         }
-
-        const caller = scope.length > 0 ? scope[scope.length - 1] : path.basename(filePath);
-
-        return {
-            from: caller,
-            to: calleeName,
-            symbol: calleeName
-        };
+        return parts.length > 0 ? { name, receiver: this.receiverName(parts.join('.')) } : { name };
     }
 
-    private extractCallsFromNode(node: Parser.SyntaxNode): string[] {
-        const calls: string[] = [];
-        const visitNode = (n: Parser.SyntaxNode) => {
-            if (this.isCallExpression(n)) {
-                const functionNode = n.childForFieldName('function');
-                if (functionNode) {
-                    const name = this.extractCalleeNameFromNode(functionNode);
-                    if (name) {
-                        calls.push(name);
-                    }
-                }
-            }
-            for (const child of n.children) {
-                visitNode(child);
-            }
-        };
-        visitNode(node);
-        return calls;
+    /**
+     * `definition.function` -> Function
+     */
+    private symbolKind(role: string): string {
+        const kind = role.substring(role.indexOf('.') + 1);
+        return kind.charAt(0).toUpperCase() + kind.slice(1);
     }
 
-    private extractCalleeNameFromNode(node: Parser.SyntaxNode): string | null {
-        if (node.type === 'identifier') {
-            return node.text;
-        }
-        if (node.type === 'member_expression') {
-            const propertyNode = node.childForFieldName('property');
-            return propertyNode ? propertyNode.text : null;
-        }
-        return null;
+    /**
+     * `ns::Base<T>` -> ['ns', 'Base']
+     */
+    private splitName(text: string): string[] {
+        return text.replace(/<.*>$/s, '').split(NAME_SEPARATOR).map(part => part.trim()).filter(part => part);
     }
 
-    private mapNodeTypeToSymbolKind(nodeType: string): string {
-        const mapping: { [key: string]: string } = {
-            'function_declaration': 'Function',
-            'function_definition': 'Function',
-            'method_definition': 'Method',
-            'class_declaration': 'Class',
-            'class_definition': 'Class',
-            'arrow_function': 'Function',
-            'function_expression': 'Function'
-        };
-        return mapping[nodeType] || 'Unknown';
+    /**
+     * A receiver as written, or '' when it is not a plain dotted name
+     */
+    private receiverName(receiver: string): string {
+        return /^[\w$.]+$/.test(receiver) ? receiver : '';
     }
 
-    private getLanguageParser(languageId: string): any {
-        const langMap: { [key: string]: any } = {
-            'typescript': this.tsLanguage,
-            'typescriptreact': this.tsLanguage,
-            'javascript': this.jsLanguage,
-            'javascriptreact': this.jsLanguage,
-            'python': this.pyLanguage
-        };
-        return langMap[languageId];
+    /**
+     * Parse source text, reusing an edited `oldTree`; the Node binding
+     * rejects inputs over 32KB unless the buffer size is raised explicitly
+     */
+    private parse(content: string, oldTree?: Parser.Tree): Parser.Tree {
+        return this.parser.parse(content, oldTree, { bufferSize: content.length * 2 + 1 });
     }
 
     private detectLanguage(filePath: string): string {
-        const ext = path.extname(filePath);
-        const extMap: { [key: string]: string } = {
-            '.ts': 'typescript',
-            '.tsx': 'typescriptreact',
-            '.js': 'javascript',
-            '.jsx': 'javascriptreact',
-            '.py': 'python'
-        };
-        return extMap[ext] || 'unknown';
+        return detectLanguageId(filePath);
     }
 }
+
+/**
+ * Position after the last character of `text`, which starts at `start`
+ */
+function endPoint(text: string, start: Parser.Point = { row: 0, column: 0 }): Parser.Point {
+    const lastBreak = text.lastIndexOf('\n');
+    if (lastBreak < 0) {
+        return { row: start.row, column: start.column + text.length };
+    }
+    return { row: start.row + text.split('\n').length - 1, column: text.length - lastBreak - 1 };
+}
+
+/**
+ * SymbolNode fields of a definition's scope and declaration details; empty ones are left out
+ */
+export function declarationFields(symbol: TreeSitterSymbol): Partial<SymbolNode> {
+    return {
+        ...(symbol.scope.length > 0 && { scope: symbol.scope }),
+        ...(symbol.docstring && { docstring: symbol.docstring }),
+        ...(symbol.visibility && { visibility: symbol.visibility }),
+        ...(symbol.modifiers.length > 0 && { modifiers: symbol.modifiers }),
+        ...(symbol.decorators.length > 0 && { decorators: symbol.decorators })
+    };
+}
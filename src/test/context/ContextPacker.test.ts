@@ -0,0 +1,98 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContextPacker, estimateTokens } from '../../context/ContextPacker';
+import { EnhancedQueryResult } from '../../orchestrator/CopilotIntelligenceOrchestrator';
+import { ContextGraph, SymbolNode } from '../../types';
+
+const BOX_SOURCE = [
+    'class Box {',
+    '    first() {',
+    '        return 1;',
+    '    }',
+    '',
+    '    // Second comes',
+    '    // after first',
+    '    second() {',
+    '        return 2;',
+    '    }',
+    '}'
+].join('\n');
+
+describe('ContextPacker', () => {
+    let workspace: string;
+    let filePath: string;
+    let graph: ContextGraph;
+
+    const symbol = (name: string, line: number, endLine: number): SymbolNode => ({
+        name,
+        kind: 'Method',
+        signature: name,
+        location: { line, character: 0, endLine },
+        referencedBy: []
+    });
+
+    const result = (name: string, relevanceScore: number): EnhancedQueryResult => ({
+        symbol: name,
+        file: 'src/box.ts',
+        line: 0,
+        type: 'Method',
+        relevanceScore,
+        explanation: { lexicalScore: 0, semanticScore: 0, graphScore: 0, matchedTerms: [], graphRelationships: [] }
+    });
+
+    before(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'logicgraph-packer-'));
+        filePath = path.join(workspace, 'src', 'box.ts');
+        fs.mkdirSync(path.dirname(filePath));
+        fs.writeFileSync(filePath, BOX_SOURCE);
+        graph = {
+            generated: '',
+            anchor: workspace,
+            config: { maxDepth: 3, useSkeletonMode: false, maxFileSize: 1024 * 1024, batchSize: 10, streamingThreshold: 1024 },
+            nodes: [{
+                filePath,
+                language: 'typescript',
+                depth: 0,
+                symbols: [symbol('Box', 0, 10), symbol('Box.first', 1, 3), symbol('Box.second', 7, 9)],
+                imports: []
+            }],
+            callGraph: []
+        };
+    });
+
+    after(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('merges a range with every packed range it overlaps', () => {
+        const pack = new ContextPacker(workspace, graph).pack(
+            'box',
+            [result('Box.first', 0.9), result('Box.second', 0.8), result('Box', 0.5)],
+            { tokenBudget: 1000, includeImports: false, includeCallers: false }
+        );
+
+        assert.deepStrictEqual(
+            pack.snippets.map(snippet => [snippet.startLine, snippet.endLine, snippet.symbols]),
+            [[0, 10, ['Box.first', 'Box.second', 'Box']]]
+        );
+        assert.strictEqual(pack.snippets[0].code, BOX_SOURCE);
+        assert.strictEqual(pack.tokensUsed, estimateTokens(BOX_SOURCE));
+    });
+
+    it('keeps ranges that do not overlap apart', () => {
+        const pack = new ContextPacker(workspace, graph).pack(
+            'box',
+            [result('Box.first', 0.9), result('Box.second', 0.8)],
+            { tokenBudget: 1000, includeImports: false, includeCallers: false }
+        );
+
+        assert.deepStrictEqual(
+            pack.snippets.map(snippet => [snippet.startLine, snippet.endLine, snippet.symbols]),
+            [[1, 3, ['Box.first']], [7, 9, ['Box.second']]]
+        );
+        assert.strictEqual(pack.tokensUsed, pack.snippets.reduce((sum, snippet) => sum + snippet.tokens, 0));
+    });
+});
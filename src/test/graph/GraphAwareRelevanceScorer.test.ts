@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { GraphAwareRelevanceScorer } from '../../graph/GraphAwareRelevanceScorer';
+import { CallEdge, ContextGraph, GraphNode } from '../../types';
+
+const APP = '/repo/src/app.ts';
+const INDEX = '/repo/src/index.ts';
+const OLD_RUN = '/repo/src/legacy.ts';
+const NEW_RUN = '/repo/src/runner.ts';
+
+const node = (filePath: string, symbols: string[]): GraphNode => ({
+    filePath,
+    language: 'typescript',
+    depth: 0,
+    symbols: symbols.map(name => ({
+        name,
+        kind: 'Function',
+        signature: `function ${name}()`,
+        location: { line: 0, character: 0 },
+        referencedBy: []
+    })),
+    imports: []
+});
+
+const graphOf = (callGraph: CallEdge[]): ContextGraph => ({
+    generated: '',
+    anchor: APP,
+    config: { maxDepth: 3, useSkeletonMode: false, maxFileSize: 0, batchSize: 0, streamingThreshold: 0 },
+    nodes: [node(APP, ['main']), node(INDEX, []), node(OLD_RUN, ['run']), node(NEW_RUN, ['run'])],
+    callGraph,
+    typeHierarchy: []
+});
+
+describe('GraphAwareRelevanceScorer', () => {
+    it('updateFiles: re-reads edges between unchanged files that a changed file re-routed', () => {
+        // app.ts calls `run` through the re-exports of index.ts
+        const before: CallEdge = { from: `${APP}#main`, to: `${OLD_RUN}#run`, symbol: 'run', kind: 'call', line: 3 };
+        const after: CallEdge = { from: `${APP}#main`, to: `${NEW_RUN}#run`, symbol: 'run', kind: 'call', line: 3 };
+
+        const scorer = new GraphAwareRelevanceScorer();
+        scorer.loadContextGraph(graphOf([before]));
+        // index.ts now re-exports `run` from runner.ts
+        scorer.updateFiles(graphOf([after]), [INDEX]);
+
+        assert.deepStrictEqual(scorer.getOutgoingEdges(`${APP}#main`), [after]);
+        assert.deepStrictEqual(scorer.getIncomingEdges(`${OLD_RUN}#run`), []);
+        assert.deepStrictEqual(scorer.getIncomingEdges(`${NEW_RUN}#run`), [after]);
+    });
+});
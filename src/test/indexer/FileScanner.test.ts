@@ -0,0 +1,106 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileScanner } from '../../indexer/FileScanner';
+
+describe('FileScanner', () => {
+    let root: string;
+    let workspace: string;
+
+    const write = (relativePath: string, content = 'export const x = 1;\n') => {
+        const filePath = path.join(workspace, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    const relativeFiles = (files: string[]) => files.map(file => path.relative(workspace, file).split(path.sep).join('/'));
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'logicgraph-scanner-'));
+        workspace = path.join(root, 'workspace');
+        write('src/main.ts');
+        write('src/gen/api.gen.ts');
+        write('src/gen/keep.gen.ts');
+        write('src/.gitignore', '*.gen.ts\n!keep.gen.ts\n');
+        write('src/secret.ts');
+        write('.git/info/exclude', 'src/secret.ts\n');
+        write('vendor/lib.ts');
+        write('.logicgraphignore', 'vendor/\n');
+        write('node_modules/pkg/index.js');
+        write('src/deep/a/b/deep.ts');
+        write('README.md', '# readme\n');
+        write('../outside/external.ts');
+        fs.symlinkSync(path.join(workspace, 'src'), path.join(workspace, 'src/self'), 'dir');
+        fs.symlinkSync(path.join(workspace, 'src/gen'), path.join(workspace, 'src/zgen'), 'dir');
+        fs.symlinkSync(path.join(root, 'outside'), path.join(workspace, 'src/external'), 'dir');
+    });
+
+    after(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('honours nested .gitignore files, .git/info/exclude, .logicgraphignore and the built-in excludes', async () => {
+        const result = await new FileScanner().scan(workspace);
+
+        assert.deepStrictEqual(relativeFiles(result.files), [
+            'src/deep/a/b/deep.ts',
+            'src/gen/keep.gen.ts',
+            'src/main.ts'
+        ]);
+        assert.deepStrictEqual(result.excluded, [
+            { path: '.git/', reason: 'built-in:1: .git' },
+            { path: 'node_modules/', reason: 'built-in:2: node_modules' },
+            { path: 'src/external', reason: 'symbolic link (symlinks: skip)' },
+            { path: 'src/gen/api.gen.ts', reason: 'src/.gitignore:1: *.gen.ts' },
+            { path: 'src/secret.ts', reason: '.git/info/exclude:1: src/secret.ts' },
+            { path: 'src/self', reason: 'symbolic link (symlinks: skip)' },
+            { path: 'src/zgen', reason: 'symbolic link (symlinks: skip)' },
+            { path: 'vendor/', reason: '.logicgraphignore:1: vendor/' }
+        ]);
+    });
+
+    it('applies include and exclude globs and the depth limit', async () => {
+        const scanner = new FileScanner({ include: ['src/**'], exclude: ['src/main.ts'], maxDepth: 2 });
+        const result = await scanner.scan(workspace);
+
+        assert.deepStrictEqual(relativeFiles(result.files), ['src/gen/keep.gen.ts']);
+        assert.deepStrictEqual(
+            await scanner.explain(workspace, ['src/main.ts', 'src/deep/a/b/deep.ts', 'README.md']),
+            ['exclude setting:1: src/main.ts', 'deeper than maxDepth 2', 'not a code file']
+        );
+    });
+
+    it('tells a symbolic link cycle from a second link to a directory already walked', async () => {
+        const scanner = new FileScanner({ symlinks: 'follow' });
+        const result = await scanner.scan(workspace);
+
+        assert.ok(relativeFiles(result.files).includes('src/external/external.ts'));
+        assert.deepStrictEqual(
+            result.excluded.filter(entry => entry.path === 'src/self/' || entry.path === 'src/zgen/'),
+            [
+                { path: 'src/self/', reason: 'symbolic link cycle' },
+                { path: 'src/zgen/', reason: 'duplicate of src/gen/' }
+            ]
+        );
+        assert.deepStrictEqual(
+            await scanner.explain(workspace, ['src/self/main.ts', 'src/zgen/keep.gen.ts', 'src/gen/keep.gen.ts']),
+            ['symbolic link cycle', 'duplicate of src/gen/', null]
+        );
+    });
+
+    it('follows only links into the workspace with the workspace policy', async () => {
+        const scanner = new FileScanner({ symlinks: 'workspace' });
+
+        assert.deepStrictEqual(
+            await scanner.explain(workspace, ['src/external/external.ts', 'vendor', 'missing.ts', '../outside/external.ts']),
+            [
+                'symbolic link outside the workspace (symlinks: workspace)',
+                '.logicgraphignore:1: vendor/',
+                'not found',
+                'outside the workspace'
+            ]
+        );
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHeadlessIndexer } from '../../indexer/HeadlessGraphBuilder';
+import { graphConfigFromSettings, DEFAULT_SETTINGS } from '../../config/LogicGraphSettings';
+
+const FIXTURES = path.resolve(__dirname, '../../../test/fixtures/languages');
+
+describe('Headless indexer', () => {
+    let workspace: string;
+
+    before(() => {
+        // The language fixtures, and a file calling into one of them
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'logicgraph-indexer-'));
+        fs.cpSync(FIXTURES, workspace, { recursive: true });
+        fs.mkdirSync(path.join(workspace, 'app'));
+        fs.writeFileSync(path.join(workspace, 'app/main.ts'), [
+            "import { Counter, createCounter } from '../sample';",
+            '',
+            'export function run(): number {',
+            '    const counter: Counter = createCounter();',
+            '    return counter.tick();',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    after(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    const index = async (workers?: number) => {
+        const { indexer, workerPool } = createHeadlessIndexer(workspace, { workers });
+        try {
+            const { graph, fileHashes } = await indexer.generateIndex(workspace, graphConfigFromSettings(DEFAULT_SETTINGS));
+            return { graph: { ...graph, generated: '' }, fileHashes };
+        } finally {
+            await workerPool?.dispose();
+        }
+    };
+
+    it('builds the same graph on worker threads as in process', async () => {
+        const serial = await index();
+        const pooled = await index(2);
+
+        assert.ok(serial.graph.nodes.length > 0);
+        assert.ok(serial.graph.callGraph.some(edge => edge.from.endsWith('main.ts#run') && edge.to.endsWith('sample.ts#createCounter')));
+        assert.deepStrictEqual(pooled, serial);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { extractImportStatements } from '../../resolver/ImportExtractor';
+
+describe('ImportExtractor', () => {
+    describe('Python', () => {
+        it('reads the names of a backslash-continued import', () => {
+            const imports = extractImportStatements('from a import b, \\\n    c\nx = 1\n', 'python');
+            assert.deepStrictEqual(imports, [{ importPath: 'a', symbols: ['b', 'c'] }]);
+        });
+
+        it('reads imports continued over several lines', () => {
+            const imports = extractImportStatements('import os, \\\n    sys, \\\r\n    json as j\n', 'python');
+            assert.deepStrictEqual(imports.map(i => i.importPath), ['os', 'sys', 'json']);
+        });
+
+        it('reads parenthesised imports and drops aliases and comments', () => {
+            const source = 'from ..pkg import (\n    x,  # first\n    y as z,\n)\n';
+            assert.deepStrictEqual(extractImportStatements(source, 'python'), [
+                { importPath: '..pkg', symbols: ['x', 'y'] }
+            ]);
+        });
+
+        it('stops at the end of an import that is not continued', () => {
+            const imports = extractImportStatements('from a import b\nfrom c import d\n', 'python');
+            assert.deepStrictEqual(imports, [
+                { importPath: 'a', symbols: ['b'] },
+                { importPath: 'c', symbols: ['d'] }
+            ]);
+        });
+    });
+});
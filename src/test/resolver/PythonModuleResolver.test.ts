@@ -0,0 +1,64 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PythonModuleResolver } from '../../resolver/PythonModuleResolver';
+import { ImportResolver } from '../../resolver/ImportResolver';
+
+describe('PythonModuleResolver', () => {
+    let workspace: string;
+
+    const write = (relativePath: string, content = '') => {
+        const filePath = path.join(workspace, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    before(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'logicgraph-python-'));
+        write('lib/shared/__init__.py');
+        write('lib/shared/util.py');
+        write('packages/billing/src/billing/__init__.py');
+        write('packages/orders/src/orders/models.py');
+        write('app/main.py');
+    });
+
+    after(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('resolves from the workspace and src/ by default', () => {
+        const resolver = new PythonModuleResolver(workspace);
+        assert.strictEqual(resolver.resolve('shared.util', path.join(workspace, 'app/main.py')).isExternal, true);
+        assert.strictEqual(resolver.resolve('lib.shared.util', path.join(workspace, 'app/main.py')).resolvedPath,
+            path.join(workspace, 'lib/shared/util.py'));
+    });
+
+    it('resolves from configured source roots', () => {
+        const resolver = new PythonModuleResolver(workspace, ['lib']);
+        assert.strictEqual(resolver.resolve('shared.util', path.join(workspace, 'app/main.py')).resolvedPath,
+            path.join(workspace, 'lib/shared/util.py'));
+    });
+
+    it('expands a `*` segment to every matching directory', () => {
+        const resolver = new PythonModuleResolver(workspace, ['packages/*/src']);
+        assert.deepStrictEqual(resolver.getSourceRoots(), [
+            path.join(workspace, 'packages/billing/src'),
+            path.join(workspace, 'packages/orders/src')
+        ]);
+        assert.strictEqual(resolver.resolve('orders.models', path.join(workspace, 'app/main.py')).resolvedPath,
+            path.join(workspace, 'packages/orders/src/orders/models.py'));
+    });
+
+    it('receives the source roots through ImportResolver', () => {
+        const resolver = ImportResolver.fromWorkspace(workspace, { pythonSourceRoots: ['packages/*/src'] });
+        const [billing] = resolver.resolveImports(
+            [{ importPath: 'billing', symbols: [] }],
+            'python',
+            path.join(workspace, 'app/main.py')
+        );
+        assert.strictEqual(billing.resolvedPath, path.join(workspace, 'packages/billing/src/billing/__init__.py'));
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { HttpEmbeddingProvider } from '../../retrieval/HttpEmbeddingProvider';
+import { SemanticRetriever } from '../../retrieval/SemanticRetriever';
+import { SearchIndex } from '../../types';
+
+interface StubRequest {
+    headers: http.IncomingHttpHeaders;
+    body: { model: string; input: string[]; dimensions?: number };
+}
+
+type StubHandler = (request: StubRequest, res: http.ServerResponse) => void;
+
+/**
+ * One embedding per input: [input length, 1, 0]
+ */
+const embedInputs: StubHandler = (request, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+        data: request.body.input.map((text, index) => ({ index, embedding: [text.length, 1, 0] }))
+    }));
+};
+
+describe('HttpEmbeddingProvider', () => {
+    let server: http.Server;
+    let url: string;
+    let requests: StubRequest[];
+    let handler: StubHandler;
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => {
+                const request = { headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+                requests.push(request);
+                handler(request, res);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    after(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        handler = embedInputs;
+    });
+
+    it('measures the dimension and sends the model and API key', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model', apiKey: 'secret', normalize: false });
+        await provider.initialize();
+
+        assert.strictEqual(provider.dimension, 3);
+        assert.strictEqual(requests.length, 1);
+        assert.strictEqual(requests[0].body.model, 'stub-model');
+        assert.strictEqual(requests[0].headers.authorization, 'Bearer secret');
+    });
+
+    it('embeds in batches of 64 and keeps the input order', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model', normalize: false });
+        await provider.initialize();
+        requests = [];
+
+        const texts = Array.from({ length: 130 }, (_, i) => 'x'.repeat(i + 1));
+        const embeddings = await provider.embed(texts);
+
+        assert.deepStrictEqual(requests.map(request => request.body.input.length), [64, 64, 2]);
+        assert.deepStrictEqual(embeddings.map(embedding => embedding[0]), texts.map(text => text.length));
+    });
+
+    it('orders embeddings by their index', async () => {
+        handler = (request, res) => {
+            const data = request.body.input.map((text, index) => ({ index, embedding: [text.length, 1, 0] }));
+            res.writeHead(200);
+            res.end(JSON.stringify({ data: data.reverse() }));
+        };
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model', normalize: false });
+
+        const embeddings = await provider.embed(['a', 'bb', 'ccc']);
+
+        assert.deepStrictEqual(embeddings.map(embedding => embedding[0]), [1, 2, 3]);
+    });
+
+    it('normalizes embeddings by default', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model' });
+
+        const [embedding] = await provider.embed(['abc']);
+
+        assert.ok(Math.abs(Math.hypot(...embedding) - 1) < 1e-6);
+    });
+
+    it('requests a dimension and rejects an endpoint that ignores it', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model', dimension: 4 });
+
+        await assert.rejects(provider.initialize(), /returned 3-dimensional embeddings, expected 4/);
+        assert.strictEqual(requests[0].body.dimensions, 4);
+    });
+
+    it('rejects embeddings of inconsistent dimension', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model' });
+        await provider.initialize();
+        handler = (request, res) => {
+            res.writeHead(200);
+            res.end(JSON.stringify({ data: request.body.input.map(() => ({ embedding: [1, 0] })) }));
+        };
+
+        await assert.rejects(provider.embed(['a']), /inconsistent dimension/);
+    });
+
+    it('reports non-2xx responses with their status and body', async () => {
+        handler = (_request, res) => {
+            res.writeHead(503);
+            res.end('model is loading');
+        };
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model' });
+
+        await assert.rejects(provider.initialize(), /HTTP 503: model is loading/);
+    });
+
+    it('rejects malformed responses', async () => {
+        const provider = new HttpEmbeddingProvider({ url, model: 'stub-model' });
+        const respond = (body: string): StubHandler => (_request, res) => {
+            res.writeHead(200);
+            res.end(body);
+        };
+
+        handler = respond('not json');
+        await assert.rejects(provider.embed(['a']), /invalid JSON/);
+
+        handler = respond(JSON.stringify({ data: [{ embedding: [1, 0, 0] }] }));
+        await assert.rejects(provider.embed(['a', 'b']), /returned 1 embeddings for 2 inputs/);
+
+        handler = respond(JSON.stringify({ data: [{ embedding: 'nope' }] }));
+        await assert.rejects(provider.embed(['a']), /Malformed embeddings response/);
+
+        handler = respond(JSON.stringify({ error: 'no data' }));
+        await assert.rejects(provider.embed(['a']), /returned 0 embeddings for 1 inputs/);
+    });
+
+    it('reuses cached embeddings across sessions', async () => {
+        const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logicgraph-embeddings-'));
+        const searchIndex: SearchIndex = {
+            _description: '',
+            generated: '',
+            workspace: '',
+            summary: { totalSymbols: 2, totalImports: 0, topFiles: [] },
+            symbolLocations: [
+                { symbol: 'fetchUser', type: 'function', file: 'src/api.ts', line: 1, signature: 'fetchUser(id)' },
+                { symbol: 'saveUser', type: 'function', file: 'src/api.ts', line: 5, signature: 'saveUser(user)' }
+            ],
+            importMap: [],
+            fileMetadata: [{ path: 'src/api.ts', language: 'typescript', size: 100, symbolCount: 2 }]
+        };
+        const embeddedInputs = () => requests.slice(1).reduce((count, request) => count + request.body.input.length, 0);
+
+        try {
+            const first = new SemanticRetriever({ provider: new HttpEmbeddingProvider({ url, model: 'stub-model' }) });
+            first.setCacheDirectory(cacheDir);
+            await first.initialize();
+            await first.indexSearchIndex(searchIndex);
+            assert.strictEqual(embeddedInputs(), 3);
+
+            requests = [];
+            const second = new SemanticRetriever({ provider: new HttpEmbeddingProvider({ url, model: 'stub-model' }) });
+            second.setCacheDirectory(cacheDir);
+            await second.initialize();
+            await second.indexSearchIndex(searchIndex);
+            assert.strictEqual(requests.length, 1); // The dimension probe only
+            assert.strictEqual(embeddedInputs(), 0);
+            assert.deepStrictEqual(second.getStats().cache, { entries: 3, hits: 3, misses: 0 });
+        } finally {
+            fs.rmSync(cacheDir, { recursive: true, force: true });
+        }
+    });
+});
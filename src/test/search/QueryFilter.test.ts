@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { QueryFilter } from '../../search/QueryFilter';
+import { CallEdge } from '../../types';
+
+const HTTP = '/repo/src/http.ts';
+const RETRY = '/repo/src/retry.ts';
+const SETUP = '/repo/src/setup.ts';
+
+const callGraph: CallEdge[] = [
+    { from: HTTP, to: `${RETRY}#retry`, symbol: 'retry', kind: 'import' },
+    { from: `${HTTP}#HttpClient.send`, to: `${RETRY}#retry`, symbol: 'retry', kind: 'call', line: 6 },
+    { from: `${HTTP}#HttpClient.send`, to: `${HTTP}#fetchIt`, symbol: 'fetchIt', kind: 'call', line: 7 },
+    { from: SETUP, to: `${RETRY}#retry`, symbol: 'retry', kind: 'call', line: 2 }
+];
+
+const symbols = [
+    { symbol: 'Transport', file: 'src/http.ts' },
+    { symbol: 'fetchIt', file: 'src/http.ts' },
+    { symbol: 'HttpClient', file: 'src/http.ts' },
+    { symbol: 'HttpClient.constructor', file: 'src/http.ts' },
+    { symbol: 'HttpClient.send', file: 'src/http.ts' },
+    { symbol: 'retry', file: 'src/retry.ts' },
+    { symbol: 'configure', file: 'src/setup.ts' }
+];
+
+const select = (filter: QueryFilter) => symbols.filter(candidate => filter.matches(candidate)).map(c => c.symbol);
+
+describe('QueryFilter', () => {
+    it('calls: selects the symbols that call the target, not the files importing it', () => {
+        const filter = new QueryFilter({ calls: ['retry'] }, callGraph.slice(0, 3));
+        assert.deepStrictEqual(select(filter), ['HttpClient.send']);
+    });
+
+    it('calls: admits the symbols of a file whose module-level code calls the target', () => {
+        const filter = new QueryFilter({ calls: ['retry'] }, callGraph);
+        assert.deepStrictEqual(select(filter), ['HttpClient.send', 'configure']);
+    });
+
+    it('calls: matches the last segment of a qualified name', () => {
+        const filter = new QueryFilter({ calls: ['http.fetchIt'] }, callGraph);
+        assert.deepStrictEqual(select(filter), ['HttpClient.send']);
+    });
+
+    it('calledby: selects the symbols the source calls', () => {
+        const filter = new QueryFilter({ calledBy: ['send'] }, callGraph);
+        assert.deepStrictEqual(select(filter), ['fetchIt', 'retry']);
+    });
+});
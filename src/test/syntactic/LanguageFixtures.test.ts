@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TreeSitterEnhancer } from '../../syntactic/TreeSitterEnhancer';
+
+const FIXTURES = path.resolve(__dirname, '../../../test/fixtures/languages');
+
+/**
+ * Dotted name, kind, and the 0-based [row, column] start and end
+ */
+type ExpectedSymbol = [string, string, [number, number], [number, number]];
+
+interface LanguageFixture {
+    file: string;
+    languageId: string;
+    symbols: ExpectedSymbol[];
+    docstrings: Record<string, string>;
+}
+
+const fixtures: LanguageFixture[] = [
+    {
+        file: 'sample.ts',
+        languageId: 'typescript',
+        symbols: [
+            ['Counter', 'Class', [3, 7], [18, 1]],
+            ['Counter.constructor', 'Constructor', [6, 4], [8, 5]],
+            ['Counter.tick', 'Method', [10, 4], [13, 5]],
+            ['Counter.reset', 'Method', [15, 4], [17, 5]],
+            ['createCounter', 'Function', [20, 7], [22, 1]]
+        ],
+        docstrings: { 'Counter': 'Counts ticks.' }
+    },
+    {
+        file: 'sample.py',
+        languageId: 'python',
+        symbols: [
+            ['Circle', 'Class', [3, 0], [12, 44]],
+            ['Circle.__init__', 'Method', [6, 4], [7, 28]],
+            ['Circle.area', 'Method', [9, 4], [12, 44]],
+            ['Circle.area.square', 'Function', [10, 8], [11, 24]],
+            ['unit_circle', 'Function', [15, 0], [16, 20]]
+        ],
+        docstrings: { 'Circle': 'A circle of a given radius.' }
+    },
+    {
+        file: 'sample.go',
+        languageId: 'go',
+        symbols: [
+            ['Shape', 'Interface', [4, 5], [6, 1]],
+            ['Circle', 'Struct', [8, 5], [10, 1]],
+            ['Circle.Area', 'Method', [13, 0], [15, 1]],
+            ['square', 'Function', [17, 0], [19, 1]]
+        ],
+        docstrings: { 'Circle.Area': 'Area of the circle.' }
+    },
+    {
+        file: 'sample.rs',
+        languageId: 'rust',
+        symbols: [
+            ['Point', 'Struct', [3, 0], [6, 1]],
+            ['Norm', 'Interface', [8, 0], [10, 1]],
+            ['Norm.norm', 'Method', [9, 4], [9, 26]],
+            ['Point.norm', 'Method', [13, 4], [15, 5]],
+            ['Shape', 'Enum', [18, 0], [20, 1]],
+            ['describe', 'Function', [22, 0], [24, 1]],
+            ['Point.new', 'Constructor', [27, 4], [29, 5]]
+        ],
+        docstrings: { 'Point': 'A point in the plane.' }
+    },
+    {
+        file: 'Sample.java',
+        languageId: 'java',
+        symbols: [
+            ['UserRepository', 'Class', [7, 0], [17, 1]],
+            ['UserRepository.UserRepository', 'Constructor', [10, 4], [12, 5]],
+            ['UserRepository.count', 'Method', [14, 4], [16, 5]],
+            ['Repository', 'Interface', [19, 0], [21, 1]],
+            ['Repository.count', 'Method', [20, 4], [20, 16]]
+        ],
+        docstrings: { 'UserRepository': 'Keeps users.' }
+    },
+    {
+        file: 'Sample.cs',
+        languageId: 'csharp',
+        symbols: [
+            ['App', 'Namespace', [2, 0], [22, 1]],
+            ['App.Mailer', 'Class', [5, 4], [16, 5]],
+            ['App.Mailer.Send', 'Method', [7, 8], [10, 9]],
+            ['App.Mailer.Log', 'Method', [12, 8], [15, 9]],
+            ['App.IMailer', 'Interface', [18, 4], [21, 5]],
+            ['App.IMailer.Send', 'Method', [20, 8], [20, 29]]
+        ],
+        docstrings: { 'App.Mailer': '<summary>Sends mail.</summary>' }
+    },
+    {
+        file: 'sample.c',
+        languageId: 'c',
+        symbols: [
+            ['counter', 'Struct', [3, 0], [5, 1]],
+            ['increment', 'Function', [7, 0], [10, 1]],
+            ['main', 'Function', [12, 0], [17, 1]]
+        ],
+        docstrings: {}
+    },
+    {
+        file: 'sample.cpp',
+        languageId: 'cpp',
+        symbols: [
+            ['geo', 'Namespace', [2, 0], [24, 1]],
+            ['geo.Shape', 'Class', [4, 0], [7, 1]],
+            ['geo.Square', 'Class', [9, 0], [17, 1]],
+            ['geo.Square.Square', 'Constructor', [11, 4], [11, 49]],
+            ['geo.Square.area', 'Method', [12, 4], [12, 58]],
+            ['geo.total', 'Function', [19, 0], [22, 1]],
+            ['Circle', 'Class', [26, 0], [32, 1]],
+            ['Circle.Circle', 'Constructor', [34, 0], [34, 50]],
+            ['geo.Square.perimeter', 'Method', [36, 0], [39, 1]]
+        ],
+        docstrings: {}
+    },
+    {
+        file: 'sample.rb',
+        languageId: 'ruby',
+        symbols: [
+            ['Reports', 'Module', [3, 0], [17, 3]],
+            ['Reports.Formatter', 'Class', [4, 2], [16, 5]],
+            ['Reports.Formatter.initialize', 'Method', [5, 4], [7, 7]],
+            ['Reports.Formatter.to_json', 'Method', [9, 4], [11, 7]],
+            ['Reports.Formatter.build', 'Method', [13, 4], [15, 7]]
+        ],
+        docstrings: { 'Reports': 'Formats reports.' }
+    },
+    {
+        file: 'sample.php',
+        languageId: 'php',
+        symbols: [
+            ['ArrayCache', 'Class', [9, 0], [22, 1]],
+            ['ArrayCache.get', 'Method', [13, 4], [16, 5]],
+            ['ArrayCache.make', 'Method', [18, 4], [21, 5]],
+            ['cache', 'Function', [24, 0], [27, 1]]
+        ],
+        docstrings: { 'ArrayCache': 'Array-backed cache.' }
+    }
+];
+
+describe('Tree-sitter language fixtures', () => {
+    const enhancer = new TreeSitterEnhancer();
+
+    for (const fixture of fixtures) {
+        describe(fixture.languageId, () => {
+            const content = fs.readFileSync(path.join(FIXTURES, fixture.file), 'utf8');
+            const symbols = enhancer.extractSymbols(content, fixture.languageId);
+            const dottedName = (symbol: { scope: string[]; name: string }) => [...symbol.scope, symbol.name].join('.');
+
+            it('is supported', () => {
+                assert.ok(enhancer.supportsLanguage(fixture.languageId));
+            });
+
+            it('extracts the symbols with their kinds and ranges', () => {
+                const actual: ExpectedSymbol[] = symbols.map(symbol => [
+                    dottedName(symbol),
+                    symbol.kind,
+                    [symbol.startPosition.row, symbol.startPosition.column],
+                    [symbol.endPosition.row, symbol.endPosition.column]
+                ]);
+                assert.deepStrictEqual(actual, fixture.symbols);
+            });
+
+            it('extracts doc comments', () => {
+                const docstrings = Object.fromEntries(symbols
+                    .filter(symbol => symbol.docstring)
+                    .map(symbol => [dottedName(symbol), symbol.docstring]));
+                assert.deepStrictEqual(docstrings, fixture.docstrings);
+            });
+        });
+    }
+});
@@ -9,11 +9,17 @@ export interface GraphConfig {
 }
 
 export interface PathAliasConfig {
-    aliases: { [alias: string]: string };
+    aliases: { [alias: string]: string[] };
     baseUrl: string;
     nodeModulesPath: string;
 }
 
+export interface ResolvedImport {
+    resolvedPath?: string;
+    isExternal: boolean;
+    packageName?: string;
+}
+
 export interface BatchProcessingState {
     processed: number;
     total: number;
@@ -27,24 +33,57 @@ export interface GraphNode {
     content?: string;
     symbols: SymbolNode[];
     imports: ImportNode[];
+    callSites?: CallSite[]; // References found by Tree-sitter, bound by the call graph builder
+    heritage?: HeritageClause[]; // Base types found by Tree-sitter, bound likewise
+    partial?: boolean; // Outline only: top-level symbols and imports of a file over maxFileSize
 }
 
+/**
+ * - exported: visible outside its module (`export`, Go capitalized names)
+ * - public, protected, private, internal: member or item access
+ */
+export type SymbolVisibility = 'exported' | 'public' | 'protected' | 'private' | 'internal';
+
+export type SymbolModifier = 'async' | 'static' | 'abstract' | 'readonly' | 'override' | 'final';
+
 export interface SymbolNode {
     name: string;
     kind: string;
     signature: string;
     fullCode?: string;
-    docstring?: string;
+    docstring?: string; // Doc comment or docstring, without comment markers
+    scope?: string[]; // Enclosing definitions, outermost first
+    visibility?: SymbolVisibility;
+    modifiers?: SymbolModifier[];
+    decorators?: string[]; // Decorator, annotation or attribute names as written (`app.route`)
     location: {
-        line: number;
+        line: number; // 0-based
         character: number;
+        endLine?: number; // Last line of the symbol's body
+        endCharacter?: number;
     };
-    referencedBy: string[];
+    parentId?: string; // Symbol ID of the enclosing symbol; unset at module level
+    children?: string[]; // Symbol IDs of the symbols directly nested in this one
+    referencedBy: string[]; // Files that import or use the symbol
+    references?: ReferenceSite[]; // Precise use sites, when a language server reported them
+}
+
+/**
+ * A use of a symbol reported by the language server
+ */
+export interface ReferenceSite {
+    file: string;
+    line: number; // 0-based
+    character: number;
+    caller?: string; // Dotted name of the calling symbol ('' for module level); set for call sites only
+    provenance: Extract<EdgeProvenance, 'call-hierarchy' | 'references'>;
 }
 
 export interface ImportNode {
     importPath: string;
     resolvedPath?: string;
+    isExternal?: boolean;
+    packageName?: string;
     symbols: string[];
 }
 
@@ -54,6 +93,7 @@ export interface ContextGraph {
     config: GraphConfig;
     nodes: GraphNode[];
     callGraph: CallEdge[];
+    typeHierarchy?: TypeEdge[]; // Absent in graphs indexed before it existed
 }
 
 export interface QuickIndex {
@@ -93,12 +133,19 @@ export interface SymbolLocation {
     type: string;
     file: string;
     line: number;
+    endLine?: number;
     signature: string;
+    docstring?: string;
+    visibility?: SymbolVisibility;
+    modifiers?: SymbolModifier[];
+    decorators?: string[];
+    parent?: string; // Dotted name of the enclosing symbol in the same file
+    children?: string[]; // Dotted names of the symbols directly nested in this one
 }
 
 export interface ImportMapping {
     file: string;
-    imports: { from: string; symbols: string[] }[];
+    imports: { from: string; symbols: string[]; resolved?: string; external?: boolean }[];
 }
 
 export interface FileMetadata {
@@ -108,10 +155,69 @@ export interface FileMetadata {
     symbolCount: number;
 }
 
+/**
+ * - import: a file imports a symbol
+ * - call, new, decorator: a call, constructor call or decorator application
+ */
+export type CallEdgeKind = 'call' | 'new' | 'decorator' | 'import';
+
+/**
+ * What produced an edge or reference: import statements, Tree-sitter call
+ * sites, or the language server's call hierarchy / references providers
+ */
+export type EdgeProvenance = 'imports' | 'tree-sitter' | 'call-hierarchy' | 'references';
+
+/**
+ * Call graph edge between qualified symbol IDs, `file#Class.method`
+ * (see graph/SymbolId). An ID without `#` is a file: the importing side of
+ * import edges, and the caller for module-level code.
+ */
 export interface CallEdge {
     from: string;
     to: string;
-    symbol: string;
+    symbol: string; // Name as written at the reference: imported or called name
+    kind: CallEdgeKind;
+    line?: number; // 0-based line of the call site
+    provenance?: EdgeProvenance[]; // Every source that reported the edge
+}
+
+/**
+ * - extends: a class or interface extends another; every Python base class
+ * - implements: a class implements an interface
+ */
+export type TypeRelationKind = 'extends' | 'implements';
+
+/**
+ * Type hierarchy edge from a subtype to a supertype, both symbol IDs
+ */
+export interface TypeEdge {
+    from: string;
+    to: string;
+    name: string; // Supertype name as written in the clause
+    kind: TypeRelationKind;
+    line?: number; // 0-based line of the clause
+}
+
+/**
+ * Unresolved base type of a class or interface, as extracted by Tree-sitter
+ */
+export interface HeritageClause {
+    type: string; // Dotted name of the class or interface
+    base: string; // Base type identifier
+    receiver?: string; // Qualifier of a qualified base (`models.Base`); '' when not a plain name
+    kind: TypeRelationKind;
+    line: number; // 0-based
+}
+
+/**
+ * Unresolved reference in a file, as extracted by Tree-sitter
+ */
+export interface CallSite {
+    caller: string; // Dotted name of the enclosing definition, '' for module level
+    callee: string; // Called identifier, or the member name of a member call
+    receiver?: string; // Object of a member call (`this`, `self`, `api`, `a.b`); '' when not a plain name
+    kind: Exclude<CallEdgeKind, 'import'>;
+    line: number; // 0-based
 }
 
 export interface IndexingError {
@@ -125,6 +231,7 @@ export interface IndexingReport {
     totalFiles: number;
     successfulFiles: number;
     skippedFiles: number;
+    partialFiles?: string[]; // Indexed in outline mode
     errors: IndexingError[];
     duration: number;
     timestamp: string;
@@ -146,9 +253,32 @@ export interface QueryContext {
     query: string;
     intent: 'search' | 'definition' | 'references' | 'callGraph';
     entities: string[];
-    filters: {
+    filters: QueryFilters;
+    text?: string; // Query without filter syntax, for ranking
+}
+
+/**
+ * Restrictions parsed from query syntax (`kind:`, `file:`, `lang:`, ...)
+ * Values within one field are alternatives; fields combine with AND
+ */
+export interface QueryFilters {
+    fileTypes?: string[]; // Language ids (lang:)
+    directories?: string[]; // Workspace-relative directory prefixes (in:, dir:)
+    kinds?: string[]; // Lower-case symbol kinds (kind:)
+    filePatterns?: string[]; // Globs over workspace-relative paths (file:)
+    calls?: string[]; // Symbols that call one of these (calls:)
+    calledBy?: string[]; // Symbols called by one of these (calledby:)
+    phrases?: string[]; // Quoted phrases that must appear
+    modifiers?: string[]; // Visibilities and modifiers, all required (is:)
+    decorators?: string[]; // Decorator names (decorator:)
+    exclude?: {
+        terms?: string[]; // -word
         fileTypes?: string[];
         directories?: string[];
+        kinds?: string[];
+        filePatterns?: string[];
+        modifiers?: string[];
+        decorators?: string[];
     };
 }
 
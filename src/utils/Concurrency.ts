@@ -0,0 +1,59 @@
+/**
+ * Concurrency - Bounded parallel mapping and timeouts
+ *
+ * `mapWithConcurrency` starts an item only when one of `limit` slots is
+ * free, so a slow consumer holds back the producer instead of queueing the
+ * whole input. Results keep the input order whatever order items finish in.
+ */
+
+import { ICancellationToken } from '../types';
+
+/**
+ * Map `items` with at most `limit` calls in flight
+ * Stops starting items once cancellation is requested; items already
+ * started finish and the rest are left out of the result
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+    cancellationToken?: ICancellationToken
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const runSlot = async (): Promise<void> => {
+        while (next < items.length && !cancellationToken?.isCancellationRequested) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const slots = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: slots }, runSlot));
+    return cancellationToken?.isCancellationRequested ? results.slice(0, next) : results;
+}
+
+/**
+ * Reject when `promise` has not settled after `timeoutMs`; 0 disables the timeout
+ * The underlying work is not stopped
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    if (timeoutMs <= 0) {
+        return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
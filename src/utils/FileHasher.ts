@@ -31,6 +31,10 @@ export class FileHasher {
         });
     }
 
+    static hashContent(content: string): string {
+        return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+    }
+
     static async calculateMultipleHashes(filePaths: string[]): Promise<Map<string, string>> {
         if (!Array.isArray(filePaths)) {
             throw new Error('filePaths must be an array');
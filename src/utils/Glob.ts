@@ -0,0 +1,77 @@
+/**
+ * Glob - Minimal glob matching for workspace-relative paths
+ *
+ * Supports `**`, `*`, `?`, `{a,b}` alternation and `[abc]` classes,
+ * matching the subset of VS Code glob patterns used by LogicGraph.
+ * Paths are expected to use forward slashes.
+ */
+
+const regexCache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+    const cached = regexCache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    let regex = '';
+    let inGroup = false;
+    let i = 0;
+
+    while (i < pattern.length) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // `**/` matches zero or more directories, trailing `**` matches everything
+                if (pattern[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 3;
+                } else {
+                    regex += '.*';
+                    i += 2;
+                }
+                continue;
+            }
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            regex += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            regex += ')';
+        } else if (char === ',' && inGroup) {
+            regex += '|';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                regex += `[${body}]`;
+                i = end;
+            }
+        } else if ('.+^$()|\\'.includes(char)) {
+            regex += '\\' + char;
+        } else {
+            regex += char;
+        }
+        i++;
+    }
+
+    const compiled = new RegExp(`^${regex}$`);
+    regexCache.set(pattern, compiled);
+    return compiled;
+}
+
+/**
+ * Test a forward-slash relative path against a glob pattern
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+    if (!pattern) {
+        return false;
+    }
+    return globToRegExp(pattern).test(relativePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal JSON-with-comments parser for tsconfig.json / jsconfig.json
+ * Strips line and block comments and trailing commas outside of strings
+ */
+export function parseJsonc(text: string): any {
+    if (typeof text !== 'string') {
+        throw new Error('JSONC input must be a string');
+    }
+
+    let output = '';
+    let inString = false;
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        const next = text[i + 1];
+
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                output += next ?? '';
+                i += 2;
+                continue;
+            }
+            if (char === '"') {
+                inString = false;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+            output += char;
+            i++;
+        } else if (char === '/' && next === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+        } else if (char === '/' && next === '*') {
+            i += 2;
+            while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) {
+                i++;
+            }
+            i += 2;
+        } else if (char === ',') {
+            // Drop trailing commas before a closing bracket
+            const j = skipTrivia(text, i + 1);
+            if (text[j] !== '}' && text[j] !== ']') {
+                output += char;
+            }
+            i++;
+        } else {
+            output += char;
+            i++;
+        }
+    }
+
+    return JSON.parse(output);
+}
+
+function skipTrivia(text: string, start: number): number {
+    let j = start;
+    while (j < text.length) {
+        if (/\s/.test(text[j])) {
+            j++;
+        } else if (text[j] === '/' && text[j + 1] === '/') {
+            while (j < text.length && text[j] !== '\n') {
+                j++;
+            }
+        } else if (text[j] === '/' && text[j + 1] === '*') {
+            const end = text.indexOf('*/', j + 2);
+            j = end === -1 ? text.length : end + 2;
+        } else {
+            break;
+        }
+    }
+    return j;
+}
@@ -0,0 +1,42 @@
+import * as path from 'path';
+
+// File extension -> VS Code language identifier
+const EXTENSION_LANGUAGE_MAP: { [ext: string]: string } = {
+    '.ts': 'typescript',
+    '.mts': 'typescript',
+    '.cts': 'typescript',
+    '.tsx': 'typescriptreact',
+    '.js': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.jsx': 'javascriptreact',
+    '.py': 'python',
+    '.pyi': 'python',
+    '.java': 'java',
+    '.c': 'c',
+    '.h': 'c',
+    '.cpp': 'cpp',
+    '.cc': 'cpp',
+    '.cxx': 'cpp',
+    '.hpp': 'cpp',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.cs': 'csharp',
+    '.php': 'php',
+    '.rb': 'ruby',
+    '.swift': 'swift',
+    '.kt': 'kotlin',
+    '.scala': 'scala',
+    '.vue': 'vue',
+    '.svelte': 'svelte'
+};
+
+/**
+ * Detect the VS Code language identifier for a file
+ * Matches what `TextDocument.languageId` reports so headless and LSP-built
+ * graphs use the same language names
+ */
+export function detectLanguageId(filePath: string): string {
+    const ext = path.extname(filePath).toLowerCase();
+    return EXTENSION_LANGUAGE_MAP[ext] || 'unknown';
+}
@@ -0,0 +1,213 @@
+/**
+ * CallHierarchyEnricher - Call sites and references from the language servers
+ *
+ * Optional indexing phase (`logicGraph.indexing.callHierarchy`). For each
+ * function, method and constructor it asks the language server for the
+ * incoming calls (`vscode.prepareCallHierarchy`, `vscode.provideIncomingCalls`)
+ * and the references (`vscode.executeReferenceProvider`), and records them
+ * on the symbol as `references`. buildCompleteCallGraph turns the call
+ * sites into edges, merged with the Tree-sitter ones, and fills
+ * `referencedBy` from all of them.
+ *
+ * Costs two to three requests per symbol, so it is off by default.
+ */
+
+import * as vscode from 'vscode';
+import type {
+    ContextGraph,
+    GraphNode,
+    SymbolNode,
+    ReferenceSite,
+    IProgress,
+    ICancellationToken
+} from '../types';
+import { findEnclosingSymbol } from '../graph/SymbolTree';
+
+const CALLABLE_KINDS = new Set(['Function', 'Method', 'Constructor']);
+const MODULE_ITEM_KINDS = new Set([vscode.SymbolKind.File, vscode.SymbolKind.Module, vscode.SymbolKind.Namespace]);
+const MAX_DECLARATION_LINES = 5; // Decorators and modifiers can precede the name
+
+export interface CallHierarchyResult {
+    symbols: number; // Symbols queried
+    callSites: number;
+    references: number;
+    failures: number; // Symbols whose requests failed
+}
+
+export class CallHierarchyEnricher {
+    private graph: ContextGraph;
+    private nodesByPath: Map<string, GraphNode>;
+
+    constructor(graph: ContextGraph) {
+        this.graph = graph;
+        this.nodesByPath = new Map(graph.nodes.map(node => [node.filePath, node]));
+    }
+
+    /**
+     * Query the callable symbols of the given files (all files by default)
+     * The symbols' `references` are replaced; rebuild the call graph afterwards
+     */
+    public async enrich(
+        filePaths?: string[],
+        progress?: IProgress,
+        cancellationToken?: ICancellationToken
+    ): Promise<CallHierarchyResult> {
+        const result: CallHierarchyResult = { symbols: 0, callSites: 0, references: 0, failures: 0 };
+        const nodes = filePaths
+            ? filePaths.map(filePath => this.nodesByPath.get(filePath)).filter((node): node is GraphNode => !!node)
+            : this.graph.nodes;
+
+        for (let i = 0; i < nodes.length; i++) {
+            if (cancellationToken?.isCancellationRequested) {
+                break;
+            }
+            if (i % 10 === 0) {
+                progress?.report(`Call hierarchy: ${i}/${nodes.length} files`);
+            }
+
+            const node = nodes[i];
+            const callables = node.symbols.filter(symbol => CALLABLE_KINDS.has(symbol.kind));
+            if (callables.length === 0) {
+                continue;
+            }
+
+            let document: vscode.TextDocument;
+            try {
+                document = await vscode.workspace.openTextDocument(vscode.Uri.file(node.filePath));
+            } catch (error) {
+                result.failures += callables.length;
+                continue;
+            }
+
+            await Promise.all(callables.map(async symbol => {
+                try {
+                    symbol.references = await this.querySymbol(document, symbol);
+                    result.symbols++;
+                    for (const site of symbol.references) {
+                        if (site.caller !== undefined) {
+                            result.callSites++;
+                        } else {
+                            result.references++;
+                        }
+                    }
+                } catch (error) {
+                    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                    console.warn(`CallHierarchyEnricher: ${symbol.name} in ${node.filePath}: ${errorMsg}`);
+                    result.failures++;
+                }
+            }));
+        }
+
+        return result;
+    }
+
+    private async querySymbol(document: vscode.TextDocument, symbol: SymbolNode): Promise<ReferenceSite[]> {
+        const position = this.namePosition(document, symbol);
+        if (!position) {
+            return [];
+        }
+
+        const sites: ReferenceSite[] = [];
+        const seen = new Set<string>();
+        const add = (site: ReferenceSite) => {
+            const key = `${site.file}:${site.line}:${site.character}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                sites.push(site);
+            }
+        };
+
+        const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+            'vscode.prepareCallHierarchy',
+            document.uri,
+            position
+        );
+        for (const item of items || []) {
+            const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>(
+                'vscode.provideIncomingCalls',
+                item
+            );
+            for (const call of calls || []) {
+                const caller = this.callerName(call.from);
+                for (const range of call.fromRanges) {
+                    add({
+                        file: call.from.uri.fsPath,
+                        line: range.start.line,
+                        character: range.start.character,
+                        ...(caller !== undefined && { caller }),
+                        provenance: 'call-hierarchy'
+                    });
+                }
+            }
+        }
+
+        // Calls were added first, so references only add the other uses
+        const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+            'vscode.executeReferenceProvider',
+            document.uri,
+            position
+        );
+        for (const location of locations || []) {
+            const isDeclaration = location.uri.fsPath === document.uri.fsPath && location.range.contains(position);
+            const key = `${location.uri.fsPath}:${location.range.start.line}:${location.range.start.character}`;
+            if (!isDeclaration && !seen.has(key)) {
+                add({
+                    file: location.uri.fsPath,
+                    line: location.range.start.line,
+                    character: location.range.start.character,
+                    provenance: 'references'
+                });
+            }
+        }
+
+        return sites;
+    }
+
+    /**
+     * Position of the symbol's name; symbol locations point at the start of
+     * the declaration, which can be a decorator or a modifier
+     */
+    private namePosition(document: vscode.TextDocument, symbol: SymbolNode): vscode.Position | null {
+        const name = symbol.name.substring(symbol.name.lastIndexOf('.') + 1);
+        const pattern = new RegExp(`(^|[^\\w$])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$])`);
+        const lastLine = Math.min(symbol.location.line + MAX_DECLARATION_LINES, document.lineCount - 1);
+
+        for (let line = symbol.location.line; line <= lastLine; line++) {
+            const text = document.lineAt(line).text;
+            const from = line === symbol.location.line ? symbol.location.character : 0;
+            const match = pattern.exec(text.substring(from));
+            if (match) {
+                return new vscode.Position(line, from + match.index + match[1].length);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Dotted name of the graph symbol a call hierarchy item stands for
+     * '' for module-level code; undefined when it is not in the graph
+     */
+    private callerName(item: vscode.CallHierarchyItem): string | undefined {
+        if (MODULE_ITEM_KINDS.has(item.kind)) {
+            return '';
+        }
+
+        const node = this.nodesByPath.get(item.uri.fsPath);
+        if (!node) {
+            return undefined;
+        }
+
+        // The nearest declaration of that name at or before the item's name
+        const line = item.selectionRange.start.line;
+        let best: SymbolNode | undefined;
+        for (const symbol of node.symbols) {
+            const shortName = symbol.name.substring(symbol.name.lastIndexOf('.') + 1);
+            if (shortName === item.name && symbol.location.line <= line &&
+                (!best || symbol.location.line > best.location.line)) {
+                best = symbol;
+            }
+        }
+        // Names the provider reports differently (constructors, accessors): the symbol whose range holds the item
+        return best?.name ?? findEnclosingSymbol(node.symbols, line, item.selectionRange.start.character)?.name;
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * ConfigurationService - `logicGraph.*` workspace settings for the extension
+ *
+ * Reads the settings through LogicGraphSettings, reports rejected values
+ * in the output channel (and once per distinct problem as a warning), and
+ * tells listeners which sections changed so they can re-tune in place.
+ */
+
+import * as vscode from 'vscode';
+import {
+    LogicGraphSettings,
+    SettingsSection,
+    SETTINGS_SECTIONS,
+    readSettings
+} from '../config/LogicGraphSettings';
+
+const CONFIGURATION_SECTION = 'logicGraph';
+
+export type SettingsChangeListener = (settings: LogicGraphSettings, changed: SettingsSection[]) => void;
+
+export class ConfigurationService {
+    private outputChannel: vscode.OutputChannel;
+    private settings: LogicGraphSettings;
+    private listeners: SettingsChangeListener[] = [];
+    private reportedProblems = new Set<string>();
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.settings = this.load();
+    }
+
+    public getSettings(): LogicGraphSettings {
+        return this.settings;
+    }
+
+    /**
+     * Listen for changes to the logicGraph settings
+     */
+    public onDidChange(listener: SettingsChangeListener): vscode.Disposable {
+        this.listeners.push(listener);
+        return new vscode.Disposable(() => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        });
+    }
+
+    public register(): vscode.Disposable {
+        return vscode.workspace.onDidChangeConfiguration(event => {
+            if (!event.affectsConfiguration(CONFIGURATION_SECTION)) {
+                return;
+            }
+
+            const changed = SETTINGS_SECTIONS.filter(section =>
+                event.affectsConfiguration(`${CONFIGURATION_SECTION}.${section}`)
+            );
+            this.settings = this.load();
+            this.outputChannel.appendLine(`[Settings] Changed: ${changed.join(', ')}`);
+
+            for (const listener of this.listeners) {
+                try {
+                    listener(this.settings, changed);
+                } catch (error) {
+                    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                    this.outputChannel.appendLine(`[Settings] ⚠️ Failed to apply settings: ${errorMsg}`);
+                }
+            }
+        });
+    }
+
+    private load(): LogicGraphSettings {
+        const configuration = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+        const { settings, problems } = readSettings(key => configuration.get(key));
+
+        for (const problem of problems) {
+            this.outputChannel.appendLine(`[Settings] ⚠️ ${problem}`);
+            if (!this.reportedProblems.has(problem)) {
+                this.reportedProblems.add(problem);
+                vscode.window.showWarningMessage(`LogicGraph: ${problem}`);
+            }
+        }
+        return settings;
+    }
+}
@@ -5,24 +5,46 @@
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
 import type {
     GraphConfig,
     GraphNode,
     SymbolNode,
     ImportNode,
     ContextGraph,
-    QuickIndex,
-    SearchIndex,
     IndexingReport
 } from '../types';
+import { ImportResolver } from '../resolver/ImportResolver';
+import { extractImportStatements } from '../resolver/ImportExtractor';
+import { buildCompleteCallGraph } from '../graph/CallGraphBuilder';
+import { TreeSitterEnhancer } from '../syntactic/TreeSitterEnhancer';
+import { linkSymbolTree } from '../graph/SymbolTree';
+import { buildOutlineNode } from '../indexer/OutlineNode';
+import { IndexWorkerPool } from '../indexer/IndexWorkerPool';
+import { detectLanguageId } from '../utils/LanguageDetector';
+
+// Index generators moved to a VSCode-free module; re-exported for existing imports
+export { generateQuickIndex, generateSearchIndex } from '../indexer/IndexGenerators';
+
+// Call sites, base types and declaration details come from Tree-sitter; the symbol provider does not report them
+const treeSitterEnhancer = new TreeSitterEnhancer();
+
+/**
+ * Use the workspace's own tag queries from `.logicgraph/queries/`
+ */
+export function loadWorkspaceQueries(workspacePath: string): string[] {
+    return treeSitterEnhancer.loadWorkspaceQueries(workspacePath);
+}
 
 /**
  * Build a graph node using VSCode's LSP
+ * The file is parsed with Tree-sitter on the pool's workers when given one;
+ * workers read the file from disk, so unsaved documents are parsed here
  */
 export async function buildGraphNodeVSCode(
     filePath: string,
-    config: GraphConfig
+    config: GraphConfig,
+    importResolver?: ImportResolver,
+    workerPool?: IndexWorkerPool
 ): Promise<GraphNode> {
     const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
     const stats = fs.statSync(filePath);
@@ -36,7 +58,7 @@ export async function buildGraphNodeVSCode(
     };
 
     const fileSize = stats.size;
-    if (fileSize < 1024 * 50 && !config.useSkeletonMode) {
+    if (fileSize < config.streamingThreshold && !config.useSkeletonMode) {
         node.content = document.getText();
     }
 
@@ -51,7 +73,14 @@ export async function buildGraphNodeVSCode(
             node.symbols = extractSymbolNodes(document, symbols, config.useSkeletonMode);
         }
 
-        node.imports = await extractImports(document);
+        // Doc comments, modifiers and decorators come from the syntax tree too
+        const enhancement = workerPool && !document.isDirty
+            ? await workerPool.analyzeFile(filePath, document.languageId)
+            : treeSitterEnhancer.enhanceGraphNode(node, document.getText());
+        node.symbols = treeSitterEnhancer.mergeEnhancements(node.symbols, enhancement);
+        node.imports = await extractImports(document, enhancement.imports, importResolver);
+        node.callSites = enhancement.callSites;
+        node.heritage = enhancement.heritage;
 
     } catch (error) {
         console.error('Error building node:', error);
@@ -60,6 +89,22 @@ export async function buildGraphNodeVSCode(
     return node;
 }
 
+/**
+ * Build the partial node of a file over `maxFileSize` from a Tree-sitter
+ * outline; the document is not opened, so the language servers never load it
+ */
+export async function buildOutlineNodeVSCode(
+    filePath: string,
+    importResolver?: ImportResolver,
+    workerPool?: IndexWorkerPool
+): Promise<GraphNode> {
+    const languageId = detectLanguageId(filePath);
+    const outline = workerPool
+        ? await workerPool.outlineFile(filePath, languageId)
+        : await treeSitterEnhancer.extractOutline(filePath, languageId);
+    return buildOutlineNode(filePath, languageId, outline, importResolver);
+}
+
 function extractSymbolNodes(
     document: vscode.TextDocument,
     symbols: vscode.DocumentSymbol[],
@@ -79,8 +124,11 @@ function extractSymbolNodes(
                 signature: extractSignatureText(document, symbol),
                 location: {
                     line: symbol.range.start.line,
-                    character: symbol.range.start.character
+                    character: symbol.range.start.character,
+                    endLine: symbol.range.end.line,
+                    endCharacter: symbol.range.end.character
                 },
+                ...(parentName && { scope: parentName.split('.') }),
                 referencedBy: []
             };
 
@@ -101,7 +149,7 @@ function extractSymbolNodes(
     }
 
     processSymbols(symbols);
-    return symbolNodes;
+    return linkSymbolTree(document.uri.fsPath, symbolNodes);
 }
 
 function extractSignatureText(
@@ -137,180 +185,29 @@ function extractSignatureText(
     return signatureText;
 }
 
-async function extractImports(document: vscode.TextDocument): Promise<ImportNode[]> {
-    const imports: ImportNode[] = [];
-    const text = document.getText();
-    const language = document.languageId;
-
-    // JavaScript/TypeScript
-    if (language === 'javascript' || language === 'typescript' || 
-        language === 'javascriptreact' || language === 'typescriptreact') {
-        
-        const es6Pattern = /import\s+(?:{([^}]+)}|([*\w]+)|\*\s+as\s+(\w+))\s+from\s+['"]([^'"]+)['"]/g;
-        let match;
-
-        while ((match = es6Pattern.exec(text)) !== null) {
-            const symbols: string[] = [];
-            
-            if (match[1]) symbols.push(...match[1].split(',').map(s => s.trim()));
-            if (match[2]) symbols.push(match[2]);
-            if (match[3]) symbols.push(match[3]);
-
-            imports.push({
-                importPath: match[4],
-                symbols: symbols
-            });
-        }
-    }
-
-    // Python
-    if (language === 'python') {
-        const pythonPattern = /^(?:from\s+([\w.]+)\s+)?import\s+(.+)/gm;
-        let match;
-
-        while ((match = pythonPattern.exec(text)) !== null) {
-            const fromModule = match[1];
-            const importedItems = match[2];
-
-            if (fromModule) {
-                imports.push({
-                    importPath: fromModule,
-                    symbols: importedItems.split(',').map(s => s.trim())
-                });
-            }
-        }
-    }
-
-    return imports;
+async function extractImports(
+    document: vscode.TextDocument,
+    treeSitterImports: ImportNode[],
+    importResolver?: ImportResolver
+): Promise<ImportNode[]> {
+    // Import tables cover the languages without ImportExtractor patterns
+    const imports = treeSitterImports.length > 0
+        ? treeSitterImports
+        : extractImportStatements(document.getText(), document.languageId);
+
+    // Resolve specifiers to workspace files; anything else is an external package
+    return importResolver
+        ? importResolver.resolveImports(imports, document.languageId, document.uri.fsPath)
+        : imports;
 }
 
+
 /**
  * Build complete call graph
+ * Kept for existing callers; the implementation is shared with the headless indexer
  */
 export async function buildCompleteCallGraphVSCode(graph: ContextGraph): Promise<void> {
-    const nodeMap = new Map<string, GraphNode>();
-    for (const node of graph.nodes) {
-        nodeMap.set(node.filePath, node);
-    }
-
-    for (const node of graph.nodes) {
-        for (const importNode of node.imports) {
-            if (!importNode.resolvedPath) {
-                continue;
-            }
-
-            const targetNode = nodeMap.get(importNode.resolvedPath);
-            if (!targetNode) {
-                continue;
-            }
-
-            for (const symbolName of importNode.symbols) {
-                graph.callGraph.push({
-                    from: node.filePath,
-                    to: importNode.resolvedPath,
-                    symbol: symbolName
-                });
-
-                const symbol = targetNode.symbols.find(s => 
-                    s.name === symbolName || s.name.endsWith('.' + symbolName)
-                );
-                if (symbol) {
-                    symbol.referencedBy.push(node.filePath);
-                }
-            }
-        }
-    }
-}
-
-/**
- * Generate quick index
- */
-export function generateQuickIndex(graph: ContextGraph, workspacePath: string): QuickIndex {
-    const filesByDirectory: { [directory: string]: any[] } = {};
-    const languageCounts: { [key: string]: number } = {};
-
-    for (const node of graph.nodes) {
-        const relativePath = path.relative(workspacePath, node.filePath);
-        const directory = path.dirname(relativePath);
-
-        if (!filesByDirectory[directory]) {
-            filesByDirectory[directory] = [];
-        }
-
-        filesByDirectory[directory].push({
-            path: relativePath,
-            language: node.language,
-            symbols: node.symbols.map(s => s.name)
-        });
-
-        languageCounts[node.language] = (languageCounts[node.language] || 0) + 1;
-    }
-
-    return {
-        _description: 'Quick Index for LLM context',
-        generated: new Date().toISOString(),
-        workspace: workspacePath,
-        summary: {
-            totalFiles: graph.nodes.length,
-            totalSymbols: graph.nodes.reduce((sum, n) => sum + n.symbols.length, 0),
-            languages: languageCounts
-        },
-        filesByDirectory
-    };
-}
-
-/**
- * Generate search index
- */
-export function generateSearchIndex(graph: ContextGraph, workspacePath: string): SearchIndex {
-    const symbolLocations: any[] = [];
-    const importMap: any[] = [];
-    const fileMetadata: any[] = [];
-
-    for (const node of graph.nodes) {
-        const relativePath = path.relative(workspacePath, node.filePath);
-
-        for (const symbol of node.symbols) {
-            symbolLocations.push({
-                symbol: symbol.name,
-                type: symbol.kind,
-                file: relativePath,
-                line: symbol.location.line,
-                signature: symbol.signature
-            });
-        }
-
-        if (node.imports.length > 0) {
-            importMap.push({
-                file: relativePath,
-                imports: node.imports.map(imp => ({
-                    from: imp.importPath,
-                    symbols: imp.symbols
-                }))
-            });
-        }
-
-        fileMetadata.push({
-            path: relativePath,
-            language: node.language,
-            size: fs.statSync(node.filePath).size,
-            symbolCount: node.symbols.length
-        });
-    }
-
-    return {
-        _description: 'Search Index for symbol lookup',
-        generated: new Date().toISOString(),
-        workspace: workspacePath,
-        summary: {
-            totalSymbols: symbolLocations.length,
-            totalImports: importMap.reduce((sum, m) => sum + m.imports.length, 0),
-            topFiles: fileMetadata.slice(0, 10)
-        },
-        symbolLocations,
-        importMap,
-        fileMetadata
-    };
+    await buildCompleteCallGraph(graph);
 }
 
 /**
@@ -352,6 +249,7 @@ export function showIndexingReportWebview(report: IndexingReport): void {
                 <h2>Summary</h2>
                 <div class="stat"><div class="stat-label">Total Files</div><div class="stat-value">${report.totalFiles}</div></div>
                 <div class="stat"><div class="stat-label">Successful</div><div class="stat-value success">${report.successfulFiles}</div></div>
+                <div class="stat"><div class="stat-label">Partial</div><div class="stat-value">${report.partialFiles?.length ?? 0}</div></div>
                 <div class="stat"><div class="stat-label">Errors</div><div class="stat-value error">${report.errors.length}</div></div>
                 <div class="stat"><div class="stat-label">Success Rate</div><div class="stat-value">${successRate}%</div></div>
             </div>
@@ -0,0 +1,23 @@
+using System;
+
+namespace App
+{
+    /// <summary>Sends mail.</summary>
+    public class Mailer : IMailer
+    {
+        public void Send(string to)
+        {
+            Log(to);
+        }
+
+        private static void Log(string message)
+        {
+            Console.WriteLine(message);
+        }
+    }
+
+    public interface IMailer
+    {
+        void Send(string to);
+    }
+}
@@ -0,0 +1,22 @@
+package app;
+
+import java.util.List;
+
+/**
+ * Keeps users.
+ */
+public class UserRepository implements Repository {
+    private final List<String> users;
+
+    public UserRepository(List<String> users) {
+        this.users = users;
+    }
+
+    public int count() {
+        return users.size();
+    }
+}
+
+interface Repository {
+    int count();
+}
@@ -0,0 +1,18 @@
+#include <stdio.h>
+
+/* A counter. */
+struct counter {
+    int value;
+};
+
+static int increment(struct counter *c)
+{
+    return ++c->value;
+}
+
+int main(void)
+{
+    struct counter c = { 0 };
+    printf("%d\n", increment(&c));
+    return 0;
+}
@@ -0,0 +1,40 @@
+#include <string>
+
+namespace geo {
+
+class Shape {
+public:
+    virtual double area() const = 0;
+};
+
+class Square : public Shape {
+public:
+    explicit Square(double side) : side_(side) {}
+    double area() const override { return side_ * side_; }
+    double perimeter() const;
+
+private:
+    double side_;
+};
+
+double total(const Shape &a, const Shape &b)
+{
+    return a.area() + b.area();
+}
+
+}
+
+class Circle {
+public:
+    Circle(double radius);
+
+private:
+    double radius_;
+};
+
+Circle::Circle(double radius) : radius_(radius) {}
+
+double geo::Square::perimeter() const
+{
+    return 4 * side_;
+}
@@ -0,0 +1,20 @@
+package shapes
+
+import "math"
+
+type Shape interface {
+	Area() float64
+}
+
+type Circle struct {
+	Radius float64
+}
+
+// Area of the circle.
+func (c Circle) Area() float64 {
+	return math.Pi * square(c.Radius)
+}
+
+func square(x float64) float64 {
+	return x * x
+}
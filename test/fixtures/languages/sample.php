@@ -0,0 +1,28 @@
+<?php
+
+namespace App;
+
+use App\Contracts\Cache;
+
+/**
+ * Array-backed cache.
+ */
+class ArrayCache implements Cache
+{
+    private array $items = [];
+
+    public function get(string $key)
+    {
+        return $this->items[$key] ?? null;
+    }
+
+    public static function make(): self
+    {
+        return new self();
+    }
+}
+
+function cache(): ArrayCache
+{
+    return ArrayCache::make();
+}
@@ -0,0 +1,17 @@
+import math
+
+
+class Circle:
+    """A circle of a given radius."""
+
+    def __init__(self, radius):
+        self.radius = radius
+
+    def area(self):
+        def square(x):
+            return x * x
+        return math.pi * square(self.radius)
+
+
+def unit_circle():
+    return Circle(1)
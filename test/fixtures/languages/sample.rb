@@ -0,0 +1,18 @@
+require 'json'
+
+# Formats reports.
+module Reports
+  class Formatter < Base
+    def initialize(rows)
+      @rows = rows
+    end
+
+    def to_json
+      JSON.generate(@rows)
+    end
+
+    def self.build(rows)
+      new(rows)
+    end
+  end
+end
@@ -0,0 +1,31 @@
+use std::fmt;
+
+/// A point in the plane.
+pub struct Point {
+    x: f64,
+    y: f64,
+}
+
+pub trait Norm {
+    fn norm(&self) -> f64;
+}
+
+impl Norm for Point {
+    fn norm(&self) -> f64 {
+        (self.x * self.x + self.y * self.y).sqrt()
+    }
+}
+
+pub enum Shape {
+    Dot(Point),
+}
+
+fn describe(p: &Point) -> String {
+    format!("{}", p.norm())
+}
+
+impl Point {
+    pub fn new(x: f64, y: f64) -> Self {
+        Point { x, y }
+    }
+}
@@ -0,0 +1,23 @@
+import { EventEmitter } from 'events';
+
+/** Counts ticks. */
+export class Counter extends EventEmitter {
+    private count = 0;
+
+    constructor(private readonly step: number) {
+        super();
+    }
+
+    tick(): number {
+        this.count += this.step;
+        return this.count;
+    }
+
+    reset = () => {
+        this.count = 0;
+    };
+}
+
+export function createCounter(): Counter {
+    return new Counter(1);
+}